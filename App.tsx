@@ -1,27 +1,135 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import ShaderCanvas from './components/ShaderCanvas';
-import Editor from './components/Editor';
+import Editor, { EditorDiff } from './components/Editor';
 import FuzzControls from './components/FuzzControls';
 import LogViewer from './components/LogViewer';
+import LineagePanel from './components/LineagePanel';
+import FindingsPanel from './components/FindingsPanel';
+import EvolutionPanel from './components/EvolutionPanel';
+import BreedingGallery from './components/BreedingGallery';
+import ChannelControls from './components/ChannelControls';
+import GeometryControls from './components/GeometryControls';
+import ComputePanel from './components/ComputePanel';
+import ProjectPanel from './components/ProjectPanel';
 import { fuzzShader } from './services/fuzzerService';
-import { PRESETS } from './constants';
-import { LogEntry, FuzzConfig, PresetName } from './types';
+import { reduceShader, sameErrorTest } from './services/reducerService';
+import { firedMutators, labelledDiff } from './services/provenanceService';
+import { getMutator } from './services/mutatorRegistry';
+import { checkCompute, checkFragment, executeCompute, renderFrames } from './services/gpuService';
+import { ComputeReport } from './services/computeService';
+import { isComputeSource } from './services/shaderSource';
+import { createFinding } from './services/findingsService';
+import { DEFAULT_DIFFERENTIAL_OPTIONS, GpuBackend, mismatchFinding, runDifferential } from './services/differentialService';
+import { createIndexedDbStore } from './services/findingsDb';
+import { downloadBlob } from './services/exportService';
+import { ProjectError, ProjectSummary, createProject, decodePermalink, encodePermalink, parseProject, projectFileName, serializeProject } from './services/projectService';
+import { createIndexedDbProjectStore, loadSession, saveSession } from './services/projectsDb';
+import { CorpusEntry, EvolutionState, EvolutionStats, createEvolution, evolve } from './services/evolutionService';
+import { FeatureCategory, featureCategory } from './services/coverageService';
+import { BreedingGeneration, BreedingTile, breedGeneration, seedGeneration } from './services/breedingService';
+import { WgslSyntaxError } from './services/wgsl/lexer';
+import { formatSeed, parseSeed, randomSeed } from './services/prng';
+import {
+  checkout,
+  commitNode,
+  createHistory,
+  describeConfig,
+  getCurrentNode,
+  redo,
+  setCompileResult,
+  setFitness,
+  undo,
+} from './services/historyService';
+import { getDefaultChannels } from './services/textureService';
+import { splitPasses } from './services/renderGraph';
+import { GlslImport } from './services/glsl/glslToWgsl';
+import { DEFAULT_FITNESS_THRESHOLD, formatScore, scoreShader } from './services/fitnessService';
+import { DEFAULT_FUZZ_CONFIG, PRESETS } from './constants';
+import { LogEntry, FuzzConfig, PresetName, HistoryState, CompileStatus, CompileFailure, Finding, FitnessSettings, FuzzResult, CompilationMessage, ChannelImage, DifferentialSettings, Project } from './types';
+
+type SidebarTab = 'lineage' | 'findings' | 'evolve' | 'projects';
+
+// Iterations per tick of the evolution loop; small enough to keep the UI responsive
+const EVOLVE_BATCH = 8;
+
+// Candidates rolled per Mutate press before giving up on reaching the fitness threshold
+const MAX_FITNESS_ATTEMPTS = 8;
+
+// Quiet time after the last change before the session is written to storage
+const AUTOSAVE_DELAY_MS = 1000;
+
+const findingStore = createIndexedDbStore();
+const projectStore = createIndexedDbProjectStore();
+
+const gpuBackend: GpuBackend = { renderFrames, executeCompute };
 
 const App: React.FC = () => {
   const [code, setCode] = useState<string>(PRESETS[0].code);
   const [compileError, setCompileError] = useState<string | null>(null);
+  const [diagnostics, setDiagnostics] = useState<CompilationMessage[]>([]);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [fuzzConfig, setFuzzConfig] = useState<FuzzConfig>({
-    mutateNumbers: true,
-    mutateOperators: false,
-    mutateBuiltins: false,
-    mutateGeometry: true,
-    mutateColor: true,
-    mutateChaos: false,
-    mutateStructure: false,
-    intensity: 0.2,
+  const [fuzzConfig, setFuzzConfig] = useState<FuzzConfig>(DEFAULT_FUZZ_CONFIG);
+  const [history, setHistory] = useState<HistoryState>(() =>
+    commitNode(createHistory(), null, { origin: 'preset', label: PRESETS[0].name, code: PRESETS[0].code })
+  );
+  const [seedInput, setSeedInput] = useState<string>('');
+  const [minimizeProgress, setMinimizeProgress] = useState<number | null>(null);
+  const [findings, setFindings] = useState<Finding[]>([]);
+  const [sidebarTab, setSidebarTab] = useState<SidebarTab>('lineage');
+  const evolutionRef = useRef<EvolutionState | null>(null);
+  const [evolutionStats, setEvolutionStats] = useState<EvolutionStats | null>(null);
+  const [corpusView, setCorpusView] = useState<CorpusEntry[]>([]);
+  const [coverageByCategory, setCoverageByCategory] = useState<Partial<Record<FeatureCategory, number>>>({});
+  const [evolving, setEvolving] = useState(false);
+  const [execsPerSec, setExecsPerSec] = useState(0);
+  const [channels, setChannels] = useState<ChannelImage[]>(getDefaultChannels);
+  const [breeding, setBreeding] = useState<{ generation: BreedingGeneration; favourites: number[] } | null>(null);
+  const [fitnessSettings, setFitnessSettings] = useState<FitnessSettings>({
+    autoReject: false,
+    threshold: DEFAULT_FITNESS_THRESHOLD,
+  });
+  const [differentialSettings, setDifferentialSettings] = useState<DifferentialSettings>({
+    enabled: false,
+    mode: 'fold',
+    backend: 'cpu',
   });
-  const [historyCount, setHistoryCount] = useState(0);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [projectName, setProjectName] = useState('Untitled');
+  // The session is only saved once the one kept last time, or a permalink, has been restored
+  const [sessionRestored, setSessionRestored] = useState(false);
+
+  const currentNode = getCurrentNode(history);
+  const epoch = currentNode?.epoch ?? 0;
+  const lastSeed = currentNode?.seed ?? null;
+
+  const passNames = useMemo(() => splitPasses(code).passes.map(p => p.name), [code]);
+  const computeMode = useMemo(() => isComputeSource(code), [code]);
+  // A pass picked for mutation goes away with the shader that had it
+  useEffect(() => {
+    if (fuzzConfig.pass && !passNames.includes(fuzzConfig.pass)) setFuzzConfig(prev => ({ ...prev, pass: undefined }));
+  }, [passNames, fuzzConfig.pass]);
+
+  const parentNode = currentNode?.parentId ? history.nodes[currentNode.parentId] : undefined;
+  const diff = useMemo<EditorDiff | null>(() => {
+    if (!currentNode || !parentNode) return null;
+    return {
+      before: parentNode.code,
+      after: currentNode.code,
+      hunks: labelledDiff(parentNode.code, currentNode.code, currentNode.changes ?? []),
+    };
+  }, [currentNode, parentNode]);
+
+  // Compile callbacks arrive asynchronously; only attribute a result to the
+  // current node if the editor still holds that node's code.
+  const codeRef = useRef(code);
+  codeRef.current = code;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const scoringRef = useRef(new Set<string>());
+  const differentialRef = useRef(differentialSettings);
+  differentialRef.current = differentialSettings;
+  const testedRef = useRef(new Set<string>());
+  const fuzzingRef = useRef(false);
 
   const addLog = useCallback((type: LogEntry['type'], message: string) => {
     setLogs(prev => [...prev, {
@@ -32,38 +140,498 @@ const App: React.FC = () => {
     }].slice(-50));
   }, []);
 
-  const handleCompilationError = useCallback((error: string) => {
+  const recordCompileResult = useCallback((status: CompileStatus, error: string | null) => {
+    setHistory(prev => {
+      const node = getCurrentNode(prev);
+      return node && node.code === codeRef.current ? setCompileResult(prev, node.id, status, error) : prev;
+    });
+  }, []);
+
+  useEffect(() => {
+    findingStore.list().then(setFindings).catch(() => addLog('warning', 'Findings database unavailable.'));
+  }, [addLog]);
+
+  const saveFinding = useCallback((finding: Finding) => {
+    findingStore.add(finding).then(isNew => {
+      if (!isNew) return;
+      setFindings(prev => [finding, ...prev]);
+      addLog('error', `New finding: ${finding.signature}`);
+    }).catch(() => addLog('warning', 'Could not save finding.'));
+  }, [addLog]);
+
+  /** Persists a failing mutant; hand edits that do not compile are not findings. */
+  const recordFinding = useCallback((failure: CompileFailure) => {
+    const state = historyRef.current;
+    const node = getCurrentNode(state);
+    if (!node || node.origin !== 'mutation' || node.code !== codeRef.current) return;
+
+    const parent = node.parentId ? state.nodes[node.parentId] : undefined;
+    const finding = createFinding({
+      ...failure,
+      source: node.code,
+      seed: node.seed,
+      config: node.config,
+      parentSource: parent?.code ?? null,
+      label: `Epoch ${node.epoch} · ${node.label}`,
+      origin: 'browser',
+    });
+    saveFinding(finding);
+  }, [saveFinding]);
+
+  const handleCompilationError = useCallback((error: string, failure: CompileFailure) => {
     setCompileError(error);
+    setDiagnostics(failure.messages);
+    recordCompileResult('error', error);
+    recordFinding(failure);
     addLog('error', 'Shader compilation failed.');
-  }, [addLog]);
+  }, [addLog, recordCompileResult, recordFinding]);
+
+  // Nodes that compile get a fitness score in the background, once; compute shaders draw nothing to score
+  const scoreCurrentNode = useCallback(() => {
+    const node = getCurrentNode(historyRef.current);
+    if (!node || isComputeSource(node.code) || node.fitness !== null || node.code !== codeRef.current || scoringRef.current.has(node.id)) return;
+    scoringRef.current.add(node.id);
+    scoreShader(node.code)
+      .then(report => setHistory(prev => setFitness(prev, node.id, report.score)))
+      .catch(() => scoringRef.current.delete(node.id));
+  }, []);
+
+  // With differential testing on, nodes that compile are tested once per mode and backend;
+  // a mismatch is an evaluator bug whoever wrote the shader, so hand edits count too
+  const testCurrentNode = useCallback(() => {
+    const settings = differentialRef.current;
+    const node = getCurrentNode(historyRef.current);
+    if (!settings.enabled || !node || node.code !== codeRef.current) return;
+    const key = `${node.id}:${settings.mode}:${settings.mode === 'backends' ? '' : settings.backend}`;
+    if (testedRef.current.has(key)) return;
+    testedRef.current.add(key);
+
+    runDifferential(node.code, { ...DEFAULT_DIFFERENTIAL_OPTIONS, mode: settings.mode, backend: settings.backend }, gpuBackend)
+      .then(result => {
+        if (result.status === 'skipped') {
+          addLog('info', `Differential test skipped: ${result.reason}.`);
+        } else if (result.status === 'match') {
+          addLog('success', `Differential test passed: ${result.summary}.`);
+        } else {
+          addLog('error', `Differential mismatch (${result.evidence.expected} vs ${result.evidence.actual}): ${result.evidence.summary}.`);
+          const parent = node.parentId ? historyRef.current.nodes[node.parentId] : undefined;
+          saveFinding(mismatchFinding(result.evidence, {
+            source: node.code,
+            seed: node.seed,
+            config: node.config,
+            parentSource: parent?.code ?? null,
+            label: `Epoch ${node.epoch} · ${node.label}`,
+            origin: 'browser',
+          }));
+        }
+      })
+      .catch(() => testedRef.current.delete(key));
+  }, [addLog, saveFinding]);
 
   const handleCompilationSuccess = useCallback(() => {
     setCompileError(null);
+    setDiagnostics([]);
+    recordCompileResult('ok', null);
+    scoreCurrentNode();
+    testCurrentNode();
     if (compileError) {
         addLog('success', 'Shader compiled successfully.');
     }
-  }, [compileError, addLog]);
+  }, [compileError, addLog, recordCompileResult, scoreCurrentNode, testCurrentNode]);
+
+  // Turning the test on, or switching what it compares, tests the shader already on screen
+  useEffect(() => {
+    if (getCurrentNode(historyRef.current)?.compileStatus === 'ok') testCurrentNode();
+  }, [differentialSettings, testCurrentNode]);
+
+  const handleComputeReport = useCallback((report: ComputeReport) => {
+    for (const flag of report.flags) addLog('warning', flag);
+  }, [addLog]);
+
+  // Hand edits made since the last epoch become their own node so a derived
+  // node's parent is exactly the code it was derived from.
+  const commitPendingEdit = (state: HistoryState, edited = code): HistoryState => {
+    const node = getCurrentNode(state);
+    return node && edited !== node.code ? commitNode(state, node.id, { origin: 'edit', label: 'Manual edit', code: edited }) : state;
+  };
+
+  const handleFuzz = async () => {
+    if (fuzzingRef.current) return;
+    fuzzingRef.current = true;
+    try {
+      // A pinned seed replays the exact same pass; otherwise roll fresh ones,
+      // re-rolling dull candidates when auto-reject is on
+      const pinned = parseSeed(seedInput);
+      const original = code;
+      const startId = history.currentId;
+      const autoReject = fitnessSettings.autoReject && !computeMode;
+      const attempts = pinned === null && autoReject ? MAX_FITNESS_ATTEMPTS : 1;
+      let accepted: (FuzzResult & { fitness?: number }) | null = null;
+
+      for (let attempt = 0; attempt < attempts && !accepted; attempt++) {
+        const seed = pinned ?? randomSeed();
+        addLog('info', `Running mutation pass (seed ${formatSeed(seed)})...`);
+        const result = fuzzShader(code, fuzzConfig, seed);
+        if (!autoReject) {
+          accepted = result;
+          break;
+        }
+        // Mutants that do not render are kept: they are findings, not dull art
+        const report = await scoreShader(result.code).catch(() => null);
+        if (!report || report.score >= fitnessSettings.threshold || pinned !== null) {
+          accepted = { ...result, fitness: report?.score };
+        } else {
+          addLog('warning', `Rejected seed ${formatSeed(seed)}: fitness ${formatScore(report.score)} below ${formatScore(fitnessSettings.threshold)}.`);
+        }
+      }
+
+      if (!accepted) {
+        addLog('error', `No candidate reached fitness ${formatScore(fitnessSettings.threshold)} in ${attempts} attempts.`);
+        return;
+      }
+
+      // Scoring awaits, so the user may have edited or moved on meanwhile; the mutant is of code they left
+      if (codeRef.current !== original || historyRef.current.currentId !== startId) {
+        addLog('warning', `Dropped seed ${formatSeed(accepted.seed)}: the shader changed while it was scored.`);
+        return;
+      }
+      let next = commitPendingEdit(historyRef.current, original);
+      next = commitNode(next, next.currentId, {
+        origin: 'mutation',
+        label: describeConfig(fuzzConfig),
+        code: accepted.code,
+        config: fuzzConfig,
+        seed: accepted.seed,
+        changes: accepted.changes,
+        fitness: accepted.fitness,
+      });
+      setHistory(next);
+      setCode(accepted.code);
+
+      const fired = firedMutators(accepted.changes).map(id => getMutator(id)?.label ?? id);
+      addLog('info', fired.length > 0
+        ? `Epoch ${getCurrentNode(next)?.epoch}: ${fired.join(', ')} (${accepted.changes.length} edits).`
+        : `Epoch ${getCurrentNode(next)?.epoch}: no mutator changed anything.`);
+    } catch (e) {
+      addLog('error', e instanceof WgslSyntaxError ? `Cannot parse shader: ${e.message}` : 'Fuzzing algorithm exception.');
+    } finally {
+      fuzzingRef.current = false;
+    }
+  };
+
+  const handleMinimize = async () => {
+    if (!compileError || minimizeProgress !== null) return;
+    const original = code;
+    const started = commitPendingEdit(history);
+    const parentId = started.currentId;
+    setHistory(started);
+    setMinimizeProgress(0);
+    addLog('info', 'Minimizing failing shader...');
 
-  const handleFuzz = () => {
     try {
-      addLog('info', `Running mutation pass...`);
-      const newCode = fuzzShader(code, fuzzConfig);
-      setCode(newCode);
-      setHistoryCount(prev => prev + 1);
+      const result = await reduceShader(original, sameErrorTest(computeMode ? checkCompute : checkFragment, compileError), {
+        onProgress: p => setMinimizeProgress(p.tests),
+      });
+      const percent = Math.round((1 - result.code.length / result.originalSize) * 100);
+      // Keep the result in the tree, but leave the editor alone if the user
+      // moved on while the reduction ran
+      const stillCurrent = codeRef.current === original;
+      setHistory(prev => {
+        const next = commitNode(prev, parentId, { origin: 'reduction', label: `Minimized (-${percent}%)`, code: result.code });
+        return stillCurrent || !prev.currentId ? next : checkout(next, prev.currentId);
+      });
+      if (stillCurrent) setCode(result.code);
+      addLog('success', `Minimized ${result.originalSize} → ${result.code.length} chars in ${result.tests} tests.`);
     } catch (e) {
-      addLog('error', 'Fuzzing algorithm exception.');
+      addLog('error', e instanceof Error ? e.message : 'Minimization failed.');
+    } finally {
+      setMinimizeProgress(null);
     }
   };
 
   const handleReset = (presetName: PresetName) => {
     const preset = PRESETS.find(p => p.name === presetName);
     if (preset) {
+      setHistory(prev => commitNode(prev, null, { origin: 'preset', label: preset.name, code: preset.code }));
       setCode(preset.code);
       addLog('info', `Loaded preset: ${presetName}`);
       setCompileError(null);
     }
   };
 
+  const handleImportGlsl = (imported: GlslImport, label: string) => {
+    setHistory(prev => commitNode(prev, null, { origin: 'import', label, code: imported.code }));
+    setCode(imported.code);
+    setCompileError(null);
+    const passes = imported.passes.length > 1 ? ` as ${imported.passes.length} passes` : '';
+    addLog('info', `Imported ${label}${passes}.`);
+    imported.notes.forEach(note => addLog('warning', note));
+  };
+
+  const handleLoadFinding = (finding: Finding) => {
+    setHistory(prev => commitNode(prev, null, {
+      origin: 'finding',
+      label: finding.label || 'Finding',
+      code: finding.source,
+      config: finding.config,
+      seed: finding.seed,
+    }));
+    setCode(finding.source);
+    setCompileError(null);
+    addLog('info', `Loaded finding: ${finding.signature}`);
+  };
+
+  const handleClearFindings = () => {
+    findingStore.clear().then(() => {
+      setFindings([]);
+      addLog('info', 'Findings cleared.');
+    }).catch(() => addLog('warning', 'Could not clear findings.'));
+  };
+
+  // -- Projects --
+
+  const refreshProjects = useCallback(() => {
+    projectStore.list().then(setProjects).catch(() => addLog('warning', 'Projects database unavailable.'));
+  }, [addLog]);
+
+  useEffect(refreshProjects, [refreshProjects]);
+
+  /** Replaces the session by a project's; its findings join the ones already recorded. */
+  const applyProject = useCallback((project: Project) => {
+    setHistory(project.history);
+    setCode(project.code);
+    setFuzzConfig(project.config);
+    setSeedInput(project.seed !== null ? formatSeed(project.seed) : '');
+    setCompileError(null);
+    if (project.findings.length === 0) return;
+    Promise.all(project.findings.map(f => findingStore.add(f)))
+      .then(added => {
+        const count = added.filter(Boolean).length;
+        if (count > 0) addLog('info', `Added ${count} findings from ${project.name}.`);
+        return findingStore.list();
+      })
+      .then(setFindings)
+      .catch(() => addLog('warning', 'Could not save the project findings.'));
+  }, [addLog]);
+
+  // A permalink wins over the session kept last time; it is dropped from
+  // the URL once opened, so reloading keeps any work done since
+  useEffect(() => {
+    decodePermalink(window.location.hash)
+      .then(shared => {
+        if (shared) {
+          setHistory(commitNode(createHistory(), null, {
+            origin: 'permalink',
+            label: 'Permalink',
+            code: shared.code,
+            config: shared.config,
+            seed: shared.lastSeed,
+          }));
+          setCode(shared.code);
+          setFuzzConfig(shared.config);
+          setSeedInput(shared.seed !== null ? formatSeed(shared.seed) : '');
+          window.history.replaceState(null, '', window.location.pathname + window.location.search);
+          addLog('info', 'Opened a shared shader.');
+          return;
+        }
+        const session = loadSession();
+        if (session) applyProject(session);
+      })
+      .catch(e => addLog('error', e instanceof ProjectError ? e.message : 'Could not open the permalink.'))
+      .finally(() => setSessionRestored(true));
+  }, [addLog, applyProject]);
+
+  const autosaveFailedRef = useRef(false);
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const timer = window.setTimeout(() => {
+      const saved = saveSession({ code, config: fuzzConfig, seed: parseSeed(seedInput), history });
+      if (!saved && !autosaveFailedRef.current) addLog('warning', 'The session is too large to keep across reloads; save it as a project.');
+      autosaveFailedRef.current = !saved;
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [sessionRestored, code, fuzzConfig, seedInput, history, addLog]);
+
+  const currentProject = (name: string) =>
+    createProject(name, { code, config: fuzzConfig, seed: parseSeed(seedInput), history, findings });
+
+  const handleSaveProject = (name: string) => {
+    projectStore.save(currentProject(name)).then(() => {
+      setProjectName(name);
+      refreshProjects();
+      addLog('success', `Saved project ${name}.`);
+    }).catch(() => addLog('warning', `Could not save project ${name}.`));
+  };
+
+  const handleLoadProject = (name: string) => {
+    projectStore.load(name).then(project => {
+      if (!project) {
+        addLog('warning', `Project ${name} is gone.`);
+        return;
+      }
+      applyProject(project);
+      setProjectName(name);
+      addLog('info', `Loaded project ${name}.`);
+    }).catch(e => addLog('error', e instanceof ProjectError ? `${name}: ${e.message}` : `Could not load project ${name}.`));
+  };
+
+  const handleRemoveProject = (name: string) => {
+    projectStore.remove(name).then(() => {
+      refreshProjects();
+      addLog('info', `Deleted project ${name}.`);
+    }).catch(() => addLog('warning', `Could not delete project ${name}.`));
+  };
+
+  const handleExportProject = () => {
+    const json = serializeProject(currentProject(projectName));
+    downloadBlob(new Blob([json], { type: 'application/json' }), projectFileName(projectName));
+  };
+
+  const handleImportProject = (file: File) => {
+    file.text().then(text => {
+      const project = parseProject(text);
+      applyProject(project);
+      setProjectName(project.name);
+      addLog('info', `Imported project ${project.name}.`);
+    }).catch(e => addLog('error', `${file.name}: ${e instanceof ProjectError ? e.message : 'could not be read.'}`));
+  };
+
+  const handleCopyPermalink = () => {
+    encodePermalink({ code, config: fuzzConfig, seed: parseSeed(seedInput), lastSeed })
+      .then(hash => {
+        const url = window.location.origin + window.location.pathname + window.location.search + hash;
+        return navigator.clipboard.writeText(url).then(() => addLog('success', `Copied a ${url.length}-character permalink.`));
+      })
+      .catch(() => addLog('warning', 'Could not copy the permalink.'));
+  };
+
+  // -- Coverage-guided evolution --
+
+  const publishEvolution = (state: EvolutionState) => {
+    const byCategory: Partial<Record<FeatureCategory, number>> = {};
+    for (const feature of state.coverage) {
+      const category = featureCategory(feature);
+      byCategory[category] = (byCategory[category] ?? 0) + 1;
+    }
+    setEvolutionStats({ ...state.stats });
+    setCoverageByCategory(byCategory);
+    setCorpusView([...state.corpus].reverse());
+  };
+
+  useEffect(() => {
+    if (!evolving) return;
+    let timer = 0;
+    let last = performance.now();
+    let lastIterations = evolutionRef.current?.stats.iterations ?? 0;
+    const tick = () => {
+      const state = evolutionRef.current;
+      if (!state) return;
+      evolve(state, EVOLVE_BATCH);
+      const now = performance.now();
+      if (now - last > 500) {
+        setExecsPerSec(((state.stats.iterations - lastIterations) * 1000) / (now - last));
+        last = now;
+        lastIterations = state.stats.iterations;
+      }
+      publishEvolution(state);
+      timer = window.setTimeout(tick, 0);
+    };
+    timer = window.setTimeout(tick, 0);
+    return () => window.clearTimeout(timer);
+  }, [evolving]);
+
+  const handleEvolveStart = () => {
+    if (!evolutionRef.current) {
+      const seed = parseSeed(seedInput) ?? randomSeed();
+      const state = createEvolution([code], fuzzConfig, seed);
+      if (state.corpus.length === 0) {
+        addLog('error', 'Cannot evolve: the editor shader does not parse.');
+        return;
+      }
+      evolutionRef.current = state;
+      addLog('info', `Evolving from the editor shader (seed ${formatSeed(seed)})...`);
+    }
+    publishEvolution(evolutionRef.current);
+    setEvolving(true);
+  };
+
+  const handleEvolveStop = () => {
+    setEvolving(false);
+    const stats = evolutionRef.current?.stats;
+    if (stats) addLog('info', `Evolution paused at ${stats.iterations} iterations, coverage ${stats.coverage}.`);
+  };
+
+  const handleEvolveReset = () => {
+    evolutionRef.current = null;
+    setEvolutionStats(null);
+    setCorpusView([]);
+    setCoverageByCategory({});
+  };
+
+  const handleLoadCorpusEntry = (entry: CorpusEntry) => {
+    setHistory(prev => commitNode(prev, null, {
+      origin: 'evolution',
+      label: `Corpus #${entry.id} (+${entry.newFeatures.length})`,
+      code: entry.code,
+      config: entry.seed !== null ? evolutionRef.current?.config : undefined,
+      seed: entry.seed,
+    }));
+    setCode(entry.code);
+    setCompileError(null);
+    addLog('info', `Loaded corpus entry #${entry.id}.`);
+  };
+
+  // -- Interactive breeding --
+
+  const handleBreedStart = () => {
+    const seed = parseSeed(seedInput) ?? randomSeed();
+    setBreeding({ generation: seedGeneration(code, fuzzConfig, seed), favourites: [] });
+    addLog('info', `Breeding from the editor shader (seed ${formatSeed(seed)}).`);
+  };
+
+  const handleToggleFavourite = (index: number) => {
+    setBreeding(prev => prev && {
+      ...prev,
+      favourites: prev.favourites.includes(index)
+        ? prev.favourites.filter(i => i !== index)
+        : [...prev.favourites, index],
+    });
+  };
+
+  const handleBreed = () => {
+    if (!breeding || breeding.favourites.length === 0) return;
+    const seed = randomSeed();
+    const generation = breedGeneration(breeding.generation, breeding.favourites, fuzzConfig, seed);
+    const crossovers = generation.tiles.filter(t => t.operator === 'crossover').length;
+    setBreeding({ generation, favourites: [] });
+    addLog('info', `Bred generation ${generation.index} from ${breeding.favourites.length} favourites (${crossovers} crossovers, seed ${formatSeed(seed)}).`);
+  };
+
+  const handleAdoptTile = (tile: BreedingTile) => {
+    if (!breeding) return;
+    // Tiles descend from gallery parents, not the editor shader, so a fuzz
+    // seed would not replay them: the node records the code only
+    let next = commitPendingEdit(history);
+    next = commitNode(next, next.currentId, {
+      origin: 'breeding',
+      label: `Bred G${breeding.generation.index} · ${tile.operator}`,
+      code: tile.code,
+    });
+    setHistory(next);
+    setCode(tile.code);
+    setCompileError(null);
+    addLog('success', `Kept a generation ${breeding.generation.index} tile.`);
+  };
+
+  const restore = (next: HistoryState) => {
+    const node = getCurrentNode(next);
+    if (!node || next === history) return;
+    setHistory(next);
+    setCode(node.code);
+    setCompileError(null);
+    addLog('info', `Restored epoch ${node.epoch} (${node.label})`);
+  };
+
   return (
     <div className="h-screen w-screen bg-black text-white flex overflow-hidden font-sans">
       
@@ -88,7 +656,16 @@ const App: React.FC = () => {
             setConfig={setFuzzConfig} 
             onFuzz={handleFuzz} 
             onReset={handleReset}
-            historyCount={historyCount}
+            onImportGlsl={handleImportGlsl}
+            historyCount={epoch}
+            seedInput={seedInput}
+            setSeedInput={setSeedInput}
+            lastSeed={lastSeed}
+            fitness={fitnessSettings}
+            setFitness={setFitnessSettings}
+            passes={passNames}
+            differential={differentialSettings}
+            setDifferential={setDifferentialSettings}
           />
         </div>
 
@@ -98,6 +675,10 @@ const App: React.FC = () => {
               code={code} 
               onChange={setCode} 
               error={compileError} 
+              onMinimize={handleMinimize}
+              minimizeProgress={minimizeProgress}
+              diff={diff}
+              diagnostics={diagnostics}
             />
         </div>
 
@@ -109,20 +690,111 @@ const App: React.FC = () => {
 
       {/* Right Canvas: Full Bleed */}
       <div className="flex-grow relative bg-zinc-950">
-        <ShaderCanvas 
-          fragmentCode={code} 
-          onCompilationError={handleCompilationError} 
-          onCompilationSuccess={handleCompilationSuccess}
-        />
-        
-        {/* Overlay Info */}
-        <div className="absolute top-8 right-8 text-right pointer-events-none mix-blend-difference">
-          <div className="text-8xl font-black text-white opacity-20 leading-none">
-            {historyCount.toString().padStart(3, '0')}
-          </div>
-          <div className="text-xs font-mono font-bold text-white uppercase tracking-widest mt-2">
-            Mutation Epoch
-          </div>
+        {breeding ? (
+          <BreedingGallery
+            generation={breeding.generation}
+            favourites={breeding.favourites}
+            onToggle={handleToggleFavourite}
+            onBreed={handleBreed}
+            onAdopt={handleAdoptTile}
+            onExit={() => setBreeding(null)}
+            channels={channels}
+          />
+        ) : computeMode ? (
+          <ComputePanel
+            computeCode={code}
+            parentCode={parentNode?.code ?? null}
+            onCompilationError={handleCompilationError}
+            onCompilationSuccess={handleCompilationSuccess}
+            onReport={handleComputeReport}
+          />
+        ) : (
+          <>
+            <ShaderCanvas
+              fragmentCode={code}
+              onCompilationError={handleCompilationError}
+              onCompilationSuccess={handleCompilationSuccess}
+              channels={channels}
+              exportable
+            />
+
+            <div className="absolute bottom-8 left-8 flex flex-col items-start gap-3">
+              <GeometryControls code={code} onChange={setCode} />
+              <ChannelControls channels={channels} onChange={setChannels} onError={message => addLog('error', message)} />
+            </div>
+
+            <button
+              onClick={handleBreedStart}
+              className="absolute top-8 left-8 px-3 py-1.5 border border-white/20 bg-black/40 text-[10px] font-mono font-bold text-white uppercase tracking-widest hover:border-emerald-500 hover:text-emerald-400 transition-colors"
+              title="Pick favourites from a gallery of mutants and breed them"
+            >
+              Breed
+            </button>
+
+            {/* Overlay Info */}
+            <div className="absolute top-8 right-8 text-right pointer-events-none mix-blend-difference">
+              <div className="text-8xl font-black text-white opacity-20 leading-none">
+                {epoch.toString().padStart(3, '0')}
+              </div>
+              <div className="text-xs font-mono font-bold text-white uppercase tracking-widest mt-2">
+                Mutation Epoch
+              </div>
+              {lastSeed !== null && (
+                <div className="text-[10px] font-mono text-white opacity-50 tracking-widest mt-1">
+                  SEED {formatSeed(lastSeed)}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Right Sidebar: Lineage & Findings */}
+      <div className="w-[280px] flex-shrink-0 border-l border-zinc-900 bg-black z-10 flex flex-col">
+        <div className="flex border-b border-zinc-900 text-xs font-bold uppercase tracking-widest">
+          {(['lineage', 'findings', 'evolve', 'projects'] as SidebarTab[]).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setSidebarTab(tab)}
+              className={`flex-1 py-3 transition-colors ${sidebarTab === tab ? 'text-white border-b border-emerald-500' : 'text-zinc-600 hover:text-zinc-400'}`}
+            >
+              {tab}{tab === 'findings' && findings.length > 0 ? ` ${findings.length}` : ''}
+            </button>
+          ))}
+        </div>
+        <div className="flex-grow min-h-0">
+          {sidebarTab === 'lineage' ? (
+            <LineagePanel
+              history={history}
+              onSelect={id => restore(checkout(history, id))}
+              onUndo={() => restore(undo(history))}
+              onRedo={() => restore(redo(history))}
+            />
+          ) : sidebarTab === 'findings' ? (
+            <FindingsPanel findings={findings} onLoad={handleLoadFinding} onClear={handleClearFindings} />
+          ) : sidebarTab === 'projects' ? (
+            <ProjectPanel
+              projects={projects}
+              onSave={handleSaveProject}
+              onLoad={handleLoadProject}
+              onRemove={handleRemoveProject}
+              onExport={handleExportProject}
+              onImport={handleImportProject}
+              onCopyPermalink={handleCopyPermalink}
+            />
+          ) : (
+            <EvolutionPanel
+              stats={evolutionStats}
+              coverageByCategory={coverageByCategory}
+              corpus={corpusView}
+              running={evolving}
+              execsPerSec={execsPerSec}
+              onStart={handleEvolveStart}
+              onStop={handleEvolveStop}
+              onReset={handleEvolveReset}
+              onLoad={handleLoadCorpusEntry}
+            />
+          )}
         </div>
       </div>
 
@@ -0,0 +1,117 @@
+import React, { useCallback, useState } from 'react';
+import ShaderCanvas from './ShaderCanvas';
+import { BreedingGeneration, BreedingTile } from '../services/breedingService';
+import { formatSeed } from '../services/prng';
+import { ChannelImage } from '../types';
+
+interface BreedingGalleryProps {
+  generation: BreedingGeneration;
+  favourites: number[];
+  onToggle: (index: number) => void;
+  onBreed: () => void;
+  onAdopt: (tile: BreedingTile) => void;
+  onExit: () => void;
+  channels: ChannelImage[];
+}
+
+// Drawing buffer size of a tile; small so a full gallery renders at interactive rates
+const TILE_SIZE = 320;
+
+const describeTile = (tile: BreedingTile): string => {
+  const parents = tile.parents.map(p => `#${p + 1}`).join(' × ');
+  return parents ? `${tile.operator} ${parents}` : tile.operator;
+};
+
+const Tile: React.FC<{
+  tile: BreedingTile;
+  index: number;
+  selected: boolean;
+  onToggle: () => void;
+  onAdopt: () => void;
+  channels: ChannelImage[];
+}> = ({ tile, index, selected, onToggle, onAdopt, channels }) => {
+  const [broken, setBroken] = useState(false);
+  const handleError = useCallback(() => setBroken(true), []);
+  const handleSuccess = useCallback(() => setBroken(false), []);
+
+  return (
+    <div
+      onClick={broken ? undefined : onToggle}
+      className={`group relative bg-black overflow-hidden border-2 transition-colors ${
+        selected ? 'border-emerald-500' : broken ? 'border-red-900/50' : 'border-zinc-900 hover:border-zinc-600 cursor-pointer'
+      }`}
+    >
+      <ShaderCanvas
+        fragmentCode={tile.code}
+        onCompilationError={handleError}
+        onCompilationSuccess={handleSuccess}
+        width={TILE_SIZE}
+        height={TILE_SIZE}
+        channels={channels}
+      />
+      {broken && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80 text-red-600 font-mono text-[10px] uppercase tracking-widest">
+          compile error
+        </div>
+      )}
+      <div className="absolute bottom-0 inset-x-0 flex items-center gap-2 px-2 py-1 bg-black/60 font-mono text-[10px] text-zinc-400">
+        <span className="font-bold text-zinc-200">#{index + 1}</span>
+        <span className="truncate flex-grow">{describeTile(tile)}</span>
+        {tile.seed !== null && <span className="opacity-40">{formatSeed(tile.seed)}</span>}
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onAdopt();
+          }}
+          className="opacity-0 group-hover:opacity-100 font-bold uppercase tracking-widest text-emerald-400 hover:text-white transition-opacity"
+          title="Load this shader into the editor"
+        >
+          Keep
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A grid of live shader tiles. Clicking a tile marks it as a favourite;
+ * Breed replaces the gallery with a generation bred from the favourites.
+ */
+const BreedingGallery: React.FC<BreedingGalleryProps> = ({ generation, favourites, onToggle, onBreed, onAdopt, onExit, channels }) => (
+  <div className="w-full h-full flex flex-col bg-zinc-950">
+    <div className="flex items-center gap-4 px-8 py-4 border-b border-zinc-900 font-mono text-xs">
+      <span className="font-bold text-white uppercase tracking-widest">Generation {generation.index}</span>
+      <span className="text-zinc-500 flex-grow">
+        {favourites.length === 0 ? 'click tiles to pick favourites' : `${favourites.length} favourite${favourites.length === 1 ? '' : 's'}`}
+      </span>
+      <button
+        onClick={onBreed}
+        disabled={favourites.length === 0}
+        className="px-4 py-1.5 bg-white text-black font-black uppercase tracking-wide hover:bg-emerald-400 disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+      >
+        Breed
+      </button>
+      <button
+        onClick={onExit}
+        className="px-3 py-1.5 border border-zinc-800 text-zinc-400 font-bold uppercase tracking-widest hover:border-zinc-600 hover:text-white transition-colors"
+      >
+        Exit
+      </button>
+    </div>
+    <div className="flex-grow min-h-0 p-4 grid grid-cols-3 auto-rows-fr gap-2">
+      {generation.tiles.map((tile, index) => (
+        <Tile
+          key={tile.id}
+          tile={tile}
+          index={index}
+          selected={favourites.includes(index)}
+          onToggle={() => onToggle(index)}
+          onAdopt={() => onAdopt(tile)}
+          channels={channels}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+export default BreedingGallery;
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from 'react';
+import { ChannelImage } from '../types';
+import { TEXTURE_BINDINGS } from '../services/shaderSource';
+import { randomSeed } from '../services/prng';
+import { NOISE_KINDS, NoiseKind, generateNoise, loadImageChannel } from '../services/textureService';
+
+interface ChannelControlsProps {
+  channels: ChannelImage[];
+  onChange: (channels: ChannelImage[]) => void;
+  onError: (message: string) => void;
+}
+
+const THUMB_SIZE = 40;
+
+const Thumbnail: React.FC<{ channel: ChannelImage }> = ({ channel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!context) return;
+    canvasRef.current!.width = channel.width;
+    canvasRef.current!.height = channel.height;
+    context.putImageData(new ImageData(channel.pixels, channel.width, channel.height), 0, 0);
+  }, [channel]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: THUMB_SIZE, height: THUMB_SIZE }}
+      className="border border-white/20 bg-black [image-rendering:pixelated]"
+    />
+  );
+};
+
+/** Picks what each `channelN` texture holds: generated noise or a loaded image. */
+const ChannelControls: React.FC<ChannelControlsProps> = ({ channels, onChange, onError }) => {
+  const setChannel = (index: number, channel: ChannelImage) =>
+    onChange(channels.map((c, i) => (i === index ? channel : c)));
+
+  const handleFile = async (index: number, file: File | undefined) => {
+    if (!file) return;
+    try {
+      setChannel(index, await loadImageChannel(file, file.name));
+    } catch (e: any) {
+      onError(`Could not load ${file.name}: ${e.message}`);
+    }
+  };
+
+  return (
+    <div className="flex gap-3">
+      {TEXTURE_BINDINGS.map((binding, i) => (
+        <div key={binding.name} className="flex items-center gap-2 px-2 py-1.5 bg-black/60 border border-white/10">
+          <Thumbnail channel={channels[i]} />
+          <div className="flex flex-col gap-1 font-mono text-[10px]">
+            <span className="font-bold text-zinc-300 uppercase tracking-widest" title={channels[i].label}>{binding.name}</span>
+            <div className="flex gap-1">
+              <select
+                value=""
+                onChange={e => setChannel(i, generateNoise(e.target.value as NoiseKind, randomSeed()))}
+                className="bg-zinc-900 text-zinc-400 border border-zinc-800 outline-none"
+                title="Replace with generated noise"
+              >
+                <option value="" disabled>noise</option>
+                {NOISE_KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+              </select>
+              <label className="px-1.5 border border-zinc-800 text-zinc-400 hover:border-emerald-500 hover:text-emerald-400 cursor-pointer transition-colors" title="Load an image file">
+                image
+                <input
+                  type="file"
+                  accept="image/*"
+                  className="hidden"
+                  onChange={e => {
+                    handleFile(i, e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChannelControls;
@@ -0,0 +1,356 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CompilationMessage } from '../types';
+import { HighlightKind, HighlightToken, highlight, matchBracket } from '../services/wgsl/highlight';
+import { CompletionItem, HoverInfo, SymbolKind, findDefinition, getCompletions, getHover } from '../services/wgsl/languageService';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics?: CompilationMessage[]; // Positions relative to `value`
+}
+
+export interface CodeEditorHandle {
+  /** Selects a range and scrolls it into view. */
+  reveal: (offset: number, length: number) => void;
+}
+
+interface Mark {
+  start: number;
+  end: number;
+  className: string;
+}
+
+interface CompletionState {
+  from: number;
+  items: CompletionItem[];
+  index: number;
+}
+
+interface HoverState extends HoverInfo {
+  line: number;
+  col: number;
+}
+
+const NO_DIAGNOSTICS: CompilationMessage[] = [];
+const LINE_HEIGHT = 20;
+const PADDING_Y = 32;
+const INDENT = '    ';
+const HOVER_DELAY_MS = 350;
+const IDENT_CHAR = /[A-Za-z0-9_]/;
+
+const KIND_CLASSES: Record<HighlightKind, string> = {
+  comment: 'text-zinc-600 italic',
+  keyword: 'text-fuchsia-400',
+  type: 'text-sky-400',
+  builtin: 'text-amber-300',
+  helper: 'text-emerald-400',
+  attribute: 'text-orange-400',
+  number: 'text-lime-300',
+  ident: 'text-zinc-300',
+  bracket: 'text-zinc-400',
+  punct: 'text-zinc-500',
+  space: '',
+};
+
+const SYMBOL_CLASSES: Record<SymbolKind, string> = {
+  local: 'text-zinc-300',
+  param: 'text-zinc-300',
+  function: 'text-emerald-400',
+  global: 'text-sky-300',
+  uniform: 'text-sky-300',
+  helper: 'text-emerald-400',
+  builtin: 'text-amber-300',
+  type: 'text-sky-400',
+  keyword: 'text-fuchsia-400',
+};
+
+const SEVERITY_CLASSES: Record<CompilationMessage['type'], string> = {
+  error: 'underline decoration-wavy decoration-red-500',
+  warning: 'underline decoration-wavy decoration-amber-400',
+  info: 'underline decoration-dotted decoration-zinc-500',
+};
+
+/** Squiggle range of a message: at least one character, clamped to the text. */
+const diagnosticMark = (msg: CompilationMessage, textLength: number): Mark => {
+  const start = Math.min(msg.offset, Math.max(0, textLength - 1));
+  return { start, end: Math.min(textLength, start + Math.max(1, msg.length)), className: SEVERITY_CLASSES[msg.type] };
+};
+
+/** Zero-based line and column of an offset. */
+const lineColumnAt = (code: string, offset: number): { line: number; col: number } => {
+  const before = code.slice(0, offset).split('\n');
+  return { line: before.length - 1, col: before[before.length - 1].length };
+};
+
+/** Splits highlight tokens at mark boundaries so each piece gets one set of classes. */
+const renderCode = (code: string, tokens: HighlightToken[], marks: Mark[]): React.ReactNode[] => {
+  const nodes: React.ReactNode[] = [];
+  for (const token of tokens) {
+    const cuts = new Set([token.start, token.end]);
+    for (const m of marks) {
+      if (m.start > token.start && m.start < token.end) cuts.add(m.start);
+      if (m.end > token.start && m.end < token.end) cuts.add(m.end);
+    }
+    const points = [...cuts].sort((a, b) => a - b);
+    for (let k = 0; k < points.length - 1; k++) {
+      const [from, to] = [points[k], points[k + 1]];
+      const extra = marks.filter(m => m.start <= from && m.end >= to).map(m => m.className);
+      const className = [KIND_CLASSES[token.kind], ...extra].join(' ').trim();
+      nodes.push(className ? <span key={from} className={className}>{code.slice(from, to)}</span> : code.slice(from, to));
+    }
+  }
+  return nodes;
+};
+
+/**
+ * WGSL editor: a transparent textarea over a highlighted copy of its text,
+ * with line numbers, bracket matching and squiggles for compiler messages.
+ * Completions pop up while typing (or on Ctrl+Space), hovering a name shows
+ * its signature, and Ctrl/Cmd+click or F12 jumps to its declaration.
+ */
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ value, onChange, diagnostics = NO_DIAGNOSTICS }, ref) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const pendingSelection = useRef<number | null>(null);
+  const hoverTimer = useRef<number | null>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [charWidth, setCharWidth] = useState(7);
+  const [completion, setCompletion] = useState<CompletionState | null>(null);
+  const [hover, setHover] = useState<HoverState | null>(null);
+
+  const tokens = useMemo(() => highlight(value), [value]);
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const located = useMemo(() => diagnostics.filter(d => d.lineNum > 0), [diagnostics]);
+
+  const marks = useMemo(() => {
+    const result = located.map(d => diagnosticMark(d, value.length));
+    const pair = caret !== null ? matchBracket(tokens, value, caret) : null;
+    if (pair) {
+      for (const at of pair) result.push({ start: at, end: at + 1, className: 'bg-zinc-700 text-white rounded-sm' });
+    }
+    return result;
+  }, [located, tokens, value, caret]);
+
+  const lineMessages = useMemo(() => {
+    const byLine = new Map<number, CompilationMessage[]>();
+    for (const d of located) byLine.set(d.lineNum, [...(byLine.get(d.lineNum) ?? []), d]);
+    return byLine;
+  }, [located]);
+
+  // Edits made on key presses replace the value; put the caret back after React re-renders
+  useLayoutEffect(() => {
+    if (pendingSelection.current === null || !textareaRef.current) return;
+    textareaRef.current.setSelectionRange(pendingSelection.current, pendingSelection.current);
+    pendingSelection.current = null;
+  }, [value]);
+
+  // Popups are placed by column, so they need the width of one monospace character
+  useLayoutEffect(() => {
+    if (measureRef.current) setCharWidth(measureRef.current.getBoundingClientRect().width / 10);
+  }, []);
+
+  useEffect(() => () => {
+    if (hoverTimer.current !== null) window.clearTimeout(hoverTimer.current);
+  }, []);
+
+  const reveal = (offset: number, length: number) => {
+    const textarea = textareaRef.current;
+    const scroller = scrollRef.current;
+    if (!textarea || !scroller) return;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset + length);
+    setCaret(offset);
+    const { line } = lineColumnAt(value, offset);
+    scroller.scrollTop = Math.max(0, PADDING_Y + line * LINE_HEIGHT - scroller.clientHeight / 3);
+  };
+
+  useImperativeHandle(ref, () => ({ reveal }), [value]);
+
+  const insert = (text: string, start: number, end: number) => {
+    pendingSelection.current = start + text.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+  };
+
+  const openCompletions = (code: string, offset: number) => {
+    const found = getCompletions(code, offset);
+    setCompletion(found ? { ...found, index: 0 } : null);
+  };
+
+  const acceptCompletion = (item: CompletionItem, end: number) => {
+    if (!completion) return;
+    insert(item.label, completion.from, end);
+    setCompletion(null);
+  };
+
+  const goToDefinition = (offset: number) => {
+    const target = findDefinition(value, offset);
+    if (target) reveal(target.offset, target.length);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    const at = e.target.selectionStart;
+    onChange(next);
+    setHover(null);
+    // Only a typed identifier character opens or narrows the list; anything else closes it
+    if (next.length === value.length + 1 && IDENT_CHAR.test(next[at - 1] ?? '')) openCompletions(next, at);
+    else setCompletion(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const { selectionStart: start, selectionEnd: end } = e.currentTarget;
+    if (completion) {
+      const count = completion.items.length;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCompletion({ ...completion, index: (completion.index + step + count) % count });
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptCompletion(completion.items[completion.index], start);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCompletion(null);
+        return;
+      }
+    }
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      openCompletions(value, start);
+    } else if (e.key === 'F12') {
+      e.preventDefault();
+      goToDefinition(start);
+    } else if (e.key === 'Tab' && !e.shiftKey) {
+      e.preventDefault();
+      insert(INDENT, start, end);
+    } else if (e.key === 'Enter' && !e.altKey && !e.ctrlKey && !e.metaKey) {
+      // Keep the current line's indentation, one level deeper after an opening brace
+      e.preventDefault();
+      const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+      const indent = value.slice(lineStart).match(/^[ \t]*/)![0];
+      insert('\n' + indent + (value[start - 1] === '{' ? INDENT : ''), start, end);
+    }
+  };
+
+  const trackCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    setCaret(selectionStart === selectionEnd ? selectionStart : null);
+    // Moving the caret away from the word being completed closes the list
+    if (completion && (selectionStart !== selectionEnd || selectionStart < completion.from)) setCompletion(null);
+  };
+
+  /** Text offset under a pointer position, or null past the end of a line. */
+  const offsetAtPoint = (e: React.MouseEvent<HTMLTextAreaElement>): { offset: number; line: number; col: number } | null => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const line = Math.floor((e.clientY - rect.top - PADDING_Y) / LINE_HEIGHT);
+    const col = Math.floor((e.clientX - rect.left) / charWidth);
+    if (line < 0 || line >= lines.length || col < 0 || col >= lines[line].length) return null;
+    let offset = col;
+    for (let i = 0; i < line; i++) offset += lines[i].length + 1;
+    return { offset, line, col };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    if (hoverTimer.current !== null) window.clearTimeout(hoverTimer.current);
+    const point = offsetAtPoint(e);
+    if (!point || (hover && point.offset >= hover.start && point.offset < hover.end)) {
+      if (!point) setHover(null);
+      return;
+    }
+    setHover(null);
+    hoverTimer.current = window.setTimeout(() => {
+      const info = getHover(value, point.offset);
+      if (info) setHover({ ...info, ...lineColumnAt(value, info.start) });
+    }, HOVER_DELAY_MS);
+  };
+
+  const handleMouseLeave = () => {
+    if (hoverTimer.current !== null) window.clearTimeout(hoverTimer.current);
+    setHover(null);
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    if (!e.ctrlKey && !e.metaKey) return;
+    const point = offsetAtPoint(e);
+    if (point) goToDefinition(point.offset);
+  };
+
+  const completionAnchor = completion ? lineColumnAt(value, completion.from) : null;
+
+  const height = PADDING_Y * 2 + lines.length * LINE_HEIGHT;
+
+  return (
+    <div ref={scrollRef} className="w-full h-full overflow-auto no-scrollbar bg-black font-mono text-xs">
+      <div className="flex min-w-full w-max" style={{ minHeight: height, lineHeight: `${LINE_HEIGHT}px` }}>
+        <div className="sticky left-0 z-10 flex-shrink-0 bg-black pl-4 pr-3 text-right select-none" style={{ paddingTop: PADDING_Y, paddingBottom: PADDING_Y }}>
+          {lines.map((_, i) => {
+            const messages = lineMessages.get(i + 1);
+            const severity = messages?.some(m => m.type === 'error') ? 'text-red-500' : messages ? 'text-amber-400' : 'text-zinc-700';
+            return (
+              <div key={i} className={severity} title={messages?.map(m => m.message).join('\n')}>
+                {i + 1}
+              </div>
+            );
+          })}
+        </div>
+        <div className="relative flex-grow">
+          <pre aria-hidden className="m-0 pr-8 whitespace-pre font-mono text-xs text-zinc-400" style={{ paddingTop: PADDING_Y, paddingBottom: PADDING_Y, lineHeight: `${LINE_HEIGHT}px` }}>
+            {renderCode(value, tokens, marks)}
+            {/* A trailing newline needs a character after it to take up a line */}
+            {' '}
+          </pre>
+          <textarea
+            ref={textareaRef}
+            value={value}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onSelect={trackCaret}
+            onBlur={() => { setCaret(null); setCompletion(null); }}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={handleMouseLeave}
+            onClick={handleClick}
+            spellCheck={false}
+            wrap="off"
+            className="absolute inset-0 w-full h-full pr-8 overflow-hidden whitespace-pre font-mono text-xs bg-transparent text-transparent caret-white outline-none resize-none selection:bg-emerald-900/60"
+            style={{ paddingTop: PADDING_Y, paddingBottom: PADDING_Y, lineHeight: `${LINE_HEIGHT}px` }}
+          />
+          <span ref={measureRef} aria-hidden className="absolute invisible whitespace-pre">{'M'.repeat(10)}</span>
+          {completion && completionAnchor && (
+            <ul
+              className="absolute z-20 max-h-60 w-96 overflow-y-auto no-scrollbar rounded border border-zinc-800 bg-zinc-950 py-1 shadow-xl"
+              style={{ top: PADDING_Y + (completionAnchor.line + 1) * LINE_HEIGHT, left: completionAnchor.col * charWidth }}
+            >
+              {completion.items.map((item, i) => (
+                <li
+                  key={item.label}
+                  // Keep focus in the textarea so the caret survives the click
+                  onMouseDown={e => { e.preventDefault(); acceptCompletion(item, textareaRef.current?.selectionStart ?? completion.from); }}
+                  className={`flex items-baseline gap-3 px-2 cursor-pointer ${i === completion.index ? 'bg-zinc-800' : 'hover:bg-zinc-900'}`}
+                >
+                  <span className={SYMBOL_CLASSES[item.kind]}>{item.label}</span>
+                  <span className="ml-auto truncate text-[10px] text-zinc-600">{item.detail}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {hover && !completion && (
+            <div
+              className="pointer-events-none absolute z-20 max-w-xl rounded border border-zinc-800 bg-zinc-950 px-2 py-1 shadow-xl"
+              style={{ top: PADDING_Y + (hover.line + 1) * LINE_HEIGHT, left: hover.col * charWidth }}
+            >
+              <div className={`whitespace-pre-wrap ${SYMBOL_CLASSES[hover.kind]}`}>{hover.signature}</div>
+              {hover.doc && <div className="mt-1 font-sans text-zinc-500">{hover.doc}</div>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export default CodeEditor;
@@ -0,0 +1,221 @@
+import React, { useEffect, useState } from 'react';
+import { CompileFailure } from '../types';
+import { COMPUTE_BINDINGS } from '../services/shaderSource';
+import { randomSeed } from '../services/prng';
+import { compileCompute, dispatchCompute, formatCompileErrors, getGpuDevice } from '../services/gpuService';
+import {
+  ComputeBaseline,
+  ComputeReport,
+  DEFAULT_INPUT_SEED,
+  compareCompute,
+  computeWorkgroups,
+  createComputeBuffers,
+  interpretCompute,
+} from '../services/computeService';
+import { StorageData } from '../services/wgsl/interpreter';
+
+interface ComputePanelProps {
+  computeCode: string;
+  parentCode: string | null; // Code the current shader was mutated from, for the parent baseline
+  onCompilationError: (error: string, failure: CompileFailure) => void;
+  onCompilationSuccess: () => void;
+  onReport: (report: ComputeReport) => void;
+}
+
+interface ComputeResult {
+  inputs: Map<number, StorageData>;
+  gpu: Map<number, StorageData>;
+  baseline: Map<number, StorageData> | null;
+  baselineError: string | null;
+  workgroups: [number, number, number];
+  report: ComputeReport | null;
+}
+
+// Leading elements listed in the output table
+const SHOWN_ELEMENTS = 64;
+
+const [INPUT, OUTPUT, COUNTERS] = COMPUTE_BINDINGS.map(b => b.binding);
+
+const formatValue = (x: number | undefined): string =>
+  x === undefined ? '-' : Number.isInteger(x) ? `${x}` : x.toPrecision(6);
+
+/**
+ * Compute mode: dispatches the shader on the GPU over seeded storage
+ * buffers and compares the results with a baseline, the CPU interpreter
+ * or the GPU running the parent shader. Takes the place of `ShaderCanvas`
+ * for shaders with a `@compute` entry point.
+ */
+const ComputePanel: React.FC<ComputePanelProps> = ({
+  computeCode,
+  parentCode,
+  onCompilationError,
+  onCompilationSuccess,
+  onReport,
+}) => {
+  const [baselineKind, setBaselineKind] = useState<ComputeBaseline>('reference');
+  const [inputSeed, setInputSeed] = useState(DEFAULT_INPUT_SEED);
+  const [result, setResult] = useState<ComputeResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const run = async () => {
+      let device: any;
+      try {
+        device = await getGpuDevice();
+      } catch (e: any) {
+        setError(e.message);
+        return;
+      }
+
+      device.pushErrorScope('validation');
+      const { module, messages } = await compileCompute(device, computeCode, 'Fuzzed Compute');
+      const compileErrors = formatCompileErrors(messages);
+      await device.popErrorScope();
+      if (cancelled) return;
+      if (compileErrors) {
+        onCompilationError(compileErrors, { messages, scopeError: null });
+        return;
+      }
+
+      const inputs = createComputeBuffers(inputSeed);
+      let gpu: Map<number, StorageData>;
+      let workgroups: [number, number, number];
+      try {
+        workgroups = computeWorkgroups(computeCode);
+        gpu = await dispatchCompute(device, module, inputs, workgroups);
+      } catch (e: any) {
+        if (!cancelled) onCompilationError(e.message, { messages, scopeError: e.message });
+        return;
+      }
+      if (cancelled) return;
+      onCompilationSuccess();
+
+      // The CPU run always happens: it is the only source of out-of-bounds counts
+      let reference: ReturnType<typeof interpretCompute> | null = null;
+      let referenceError: string | null = null;
+      try {
+        reference = interpretCompute(computeCode, inputs);
+      } catch (e: any) {
+        referenceError = `CPU reference: ${e.message}`;
+      }
+
+      let baseline: Map<number, StorageData> | null = reference?.buffers ?? null;
+      let baselineError = referenceError;
+      if (baselineKind === 'parent') {
+        baseline = null;
+        baselineError = parentCode === null ? 'This shader has no parent' : null;
+        if (parentCode !== null) {
+          try {
+            const parent = await compileCompute(device, parentCode, 'Parent Compute');
+            const parentErrors = formatCompileErrors(parent.messages);
+            if (parentErrors) throw new Error(parentErrors);
+            baseline = await dispatchCompute(device, parent.module, inputs, computeWorkgroups(parentCode));
+          } catch (e: any) {
+            baselineError = `Parent: ${e.message}`;
+          }
+        }
+      }
+      if (cancelled) return;
+
+      const report = baseline ? compareCompute(baseline, gpu, reference?.run.outOfBoundsCount ?? 0) : null;
+      setResult({ inputs, gpu, baseline, baselineError, workgroups, report });
+      if (report) onReport(report);
+    };
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [computeCode, parentCode, baselineKind, inputSeed, onCompilationError, onCompilationSuccess, onReport]);
+
+  if (error) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-black text-red-600 font-mono p-12 text-center">
+        <div className="max-w-md">
+            <h3 className="font-bold mb-2">GPU INITIALIZATION FAILURE</h3>
+            <p className="text-sm opacity-50">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const buttonClass = (active: boolean) =>
+    `px-2 py-1 border transition-colors ${active ? 'border-emerald-500 text-emerald-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`;
+  const diffAt = new Set(result?.report?.diffs.filter(d => d.buffer === 'output').map(d => d.index));
+  const counters = result ? Array.from(result.gpu.get(COUNTERS)!, (x, i) => ({ i, gpu: x, baseline: result.baseline?.get(COUNTERS)![i] }))
+    .filter(c => c.gpu !== 0 || (c.baseline ?? 0) !== 0) : [];
+
+  return (
+    <div className="w-full h-full flex flex-col bg-zinc-950 font-mono text-[10px] text-zinc-400 p-8 pt-20 gap-4 overflow-hidden">
+      <div className="flex items-center gap-2">
+        <span className="text-zinc-600 uppercase tracking-widest mr-2">Baseline</span>
+        <button onClick={() => setBaselineKind('reference')} className={buttonClass(baselineKind === 'reference')}>CPU reference</button>
+        <button onClick={() => setBaselineKind('parent')} className={buttonClass(baselineKind === 'parent')}>Parent</button>
+        <button onClick={() => setInputSeed(randomSeed())} className={`${buttonClass(false)} ml-auto`} title="Run again on freshly seeded inputs">
+          Reseed inputs
+        </button>
+      </div>
+
+      {result && (
+        <div className="space-y-1">
+          <div className="text-zinc-600">
+            {result.workgroups.join('×')} workgroups · {result.gpu.get(OUTPUT)!.length} elements
+          </div>
+          {result.baselineError && <div className="text-amber-500">{result.baselineError}</div>}
+          {result.report && result.report.flags.length === 0 && <div className="text-emerald-400">Results match the baseline</div>}
+          {result.report?.flags.map(flag => <div key={flag} className="text-red-500">{flag}</div>)}
+        </div>
+      )}
+
+      {result && (
+        <div className="flex gap-6 min-h-0 flex-grow">
+          <div className="flex-grow overflow-y-auto no-scrollbar">
+            <table className="w-full text-right">
+              <thead className="text-zinc-600 sticky top-0 bg-zinc-950">
+                <tr><th className="text-left font-normal">#</th><th className="font-normal">input</th><th className="font-normal">gpu</th><th className="font-normal">baseline</th></tr>
+              </thead>
+              <tbody>
+                {Array.from({ length: Math.min(SHOWN_ELEMENTS, result.gpu.get(OUTPUT)!.length) }, (_, i) => (
+                  <tr key={i} className={diffAt.has(i) ? 'text-red-500' : !Number.isFinite(result.gpu.get(OUTPUT)![i]) ? 'text-amber-500' : ''}>
+                    <td className="text-left text-zinc-600">{i}</td>
+                    <td>{formatValue(result.inputs.get(INPUT)![i])}</td>
+                    <td>{formatValue(result.gpu.get(OUTPUT)![i])}</td>
+                    <td>{formatValue(result.baseline?.get(OUTPUT)![i])}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="w-64 flex-shrink-0 overflow-y-auto no-scrollbar space-y-4">
+            <div>
+              <div className="text-zinc-600 uppercase tracking-widest mb-1">Counters</div>
+              {counters.length === 0 && <div className="text-zinc-800 italic">_all_zero</div>}
+              {counters.map(c => (
+                <div key={c.i} className={`flex justify-between ${c.baseline !== undefined && c.baseline !== c.gpu ? 'text-red-500' : ''}`}>
+                  <span className="text-zinc-600">[{c.i}]</span>
+                  <span>{c.gpu} / {formatValue(c.baseline)}</span>
+                </div>
+              ))}
+            </div>
+            {result.report && result.report.diffs.length > 0 && (
+              <div>
+                <div className="text-zinc-600 uppercase tracking-widest mb-1">Differences</div>
+                {result.report.diffs.map(d => (
+                  <div key={`${d.buffer}${d.index}`} className="flex justify-between">
+                    <span className="text-zinc-600">{d.buffer}[{d.index}]</span>
+                    <span><span className="text-red-500">{formatValue(d.actual)}</span> / {formatValue(d.expected)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComputePanel;
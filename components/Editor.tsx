@@ -1,30 +1,140 @@
 
-import React from 'react';
+import React, { useRef, useState } from 'react';
+import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+import { CompilationMessage, DiffHunk } from '../types';
+import { getMutator } from '../services/mutatorRegistry';
+
+/** The current node against its parent. */
+export interface EditorDiff {
+  before: string;
+  after: string;
+  hunks: DiffHunk[];
+}
 
 interface EditorProps {
   code: string;
   onChange: (newCode: string) => void;
   error?: string | null;
+  onMinimize?: () => void;
+  minimizeProgress?: number | null; // Tests run so far while a reduction is in flight
+  diff?: EditorDiff | null;
+  diagnostics?: CompilationMessage[]; // Compiler messages, positioned relative to `code`
 }
 
-const Editor: React.FC<EditorProps> = ({ code, onChange, error }) => {
+type EditorView = 'source' | 'diff';
+
+const CONTEXT_LINES = 2;
+
+const mutatorLabel = (id: string): string => getMutator(id)?.label ?? id;
+
+const DiffLine: React.FC<{ kind: ' ' | '-' | '+'; line: number | null; text: string }> = ({ kind, line, text }) => (
+  <div className={`flex ${kind === '-' ? 'bg-red-950/40 text-red-300' : kind === '+' ? 'bg-emerald-950/40 text-emerald-300' : 'text-zinc-600'}`}>
+    <span className="w-10 flex-shrink-0 pr-2 text-right opacity-40 select-none">{line ?? ''}</span>
+    <span className="w-4 flex-shrink-0 select-none">{kind}</span>
+    <span className="whitespace-pre">{text}</span>
+  </div>
+);
+
+/** Unified diff, each hunk headed by the mutators that produced it. */
+const DiffView: React.FC<{ diff: EditorDiff }> = ({ diff }) => {
+  const after = diff.after.split('\n');
+  if (diff.hunks.length === 0) {
+    return <div className="p-8 text-zinc-800 italic font-mono text-xs">_identical_to_parent</div>;
+  }
+  return (
+    <div className="h-full overflow-auto no-scrollbar py-6 font-mono text-xs leading-relaxed">
+      {diff.hunks.map((hunk, i) => {
+        const end = hunk.newStart + hunk.newLines.length;
+        const lead = Math.max(0, hunk.newStart - CONTEXT_LINES);
+        const trail = Math.min(after.length, end + CONTEXT_LINES);
+        return (
+          <div key={i} className="mb-4">
+            <div className="flex items-center gap-2 px-4 py-1 text-[10px] text-zinc-500 border-y border-zinc-900 bg-zinc-950">
+              <span>@@ -{hunk.oldStart + 1},{hunk.oldLines.length} +{hunk.newStart + 1},{hunk.newLines.length} @@</span>
+              {hunk.mutators.length === 0
+                ? <span className="text-zinc-700">edit</span>
+                : hunk.mutators.map(id => (
+                  <span key={id} className="px-1.5 border border-emerald-900 text-emerald-500 uppercase tracking-widest">{mutatorLabel(id)}</span>
+                ))}
+            </div>
+            {after.slice(lead, hunk.newStart).map((text, k) => <DiffLine key={`a${k}`} kind=" " line={lead + k + 1} text={text} />)}
+            {hunk.oldLines.map((text, k) => <DiffLine key={`o${k}`} kind="-" line={null} text={text} />)}
+            {hunk.newLines.map((text, k) => <DiffLine key={`n${k}`} kind="+" line={hunk.newStart + k + 1} text={text} />)}
+            {after.slice(end, trail).map((text, k) => <DiffLine key={`z${k}`} kind=" " line={end + k + 1} text={text} />)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const Editor: React.FC<EditorProps> = ({ code, onChange, error, onMinimize, minimizeProgress = null, diff = null, diagnostics }) => {
+  const [view, setView] = useState<EditorView>('source');
+  const showDiff = view === 'diff' && diff !== null;
+  const editorRef = useRef<CodeEditorHandle>(null);
+  const located = (diagnostics ?? []).filter(d => d.type === 'error' && d.lineNum > 0);
+
+  const reveal = (msg: CompilationMessage) => {
+    setView('source');
+    // The source view may only mount on this render
+    requestAnimationFrame(() => editorRef.current?.reveal(msg.offset, msg.length));
+  };
+
   return (
     <div className="flex flex-col h-full relative group">
-      <div className="absolute top-0 left-0 right-0 bg-gradient-to-b from-black to-transparent h-4 z-10 pointer-events-none"></div>
-      
-      <div className="flex-grow relative bg-black">
-        <textarea
-          className="w-full h-full bg-black text-zinc-400 font-mono text-xs p-8 leading-relaxed outline-none resize-none selection:bg-emerald-900 selection:text-white"
-          value={code}
-          onChange={(e) => onChange(e.target.value)}
-          spellCheck={false}
-        />
+      <div className="flex gap-4 px-8 pt-3 text-[10px] font-mono font-bold uppercase tracking-widest">
+        {(['source', 'diff'] as EditorView[]).map(v => (
+          <button
+            key={v}
+            onClick={() => setView(v)}
+            disabled={v === 'diff' && diff === null}
+            className={`transition-colors disabled:opacity-30 ${(v === 'diff') === showDiff ? 'text-white' : 'text-zinc-600 enabled:hover:text-zinc-400'}`}
+          >
+            {v === 'diff' && diff ? `diff ${diff.hunks.length}` : v}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-grow relative bg-black min-h-0">
+        <div className="absolute top-0 left-0 right-0 bg-gradient-to-b from-black to-transparent h-4 z-10 pointer-events-none"></div>
+        {diff && showDiff ? (
+          <DiffView diff={diff} />
+        ) : (
+          <CodeEditor ref={editorRef} value={code} onChange={onChange} diagnostics={diagnostics} />
+        )}
       </div>
 
       {error && (
         <div className="absolute bottom-4 left-4 right-4 bg-red-500/10 backdrop-blur border-l-2 border-red-500 p-3 shadow-2xl">
-          <div className="text-red-500 text-[10px] font-bold uppercase tracking-widest mb-1">Compilation Failure</div>
-          <pre className="text-red-300 text-xs font-mono whitespace-pre-wrap">{error}</pre>
+          <div className="flex items-center justify-between mb-1">
+            <div className="text-red-500 text-[10px] font-bold uppercase tracking-widest">Compilation Failure</div>
+            {onMinimize && (
+              <button
+                onClick={onMinimize}
+                disabled={minimizeProgress !== null}
+                title="Shrink the shader while it keeps failing with this error"
+                className="text-[10px] font-mono font-bold uppercase tracking-widest text-red-400 hover:text-white disabled:text-red-800 transition-colors"
+              >
+                {minimizeProgress === null ? 'Minimize' : `Minimizing… ${minimizeProgress}`}
+              </button>
+            )}
+          </div>
+          {located.length > 0 ? (
+            <div className="max-h-32 overflow-y-auto no-scrollbar">
+              {located.map((msg, i) => (
+                <button
+                  key={i}
+                  onClick={() => reveal(msg)}
+                  className="w-full flex gap-2 text-left text-red-300 hover:text-white text-xs font-mono"
+                >
+                  <span className="flex-shrink-0 text-red-500">{msg.lineNum}:{msg.linePos}</span>
+                  <span className="whitespace-pre-wrap">{msg.message}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <pre className="text-red-300 text-xs font-mono whitespace-pre-wrap">{error}</pre>
+          )}
         </div>
       )}
     </div>
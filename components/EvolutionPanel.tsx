@@ -0,0 +1,94 @@
+import React from 'react';
+import { FEATURE_CATEGORIES, FeatureCategory } from '../services/coverageService';
+import { CorpusEntry, EvolutionStats } from '../services/evolutionService';
+import { formatSeed } from '../services/prng';
+
+interface EvolutionPanelProps {
+  stats: EvolutionStats | null;
+  coverageByCategory: Partial<Record<FeatureCategory, number>>;
+  corpus: CorpusEntry[]; // Newest first
+  running: boolean;
+  execsPerSec: number;
+  onStart: () => void;
+  onStop: () => void;
+  onReset: () => void;
+  onLoad: (entry: CorpusEntry) => void;
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; alert?: boolean }> = ({ label, value, alert }) => (
+  <div className="flex justify-between">
+    <span className="text-zinc-600">{label}</span>
+    <span className={`font-bold ${alert ? 'text-red-500' : 'text-zinc-300'}`}>{value}</span>
+  </div>
+);
+
+/**
+ * Live view of the coverage-guided loop: run controls, AFL-style counters,
+ * coverage per feature category and the corpus, newest first.
+ */
+const EvolutionPanel: React.FC<EvolutionPanelProps> = ({
+  stats,
+  coverageByCategory,
+  corpus,
+  running,
+  execsPerSec,
+  onStart,
+  onStop,
+  onReset,
+  onLoad,
+}) => {
+  const buttonClass = 'flex-1 py-1.5 text-[10px] font-bold uppercase tracking-widest border border-zinc-800 transition-colors disabled:opacity-30 disabled:cursor-not-allowed enabled:hover:border-emerald-500/50 enabled:hover:text-emerald-400';
+
+  return (
+    <div className="h-full flex flex-col font-mono text-[10px]">
+      <div className="p-4 space-y-3 border-b border-zinc-900">
+        <div className="flex gap-2 text-zinc-400">
+          {running
+            ? <button onClick={onStop} className={buttonClass}>Pause</button>
+            : <button onClick={onStart} className={buttonClass}>{stats ? 'Resume' : 'Evolve'}</button>}
+          <button onClick={onReset} disabled={!stats || running} className={buttonClass}>Reset</button>
+        </div>
+        {stats && (
+          <div className="space-y-1">
+            <Stat label="iterations" value={stats.iterations} />
+            <Stat label="execs / s" value={running ? execsPerSec.toFixed(0) : '-'} />
+            <Stat label="corpus" value={stats.corpusSize} />
+            <Stat label="coverage" value={stats.coverage} />
+            <Stat label="diagnostics" value={stats.diagnostics} alert={stats.diagnostics > 0} />
+            <Stat label="failing / crashes" value={`${stats.failing} / ${stats.crashes}`} alert={stats.crashes > 0} />
+            <Stat label="since last new" value={stats.iterations - stats.lastNewAt} />
+          </div>
+        )}
+        {stats && (
+          <div className="grid grid-cols-3 gap-1 pt-1">
+            {FEATURE_CATEGORIES.map(category => (
+              <div key={category} className="bg-zinc-950 border border-zinc-900 px-1.5 py-1">
+                <div className="text-zinc-600">{category}</div>
+                <div className="text-zinc-300 font-bold">{coverageByCategory[category] ?? 0}</div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex-grow overflow-y-auto no-scrollbar py-2">
+        {!stats && <div className="px-4 text-zinc-800 italic">_evolves_from_the_editor_shader</div>}
+        {corpus.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onLoad(entry)}
+            title={entry.newFeatures.join('\n')}
+            className="w-full flex items-center gap-2 px-3 py-1 text-left text-zinc-500 hover:bg-zinc-900/50 hover:text-zinc-300 transition-colors"
+          >
+            <span className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${entry.ok ? 'bg-emerald-500' : 'bg-red-600'}`} />
+            <span className="font-bold text-zinc-400 w-8 flex-shrink-0">#{entry.id}</span>
+            <span className="text-emerald-500 w-8 flex-shrink-0">+{entry.newFeatures.length}</span>
+            <span className="truncate flex-grow">{entry.newFeatures[0] ?? 'seed'}</span>
+            {entry.seed !== null && <span className="opacity-40 flex-shrink-0">{formatSeed(entry.seed)}</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default EvolutionPanel;
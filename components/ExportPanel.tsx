@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { ChannelImage } from '../types';
+import { streamFrames } from '../services/gpuService';
+import { streamFramesCpu } from '../services/cpuRenderer';
+import {
+  DEFAULT_EXPORT_SETTINGS,
+  ExportSettings,
+  ExportSource,
+  SEQUENCE_FORMATS,
+  SequenceFormat,
+  downloadBlob,
+  exportFileName,
+  exportSequence,
+  exportStill,
+  findLoopPeriod,
+} from '../services/exportService';
+import { exportPage } from '../services/pageExport';
+import { createZip } from '../services/zipWriter';
+import { formatGlslEs, formatShadertoy, transpileToShadertoy } from '../services/glsl/wgslToGlsl';
+
+interface ExportPanelProps {
+  fragmentCode: string;
+  channels: ChannelImage[];
+  cpu: boolean; // Render with the CPU renderer, for browsers without WebGPU
+}
+
+const SIZES: [number, number][] = [[256, 256], [512, 512], [1024, 1024], [1280, 720], [1920, 1080]];
+const FRAME_RATES = [15, 30, 60];
+
+// Range the loop search looks for a period in, in seconds
+const MIN_LOOP_PERIOD = 0.5;
+const MAX_LOOP_PERIOD = 10;
+
+const chipClass = (active: boolean) =>
+  `px-2 py-1 border text-[10px] font-mono uppercase tracking-wider transition-colors ${active ? 'border-emerald-500 text-emerald-400' : 'border-zinc-800 text-zinc-500 hover:text-zinc-300'}`;
+
+const NumberField: React.FC<{ label: string; value: number; step: number; min: number; onChange: (value: number) => void }> = ({ label, value, step, min, onChange }) => (
+  <label className="flex items-center justify-between gap-2">
+    <span className="text-zinc-600 uppercase tracking-widest">{label}</span>
+    <input
+      type="number"
+      value={value}
+      step={step}
+      min={min}
+      onChange={e => {
+        const x = parseFloat(e.target.value);
+        if (Number.isFinite(x) && x >= min) onChange(x);
+      }}
+      className="w-20 bg-zinc-950 border border-zinc-800 px-2 py-0.5 text-right text-zinc-300 outline-none focus:border-emerald-600"
+    />
+  </label>
+);
+
+/** What a code export reports: how many passes it holds and anything the translation changed. */
+const codeSummary = (what: string, passes: number, notes: string[]) =>
+  [`${what} ${passes} pass${passes === 1 ? '' : 'es'}.`, ...notes].join(' ');
+
+/**
+ * Renders the shader offscreen at a fixed size and timestep: a still at
+ * one time, or a sequence as PNGs, GIF or WebM, optionally as long as a
+ * loop the search finds. The code itself exports as Shadertoy GLSL or as
+ * a standalone WebGPU page.
+ */
+const ExportPanel: React.FC<ExportPanelProps> = ({ fragmentCode, channels, cpu }) => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [format, setFormat] = useState<SequenceFormat>('gif');
+  const [progress, setProgress] = useState<{ label: string; done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const update = (changes: Partial<ExportSettings>) => setSettings(prev => ({ ...prev, ...changes }));
+  const source: ExportSource = { code: fragmentCode, channels, stream: cpu ? streamFramesCpu : streamFrames };
+  const busy = progress !== null;
+
+  /** Runs one export job at a time, reporting its progress and how it ended. */
+  const run = async (label: string, job: (signal: AbortSignal) => Promise<string>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setMessage(null);
+    setProgress({ label, done: 0, total: 1 });
+    try {
+      setMessage({ text: await job(controller.signal), error: false });
+    } catch (e: any) {
+      setMessage({ text: e.message, error: true });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const onProgress = (label: string) => (done: number, total: number) => setProgress({ label, done, total });
+
+  const handleStill = () => run('Still', async () => {
+    downloadBlob(await exportStill(source, settings), exportFileName(settings, 'png'));
+    return `Saved a ${settings.width}×${settings.height} still at t=${settings.time}.`;
+  });
+
+  const handleSequence = () => run('Frames', async signal => {
+    const blob = await exportSequence(source, format, settings, onProgress('Frames'), signal);
+    downloadBlob(blob, exportFileName(settings, format));
+    return `Saved ${(blob.size / 1024).toFixed(0)} KB of ${format}.`;
+  });
+
+  const handleFindLoop = () => run('Loop search', async signal => {
+    const loop = await findLoopPeriod(source, settings, MIN_LOOP_PERIOD, MAX_LOOP_PERIOD, onProgress('Loop search'), signal);
+    update({ duration: loop.period });
+    const seam = `${(loop.error * 100).toFixed(1)}% seam difference`;
+    return loop.seamless
+      ? `Loops every ${loop.period.toFixed(3)}s (${loop.frames} frames, ${seam}).`
+      : `No seamless loop under ${MAX_LOOP_PERIOD}s; the closest is ${loop.period.toFixed(3)}s (${seam}).`;
+  });
+
+  const handleShadertoy = () => run('Shadertoy', async () => {
+    const exported = transpileToShadertoy(fragmentCode);
+    await navigator.clipboard.writeText(formatShadertoy(exported));
+    return codeSummary('Copied', exported.passes.length, exported.notes);
+  });
+
+  const handleGlsl = () => run('GLSL', async () => {
+    const exported = transpileToShadertoy(fragmentCode);
+    const files = exported.passes.map(p => ({ name: `${p.name}.frag`, text: formatGlslEs(p) }));
+    if (files.length === 1) downloadBlob(new Blob([files[0].text], { type: 'text/plain' }), 'shader.frag');
+    else downloadBlob(createZip(files.map(f => ({ name: f.name, data: new TextEncoder().encode(f.text) }))), 'shader-glsl.zip');
+    return codeSummary('Saved', exported.passes.length, exported.notes);
+  });
+
+  const handlePage = () => run('Page', async () => {
+    const page = exportPage(fragmentCode, channels);
+    downloadBlob(new Blob([page], { type: 'text/html' }), 'shader.html');
+    return `Saved a ${(page.length / 1024).toFixed(0)} KB page; it needs a browser with WebGPU.`;
+  });
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="absolute bottom-8 right-8 px-3 py-1.5 border border-white/20 bg-black/40 text-[10px] font-mono font-bold text-white uppercase tracking-widest hover:border-emerald-500 hover:text-emerald-400 transition-colors"
+        title="Render a still or an animation of the shader, or export its code"
+      >
+        Export
+      </button>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-8 right-8 w-72 p-4 space-y-3 bg-black/80 border border-white/10 font-mono text-[10px] text-zinc-400">
+      <div className="flex justify-between items-baseline">
+        <span className="text-xs font-bold text-zinc-300 uppercase tracking-widest">Export</span>
+        <button onClick={() => setOpen(false)} className="text-zinc-600 hover:text-zinc-300" title="Close">×</button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {SIZES.map(([width, height]) => (
+          <button
+            key={`${width}x${height}`}
+            onClick={() => update({ width, height })}
+            className={chipClass(settings.width === width && settings.height === height)}
+          >
+            {width}×{height}
+          </button>
+        ))}
+      </div>
+
+      <NumberField label="Time" value={settings.time} step={0.1} min={0} onChange={time => update({ time })} />
+      <button onClick={handleStill} disabled={busy} className={`${chipClass(false)} w-full disabled:opacity-30`}>
+        Still PNG
+      </button>
+
+      <div className="pt-2 border-t border-zinc-900 space-y-2">
+        <NumberField label="Duration" value={settings.duration} step={0.1} min={0.1} onChange={duration => update({ duration })} />
+        <div className="flex items-center justify-between">
+          <span className="text-zinc-600 uppercase tracking-widest">FPS</span>
+          <div className="flex gap-1">
+            {FRAME_RATES.map(fps => (
+              <button key={fps} onClick={() => update({ fps })} className={chipClass(settings.fps === fps)}>{fps}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-zinc-600 uppercase tracking-widest">Format</span>
+          <div className="flex gap-1">
+            {SEQUENCE_FORMATS.map(f => (
+              <button key={f} onClick={() => setFormat(f)} className={chipClass(format === f)}>{f === 'zip' ? 'png zip' : f}</button>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-1">
+          <button
+            onClick={handleFindLoop}
+            disabled={busy}
+            className={`${chipClass(false)} flex-1 disabled:opacity-30`}
+            title={`Set the duration to the period, up to ${MAX_LOOP_PERIOD}s, after which the shader repeats`}
+          >
+            Find loop
+          </button>
+          <button onClick={handleSequence} disabled={busy} className={`${chipClass(false)} flex-1 disabled:opacity-30`}>
+            Export {Math.max(1, Math.round(settings.duration * settings.fps))} frames
+          </button>
+        </div>
+      </div>
+
+      <div className="pt-2 border-t border-zinc-900 space-y-2">
+        <span className="text-zinc-600 uppercase tracking-widest">Code</span>
+        <div className="flex gap-1">
+          <button
+            onClick={handleShadertoy}
+            disabled={busy}
+            className={`${chipClass(false)} flex-1 disabled:opacity-30`}
+            title="Copy the shader translated to GLSL, one mainImage per Shadertoy tab"
+          >
+            Copy Shadertoy
+          </button>
+          <button
+            onClick={handleGlsl}
+            disabled={busy}
+            className={`${chipClass(false)} flex-1 disabled:opacity-30`}
+            title="Save each pass as a GLSL ES 3.0 fragment shader"
+          >
+            GLSL
+          </button>
+          <button
+            onClick={handlePage}
+            disabled={busy}
+            className={`${chipClass(false)} flex-1 disabled:opacity-30`}
+            title="Save an HTML page that runs the WGSL with WebGPU, without the app"
+          >
+            HTML
+          </button>
+        </div>
+      </div>
+
+      {progress && (
+        <div className="space-y-1">
+          <div className="flex justify-between">
+            <span>{progress.label} {progress.done}/{progress.total}</span>
+            <button onClick={() => abortRef.current?.abort()} className="text-zinc-600 hover:text-red-500">Cancel</button>
+          </div>
+          <div className="h-0.5 bg-zinc-900">
+            <div className="h-full bg-emerald-500" style={{ width: `${(100 * progress.done) / Math.max(1, progress.total)}%` }} />
+          </div>
+        </div>
+      )}
+      {message && <div className={`max-h-32 overflow-y-auto whitespace-pre-wrap ${message.error ? 'text-red-500' : 'text-emerald-500'}`}>{message.text}</div>}
+      {cpu && <div className="text-amber-500">No WebGPU: the CPU renders exports, slowly. Keep them small.</div>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -0,0 +1,140 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { DifferentialEvidence, Finding, FindingGroup, FindingImage } from '../types';
+import { decodeImage, groupFindings } from '../services/findingsService';
+import { formatSeed } from '../services/prng';
+
+interface FindingsPanelProps {
+  findings: Finding[];
+  onLoad: (finding: Finding) => void;
+  onClear: () => void;
+}
+
+const formatSeen = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString() ? date.toLocaleTimeString() : date.toLocaleDateString();
+};
+
+/** A stored image at its own resolution, scaled up without smoothing. */
+const ImageThumb: React.FC<{ image: FindingImage; label: string }> = ({ image, label }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx) ctx.putImageData(new ImageData(decodeImage(image), image.width, image.height), 0, 0);
+  }, [image]);
+
+  return (
+    <div className="flex flex-col items-center gap-0.5">
+      <canvas ref={canvasRef} width={image.width} height={image.height} className="w-16 h-16 border border-zinc-800" style={{ imageRendering: 'pixelated' }} />
+      <span className="text-zinc-600">{label}</span>
+    </div>
+  );
+};
+
+/** What the two evaluators of a differential mismatch produced, and where they differ. */
+const DifferentialDetail: React.FC<{ evidence: DifferentialEvidence }> = ({ evidence }) => (
+  <div className="pl-11 pr-3 pb-1 space-y-1">
+    <div className="text-amber-500">{evidence.summary}</div>
+    {evidence.images && (
+      <div className="flex gap-2">
+        <ImageThumb image={evidence.images.expected} label={evidence.expected} />
+        <ImageThumb image={evidence.images.actual} label={evidence.actual} />
+        <ImageThumb image={evidence.images.heatmap} label="difference" />
+      </div>
+    )}
+  </div>
+);
+
+const GroupRow: React.FC<{
+  group: FindingGroup;
+  expanded: boolean;
+  onToggle: () => void;
+  onLoad: (finding: Finding) => void;
+}> = ({ group, expanded, onToggle, onLoad }) => (
+  <div className="border-b border-zinc-900">
+    <div className="flex items-start gap-2 px-3 py-2 hover:bg-zinc-900/50 transition-colors">
+      <button
+        onClick={onToggle}
+        className="w-6 flex-shrink-0 text-left font-bold text-red-500 hover:text-white"
+        title={expanded ? 'Hide findings' : 'Show findings'}
+      >
+        {group.count}
+      </button>
+      <button
+        onClick={() => onLoad(group.findings[0])}
+        title={`${group.signature}\n\nClick to load the latest finding`}
+        className="flex-grow min-w-0 text-left"
+      >
+        <div className="text-zinc-300 line-clamp-2 break-words">{group.signature}</div>
+        <div className="text-zinc-600 mt-1">
+          first {formatSeen(group.firstSeen)} · last {formatSeen(group.lastSeen)}
+        </div>
+      </button>
+    </div>
+    {expanded && (
+      <div className="pb-2">
+        {group.findings.map(finding => (
+          <React.Fragment key={finding.id}>
+            <button
+              onClick={() => onLoad(finding)}
+              className="w-full flex gap-2 pl-11 pr-3 py-0.5 text-left text-zinc-500 hover:text-zinc-200 hover:bg-zinc-900/50"
+            >
+              <span className="truncate flex-grow">{finding.label || finding.id}</span>
+              {finding.seed !== null && <span className="opacity-40 flex-shrink-0">{formatSeed(finding.seed)}</span>}
+            </button>
+            {finding.differential && <DifferentialDetail evidence={finding.differential} />}
+          </React.Fragment>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+/**
+ * Failing shaders grouped by error signature. Clicking a group loads its most
+ * recent finding; the count expands the group to pick a specific one, with
+ * the images of differential mismatches.
+ */
+const FindingsPanel: React.FC<FindingsPanelProps> = ({ findings, onLoad, onClear }) => {
+  const groups = useMemo(() => groupFindings(findings), [findings]);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (signature: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(signature)) next.add(signature);
+      return next;
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col font-mono text-[10px]">
+      <div className="p-4 flex items-center justify-between border-b border-zinc-900 text-zinc-500">
+        <span>
+          {findings.length} findings · {groups.length} signatures
+        </span>
+        <button
+          onClick={onClear}
+          disabled={findings.length === 0}
+          className="font-bold uppercase tracking-widest hover:text-red-400 disabled:opacity-30 transition-colors"
+        >
+          Clear
+        </button>
+      </div>
+      <div className="flex-grow overflow-y-auto no-scrollbar">
+        {groups.length === 0 && <div className="p-4 text-zinc-800 italic">_no_failures_recorded</div>}
+        {groups.map(group => (
+          <GroupRow
+            key={group.signature}
+            group={group}
+            expanded={expanded.has(group.signature)}
+            onToggle={() => toggle(group.signature)}
+            onLoad={onLoad}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default FindingsPanel;
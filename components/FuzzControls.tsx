@@ -1,22 +1,43 @@
 import React from 'react';
-import { FuzzConfig, PresetName } from '../types';
+import { DifferentialBackend, DifferentialMode, DifferentialSettings, FitnessSettings, FuzzConfig, PresetName } from '../types';
 import { PRESETS } from '../constants';
+import { formatSeed, parseSeed } from '../services/prng';
+import { Mutator, getMutators, isMutatorEnabled } from '../services/mutatorRegistry';
+import { GlslImport } from '../services/glsl/glslToWgsl';
+import GlslImportPanel from './GlslImportPanel';
 
 interface FuzzControlsProps {
   config: FuzzConfig;
   setConfig: React.Dispatch<React.SetStateAction<FuzzConfig>>;
   onFuzz: () => void;
   onReset: (presetName: PresetName) => void;
+  onImportGlsl: (imported: GlslImport, label: string) => void;
   historyCount: number;
+  seedInput: string;
+  setSeedInput: (value: string) => void;
+  lastSeed: number | null;
+  fitness: FitnessSettings;
+  setFitness: React.Dispatch<React.SetStateAction<FitnessSettings>>;
+  passes: string[]; // Pass names of the current shader; one for single-pass shaders
+  differential: DifferentialSettings;
+  setDifferential: React.Dispatch<React.SetStateAction<DifferentialSettings>>;
 }
 
+const DIFFERENTIAL_MODES: { mode: DifferentialMode; label: string; title: string }[] = [
+  { mode: 'fold', label: 'fold', title: 'Compare with the constant-folded shader' },
+  { mode: 'inline', label: 'inline', title: 'Compare with the shader with its lets inlined' },
+  { mode: 'backends', label: 'gpu/cpu', title: 'Compare the GPU with the CPU interpreter' },
+];
+const DIFFERENTIAL_BACKENDS: DifferentialBackend[] = ['cpu', 'gpu'];
+
 const Toggle: React.FC<{
   label: string;
   checked: boolean;
   onChange: (checked: boolean) => void;
   highlight?: boolean;
-}> = ({ label, checked, onChange, highlight }) => (
-  <label className="group flex items-center justify-between cursor-pointer py-1.5 hover:bg-zinc-900/50 transition-colors -mx-2 px-2 rounded">
+  title?: string;
+}> = ({ label, checked, onChange, highlight, title }) => (
+  <label title={title} className="group flex items-center justify-between cursor-pointer py-1.5 hover:bg-zinc-900/50 transition-colors -mx-2 px-2 rounded">
     <span className={`text-sm font-medium tracking-tight ${highlight ? 'text-white' : 'text-zinc-400 group-hover:text-zinc-200'}`}>
       {label}
     </span>
@@ -33,7 +54,28 @@ const Toggle: React.FC<{
   </label>
 );
 
-const FuzzControls: React.FC<FuzzControlsProps> = ({ config, setConfig, onFuzz, onReset }) => {
+/** A registry mutator's on/off switch; the tooltip carries its description and safety level. */
+const MutatorToggle: React.FC<{
+  mutator: Mutator;
+  config: FuzzConfig;
+  setConfig: React.Dispatch<React.SetStateAction<FuzzConfig>>;
+  highlight?: boolean;
+}> = ({ mutator, config, setConfig, highlight }) => (
+  <Toggle
+    label={mutator.safety === 'unsafe' ? `${mutator.label} ⚠` : mutator.label}
+    title={[mutator.description, `safety: ${mutator.safety}`].filter(Boolean).join('\n')}
+    highlight={highlight}
+    checked={isMutatorEnabled(config, mutator)}
+    onChange={(c) => setConfig(prev => ({ ...prev, mutators: { ...prev.mutators, [mutator.id]: c } }))}
+  />
+);
+
+const FuzzControls: React.FC<FuzzControlsProps> = ({ config, setConfig, onFuzz, onReset, onImportGlsl, seedInput, setSeedInput, lastSeed, fitness, setFitness, passes, differential, setDifferential }) => {
+  const mutators = getMutators();
+  const generative = mutators.filter(m => m.category === 'generative');
+  const atomic = mutators.filter(m => m.category === 'atomic');
+  const seedInvalid = seedInput.trim() !== '' && parseSeed(seedInput) === null;
+
   return (
     <div className="space-y-8">
       
@@ -42,27 +84,9 @@ const FuzzControls: React.FC<FuzzControlsProps> = ({ config, setConfig, onFuzz,
         <div className="space-y-1">
            <h3 className="text-xs font-bold text-zinc-600 uppercase tracking-widest">Generative Matrix</h3>
            <div className="h-px w-8 bg-zinc-800 mb-4"></div>
-           <Toggle 
-             label="Procedural Reconstruction" 
-             highlight
-             checked={config.mutateStructure}
-             onChange={(c) => setConfig(prev => ({ ...prev, mutateStructure: c }))}
-           />
-           <Toggle 
-             label="Spatial Warping" 
-             checked={config.mutateGeometry}
-             onChange={(c) => setConfig(prev => ({ ...prev, mutateGeometry: c }))}
-           />
-           <Toggle 
-             label="Color Shifting" 
-             checked={config.mutateColor}
-             onChange={(c) => setConfig(prev => ({ ...prev, mutateColor: c }))}
-           />
-            <Toggle 
-             label="Chaos Injection" 
-             checked={config.mutateChaos}
-             onChange={(c) => setConfig(prev => ({ ...prev, mutateChaos: c }))}
-           />
+           {generative.map((m, i) => (
+             <MutatorToggle key={m.id} mutator={m} config={config} setConfig={setConfig} highlight={i === 0} />
+           ))}
         </div>
 
         <div className="pt-2 space-y-2">
@@ -80,6 +104,105 @@ const FuzzControls: React.FC<FuzzControlsProps> = ({ config, setConfig, onFuzz,
             className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500 hover:accent-emerald-400"
             />
         </div>
+
+        <div className="pt-2 space-y-2">
+            <div className="flex justify-between items-baseline">
+                <label className="text-xs font-bold text-zinc-600 uppercase tracking-widest">Seed</label>
+                {lastSeed !== null && (
+                  <button
+                    onClick={() => setSeedInput(formatSeed(lastSeed))}
+                    className="text-[10px] font-mono text-zinc-500 hover:text-emerald-400 transition-colors"
+                    title="Pin the last seed to replay that pass"
+                  >
+                    last {formatSeed(lastSeed)}
+                  </button>
+                )}
+            </div>
+            <input
+              type="text"
+              value={seedInput}
+              placeholder="random"
+              onChange={e => setSeedInput(e.target.value)}
+              spellCheck={false}
+              className={`w-full bg-zinc-950 border px-2 py-1 text-xs font-mono outline-none ${seedInvalid ? 'border-red-600 text-red-400' : 'border-zinc-800 text-zinc-300 focus:border-emerald-600'}`}
+            />
+        </div>
+        {passes.length > 1 && (
+          <div className="pt-2 space-y-2">
+              <label className="text-xs font-bold text-zinc-600 uppercase tracking-widest">Pass</label>
+              <div className="flex flex-wrap gap-1">
+                {[undefined, ...passes].map(pass => (
+                  <button
+                    key={pass ?? 'all'}
+                    onClick={() => setConfig(prev => ({ ...prev, pass }))}
+                    className={`px-2 py-1 border text-[10px] font-mono uppercase tracking-wider transition-colors ${
+                      config.pass === pass ? 'border-emerald-500 text-emerald-400' : 'border-zinc-800 text-zinc-500 hover:border-zinc-600'
+                    }`}
+                    title={pass ? `Mutate only the ${pass} pass` : 'Mutate every pass, each independently'}
+                  >
+                    {pass ?? 'all'}
+                  </button>
+                ))}
+              </div>
+          </div>
+        )}
+        <div className="pt-2 space-y-2">
+            <Toggle
+              label="Auto-Reject Dull"
+              checked={fitness.autoReject}
+              onChange={(c) => setFitness(prev => ({ ...prev, autoReject: c }))}
+            />
+            {fitness.autoReject && (
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min="0"
+                  max="0.9"
+                  step="0.05"
+                  value={fitness.threshold}
+                  onChange={e => setFitness(prev => ({ ...prev, threshold: parseFloat(e.target.value) }))}
+                  className="flex-grow h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-emerald-500"
+                />
+                <span className="text-[10px] font-mono text-zinc-500 w-16 text-right">fitness ≥ {(fitness.threshold * 100).toFixed(0)}</span>
+              </div>
+            )}
+        </div>
+        <div className="space-y-2">
+            <Toggle
+              label="Differential Test"
+              title="Run every shader that compiles through two evaluators that must agree; mismatches become findings"
+              checked={differential.enabled}
+              onChange={(c) => setDifferential(prev => ({ ...prev, enabled: c }))}
+            />
+            {differential.enabled && (
+              <div className="flex flex-wrap gap-1">
+                {DIFFERENTIAL_MODES.map(({ mode, label, title }) => (
+                  <button
+                    key={mode}
+                    onClick={() => setDifferential(prev => ({ ...prev, mode }))}
+                    className={`px-2 py-1 border text-[10px] font-mono uppercase tracking-wider transition-colors ${
+                      differential.mode === mode ? 'border-emerald-500 text-emerald-400' : 'border-zinc-800 text-zinc-500 hover:border-zinc-600'
+                    }`}
+                    title={title}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {differential.mode !== 'backends' && DIFFERENTIAL_BACKENDS.map(backend => (
+                  <button
+                    key={backend}
+                    onClick={() => setDifferential(prev => ({ ...prev, backend }))}
+                    className={`px-2 py-1 border text-[10px] font-mono uppercase tracking-wider transition-colors ${
+                      differential.backend === backend ? 'border-emerald-500 text-emerald-400' : 'border-zinc-800 text-zinc-500 hover:border-zinc-600'
+                    } ${backend === DIFFERENTIAL_BACKENDS[0] ? 'ml-auto' : ''}`}
+                    title={`Run both sides on the ${backend}`}
+                  >
+                    {backend}
+                  </button>
+                ))}
+              </div>
+            )}
+        </div>
       </div>
 
       <button
@@ -96,16 +219,9 @@ const FuzzControls: React.FC<FuzzControlsProps> = ({ config, setConfig, onFuzz,
       <div className="grid grid-cols-2 gap-x-8 gap-y-1">
           <div>
             <h3 className="text-[10px] font-bold text-zinc-700 uppercase tracking-widest mb-2">Atomic</h3>
-            <Toggle 
-                label="Numbers" 
-                checked={config.mutateNumbers}
-                onChange={(c) => setConfig(prev => ({ ...prev, mutateNumbers: c }))}
-            />
-            <Toggle 
-                label="Ops" 
-                checked={config.mutateOperators}
-                onChange={(c) => setConfig(prev => ({ ...prev, mutateOperators: c }))}
-            />
+            {atomic.map(m => (
+              <MutatorToggle key={m.id} mutator={m} config={config} setConfig={setConfig} />
+            ))}
           </div>
            <div>
             <h3 className="text-[10px] font-bold text-zinc-700 uppercase tracking-widest mb-2">Presets</h3>
@@ -126,6 +242,7 @@ const FuzzControls: React.FC<FuzzControlsProps> = ({ config, setConfig, onFuzz,
                     </button>
                 ))}
             </div>
+            <GlslImportPanel onImport={onImportGlsl} />
           </div>
       </div>
 
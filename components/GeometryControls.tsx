@@ -0,0 +1,42 @@
+import React, { useMemo } from 'react';
+import { MESH_NAMES, MeshName, TOPOLOGIES, Topology, VERTEX_ENTRY_POINT, hasVertexStage, parseGeometry, withGeometry } from '../services/geometryService';
+
+interface GeometryControlsProps {
+  code: string;
+  onChange: (code: string) => void;
+}
+
+/** Picks the mesh and topology by rewriting the shader's geometry markers. */
+const GeometryControls: React.FC<GeometryControlsProps> = ({ code, onChange }) => {
+  const geometry = useMemo(() => parseGeometry(code).geometry, [code]);
+  const customVertex = useMemo(() => hasVertexStage(code), [code]);
+  const selectClass = 'bg-zinc-900 text-zinc-400 border border-zinc-800 outline-none';
+
+  return (
+    <div className="flex items-center gap-2 px-2 py-1.5 bg-black/60 border border-white/10 font-mono text-[10px]">
+      <span className="font-bold text-zinc-300 uppercase tracking-widest">mesh</span>
+      <select
+        value={geometry.mesh}
+        onChange={e => onChange(withGeometry(code, { ...geometry, mesh: e.target.value as MeshName }))}
+        className={selectClass}
+      >
+        {MESH_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+      </select>
+      <select
+        value={geometry.topology}
+        onChange={e => onChange(withGeometry(code, { ...geometry, topology: e.target.value as Topology }))}
+        className={selectClass}
+      >
+        {TOPOLOGIES.map(topology => <option key={topology} value={topology}>{topology}</option>)}
+      </select>
+      <span
+        className={customVertex ? 'text-emerald-400' : 'text-zinc-600'}
+        title={customVertex ? `Vertices go through the shader's ${VERTEX_ENTRY_POINT}` : 'Vertices go through the base vertex shader'}
+      >
+        {customVertex ? VERTEX_ENTRY_POINT : 'base vertex'}
+      </span>
+    </div>
+  );
+};
+
+export default GeometryControls;
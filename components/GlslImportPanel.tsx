@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import { GlslImport, GlslImportError, importGlsl } from '../services/glsl/glslToWgsl';
+
+interface GlslImportPanelProps {
+  onImport: (imported: GlslImport, label: string) => void;
+}
+
+/**
+ * GLSL pasted or loaded from a file, Shadertoy's `mainImage` form or a
+ * plain fragment shader, translated to WGSL and loaded to fuzz from.
+ * What the translation cannot handle is listed by line instead.
+ */
+const GlslImportPanel: React.FC<GlslImportPanelProps> = ({ onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [source, setSource] = useState('');
+  const [issues, setIssues] = useState<string[]>([]);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'flex-1 py-1 text-[10px] font-mono font-bold uppercase tracking-widest border border-zinc-800 text-zinc-500 transition-colors disabled:opacity-30 enabled:hover:border-emerald-500/50 enabled:hover:text-emerald-400';
+
+  const translate = (text: string, label: string) => {
+    try {
+      onImport(importGlsl(text), label);
+      setSource('');
+      setIssues([]);
+      setOpen(false);
+    } catch (e: any) {
+      setSource(text);
+      setIssues(e instanceof GlslImportError ? e.issues : [e.message]);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className={`${buttonClass} w-full mt-1`}
+        title="Translate a GLSL or Shadertoy shader to WGSL and fuzz it"
+      >
+        Import GLSL
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-1 space-y-1">
+      <textarea
+        value={source}
+        onChange={e => setSource(e.target.value)}
+        placeholder="void mainImage(out vec4 fragColor, in vec2 fragCoord) { ... }"
+        spellCheck={false}
+        rows={6}
+        className="w-full bg-zinc-950 border border-zinc-800 p-2 font-mono text-[10px] text-zinc-300 outline-none focus:border-emerald-600 resize-y"
+      />
+      <div className="flex gap-1">
+        <button onClick={() => translate(source, 'GLSL import')} disabled={!source.trim()} className={buttonClass}>Import</button>
+        <button onClick={() => fileRef.current?.click()} className={buttonClass}>File</button>
+        <button
+          onClick={() => {
+            setOpen(false);
+            setIssues([]);
+          }}
+          className={buttonClass}
+        >
+          Cancel
+        </button>
+      </div>
+      <input
+        ref={fileRef}
+        type="file"
+        accept=".glsl,.frag,.fs,.txt"
+        className="hidden"
+        onChange={e => {
+          const file = e.target.files?.[0];
+          if (file) file.text().then(text => translate(text, file.name)).catch(() => setIssues([`${file.name} could not be read.`]));
+          e.target.value = '';
+        }}
+      />
+      {issues.length > 0 && (
+        <div className="max-h-32 overflow-y-auto whitespace-pre-wrap font-mono text-[10px] text-red-500">
+          {issues.join('\n')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlslImportPanel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { HistoryNode, HistoryState } from '../types';
+import { canRedo, canUndo, getChildren } from '../services/historyService';
+import { formatSeed } from '../services/prng';
+import { formatScore } from '../services/fitnessService';
+
+interface LineagePanelProps {
+  history: HistoryState;
+  onSelect: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const STATUS_COLORS: Record<HistoryNode['compileStatus'], string> = {
+  pending: 'bg-zinc-700',
+  ok: 'bg-emerald-500',
+  error: 'bg-red-600',
+};
+
+const NodeRow: React.FC<{
+  node: HistoryNode;
+  depth: number;
+  active: boolean;
+  onSelect: (id: string) => void;
+}> = ({ node, depth, active, onSelect }) => (
+  <button
+    onClick={() => onSelect(node.id)}
+    style={{ paddingLeft: `${depth * 12 + 8}px` }}
+    title={node.compileError ?? node.label}
+    className={`w-full flex items-center gap-2 pr-2 py-1 text-left transition-colors border-l-2 ${
+      active ? 'border-emerald-500 bg-zinc-900 text-white' : 'border-transparent text-zinc-500 hover:bg-zinc-900/50 hover:text-zinc-300'
+    }`}
+  >
+    <span className={`h-1.5 w-1.5 rounded-full flex-shrink-0 ${STATUS_COLORS[node.compileStatus]}`} />
+    <span className="font-bold text-zinc-400 w-8 flex-shrink-0">{node.epoch.toString().padStart(3, '0')}</span>
+    <span className="truncate flex-grow">{node.label}</span>
+    {node.fitness !== null && (
+      <span className={`flex-shrink-0 ${node.fitness >= 0.5 ? 'text-emerald-500' : 'text-zinc-600'}`} title="Visual fitness">
+        {formatScore(node.fitness)}
+      </span>
+    )}
+    {node.seed !== null && <span className="opacity-40 flex-shrink-0">{formatSeed(node.seed)}</span>}
+  </button>
+);
+
+/**
+ * Renders a lineage compactly: a single child continues at the same indent,
+ * only branch points push their subtrees one level deeper.
+ */
+const Subtree: React.FC<{
+  history: HistoryState;
+  node: HistoryNode;
+  depth: number;
+  onSelect: (id: string) => void;
+}> = ({ history, node, depth, onSelect }) => {
+  const children = getChildren(history, node.id);
+  const childDepth = children.length > 1 ? depth + 1 : depth;
+  return (
+    <>
+      <NodeRow node={node} depth={depth} active={node.id === history.currentId} onSelect={onSelect} />
+      {children.map(child => (
+        <Subtree key={child.id} history={history} node={child} depth={childDepth} onSelect={onSelect} />
+      ))}
+    </>
+  );
+};
+
+const LineagePanel: React.FC<LineagePanelProps> = ({ history, onSelect, onUndo, onRedo }) => {
+  const buttonClass = 'flex-1 py-1.5 text-[10px] font-bold uppercase tracking-widest border border-zinc-800 transition-colors disabled:opacity-30 disabled:cursor-not-allowed enabled:hover:border-emerald-500/50 enabled:hover:text-emerald-400';
+
+  return (
+    <div className="h-full flex flex-col font-mono text-[10px]">
+      <div className="p-4 border-b border-zinc-900">
+        <div className="flex gap-2 text-zinc-400">
+          <button onClick={onUndo} disabled={!canUndo(history)} className={buttonClass}>Undo</button>
+          <button onClick={onRedo} disabled={!canRedo(history)} className={buttonClass}>Redo</button>
+        </div>
+      </div>
+      <div className="flex-grow overflow-y-auto no-scrollbar py-2">
+        {history.rootIds.map(id => (
+          <Subtree key={id} history={history} node={history.nodes[id]} depth={0} onSelect={onSelect} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LineagePanel;
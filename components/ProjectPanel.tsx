@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { ProjectSummary } from '../services/projectService';
+
+interface ProjectPanelProps {
+  projects: ProjectSummary[]; // Most recently saved first
+  onSave: (name: string) => void;
+  onLoad: (name: string) => void;
+  onRemove: (name: string) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+  onCopyPermalink: () => void;
+}
+
+/**
+ * Named projects saved in the browser, JSON export and import, and the
+ * permalink that shares the editor shader.
+ */
+const ProjectPanel: React.FC<ProjectPanelProps> = ({ projects, onSave, onLoad, onRemove, onExport, onImport, onCopyPermalink }) => {
+  const [name, setName] = useState('');
+  const fileRef = useRef<HTMLInputElement>(null);
+  const buttonClass = 'flex-1 py-1.5 text-[10px] font-bold uppercase tracking-widest border border-zinc-800 transition-colors disabled:opacity-30 disabled:cursor-not-allowed enabled:hover:border-emerald-500/50 enabled:hover:text-emerald-400';
+  const trimmed = name.trim();
+  const overwrites = projects.some(p => p.name === trimmed);
+
+  return (
+    <div className="h-full flex flex-col font-mono text-[10px]">
+      <div className="p-4 space-y-3 border-b border-zinc-900 text-zinc-400">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            placeholder="project name"
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && trimmed && onSave(trimmed)}
+            spellCheck={false}
+            className="flex-grow min-w-0 bg-zinc-950 border border-zinc-800 px-2 py-1 text-xs text-zinc-300 outline-none focus:border-emerald-600"
+          />
+          <button
+            onClick={() => onSave(trimmed)}
+            disabled={!trimmed}
+            title={overwrites ? 'Replaces the saved project of this name' : undefined}
+            className={`${buttonClass} flex-none px-3`}
+          >
+            {overwrites ? 'Overwrite' : 'Save'}
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onExport} className={buttonClass}>Export</button>
+          <button onClick={() => fileRef.current?.click()} className={buttonClass}>Import</button>
+          <button onClick={onCopyPermalink} className={buttonClass} title="Copy a link to the editor shader, config and seed">Link</button>
+        </div>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      <div className="flex-grow overflow-y-auto no-scrollbar py-2">
+        {projects.length === 0 && <div className="px-4 text-zinc-800 italic">_no_saved_projects</div>}
+        {projects.map(project => (
+          <div key={project.name} className="group flex items-center gap-2 px-3 py-1 text-zinc-500 hover:bg-zinc-900/50">
+            <button
+              onClick={() => onLoad(project.name)}
+              className="flex-grow min-w-0 flex items-center gap-2 text-left hover:text-zinc-300 transition-colors"
+            >
+              <span className="truncate flex-grow font-bold text-zinc-400">{project.name}</span>
+              <span className="opacity-40 flex-shrink-0">{project.nodes}n</span>
+              <span className="opacity-40 flex-shrink-0">{new Date(project.savedAt).toLocaleDateString()}</span>
+            </button>
+            <button
+              onClick={() => onRemove(project.name)}
+              title="Delete"
+              className="opacity-0 group-hover:opacity-100 text-zinc-600 hover:text-red-500 transition-colors"
+            >
+              ×
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -1,75 +1,122 @@
 
 import React, { useEffect, useRef, useState } from 'react';
-import { BASE_VERTEX_SHADER, WGSL_PREAMBLE } from '../constants';
+import { ChannelImage, CompileFailure, UniformValues } from '../types';
+import { feedbackReads } from '../services/renderGraph';
+import { getDefaultChannels } from '../services/textureService';
+import { CpuRenderer, createCpuRenderer, frameToRgba8 } from '../services/cpuRenderer';
+import { toFragmentMessages } from '../services/shaderSource';
+import { validateFragment } from '../services/wgsl/validator';
+import ExportPanel from './ExportPanel';
+import {
+  RenderGraph,
+  compilePasses,
+  createPassPipelines,
+  createRenderGraph,
+  formatCompileErrors,
+  getGpuDevice,
+  getPresentationFormat,
+  writeUniforms,
+} from '../services/gpuService';
 
 interface ShaderCanvasProps {
   fragmentCode: string;
-  onCompilationError: (error: string) => void;
+  onCompilationError: (error: string, failure: CompileFailure) => void;
   onCompilationSuccess: () => void;
+  // Drawing buffer size in pixels; the element itself fills its parent. Without
+  // them the buffer follows the element's size on screen.
+  width?: number;
+  height?: number;
+  channels?: ChannelImage[]; // Pixels for the channelN textures; generated noise by default
+  exportable?: boolean;      // Show the export panel
 }
 
-// Helper constants to substitute missing WebGPU types
-const SHADER_STAGE_FRAGMENT = 2; // GPUShaderStage.FRAGMENT
-const BUFFER_USAGE_UNIFORM = 64; // GPUBufferUsage.UNIFORM
-const BUFFER_USAGE_COPY_DST = 8; // GPUBufferUsage.COPY_DST
+const MAX_AUTO_SIZE = 2048;
+
+// Longest side of the drawing buffer when the CPU renderer stands in for WebGPU
+const CPU_PREVIEW_SIZE = 48;
+
+/** The wall-clock `date` uniform: year, month (1-12), day, seconds since midnight. */
+const liveDate = (): UniformValues['date'] => {
+  const d = new Date();
+  return [d.getFullYear(), d.getMonth() + 1, d.getDate(), d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds() + d.getMilliseconds() / 1000];
+};
 
 const ShaderCanvas: React.FC<ShaderCanvasProps> = ({ 
   fragmentCode, 
   onCompilationError,
-  onCompilationSuccess
+  onCompilationSuccess,
+  width,
+  height,
+  channels = getDefaultChannels(),
+  exportable = false,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [ready, setReady] = useState(false);
+  // Why WebGPU is unavailable; set when the CPU renderer draws instead
+  const [fallback, setFallback] = useState<string | null>(null);
+  const [cpuError, setCpuError] = useState<string | null>(null);
+  const cpuRef = useRef<CpuRenderer | null>(null);
+  const [autoSize, setAutoSize] = useState<[number, number]>([1200, 1200]);
   
   // Use any for WebGPU refs since types might not be available in the environment
   const deviceRef = useRef<any | null>(null);
   const contextRef = useRef<any | null>(null);
-  const pipelineRef = useRef<any | null>(null);
-  const uniformBufferRef = useRef<any | null>(null);
-  const bindGroupRef = useRef<any | null>(null);
+  const graphRef = useRef<RenderGraph | null>(null);
   const animationFrameRef = useRef<number>(0);
   const startTimeRef = useRef<number>(Date.now());
-
-  // Initialize WebGPU Device
+  const lastTimeRef = useRef<number | null>(null);
+  const frameRef = useRef(0);
+  const mouseRef = useRef<UniformValues['mouse']>([0.5, 0.5, 0, 0]);
+
+  const sized = width !== undefined && height !== undefined;
+  const [bufferWidth, bufferHeight] = (() => {
+    const [w, h] = sized ? [width, height] : autoSize;
+    if (fallback === null) return [w, h];
+    const scale = Math.min(1, CPU_PREVIEW_SIZE / Math.max(w, h));
+    return [Math.max(1, Math.round(w * scale)), Math.max(1, Math.round(h * scale))];
+  })();
+
+  // Follow the element's size so `resolution` and `aspect` match what is on screen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (sized || !canvas) return;
+    const observer = new ResizeObserver(() => {
+      const scale = window.devicePixelRatio || 1;
+      const fit = (px: number) => Math.max(1, Math.min(MAX_AUTO_SIZE, Math.round(px * scale)));
+      setAutoSize([fit(canvas.clientWidth), fit(canvas.clientHeight)]);
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [sized]);
+
+  // Initialize WebGPU Device; without one, the CPU renderer takes over
   useEffect(() => {
     const initWebGPU = async () => {
-      if (!(navigator as any).gpu) {
-        setError("WebGPU not supported in this browser.");
-        return;
-      }
-
       try {
-        const adapter = await (navigator as any).gpu.requestAdapter();
-        if (!adapter) {
-          setError("No appropriate GPU adapter found.");
-          return;
-        }
-
-        const device = await adapter.requestDevice();
+        const device = await getGpuDevice();
         deviceRef.current = device;
 
         const canvas = canvasRef.current;
         if (canvas) {
           const context = canvas.getContext('webgpu');
-          if (context) {
-            contextRef.current = context;
-            const presentationFormat = (navigator as any).gpu.getPreferredCanvasFormat();
-            contextRef.current.configure({
-              device,
-              format: presentationFormat,
-              alphaMode: 'premultiplied',
-            });
-          }
+          if (!context) throw new Error('Could not get a WebGPU canvas context.');
+          contextRef.current = context;
+          contextRef.current.configure({
+            device,
+            format: getPresentationFormat(),
+            alphaMode: 'premultiplied',
+          });
+          setReady(true);
         }
       } catch (e: any) {
-        setError(e.message);
+        setFallback(e.message);
       }
     };
 
     initWebGPU();
 
     return () => {
-        // Cleanup if necessary
+        graphRef.current?.destroy();
     }
   }, []);
 
@@ -81,163 +128,88 @@ const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
     if (!device || !context) return;
 
     const buildPipeline = async () => {
-      // 1. Create Shader Modules
       device.pushErrorScope('validation');
-      
-      const vertexModule = device.createShaderModule({
-        label: 'Base Vertex',
-        code: BASE_VERTEX_SHADER,
-      });
-
-      // INVARIANT: Suppress uniformity analysis errors which are common in fuzzed code
-      // We also inject the WGSL helper library (PREAMBLE) here.
-      const safeFragmentCode = `diagnostic(off, derivative_uniformity);\n` 
-        + WGSL_PREAMBLE 
-        + fragmentCode;
-
-      const fragmentModule = device.createShaderModule({
-        label: 'Fuzzed Fragment',
-        code: safeFragmentCode,
-      });
 
-      // Check for compilation info (errors)
-      const compilationInfo = await fragmentModule.getCompilationInfo();
-      const errors = compilationInfo.messages
-        .filter((msg: any) => msg.type === 'error')
-        .map((msg: any) => `Line ${msg.lineNum}: ${msg.message}`)
-        .join('\n');
+      // 1. Compile every pass (uniformity diagnostics off + the WGSL helper library)
+      const { passes, geometry, messages } = await compilePasses(device, fragmentCode, 'Fuzzed Fragment');
+      const errors = formatCompileErrors(messages);
 
       if (errors) {
-        onCompilationError(errors);
+        device.popErrorScope();
+        onCompilationError(errors, { messages, scopeError: null });
         return; 
       }
 
       onCompilationSuccess();
 
-      // 2. Create Layout
-      
-      const bindGroupLayout = device.createBindGroupLayout({
-        entries: [
-          {
-            binding: 0,
-            visibility: SHADER_STAGE_FRAGMENT,
-            buffer: { type: 'uniform' },
-          },
-          {
-            binding: 1,
-            visibility: SHADER_STAGE_FRAGMENT,
-            buffer: { type: 'uniform' },
-          },
-        ],
-      });
-
-      const pipelineLayout = device.createPipelineLayout({
-        bindGroupLayouts: [bindGroupLayout],
-      });
-
-      // 3. Create Pipeline
-      const presentationFormat = (navigator as any).gpu.getPreferredCanvasFormat();
-      
+      // 2. Pipelines & the render graph running them: the mesh, uniforms, channels,
+      // samplers and feedback targets (uniforms are written every frame by the render loop)
       try {
-        const pipeline = device.createRenderPipeline({
-          layout: pipelineLayout,
-          vertex: {
-            module: vertexModule,
-            entryPoint: 'main',
-          },
-          fragment: {
-            module: fragmentModule,
-            entryPoint: 'main',
-            targets: [{ format: presentationFormat }],
-          },
-          primitive: {
-            topology: 'triangle-list',
-          },
-        });
-
-        pipelineRef.current = pipeline;
-
-        // 4. Uniform Buffers
-        const timeBuffer = device.createBuffer({
-            size: 4, // f32
-            usage: BUFFER_USAGE_UNIFORM | BUFFER_USAGE_COPY_DST,
-        });
-
-        const resolutionBuffer = device.createBuffer({
-            size: 8, // vec2<f32>
-            usage: BUFFER_USAGE_UNIFORM | BUFFER_USAGE_COPY_DST,
-        });
-
-        uniformBufferRef.current = timeBuffer; 
-
-        // 5. Create Bind Group
-        const bindGroup = device.createBindGroup({
-            layout: bindGroupLayout,
-            entries: [
-                { binding: 0, resource: { buffer: timeBuffer } },
-                { binding: 1, resource: { buffer: resolutionBuffer } }
-            ]
-        });
-        bindGroupRef.current = bindGroup;
-
-        // Update resolution once
-        device.queue.writeBuffer(resolutionBuffer, 0, new Float32Array([
-            canvasRef.current?.width || 800,
-            canvasRef.current?.height || 600
-        ]));
+        const pipelines = createPassPipelines(device, passes, feedbackReads(fragmentCode), getPresentationFormat(), geometry);
+        graphRef.current?.destroy();
+        graphRef.current = createRenderGraph(device, pipelines, channels);
 
         device.popErrorScope().then((error: any) => {
             if (error) {
-                onCompilationError(error.message);
+                onCompilationError(error.message, { messages, scopeError: error.message });
             }
         });
 
       } catch (e: any) {
-        onCompilationError(e.message);
+        onCompilationError(e.message, { messages, scopeError: e.message });
       }
     };
 
     buildPipeline();
-  }, [fragmentCode, onCompilationError, onCompilationSuccess]);
+  }, [ready, fragmentCode, channels, onCompilationError, onCompilationSuccess]);
+
+  // CPU fallback: the offline validator stands in for the GPU compiler
+  useEffect(() => {
+    if (fallback === null) return;
+    const result = validateFragment(fragmentCode);
+    if (!result.ok) {
+      const messages = toFragmentMessages(result.messages);
+      cpuRef.current = null;
+      onCompilationError(formatCompileErrors(messages) ?? 'Shader does not validate', { messages, scopeError: null });
+      return;
+    }
+    onCompilationSuccess();
+    try {
+      cpuRef.current = createCpuRenderer(fragmentCode, channels);
+      setCpuError(null);
+    } catch (e: any) {
+      cpuRef.current = null;
+      setCpuError(e.message);
+    }
+  }, [fallback, fragmentCode, channels, onCompilationError, onCompilationSuccess]);
 
   // Render Loop
   useEffect(() => {
     const render = () => {
       const device = deviceRef.current;
       const context = contextRef.current;
-      const pipeline = pipelineRef.current;
-      const bindGroup = bindGroupRef.current;
+      const graph = graphRef.current;
+      const canvas = canvasRef.current;
 
-      if (!device || !context || !pipeline || !bindGroup) {
+      if (!device || !context || !graph || !canvas) {
         animationFrameRef.current = requestAnimationFrame(render);
         return;
       }
 
-      // Update Time Uniform
-      const timeVal = (Date.now() - startTimeRef.current) / 1000.0;
-      if (uniformBufferRef.current) {
-        device.queue.writeBuffer(uniformBufferRef.current, 0, new Float32Array([timeVal]));
-      }
+      // Update Uniforms
+      const time = (Date.now() - startTimeRef.current) / 1000.0;
+      writeUniforms(device, graph.buffer, {
+        time,
+        timeDelta: lastTimeRef.current === null ? 0 : time - lastTimeRef.current,
+        frame: frameRef.current++,
+        resolution: [canvas.width, canvas.height],
+        mouse: mouseRef.current,
+        date: liveDate(),
+      });
+      lastTimeRef.current = time;
 
       const commandEncoder = device.createCommandEncoder();
-      const textureView = context.getCurrentTexture().createView();
-
-      const renderPassDescriptor = {
-        colorAttachments: [
-          {
-            view: textureView,
-            clearValue: { r: 0.0, g: 0.0, b: 0.0, a: 1.0 },
-            loadOp: 'clear',
-            storeOp: 'store',
-          },
-        ],
-      };
-
-      const passEncoder = commandEncoder.beginRenderPass(renderPassDescriptor);
-      passEncoder.setPipeline(pipeline);
-      passEncoder.setBindGroup(0, bindGroup);
-      passEncoder.draw(6); 
-      passEncoder.end();
+      graph.draw(commandEncoder, context.getCurrentTexture().createView(), canvas.width, canvas.height);
 
       device.queue.submit([commandEncoder.finish()]);
       animationFrameRef.current = requestAnimationFrame(render);
@@ -250,25 +222,90 @@ const ShaderCanvas: React.FC<ShaderCanvasProps> = ({
     };
   }, []);
 
-  if (error) {
-    return (
-      <div className="w-full h-full flex items-center justify-center bg-black text-red-600 font-mono p-12 text-center">
-        <div className="max-w-md">
-            <h3 className="font-bold mb-2">GPU INITIALIZATION FAILURE</h3>
-            <p className="text-sm opacity-50">{error}</p>
-        </div>
-      </div>
-    );
-  }
+  // CPU render loop: a frame takes long enough to block the page, so the loop
+  // rests as long as each frame took before drawing the next
+  useEffect(() => {
+    if (fallback === null) return;
+    let timer = 0;
+    const render = () => {
+      const renderer = cpuRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!renderer || !canvas || !context) {
+        timer = window.setTimeout(render, 100);
+        return;
+      }
 
-  return (
+      const started = performance.now();
+      const time = (Date.now() - startTimeRef.current) / 1000.0;
+      try {
+        const frame = renderer.draw({
+          time,
+          timeDelta: lastTimeRef.current === null ? 0 : time - lastTimeRef.current,
+          frame: frameRef.current++,
+          resolution: [canvas.width, canvas.height],
+          mouse: mouseRef.current,
+          date: liveDate(),
+        });
+        context.putImageData(new ImageData(frameToRgba8(frame), frame.width, frame.height), 0, 0);
+      } catch (e: any) {
+        if (cpuRef.current === renderer) cpuRef.current = null;
+        setCpuError(e.message);
+      }
+      lastTimeRef.current = time;
+      timer = window.setTimeout(render, performance.now() - started);
+    };
+
+    timer = window.setTimeout(render, 0);
+    return () => window.clearTimeout(timer);
+  }, [fallback]);
+
+  // Pointer position in UV space: origin bottom-left, like the `uv` the vertex stage passes on
+  const trackPointer = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const [, , held, pressedAt] = mouseRef.current;
+    mouseRef.current = [(e.clientX - rect.left) / rect.width, 1 - (e.clientY - rect.top) / rect.height, held, pressedAt];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    trackPointer(e);
+    mouseRef.current[2] = 1;
+    mouseRef.current[3] = (Date.now() - startTimeRef.current) / 1000.0;
+  };
+
+  const releasePointer = () => {
+    mouseRef.current[2] = 0;
+  };
+
+  const canvas = (
     <canvas
       ref={canvasRef}
-      width={1200}
-      height={1200}
+      width={bufferWidth}
+      height={bufferHeight}
+      onPointerMove={trackPointer}
+      onPointerDown={handlePointerDown}
+      onPointerUp={releasePointer}
+      onPointerLeave={releasePointer}
       className="w-full h-full object-cover bg-black"
+      style={fallback === null ? undefined : { imageRendering: 'pixelated' }}
     />
   );
+  if (fallback === null && !exportable) return canvas;
+
+  return (
+    <div className="relative w-full h-full">
+      {canvas}
+      {fallback !== null && (
+        <div
+          className="absolute top-2 right-2 px-2 py-1 bg-black/60 border border-white/10 font-mono text-[10px] text-amber-500 pointer-events-none"
+          title={fallback}
+        >
+          {cpuError ? `CPU preview unavailable: ${cpuError}` : `CPU preview · ${bufferWidth}×${bufferHeight}`}
+        </div>
+      )}
+      {exportable && <ExportPanel fragmentCode={fragmentCode} channels={channels} cpu={fallback !== null} />}
+    </div>
+  );
 };
 
 export default ShaderCanvas;
@@ -1,21 +1,28 @@
 
-import { ShaderPreset } from './types';
+import { FuzzConfig, ShaderPreset } from './types';
 
 // A library of helper functions injected into every shader to allow
 // the fuzzer to generate complex effects safely.
 export const WGSL_PREAMBLE = `
 // --- INJECTED HELPER LIBRARY ---
+// sin(x), as a helper the fuzzer can swap
 fn f_sin(x: f32) -> f32 { return sin(x); }
+// cos(x), as a helper the fuzzer can swap
 fn f_cos(x: f32) -> f32 { return cos(x); }
+// Pseudo-random value in [0, 1) from a scalar seed
 fn f_n(x: f32) -> f32 { return fract(sin(x)*43758.5453); }
+// Pseudo-random value in [0, 1) from a 2D point
 fn f_hash(p: vec2<f32>) -> f32 { return fract(sin(dot(p, vec2<f32>(12.9898, 78.233))) * 43758.5453); }
+// Rotates p about the origin by a radians
 fn f_rot(p: vec2<f32>, a: f32) -> vec2<f32> {
     let s = sin(a); let c = cos(a);
     return vec2<f32>(c*p.x - s*p.y, s*p.x + c*p.y);
 }
+// Cosine palette a + b * cos(2pi * (c * t + d)); t sweeps through the colours
 fn f_pal(t: f32, a: vec3<f32>, b: vec3<f32>, c: vec3<f32>, d: vec3<f32>) -> vec3<f32> {
     return a + b * cos(6.28318 * (c * t + d));
 }
+// Smooth minimum of a and b; k is the width of the blend
 fn f_smin(a: f32, b: f32, k: f32) -> f32 {
     let h = clamp(0.5 + 0.5 * (b - a) / k, 0.0, 1.0);
     return mix(b, a, h) - k * h * (1.0 - h);
@@ -23,26 +30,27 @@ fn f_smin(a: f32, b: f32, k: f32) -> f32 {
 // -------------------------------
 `;
 
+export const DEFAULT_FUZZ_CONFIG: FuzzConfig = {
+  mutators: {},
+  intensity: 0.2,
+};
+
+// Draws the shader's mesh (see `geometryService`) flat, without projection.
+// Passes drawing into a texture set flip_y to -1, so the texture reads
+// back upright at the same uv (texture rows run top-down, uv bottom-up)
 export const BASE_VERTEX_SHADER = `
+override flip_y : f32 = 1.0;
+
 struct VertexOutput {
   @builtin(position) @invariant Position : vec4<f32>,
   @location(0) uv : vec2<f32>,
 }
 
 @vertex
-fn main(@builtin(vertex_index) VertexIndex : u32) -> VertexOutput {
-  var pos = array<vec2<f32>, 6>(
-    vec2<f32>(-1.0, -1.0),
-    vec2<f32>( 1.0, -1.0),
-    vec2<f32>(-1.0,  1.0),
-    vec2<f32>(-1.0,  1.0),
-    vec2<f32>( 1.0, -1.0),
-    vec2<f32>( 1.0,  1.0)
-  );
-
+fn main(@location(0) position : vec3<f32>, @location(2) uv : vec2<f32>) -> VertexOutput {
   var output : VertexOutput;
-  output.Position = vec4<f32>(pos[VertexIndex], 0.0, 1.0);
-  output.uv = pos[VertexIndex] * 0.5 + 0.5;
+  output.Position = vec4<f32>(position.xy * vec2<f32>(1.0, flip_y), 0.0, 1.0);
+  output.uv = uv;
   return output;
 }
 `;
@@ -111,6 +119,153 @@ fn main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
     let col = vec3<f32>(lines, lines * sin(time), lines * cos(time));
     return vec4<f32>(col, 1.0);
 }
+`
+  },
+  {
+    name: 'Pointer',
+    code: `
+@group(0) @binding(0) var<uniform> time : f32;
+@group(0) @binding(2) var<uniform> mouse : vec4<f32>;
+@group(0) @binding(6) var<uniform> aspect : f32;
+
+@fragment
+fn main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
+    let d = (uv - mouse.xy) * vec2<f32>(aspect, 1.0);
+    let ring = sin(length(d) * 40.0 - (time - mouse.w) * 8.0);
+    let glow = exp(-length(d) * 6.0) * (1.0 + mouse.z);
+    let col = vec3<f32>(0.2, 0.6, 1.0) * glow + vec3<f32>(ring * 0.1);
+    return vec4<f32>(col, 1.0);
+}
+`
+  },
+  {
+    name: 'Textured',
+    code: `
+@group(0) @binding(0) var<uniform> time : f32;
+@group(0) @binding(7) var channel0 : texture_2d<f32>;
+@group(0) @binding(8) var channel1 : texture_2d<f32>;
+@group(0) @binding(9) var linear_sampler : sampler;
+
+@fragment
+fn main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
+    let warp = textureSample(channel0, linear_sampler, uv * 0.5 + time * 0.02).xy - 0.5;
+    let base = textureSample(channel0, linear_sampler, uv * 2.0 + warp * 0.3);
+    let texel = vec2<i32>(uv * vec2<f32>(textureDimensions(channel1)));
+    let cells = textureLoad(channel1, texel, 0);
+    let col = mix(base.rgb, vec3<f32>(0.1, 0.4, 0.8), smoothstep(0.2, 0.0, cells.r));
+    return vec4<f32>(col, 1.0);
+}
+`
+  },
+  {
+    name: 'Reaction',
+    code: `
+//!pass buffer_a
+@group(0) @binding(1) var<uniform> resolution : vec2<f32>;
+@group(0) @binding(2) var<uniform> mouse : vec4<f32>;
+@group(0) @binding(9) var linear_sampler : sampler;
+@group(0) @binding(13) var buffer_a : texture_2d<f32>;
+
+// Gray-Scott reaction-diffusion, one step per frame: r and g are the two chemicals
+@fragment
+fn main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
+    let px = 1.0 / resolution;
+    let prev = textureSample(buffer_a, linear_sampler, uv);
+    let n = textureSample(buffer_a, linear_sampler, uv + vec2<f32>(0.0, px.y)).rg;
+    let s = textureSample(buffer_a, linear_sampler, uv - vec2<f32>(0.0, px.y)).rg;
+    let e = textureSample(buffer_a, linear_sampler, uv + vec2<f32>(px.x, 0.0)).rg;
+    let w = textureSample(buffer_a, linear_sampler, uv - vec2<f32>(px.x, 0.0)).rg;
+    let lap = (n + s + e + w) * 0.25 - prev.rg;
+    let reaction = prev.r * prev.g * prev.g;
+    let a = prev.r + lap.x - reaction + 0.037 * (1.0 - prev.r);
+    var b = prev.g + 0.5 * lap.y + reaction - 0.097 * prev.g;
+    b = max(b, mouse.z * step(distance(uv, mouse.xy), 0.02));
+
+    // The target starts out transparent black: seed it on the first frame
+    let fresh = prev.a < 0.5;
+    let spots = step(0.92, f_hash(floor(uv * 16.0)));
+    return vec4<f32>(clamp(select(vec2<f32>(a, b), vec2<f32>(1.0, spots), fresh), vec2<f32>(0.0), vec2<f32>(1.0)), 0.0, 1.0);
+}
+
+//!pass image
+@group(0) @binding(9) var linear_sampler : sampler;
+@group(0) @binding(13) var buffer_a : texture_2d<f32>;
+
+@fragment
+fn main(@location(0) uv : vec2<f32>) -> @location(0) vec4<f32> {
+    let b = textureSample(buffer_a, linear_sampler, uv).g;
+    let col = f_pal(b * 2.0, vec3<f32>(0.5), vec3<f32>(0.5), vec3<f32>(1.0), vec3<f32>(0.0, 0.1, 0.2));
+    return vec4<f32>(col, 1.0);
+}
+`
+  },
+  {
+    name: 'Compute',
+    code: `
+@group(0) @binding(0) var<storage, read> input : array<f32>;
+@group(0) @binding(1) var<storage, read_write> output : array<f32>;
+@group(0) @binding(2) var<storage, read_write> counters : array<atomic<u32>>;
+
+var<workgroup> tile : array<f32, 64>;
+
+// Smooths the input over a window held in workgroup memory, counting positive values
+@compute @workgroup_size(64)
+fn main(@builtin(global_invocation_id) gid : vec3<u32>, @builtin(local_invocation_index) li : u32) {
+    let i = gid.x;
+    let n = arrayLength(&input);
+    tile[li] = input[min(i, n - 1u)];
+    workgroupBarrier();
+
+    if (i >= n) {
+        return;
+    }
+    var sum = 0.0;
+    for (var k = 0u; k < 4u; k++) {
+        sum += tile[(li + k) % 64u];
+    }
+    output[i] = sum * 0.25 + f_sin(input[i]);
+    if (input[i] > 0.0) {
+        atomicAdd(&counters[0], 1u);
+    }
+    atomicMax(&counters[1], u32(abs(input[i])));
+}
+`
+  },
+  {
+    name: 'Mesh',
+    code: `
+//!mesh sphere
+
+@group(0) @binding(0) var<uniform> time : f32;
+@group(0) @binding(6) var<uniform> aspect : f32;
+
+struct MeshOutput {
+    @builtin(position) @invariant position : vec4<f32>,
+    @location(0) uv : vec2<f32>,
+    @location(1) normal : vec3<f32>,
+};
+
+// Spins the sphere about its vertical axis
+@vertex
+fn vs_main(@location(0) position : vec3<f32>, @location(1) normal : vec3<f32>, @location(2) uv : vec2<f32>) -> MeshOutput {
+    let p = vec3<f32>(f_rot(position.xz, time * 0.5), position.y).xzy;
+    var output : MeshOutput;
+    output.position = vec4<f32>(p.x / aspect, p.y, p.z * 0.25 + 0.5, 1.0);
+    output.uv = uv;
+    output.normal = vec3<f32>(f_rot(normal.xz, time * 0.5), normal.y).xzy;
+    return output;
+}
+
+// There is no depth test, so the far side is discarded instead
+@fragment
+fn main(@location(0) uv : vec2<f32>, @location(1) normal : vec3<f32>, @builtin(front_facing) front : bool) -> @location(0) vec4<f32> {
+    if (!front) {
+        discard;
+    }
+    let light = max(dot(normalize(normal), normalize(vec3<f32>(0.4, 0.6, 0.7))), 0.0);
+    let stripes = 0.5 + 0.5 * cos(uv.x * 50.0 + vec3<f32>(0.0, 2.0, 4.0));
+    return vec4<f32>(stripes * (0.15 + 0.85 * light), 1.0);
+}
 `
   }
 ];
@@ -0,0 +1,269 @@
+/**
+ * HEADLESS FUZZING CAMPAIGN
+ *
+ * Runs thousands of seeded mutations without a browser and sorts the outputs
+ * by what the offline validator makes of them:
+ *
+ *   <out>/compile-ok/    shaders that validate
+ *   <out>/compile-fail/  shaders with diagnostics (+ .json with the messages)
+ *   <out>/crash/         inputs that threw inside the fuzzer or validator
+ *   <out>/mismatch/      valid shaders a rewrite renders differently (with --differential)
+ *   <out>/summary.json   counts, options and one entry per iteration, with why
+ *                        differential checks were skipped
+ *   <out>/findings/      failures grouped by error signature (see fileFindingStore)
+ *
+ * Usage:
+ *   npm run campaign -- --iterations 1000 --seed 1a2b3c4d --out out/campaign
+ *   npm run campaign -- --corpus shaders/ --config '{"mutators":{"chaos":true}}' --depth 3
+ *   npm run campaign -- --findings findings/   # accumulate findings across campaigns
+ *   npm run campaign -- --differential fold    # CPU-render valid outputs against their rewrites
+ *   npm run campaign -- --differential inline --differential-budget 60  # at most a minute of rendering
+ *
+ * A campaign is fully determined by its base seed, corpus and config.
+ */
+import { mkdirSync, readFileSync, readdirSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_FUZZ_CONFIG, PRESETS } from '../constants';
+import { DEFAULT_DIFFERENTIAL_OPTIONS, DifferentialOptions, mismatchFinding, runDifferential } from '../services/differentialService';
+import { createFinding, groupFindings } from '../services/findingsService';
+import { fuzzShader } from '../services/fuzzerService';
+import { GlslImportError, importGlsl } from '../services/glsl/glslToWgsl';
+import { normalizeConfig } from '../services/mutatorRegistry';
+import { formatSeed, mulberry32, parseSeed, randomSeed } from '../services/prng';
+import { toFragmentMessages } from '../services/shaderSource';
+import { REWRITES, Rewrite, rewriteShader } from '../services/wgsl/optimizer';
+import { validateFragment } from '../services/wgsl/validator';
+import { CompilationMessage, DifferentialEvidence, FuzzConfig } from '../types';
+import { createFileStore } from './fileFindingStore';
+
+type Outcome = 'compile-ok' | 'compile-fail' | 'crash' | 'mismatch';
+
+interface CorpusEntry {
+  name: string;
+  code: string;
+}
+
+interface CampaignEntry {
+  index: number;
+  parent: string;
+  seeds: string[]; // One per chained mutation, in application order
+  outcome: Outcome;
+  file: string;
+  messages: CompilationMessage[];
+  error?: string;
+  differential?: string; // Summary of a mismatch
+  skipped?: string; // Why the differential check did not compare this output
+}
+
+const USAGE = `Usage: campaign [--iterations N] [--seed HEX] [--depth N] [--corpus DIR] [--config JSON] [--out DIR] [--findings DIR] [--differential fold|inline] [--differential-budget SECONDS]`;
+
+const { values } = parseArgs({
+  options: {
+    iterations: { type: 'string', default: '200' },
+    seed: { type: 'string' },
+    depth: { type: 'string', default: '1' },
+    corpus: { type: 'string' },
+    config: { type: 'string' },
+    out: { type: 'string', default: 'campaign-out' },
+    findings: { type: 'string' },
+    differential: { type: 'string' },
+    'differential-budget': { type: 'string', default: '300' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(`${message}\n${USAGE}`);
+  process.exit(1);
+};
+
+const toCount = (text: string, flag: string): number => {
+  const n = Number(text);
+  return Number.isInteger(n) && n > 0 ? n : fail(`--${flag} must be a positive integer`);
+};
+
+const GLSL_EXTENSIONS = ['.glsl', '.frag'];
+
+/** Presets plus the corpus directory's `.wgsl` files and its GLSL ones translated; GLSL that does not translate is skipped. */
+const loadCorpus = (dir: string | undefined): CorpusEntry[] => {
+  const corpus = PRESETS.map(p => ({ name: `preset:${p.name}`, code: p.code }));
+  if (!dir) return corpus;
+  for (const file of readdirSync(dir).sort()) {
+    const text = () => readFileSync(join(dir, file), 'utf8');
+    if (file.endsWith('.wgsl')) {
+      corpus.push({ name: basename(file), code: text() });
+    } else if (GLSL_EXTENSIONS.some(ext => file.endsWith(ext))) {
+      try {
+        corpus.push({ name: basename(file), code: importGlsl(text()).code });
+      } catch (e) {
+        if (!(e instanceof GlslImportError)) throw e;
+        console.warn(`Skipping ${file}: ${e.issues.join('; ')}`);
+      }
+    }
+  }
+  return corpus;
+};
+
+const loadConfig = (json: string | undefined): FuzzConfig => {
+  if (!json) return DEFAULT_FUZZ_CONFIG;
+  try {
+    return normalizeConfig({ ...DEFAULT_FUZZ_CONFIG, ...JSON.parse(json) });
+  } catch {
+    return fail('--config must be a JSON object of FuzzConfig fields');
+  }
+};
+
+/** Differential options for `--differential`; only rewrites, since there is no GPU here. */
+const loadDifferential = (mode: string | undefined): DifferentialOptions | null => {
+  if (mode === undefined) return null;
+  if (!REWRITES.includes(mode as Rewrite)) return fail(`--differential must be one of ${REWRITES.join(', ')}; backends needs a GPU`);
+  return { ...DEFAULT_DIFFERENTIAL_OPTIONS, mode: mode as Rewrite, backend: 'cpu' };
+};
+
+const main = async (): Promise<void> => {
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const iterations = toCount(values.iterations!, 'iterations');
+  const depth = toCount(values.depth!, 'depth');
+  const baseSeed = values.seed !== undefined ? (parseSeed(values.seed) ?? fail('--seed must be hex')) : randomSeed();
+  const corpus = loadCorpus(values.corpus);
+  const config = loadConfig(values.config);
+  const differential = loadDifferential(values.differential);
+  // Every compared output is rendered twice on the CPU, a second or more each for `inline`
+  const differentialBudgetMs = toCount(values['differential-budget']!, 'differential-budget') * 1000;
+  const outDir = values.out!;
+  const findings = createFileStore(values.findings ?? join(outDir, 'findings'));
+
+  const outcomes: Outcome[] = differential ? ['compile-ok', 'compile-fail', 'crash', 'mismatch'] : ['compile-ok', 'compile-fail', 'crash'];
+  for (const outcome of outcomes) mkdirSync(join(outDir, outcome), { recursive: true });
+
+  // Corpus picks and per-mutation seeds all derive from the base seed
+  const rng = mulberry32(baseSeed);
+  const nextSeed = () => Math.floor(rng.next() * 0x100000000) >>> 0;
+
+  const entries: CampaignEntry[] = [];
+  const counts = Object.fromEntries(outcomes.map(outcome => [outcome, 0])) as Record<Outcome, number>;
+  const skipped = new Map<string, number>(); // Differential checks that did not run, by reason
+  let compared = 0;
+  let differentialMs = 0;
+  if (differential) {
+    const rewritable = corpus.filter(c => {
+      try {
+        return rewriteShader(c.code, differential.mode as Rewrite).changes > 0;
+      } catch {
+        return false;
+      }
+    });
+    if (rewritable.length === 0) {
+      console.warn(`The ${differential.mode} rewrite changes none of the ${corpus.length} corpus shaders; only mutants it happens to change are compared.`);
+    }
+  }
+  const started = Date.now();
+
+  for (let index = 0; index < iterations; index++) {
+    const parent = corpus[Math.floor(rng.next() * corpus.length)];
+    const seeds = Array.from({ length: depth }, nextSeed);
+
+    let code = parent.code;
+    let previous = code;
+    let seed = seeds[0];
+    let outcome: Outcome;
+    let messages: CompilationMessage[] = [];
+    let error: string | undefined;
+    let scopeError: string | null = null;
+    let evidence: DifferentialEvidence | undefined;
+    let skipReason: string | undefined;
+    try {
+      for (seed of seeds) {
+        previous = code;
+        code = fuzzShader(code, config, seed).code;
+      }
+      const result = validateFragment(code);
+      messages = toFragmentMessages(result.messages);
+      outcome = result.ok ? 'compile-ok' : 'compile-fail';
+      if (outcome === 'compile-ok' && differential) {
+        const checkStarted = Date.now();
+        const diff = differentialMs < differentialBudgetMs
+          ? await runDifferential(code, differential, null)
+          : { status: 'skipped' as const, reason: `The --differential-budget of ${differentialBudgetMs / 1000}s is spent` };
+        differentialMs += Date.now() - checkStarted;
+        if (diff.status !== 'skipped') compared++;
+        if (diff.status === 'mismatch') {
+          outcome = 'mismatch';
+          evidence = diff.evidence;
+        } else if (diff.status === 'skipped') {
+          skipReason = diff.reason;
+          skipped.set(diff.reason, (skipped.get(diff.reason) ?? 0) + 1);
+        }
+      }
+    } catch (e) {
+      outcome = 'crash';
+      error = e instanceof Error ? (e.stack ?? e.message) : String(e);
+      scopeError = e instanceof Error ? e.message : String(e);
+    }
+
+    const stem = `${String(index).padStart(5, '0')}-${formatSeed(seeds[seeds.length - 1])}`;
+    const file = join(outcome, `${stem}.wgsl`);
+    writeFileSync(join(outDir, file), code);
+
+    const entry: CampaignEntry = { index, parent: parent.name, seeds: seeds.map(formatSeed), outcome, file, messages, error, differential: evidence?.summary, skipped: skipReason };
+    if (outcome !== 'compile-ok') {
+      writeFileSync(join(outDir, outcome, `${stem}.json`), JSON.stringify({ ...entry, config }, null, 2));
+      // A crash inside the fuzzer leaves `code` at the input that made it throw
+      const fields = {
+        source: code,
+        seed,
+        config,
+        parentSource: previous === code ? null : previous,
+        label: `${parent.name} #${index}`,
+        origin: 'campaign' as const,
+      };
+      await findings.add(evidence ? mismatchFinding(evidence, fields) : createFinding({ ...fields, messages, scopeError }));
+    }
+    entries.push(entry);
+    counts[outcome]++;
+  }
+
+  const skippedCount = [...skipped.values()].reduce((a, b) => a + b, 0);
+  const summary = {
+    baseSeed: formatSeed(baseSeed),
+    iterations,
+    depth,
+    config,
+    corpus: corpus.map(c => c.name),
+    counts: differential ? { ...counts, skipped: skippedCount } : counts,
+    skipped: Object.fromEntries([...skipped].sort((a, b) => b[1] - a[1])),
+    differential: differential
+      ? { rewrite: differential.mode, compared, durationMs: differentialMs, supported: compared > 0 }
+      : null,
+    durationMs: Date.now() - started,
+    entries,
+  };
+  writeFileSync(join(outDir, 'summary.json'), JSON.stringify(summary, null, 2));
+
+  console.log(`Campaign ${summary.baseSeed}: ${iterations} iterations in ${summary.durationMs}ms`);
+  for (const outcome of outcomes) console.log(`  ${outcome.padEnd(12)} ${counts[outcome]}`);
+  if (differential) {
+    // Valid outputs the differential check could not compare still count as compile-ok
+    console.log(`  ${'compared'.padEnd(12)} ${compared} in ${(differentialMs / 1000).toFixed(1)}s`);
+    console.log(`  ${'skipped'.padEnd(12)} ${skippedCount} of the compile-ok outputs were not compared`);
+    for (const [reason, count] of Object.entries(summary.skipped)) console.log(`    ${String(count).padStart(5)}  ${reason}`);
+    if (compared === 0) {
+      console.log(`The ${differential.mode} check is unsupported on this run: it compared no output, so its mismatch count says nothing.`);
+    }
+  }
+
+  const groups = groupFindings(await findings.list());
+  if (groups.length) console.log(`Findings: ${groups.length} distinct signatures`);
+  for (const group of groups.slice(0, 10)) console.log(`  ${String(group.count).padStart(5)}  ${group.signature}`);
+  console.log(`Results written to ${outDir}`);
+};
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
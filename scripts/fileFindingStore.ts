@@ -0,0 +1,50 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { FindingStore, decodeImage, hashString, reviveFinding } from '../services/findingsService';
+import { Finding } from '../types';
+import { encodePng } from './png';
+
+/**
+ * FILE FINDING STORE
+ *
+ * Headless persistence for findings, one directory per error signature:
+ *
+ *   <root>/<signature hash>/SIGNATURE.txt
+ *   <root>/<signature hash>/<finding id>.json   the full record
+ *   <root>/<signature hash>/<finding id>.wgsl   the source, for tools
+ *
+ * Differential mismatches also get `<finding id>.rewritten.wgsl` and
+ * `<finding id>.{expected,actual,heatmap}.png` when they have them.
+ */
+export const createFileStore = (root: string): FindingStore => ({
+  async add(finding: Finding) {
+    const dir = join(root, hashString(finding.signature));
+    const record = join(dir, `${finding.id}.json`);
+    if (existsSync(record)) return false;
+
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'SIGNATURE.txt'), `${finding.signature}\n`);
+    writeFileSync(join(dir, `${finding.id}.wgsl`), finding.source);
+    const differential = finding.differential;
+    if (differential?.rewrittenSource) writeFileSync(join(dir, `${finding.id}.rewritten.wgsl`), differential.rewrittenSource);
+    for (const [name, image] of Object.entries(differential?.images ?? {})) {
+      writeFileSync(join(dir, `${finding.id}.${name}.png`), encodePng(image.width, image.height, decodeImage(image)));
+    }
+    writeFileSync(record, JSON.stringify(finding, null, 2));
+    return true;
+  },
+  async list() {
+    if (!existsSync(root)) return [];
+    return readdirSync(root, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .flatMap(entry => {
+        const dir = join(root, entry.name);
+        return readdirSync(dir)
+          .filter(file => file.endsWith('.json'))
+          .map(file => reviveFinding(JSON.parse(readFileSync(join(dir, file), 'utf8')) as Finding));
+      });
+  },
+  async clear() {
+    rmSync(root, { recursive: true, force: true });
+  },
+});
@@ -0,0 +1,76 @@
+/**
+ * SHADER REDUCER
+ *
+ * Minimizes a failing fragment shader against the offline validator:
+ *
+ *   npm run reduce -- campaign-out/compile-fail/00042-1a2b3c4d.wgsl
+ *   npm run reduce -- shader.wgsl --match "needs 4 components" --out small.wgsl
+ *
+ * By default the reduced shader must keep failing with the same first error;
+ * `--match` instead keeps any shader with an error containing the text.
+ * Either way, a candidate with an error the input did not have is rejected,
+ * so the reduction cannot trade the bug for a new one such as a deleted
+ * entry point.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { InterestingTest, errorKey, reduceShader, sameErrorTest } from '../services/reducerService';
+import { validateFragment } from '../services/wgsl/validator';
+
+const USAGE = `Usage: reduce <file.wgsl> [--match TEXT] [--out FILE] [--max-tests N]`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    match: { type: 'string' },
+    out: { type: 'string' },
+    'max-tests': { type: 'string', default: '5000' },
+  },
+});
+
+const firstError = (code: string): string | null => {
+  const error = validateFragment(code).messages.find(m => m.type === 'error');
+  return error ? error.message : null;
+};
+
+const errorsOf = (code: string): string[] =>
+  validateFragment(code).messages.filter(m => m.type === 'error').map(m => m.message);
+
+const main = async (): Promise<void> => {
+  const [file] = positionals;
+  const maxTests = Number(values['max-tests']);
+  if (!file || !Number.isInteger(maxTests) || maxTests <= 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const code = readFileSync(file, 'utf8');
+  const reference = firstError(code);
+  const known = new Set(errorsOf(code).map(errorKey));
+  const noNewErrors = (c: string) => errorsOf(c).every(e => known.has(errorKey(e)));
+  const match = values.match;
+  let isInteresting: InterestingTest;
+  if (match !== undefined) {
+    isInteresting = c => noNewErrors(c) && errorsOf(c).some(e => e.includes(match));
+  } else if (reference !== null) {
+    const sameError = sameErrorTest(firstError, reference);
+    isInteresting = async c => noNewErrors(c) && (await sameError(c));
+    console.log(`Preserving: ${reference}`);
+  } else {
+    console.error(`${file} validates without errors; pass --match to choose what to preserve.`);
+    process.exit(1);
+  }
+
+  const result = await reduceShader(code, isInteresting, { maxTests });
+  const out = values.out ?? file.replace(/(\.wgsl)?$/, '.reduced.wgsl');
+  writeFileSync(out, result.code);
+
+  const percent = Math.round((1 - result.code.length / result.originalSize) * 100);
+  console.log(`Reduced ${result.originalSize} -> ${result.code.length} chars (${percent}% smaller) in ${result.tests} tests${result.exhausted ? ' (test budget exhausted)' : ''}`);
+  console.log(`Written to ${out}`);
+};
+
+main().catch(e => {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+import { FuzzConfig } from '../types';
+import { crossoverShaders, fuzzShader } from './fuzzerService';
+import { Rng, mulberry32 } from './prng';
+
+/**
+ * INTERACTIVE BREEDING
+ *
+ * Picbreeder-style selection: the user picks favourites from a gallery and
+ * the next generation is bred from them. Favourites carry over unchanged,
+ * the rest of the gallery are mutants of a single favourite or crossovers
+ * of two. The user's eye is the fitness function.
+ */
+
+export type BreedingOperator = 'seed' | 'kept' | 'mutation' | 'crossover';
+
+export interface BreedingTile {
+  id: string;
+  code: string;
+  operator: BreedingOperator;
+  parents: number[]; // Indices into the previous generation's tiles
+  seed: number | null;
+}
+
+export interface BreedingGeneration {
+  index: number;
+  tiles: BreedingTile[];
+}
+
+export const GALLERY_SIZE = 9;
+
+// Share of bred tiles made by crossover when two or more favourites are picked
+const CROSSOVER_RATE = 0.6;
+
+const nextSeed = (rng: Rng): number => Math.floor(rng.next() * 0x100000000) >>> 0;
+
+/** Mutates `code`, falling back to it unchanged if it does not parse. */
+const mutate = (code: string, config: FuzzConfig, seed: number): string => {
+  try {
+    return fuzzShader(code, config, seed).code;
+  } catch {
+    return code;
+  }
+};
+
+/** The first gallery: the shader itself and mutants of it. */
+export const seedGeneration = (code: string, config: FuzzConfig, baseSeed: number, size = GALLERY_SIZE): BreedingGeneration => {
+  const rng = mulberry32(baseSeed);
+  const tiles: BreedingTile[] = [{ id: '0-0', code, operator: 'seed', parents: [], seed: null }];
+  for (let i = 1; i < size; i++) {
+    const seed = nextSeed(rng);
+    tiles.push({ id: `0-${i}`, code: mutate(code, config, seed), operator: 'mutation', parents: [], seed });
+  }
+  return { index: 0, tiles };
+};
+
+/**
+ * Breeds the next gallery from the favourites (tile indices of `previous`).
+ * Deterministic in `baseSeed`. Throws if no favourite is given.
+ */
+export const breedGeneration = (
+  previous: BreedingGeneration,
+  favourites: number[],
+  config: FuzzConfig,
+  baseSeed: number,
+  size = GALLERY_SIZE,
+): BreedingGeneration => {
+  if (favourites.length === 0) throw new Error('Pick at least one favourite to breed from.');
+  const rng = mulberry32(baseSeed);
+  const index = previous.index + 1;
+  const pick = () => favourites[Math.floor(rng.next() * favourites.length)];
+
+  const tiles: BreedingTile[] = favourites.slice(0, size).map((parent, i) => ({
+    id: `${index}-${i}`,
+    code: previous.tiles[parent].code,
+    operator: 'kept',
+    parents: [parent],
+    seed: null,
+  }));
+
+  while (tiles.length < size) {
+    const id = `${index}-${tiles.length}`;
+    const seed = nextSeed(rng);
+    const first = pick();
+
+    if (favourites.length > 1 && rng.next() < CROSSOVER_RATE) {
+      let second = pick();
+      while (second === first) second = pick();
+      const child = crossoverShaders(previous.tiles[first].code, previous.tiles[second].code, seed);
+      if (child.strategy) {
+        tiles.push({ id, code: child.code, operator: 'crossover', parents: [first, second], seed });
+        continue;
+      }
+    }
+    tiles.push({ id, code: mutate(previous.tiles[first].code, config, seed), operator: 'mutation', parents: [first], seed });
+  }
+  return { index, tiles };
+};
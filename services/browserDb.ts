@@ -0,0 +1,31 @@
+/**
+ * BROWSER DATABASE
+ *
+ * The IndexedDB database the app keeps its data in, shared by the finding
+ * and project stores. Each version adds the stores it introduced, so
+ * upgrading keeps what older versions saved.
+ */
+
+const DB_NAME = 'aether-fuzz';
+const DB_VERSION = 2;
+
+export const FINDINGS_STORE = 'findings';
+export const PROJECTS_STORE = 'projects';
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      const db = request.result;
+      if (event.oldVersion < 1) db.createObjectStore(FINDINGS_STORE, { keyPath: 'id' }).createIndex('signature', 'signature');
+      if (event.oldVersion < 2) db.createObjectStore(PROJECTS_STORE, { keyPath: 'name' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
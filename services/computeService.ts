@@ -0,0 +1,123 @@
+import { COMPUTE_BINDINGS, wrapFragmentSource } from './shaderSource';
+import { mulberry32 } from './prng';
+import { ComputeRun, StorageData, findComputeEntry, runCompute, workgroupSize } from './wgsl/interpreter';
+import { parse } from './wgsl/parser';
+
+/**
+ * COMPUTE MODE
+ *
+ * A compute shader runs over the storage buffers in `COMPUTE_BINDINGS`:
+ * seeded `input` values, a zeroed `output` array and zeroed atomic
+ * `counters`. Its results are checked against a baseline, either the CPU
+ * interpreter running the same code or the GPU running the unmutated
+ * parent, and the differences, non-finite values and out-of-bounds
+ * accesses are flagged.
+ */
+
+export const ELEMENT_COUNT = 1024;
+export const COUNTER_COUNT = 64;
+export const DEFAULT_INPUT_SEED = 0x5eed;
+
+// Floats match when within an absolute epsilon plus a relative share of their size
+const ABSOLUTE_TOLERANCE = 1e-4;
+const RELATIVE_TOLERANCE = 1e-3;
+const MAX_REPORTED_DIFFS = 256;
+
+export type ComputeBaseline = 'reference' | 'parent';
+
+export interface ElementDiff {
+  buffer: string; // Standard binding name, e.g. `output`
+  index: number;
+  expected: number;
+  actual: number;
+}
+
+export interface ComputeReport {
+  diffs: ElementDiff[]; // The first `MAX_REPORTED_DIFFS`
+  diffCount: number;
+  nonFinite: number;    // NaN/Inf values in the results' float buffers
+  outOfBounds: number;  // Accesses the CPU run clamped; the GPU cannot report them
+  flags: string[];      // One line per problem, for the log
+}
+
+/**
+ * Fresh initial buffers by binding number. Inputs mix small values, a few
+ * large ones and exact integers, so both precision and overflow show up.
+ */
+export const createComputeBuffers = (seed = DEFAULT_INPUT_SEED): Map<number, StorageData> => {
+  const rng = mulberry32(seed);
+  const input = new Float32Array(ELEMENT_COUNT).map(() => {
+    const r = rng.next();
+    if (r < 0.1) return Math.floor(rng.next() * 16);
+    if (r < 0.15) return (rng.next() - 0.5) * 2e6;
+    return rng.next() * 2 - 1;
+  });
+  const [inputBinding, outputBinding, counterBinding] = COMPUTE_BINDINGS.map(b => b.binding);
+  return new Map<number, StorageData>([
+    [inputBinding, input],
+    [outputBinding, new Float32Array(ELEMENT_COUNT)],
+    [counterBinding, new Uint32Array(COUNTER_COUNT)],
+  ]);
+};
+
+export const copyBuffers = (buffers: Map<number, StorageData>): Map<number, StorageData> =>
+  new Map([...buffers].map(([binding, data]) => [binding, data.slice()]));
+
+/**
+ * Workgroups to dispatch so at least one invocation runs per element:
+ * the elements are laid out along x.
+ */
+export const computeWorkgroups = (computeCode: string): [number, number, number] => {
+  const entry = findComputeEntry(parse(wrapFragmentSource(computeCode)));
+  const [x, y, z] = entry ? workgroupSize(entry) : [1, 1, 1];
+  return [Math.max(1, Math.ceil(ELEMENT_COUNT / (x * y * z))), 1, 1];
+};
+
+/**
+ * Runs the shader on the CPU over copies of `buffers`. Throws a
+ * `WgslSyntaxError` or `InterpreterError` if it cannot be interpreted.
+ */
+export const interpretCompute = (computeCode: string, buffers: Map<number, StorageData>): { buffers: Map<number, StorageData>; run: ComputeRun } => {
+  const module = parse(wrapFragmentSource(computeCode));
+  const results = copyBuffers(buffers);
+  const run = runCompute(module, results, { workgroups: computeWorkgroups(computeCode) });
+  return { buffers: results, run };
+};
+
+const floatsMatch = (a: number, b: number): boolean => {
+  if (Number.isNaN(a) || Number.isNaN(b)) return Number.isNaN(a) && Number.isNaN(b);
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return a === b;
+  return Math.abs(a - b) <= ABSOLUTE_TOLERANCE + RELATIVE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+};
+
+/**
+ * Compares the results of a run against its baseline. Float buffers match
+ * within tolerance; counters are integers and must match exactly.
+ * `outOfBounds` comes from the CPU run of the shader under test, if any.
+ */
+export const compareCompute = (expected: Map<number, StorageData>, actual: Map<number, StorageData>, outOfBounds = 0): ComputeReport => {
+  const diffs: ElementDiff[] = [];
+  let diffCount = 0;
+  let nonFinite = 0;
+
+  for (const b of COMPUTE_BINDINGS) {
+    const want = expected.get(b.binding)!;
+    const got = actual.get(b.binding)!;
+    const float = got instanceof Float32Array;
+    for (let i = 0; i < got.length; i++) {
+      if (float && !Number.isFinite(got[i])) nonFinite++;
+      if (float ? floatsMatch(want[i], got[i]) : want[i] === got[i]) continue;
+      diffCount++;
+      if (diffs.length < MAX_REPORTED_DIFFS) diffs.push({ buffer: b.name, index: i, expected: want[i], actual: got[i] });
+    }
+  }
+
+  const flags: string[] = [];
+  if (diffCount > 0) {
+    const buffers = [...new Set(diffs.map(d => d.buffer))].join(', ');
+    flags.push(`${diffCount} element${diffCount === 1 ? '' : 's'} differ from the baseline (${buffers})`);
+  }
+  if (nonFinite > 0) flags.push(`${nonFinite} NaN/Inf value${nonFinite === 1 ? '' : 's'} in the results`);
+  if (outOfBounds > 0) flags.push(`${outOfBounds} out-of-bounds access${outOfBounds === 1 ? '' : 'es'} (clamped)`);
+  return { diffs, diffCount, nonFinite, outOfBounds, flags };
+};
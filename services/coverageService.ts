@@ -0,0 +1,73 @@
+import { CompilationMessage } from '../types';
+import { normalizeMessage } from './findingsService';
+import { Expr, Module, Node, isExpr, walk } from './wgsl/ast';
+import { getPreambleSignatures, checkModule } from './wgsl/typeChecker';
+import { BUILTINS, WgslType, typeToString } from './wgsl/typeSystem';
+
+/**
+ * FEATURE COVERAGE
+ *
+ * The fuzzer's notion of "coverage": which WGSL features a shader exercises
+ * and which diagnostics it triggers. Features are plain strings with a
+ * category prefix, e.g. `builtin:smoothstep`, `swizzle:zyx`, `stmt:For`,
+ * `type:vec3<f32>` or `diag:Invalid operands for '*': ...`, so coverage
+ * is just a set union.
+ */
+
+export type FeatureCategory = 'builtin' | 'helper' | 'ctor' | 'swizzle' | 'stmt' | 'op' | 'type' | 'depth' | 'diag';
+
+export const FEATURE_CATEGORIES: FeatureCategory[] = ['builtin', 'helper', 'ctor', 'swizzle', 'stmt', 'op', 'type', 'depth', 'diag'];
+
+const CONTROL_FLOW = new Set<Node['kind']>([
+  'If', 'For', 'While', 'Loop', 'Continuing', 'BreakIf', 'Switch', 'Break', 'Continue', 'Discard',
+]);
+
+const SWIZZLE = /^(?:[xyzw]{1,4}|[rgba]{1,4})$/;
+
+// Expression depth is bucketed like AFL's hit counts so growth, not size, is new
+const depthBucket = (depth: number): number => 2 ** Math.floor(Math.log2(Math.max(1, depth)));
+
+const exprDepth = (expr: Node): number => {
+  let deepest = 0;
+  walk(expr, n => {
+    if (n !== expr && isExpr(n)) deepest = Math.max(deepest, exprDepth(n));
+    return n === expr;
+  });
+  return deepest + 1;
+};
+
+export const featureCategory = (feature: string): FeatureCategory => feature.slice(0, feature.indexOf(':')) as FeatureCategory;
+
+/** Language features exercised by a parsed fragment module. */
+export const extractFeatures = (module: Module): Set<string> => {
+  const features = new Set<string>();
+  const info = checkModule(module);
+  const helpers = getPreambleSignatures();
+  const typeOf = (expr: Expr): WgslType | undefined => info.types.get(expr);
+
+  walk(module, (n, parent) => {
+    if (CONTROL_FLOW.has(n.kind)) features.add(`stmt:${n.kind}`);
+    if (!isExpr(n)) return;
+
+    const type = typeOf(n);
+    if (type && type.kind !== 'unknown') features.add(`type:${typeToString(type)}`);
+    if (!parent || !isExpr(parent)) features.add(`depth:${depthBucket(exprDepth(n))}`);
+
+    if (n.kind === 'Call') {
+      const name = n.callee.name;
+      if (name in BUILTINS) features.add(`builtin:${name}`);
+      else if (helpers.has(name)) features.add(`helper:${name}`);
+      else if (type && type.kind !== 'unknown' && !info.functions.has(name)) features.add(`ctor:${typeToString(type)}`);
+    } else if (n.kind === 'Member' && SWIZZLE.test(n.member) && typeOf(n.object)?.kind === 'vector') {
+      // rgba and xyzw name the same components
+      features.add(`swizzle:${n.member.replace(/[rgba]/g, c => 'xyzw'['rgba'.indexOf(c)])}`);
+    } else if (n.kind === 'Binary' || n.kind === 'Unary') {
+      features.add(`op:${n.op}:${type ? typeToString(type) : '?'}`);
+    }
+  });
+  return features;
+};
+
+/** Distinct normalized error and warning messages, as coverage features. */
+export const diagnosticFeatures = (messages: CompilationMessage[]): Set<string> =>
+  new Set(messages.filter(m => m.type !== 'info').map(m => `diag:${normalizeMessage(m.message)}`));
@@ -0,0 +1,184 @@
+import { ChannelImage, Frame, FrameSink, UniformValues } from '../types';
+import { DEFAULT_GEOMETRY, hasVertexStage, parseGeometry } from './geometryService';
+import { IMAGE_PASS, feedbackReads, isolatePass, splitPasses } from './renderGraph';
+import {
+  FEEDBACK_BINDINGS,
+  SAMPLER_BINDINGS,
+  TEXTURE_BINDINGS,
+  UNIFORM_BINDINGS,
+  fixedUniforms,
+  frameSchedule,
+  isComputeSource,
+  uniformData,
+  wrapFragmentSource,
+} from './shaderSource';
+import { getDefaultChannels } from './textureService';
+import { InterpreterError, Texture, Value, runFragment } from './wgsl/interpreter';
+import { parse } from './wgsl/parser';
+
+/**
+ * CPU RENDERER
+ *
+ * Renders fragment shaders with the WGSL interpreter instead of the GPU, for
+ * headless runs, differential tests and browsers without WebGPU. It follows
+ * the render graph: every pass draws into its own target, flipped like the
+ * base vertex shader flips it, and reads what the passes drew the frame
+ * before. Targets hold half floats as on the GPU. Frames match what
+ * `renderFrames` reads back for the same shader, time and size. Only what
+ * the base quad draws is supported: shaders without custom geometry.
+ */
+
+/** Uniform values for one frame, by binding number, as the interpreter binds them. */
+export const uniformValues = (values: UniformValues): Map<number, Value> => {
+  const data = uniformData(values);
+  return new Map(UNIFORM_BINDINGS.map((u): [number, Value] => {
+    const xs = data[u.name];
+    const type = u.type === 'u32' ? 'u32' : 'f32';
+    return [u.binding, xs.length === 1 ? { kind: 'scalar', type, x: xs[0] } : { kind: 'vector', type, xs }];
+  }));
+};
+
+/** A channel as the GPU uploads it: bottom row first, so v = 0 is the bottom of the image. */
+export const channelTexture = (channel: ChannelImage): Texture => {
+  const texels = new Float32Array(channel.pixels.length);
+  const row = channel.width * 4;
+  for (let y = 0; y < channel.height; y++) {
+    for (let i = 0; i < row; i++) texels[(channel.height - 1 - y) * row + i] = channel.pixels[y * row + i] / 255;
+  }
+  return { width: channel.width, height: channel.height, texels };
+};
+
+// Read in place of passes without a target, like the GPU's blank texture
+const BLANK: Texture = { width: 1, height: 1, texels: new Float32Array(4) };
+
+/** `x` rounded to the nearest half float, ties to even, as `rgba16float` targets store it. */
+const toHalf = (x: number): number => {
+  const a = Math.abs(x);
+  if (a === 0 || !Number.isFinite(a)) return x;
+  if (a >= 65520) return Math.sign(x) * Infinity;
+  const quantum = 2 ** (Math.max(Math.floor(Math.log2(a)), -14) - 10);
+  const n = a / quantum;
+  let r = Math.round(n);
+  if (r - n === 0.5 && r % 2 === 1) r--;
+  return Math.sign(x) * r * quantum;
+};
+
+/** Why the CPU renderer cannot draw `fragmentCode`, or null if it can try. */
+export const cpuUnsupportedReason = (fragmentCode: string): string | null => {
+  if (isComputeSource(fragmentCode)) return 'Compute shaders are not rendered';
+  const layout = splitPasses(fragmentCode);
+  if (layout.issues.length > 0) return layout.issues[0].message;
+  const { geometry } = parseGeometry(fragmentCode);
+  if (hasVertexStage(fragmentCode) || geometry.mesh !== DEFAULT_GEOMETRY.mesh || geometry.topology !== DEFAULT_GEOMETRY.topology) {
+    return 'The CPU renderer draws the base quad only';
+  }
+  return null;
+};
+
+export interface CpuRenderer {
+  /** Runs every pass once at `values.resolution` and returns the image pass as `renderFrames` would. */
+  draw: (values: UniformValues) => Frame;
+  /** Whether any pass draws into a target, so frames depend on the ones drawn before. */
+  stateful: boolean;
+}
+
+/**
+ * The CPU counterpart of a render graph. Targets start out transparent
+ * black and are cleared whenever the size changes. Throws
+ * `InterpreterError` for shaders it cannot draw and `WgslSyntaxError` if
+ * a pass does not parse; `draw` throws `InterpreterError` when a shader
+ * needs something the interpreter lacks.
+ */
+export const createCpuRenderer = (fragmentCode: string, channels: ChannelImage[] = getDefaultChannels()): CpuRenderer => {
+  const unsupported = cpuUnsupportedReason(fragmentCode);
+  if (unsupported) throw new InterpreterError(unsupported);
+
+  const reads = feedbackReads(fragmentCode);
+  const passes = splitPasses(fragmentCode).passes.map(pass => ({
+    name: pass.name,
+    module: parse(wrapFragmentSource(isolatePass(fragmentCode, pass))),
+    target: pass.name !== IMAGE_PASS || reads.has(pass.name),
+  }));
+  const inputs = new Map<number, Value>([
+    ...TEXTURE_BINDINGS.map((t, i): [number, Value] => [t.binding, { kind: 'texture', texture: channelTexture(channels[i] ?? getDefaultChannels()[i]) }]),
+    ...SAMPLER_BINDINGS.map((s): [number, Value] => [s.binding, { kind: 'sampler', sampler: s.sampler! }]),
+  ]);
+
+  let targets = new Map<string, Texture>();
+  let size = [0, 0];
+
+  return {
+    stateful: passes.some(p => p.target),
+    draw: values => {
+      const [width, height] = values.resolution;
+      if (width !== size[0] || height !== size[1]) {
+        targets = new Map();
+        size = [width, height];
+      }
+      const bindings = new Map([
+        ...uniformValues(values),
+        ...inputs,
+        ...FEEDBACK_BINDINGS.map((b): [number, Value] => [b.binding, { kind: 'texture', texture: targets.get(b.name) ?? BLANK }]),
+      ]);
+
+      // Every pass reads the previous frame's targets, so new ones are swapped in at the end
+      const drawn = new Map<string, Texture>();
+      let image: Float32Array | null = null;
+      for (const pass of passes) {
+        if (pass.target) {
+          const texels = runFragment(pass.module, bindings, { width, height, flipY: true }).map(toHalf);
+          drawn.set(pass.name, { width, height, texels });
+        }
+        if (pass.name === IMAGE_PASS) image = runFragment(pass.module, bindings, { width, height });
+      }
+      for (const [name, texture] of drawn) targets.set(name, texture);
+      return { width, height, pixels: image! };
+    },
+  };
+};
+
+/** What a frame shows on screen: channels clamped to bytes, NaN as 0. */
+export const frameToRgba8 = (frame: Frame): Uint8ClampedArray => {
+  const bytes = new Uint8ClampedArray(frame.pixels.length);
+  for (let i = 0; i < frame.pixels.length; i++) {
+    const x = frame.pixels[i];
+    bytes[i] = Number.isNaN(x) ? 0 : Math.round(Math.min(1, Math.max(0, x)) * 255);
+  }
+  return bytes;
+};
+
+/**
+ * Renders a fragment shader at `size`×`size`, once per `time` value with
+ * `fixedUniforms` and the default channels. Shaders with feedback are
+ * stepped through every frame from 0 on, as `renderFrames` does, which
+ * costs one render per sixtieth of a second. Throws like `createCpuRenderer`.
+ */
+export const renderFramesCpu = (fragmentCode: string, times: number[], size: number): Frame[] => {
+  const renderer = createCpuRenderer(fragmentCode);
+  const frames: Frame[] = new Array(times.length);
+  for (const step of frameSchedule(times, renderer.stateful)) {
+    const frame = renderer.draw(fixedUniforms(step.time, size, size));
+    for (const index of step.captures) frames[index] = frame;
+  }
+  return frames;
+};
+
+/**
+ * The CPU counterpart of `streamFrames`: renders at `width`×`height` and
+ * hands each frame to `onFrame` in order. Each render blocks, so callers
+ * that must stay responsive yield to the page in `onFrame`.
+ */
+export const streamFramesCpu = async (
+  fragmentCode: string,
+  times: number[],
+  width: number,
+  height: number,
+  onFrame: FrameSink,
+  channels: ChannelImage[] = getDefaultChannels(),
+): Promise<void> => {
+  const renderer = createCpuRenderer(fragmentCode, channels);
+  for (const step of frameSchedule(times, renderer.stateful)) {
+    const frame = renderer.draw(fixedUniforms(step.time, width, height));
+    for (const index of step.captures) await onFrame(frame, index);
+  }
+};
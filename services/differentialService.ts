@@ -0,0 +1,239 @@
+import { DifferentialBackend, DifferentialEvidence, DifferentialMode, Finding, Frame } from '../types';
+import { compareCompute, computeWorkgroups, copyBuffers, createComputeBuffers, interpretCompute } from './computeService';
+import { frameToRgba8, renderFramesCpu } from './cpuRenderer';
+import { FindingFields, createFinding, encodeImage } from './findingsService';
+import { isComputeSource } from './shaderSource';
+import { StorageData } from './wgsl/interpreter';
+import { Rewrite, rewriteShader } from './wgsl/optimizer';
+
+/**
+ * DIFFERENTIAL TESTING
+ *
+ * Runs one shader through two evaluators that must agree and records where
+ * they do not. `backends` mode puts the GPU next to the CPU interpreter;
+ * the rewrite modes run a shader and its constant-folded or let-inlined
+ * rewrite on the same backend. Pixels match within a tolerance, so float
+ * precision differences between evaluators are not findings; a frame
+ * mismatches when more than a small share of its pixels differ. Compute
+ * shaders compare their storage buffers instead. On the CPU backend
+ * nothing needs a GPU, so headless runs can test the rewrites.
+ */
+
+/** Renders like `renderFrames` in gpuService. */
+export type FrameRenderer = (fragmentCode: string, times: number[], size: number) => Promise<Frame[]>;
+
+/** Dispatches like `executeCompute` in gpuService. */
+export type ComputeExecutor = (
+  computeCode: string,
+  buffers: Map<number, StorageData>,
+  workgroups: [number, number, number],
+) => Promise<Map<number, StorageData>>;
+
+/** The GPU side, passed in by callers that have one; this module never touches the device itself. */
+export interface GpuBackend {
+  renderFrames: FrameRenderer;
+  executeCompute: ComputeExecutor;
+}
+
+export interface DifferentialOptions {
+  mode: DifferentialMode;
+  backend: DifferentialBackend; // Evaluates both sides in rewrite modes; `backends` mode uses both
+  size: number;                 // Frames are size×size pixels
+  times: number[];
+  tolerance: number;            // Largest per-channel difference of a matching pixel, 0 to 1
+  maxMismatchRatio: number;     // Share of differing pixels a frame still matches with
+}
+
+export const DEFAULT_DIFFERENTIAL_OPTIONS: DifferentialOptions = {
+  mode: 'fold',
+  backend: 'cpu',
+  size: 32,
+  times: [0, 0.5],
+  tolerance: 0.02,
+  maxMismatchRatio: 0.002,
+};
+
+export type DifferentialResult =
+  | { status: 'match'; summary: string }
+  | { status: 'skipped'; reason: string }
+  | { status: 'mismatch'; evidence: DifferentialEvidence };
+
+interface Side {
+  label: string;
+  code: string;
+  backend: DifferentialBackend;
+}
+
+/** The side taken as correct and the side under test, or why there are not two. */
+const pickSides = (code: string, mode: DifferentialMode, backend: DifferentialBackend): { expected: Side; actual: Side } | string => {
+  if (mode === 'backends') {
+    return { expected: { label: 'cpu', code, backend: 'cpu' }, actual: { label: 'gpu', code, backend: 'gpu' } };
+  }
+  let rewritten: { code: string; changes: number };
+  try {
+    rewritten = rewriteShader(code, mode as Rewrite);
+  } catch (e: any) {
+    return `The ${mode} rewrite failed: ${e.message}`;
+  }
+  if (rewritten.changes === 0) return `The ${mode} rewrite changes nothing`;
+  return {
+    expected: { label: `${backend} original`, code, backend },
+    actual: { label: `${backend} ${mode}`, code: rewritten.code, backend },
+  };
+};
+
+// -- Pixels --
+
+export interface FrameComparison {
+  mismatched: number;        // Pixels with a channel differing by more than the tolerance
+  maxDelta: number;          // Largest channel difference, 0 to 1
+  heatmap: Uint8ClampedArray; // RGBA8: matching pixels dim blue, differing ones red to yellow as they differ more
+}
+
+/** Compares two frames of the same size as they would be displayed. */
+export const compareFrames = (expected: Frame, actual: Frame, tolerance: number): FrameComparison => {
+  const want = frameToRgba8(expected);
+  const got = frameToRgba8(actual);
+  const heatmap = new Uint8ClampedArray(want.length);
+  let mismatched = 0;
+  let maxDelta = 0;
+  for (let i = 0; i < want.length; i += 4) {
+    let delta = 0;
+    for (let c = 0; c < 4; c++) delta = Math.max(delta, Math.abs(want[i + c] - got[i + c]) / 255);
+    maxDelta = Math.max(maxDelta, delta);
+    if (delta > tolerance) {
+      mismatched++;
+      heatmap.set([255, 255 * Math.min(1, (delta - tolerance) / (1 - tolerance)), 0, 255], i);
+    } else {
+      heatmap.set([0, 0, 40 + 80 * (tolerance > 0 ? delta / tolerance : 0), 255], i);
+    }
+  }
+  return { mismatched, maxDelta, heatmap };
+};
+
+const percent = (ratio: number): string => `${(ratio * 100).toFixed(ratio < 0.01 ? 2 : 1)}%`;
+
+const renderSide = (side: Side, options: DifferentialOptions, gpu: GpuBackend | null): Promise<Frame[]> =>
+  side.backend === 'gpu'
+    ? gpu!.renderFrames(side.code, options.times, options.size)
+    : Promise.resolve().then(() => renderFramesCpu(side.code, options.times, options.size));
+
+const diffFrames = async (
+  code: string,
+  sides: { expected: Side; actual: Side },
+  options: DifferentialOptions,
+  gpu: GpuBackend | null,
+): Promise<DifferentialResult> => {
+  const frames: Frame[][] = [];
+  for (const side of [sides.expected, sides.actual]) {
+    try {
+      frames.push(await renderSide(side, options, gpu));
+    } catch (e: any) {
+      return { status: 'skipped', reason: `${side.label}: ${e.message}` };
+    }
+  }
+  const [expected, actual] = frames;
+
+  // The frame with the most differing pixels stands for the whole run
+  let worst = { index: 0, comparison: compareFrames(expected[0], actual[0], options.tolerance) };
+  for (let i = 1; i < options.times.length; i++) {
+    const comparison = compareFrames(expected[i], actual[i], options.tolerance);
+    if (comparison.mismatched > worst.comparison.mismatched) worst = { index: i, comparison };
+  }
+  const { mismatched, maxDelta, heatmap } = worst.comparison;
+  const time = options.times[worst.index];
+  const ratio = mismatched / (options.size * options.size);
+  if (ratio <= options.maxMismatchRatio) {
+    return { status: 'match', summary: `${sides.expected.label} and ${sides.actual.label} agree (max difference ${maxDelta.toFixed(3)})` };
+  }
+
+  const image = (pixels: Uint8ClampedArray) => encodeImage(options.size, options.size, pixels);
+  return {
+    status: 'mismatch',
+    evidence: {
+      mode: options.mode,
+      expected: sides.expected.label,
+      actual: sides.actual.label,
+      summary: `${percent(ratio)} of pixels differ by more than ${options.tolerance} at t=${time} (max ${maxDelta.toFixed(3)})`,
+      rewrittenSource: sides.actual.code === code ? null : sides.actual.code,
+      time,
+      images: {
+        expected: image(frameToRgba8(expected[worst.index])),
+        actual: image(frameToRgba8(actual[worst.index])),
+        heatmap: image(heatmap),
+      },
+    },
+  };
+};
+
+// -- Storage Buffers --
+
+const runSide = async (side: Side, inputs: Map<number, StorageData>, gpu: GpuBackend | null): Promise<Map<number, StorageData>> =>
+  side.backend === 'gpu'
+    ? gpu!.executeCompute(side.code, copyBuffers(inputs), computeWorkgroups(side.code))
+    : interpretCompute(side.code, inputs).buffers;
+
+const diffCompute = async (
+  code: string,
+  sides: { expected: Side; actual: Side },
+  options: DifferentialOptions,
+  gpu: GpuBackend | null,
+): Promise<DifferentialResult> => {
+  const inputs = createComputeBuffers();
+  const results: Map<number, StorageData>[] = [];
+  for (const side of [sides.expected, sides.actual]) {
+    try {
+      results.push(await runSide(side, inputs, gpu));
+    } catch (e: any) {
+      return { status: 'skipped', reason: `${side.label}: ${e.message}` };
+    }
+  }
+
+  const report = compareCompute(results[0], results[1]);
+  if (report.diffCount === 0) return { status: 'match', summary: `${sides.expected.label} and ${sides.actual.label} agree` };
+  return {
+    status: 'mismatch',
+    evidence: {
+      mode: options.mode,
+      expected: sides.expected.label,
+      actual: sides.actual.label,
+      summary: report.flags[0],
+      rewrittenSource: sides.actual.code === code ? null : sides.actual.code,
+      time: null,
+      images: null,
+    },
+  };
+};
+
+/**
+ * Runs `code` through both evaluators of `options.mode` and compares the
+ * results. Skips, rather than fails, when there is nothing to compare:
+ * the rewrite changes nothing, a side cannot run the shader, or a GPU is
+ * needed and `gpu` is null.
+ */
+export const runDifferential = async (
+  code: string,
+  options: DifferentialOptions,
+  gpu: GpuBackend | null,
+): Promise<DifferentialResult> => {
+  if (gpu === null && (options.mode === 'backends' || options.backend === 'gpu')) {
+    return { status: 'skipped', reason: 'No GPU to compare against' };
+  }
+  const sides = pickSides(code, options.mode, options.backend);
+  if (typeof sides === 'string') return { status: 'skipped', reason: sides };
+  return isComputeSource(code) ? diffCompute(code, sides, options, gpu) : diffFrames(code, sides, options, gpu);
+};
+
+/**
+ * A finding for a mismatch. Its signature names the two sides, so
+ * mismatches between the same evaluators group together.
+ */
+export const mismatchFinding = (
+  evidence: DifferentialEvidence,
+  fields: Omit<FindingFields, 'messages' | 'scopeError' | 'differential'>,
+): Finding =>
+  createFinding({
+    ...fields,
+    scopeError: `Differential mismatch: ${evidence.expected} vs ${evidence.actual}`,
+    differential: evidence,
+  });
@@ -0,0 +1,146 @@
+import { FuzzConfig } from '../types';
+import { diagnosticFeatures, extractFeatures } from './coverageService';
+import { fuzzShader } from './fuzzerService';
+import { Rng, mulberry32 } from './prng';
+import { parse } from './wgsl/parser';
+import { validateFragment } from './wgsl/validator';
+
+/**
+ * COVERAGE-GUIDED EVOLUTION
+ *
+ * An AFL-style loop on top of `fuzzShader`: keep a corpus, pick a parent with
+ * a bias towards recent and productive entries, mutate it, and keep the child
+ * only if it exercises a feature or triggers a diagnostic nothing in the
+ * corpus has before. Children are checked with the offline validator, so the
+ * loop runs at CPU speed in the browser and headless alike.
+ */
+
+export interface CorpusEntry {
+  id: number;
+  code: string;
+  parentId: number | null;
+  seed: number | null;
+  newFeatures: string[]; // Coverage this entry added when it was kept
+  ok: boolean;           // Validated without errors
+  picks: number;         // Times chosen as a parent
+  foundAt: number;       // Iteration it was kept at
+}
+
+export interface EvolutionStats {
+  iterations: number;
+  corpusSize: number;
+  coverage: number;    // Distinct features, diagnostics included
+  diagnostics: number; // Distinct diagnostic features
+  failing: number;     // Children that did not validate
+  crashes: number;     // Children the fuzzer or validator threw on
+  lastNewAt: number;   // Iteration of the most recent coverage gain
+}
+
+export interface EvolutionState {
+  config: FuzzConfig;
+  corpus: CorpusEntry[];
+  coverage: Set<string>;
+  stats: EvolutionStats;
+  rng: Rng;
+  nextId: number;
+}
+
+const MAX_CORPUS = 512;
+
+/** Validates and measures a shader: its features, diagnostics included. */
+const measure = (code: string): { features: Set<string>; ok: boolean } => {
+  const validation = validateFragment(code);
+  const features = diagnosticFeatures(validation.messages);
+  for (const f of extractFeatures(parse(code))) features.add(f);
+  return { features, ok: validation.ok };
+};
+
+/**
+ * Starts a loop from the given seed shaders. The base seed drives parent
+ * picks and per-child seeds, so a run is reproducible from it.
+ */
+export const createEvolution = (seeds: string[], config: FuzzConfig, baseSeed: number): EvolutionState => {
+  const state: EvolutionState = {
+    config,
+    corpus: [],
+    coverage: new Set(),
+    stats: { iterations: 0, corpusSize: 0, coverage: 0, diagnostics: 0, failing: 0, crashes: 0, lastNewAt: 0 },
+    rng: mulberry32(baseSeed),
+    nextId: 0,
+  };
+  for (const code of seeds) {
+    try {
+      const { features, ok } = measure(code);
+      addEntry(state, { code, parentId: null, seed: null, ok }, features);
+    } catch {
+      // Seeds that do not parse cannot be mutated
+    }
+  }
+  return state;
+};
+
+const addEntry = (
+  state: EvolutionState,
+  fields: Pick<CorpusEntry, 'code' | 'parentId' | 'seed' | 'ok'>,
+  features: Set<string>,
+): CorpusEntry | null => {
+  const fresh = [...features].filter(f => !state.coverage.has(f));
+  if (fresh.length === 0 && state.corpus.length > 0) return null;
+
+  for (const f of fresh) state.coverage.add(f);
+  const entry: CorpusEntry = { ...fields, id: state.nextId++, newFeatures: fresh, picks: 0, foundAt: state.stats.iterations };
+  state.corpus.push(entry);
+  // Past the cap the oldest descendant goes; seeds always stay
+  if (state.corpus.length > MAX_CORPUS) state.corpus.splice(state.corpus.findIndex(e => e.parentId !== null), 1);
+
+  state.stats.corpusSize = state.corpus.length;
+  state.stats.coverage = state.coverage.size;
+  state.stats.diagnostics = [...state.coverage].filter(f => f.startsWith('diag:')).length;
+  state.stats.lastNewAt = state.stats.iterations;
+  return entry;
+};
+
+/**
+ * Energy of a corpus entry, as in AFL's power schedule: entries that found
+ * more are mutated more, fresh ones get a head start, and every pick drains
+ * a little so the loop keeps moving through the corpus.
+ */
+const energy = (entry: CorpusEntry): number =>
+  (1 + entry.newFeatures.length) * (entry.ok ? 1 : 0.5) / (1 + entry.picks);
+
+const pickParent = (state: EvolutionState): CorpusEntry => {
+  const total = state.corpus.reduce((sum, e) => sum + energy(e), 0);
+  let target = state.rng.next() * total;
+  for (const entry of state.corpus) {
+    target -= energy(entry);
+    if (target <= 0) return entry;
+  }
+  return state.corpus[state.corpus.length - 1];
+};
+
+/**
+ * Runs `iterations` mutate-measure-keep cycles, updating `state` in place.
+ * Returns the entries kept during this call.
+ */
+export const evolve = (state: EvolutionState, iterations: number): CorpusEntry[] => {
+  const kept: CorpusEntry[] = [];
+  if (state.corpus.length === 0) return kept;
+
+  for (let i = 0; i < iterations; i++) {
+    state.stats.iterations++;
+    const parent = pickParent(state);
+    parent.picks++;
+    const seed = Math.floor(state.rng.next() * 0x100000000) >>> 0;
+
+    try {
+      const child = fuzzShader(parent.code, state.config, seed).code;
+      const { features, ok } = measure(child);
+      if (!ok) state.stats.failing++;
+      const entry = addEntry(state, { code: child, parentId: parent.id, seed, ok }, features);
+      if (entry) kept.push(entry);
+    } catch {
+      state.stats.crashes++;
+    }
+  }
+  return kept;
+};
@@ -0,0 +1,270 @@
+import { ChannelImage, Frame, FrameSink } from '../types';
+import { frameToRgba8 } from './cpuRenderer';
+import { encodeGif } from './gifEncoder';
+import { createZip } from './zipWriter';
+
+/**
+ * RENDER EXPORT
+ *
+ * Captures a shader as a still or an animation. Frames are rendered
+ * offscreen with `fixedUniforms` on a fixed timestep, never the wall clock,
+ * so an export comes out the same every time. Sequences are saved as a zip
+ * of PNGs, an animated GIF or WebM video. The loop search finds the period
+ * after which a shader comes back to where it started, so a sequence of
+ * that length plays seamlessly on repeat.
+ */
+
+export type SequenceFormat = 'zip' | 'gif' | 'webm';
+
+export const SEQUENCE_FORMATS: SequenceFormat[] = ['zip', 'gif', 'webm'];
+
+/** Renders like `streamFrames` in gpuService, or `streamFramesCpu` without WebGPU. */
+export type FrameStreamer = (
+  fragmentCode: string,
+  times: number[],
+  width: number,
+  height: number,
+  onFrame: FrameSink,
+  channels?: ChannelImage[],
+) => Promise<void>;
+
+/** The shader to export and how to render it. */
+export interface ExportSource {
+  code: string;
+  channels: ChannelImage[];
+  stream: FrameStreamer;
+}
+
+export interface ExportSettings {
+  width: number;
+  height: number;
+  time: number;     // Time of the still, and of a sequence's first frame
+  duration: number; // Seconds of animation in a sequence
+  fps: number;
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  width: 512,
+  height: 512,
+  time: 0,
+  duration: 2,
+  fps: 30,
+};
+
+/** Frames done and frames in all, as a sequence renders. */
+export type ExportProgress = (done: number, total: number) => void;
+
+/** An export that cannot run, or was cancelled. */
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+// Sequences hold every frame before encoding them; longer or larger ones are refused
+const MAX_SEQUENCE_BYTES = 256 * 1024 * 1024;
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/** The times of a sequence's frames: `duration` seconds from `time`, `fps` frames a second. */
+export const sequenceTimes = (settings: ExportSettings): number[] =>
+  Array.from({ length: Math.max(1, Math.round(settings.duration * settings.fps)) }, (_, i) => settings.time + i / settings.fps);
+
+/** A frame as the canvas shows it: opaque, the premultiplied colour over black. */
+export const displayedPixels = (frame: Frame): Uint8ClampedArray => {
+  const bytes = frameToRgba8(frame);
+  for (let i = 3; i < bytes.length; i += 4) bytes[i] = 255;
+  return bytes;
+};
+
+const pngBlob = (width: number, height: number, pixels: Uint8ClampedArray): Promise<Blob> => {
+  const canvas = new OffscreenCanvas(width, height);
+  canvas.getContext('2d')!.putImageData(new ImageData(pixels, width, height), 0, 0);
+  return canvas.convertToBlob({ type: 'image/png' });
+};
+
+/** Lets the page repaint between frames, and stops the render once `signal` aborts. */
+const nextFrame = async (signal?: AbortSignal): Promise<void> => {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  if (signal?.aborted) throw new ExportError('Export cancelled');
+};
+
+/** A PNG of the shader at `settings.time`. Shaders with feedback are stepped there from 0. */
+export const exportStill = async (source: ExportSource, settings: ExportSettings): Promise<Blob> => {
+  let still: Frame | null = null;
+  await source.stream(source.code, [settings.time], settings.width, settings.height, frame => {
+    still = frame;
+  }, source.channels);
+  return pngBlob(settings.width, settings.height, displayedPixels(still!));
+};
+
+/**
+ * Plays `frames` into a MediaRecorder at `fps`. The recorder stamps frames
+ * with the wall clock, so recording takes as long as the video plays.
+ */
+const recordWebm = (frames: Uint8ClampedArray[], width: number, height: number, fps: number, signal?: AbortSignal): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const mimeType = typeof MediaRecorder === 'undefined' ? undefined : WEBM_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+    if (!mimeType) {
+      reject(new ExportError('This browser cannot record WebM video'));
+      return;
+    }
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d')!;
+    const stream = canvas.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => chunks.push(e.data);
+    recorder.onstop = () => {
+      if (signal?.aborted) reject(new ExportError('Export cancelled'));
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+
+    const started = performance.now();
+    let index = 0;
+    const play = () => {
+      if (signal?.aborted || index === frames.length) {
+        recorder.stop();
+        track.stop();
+        return;
+      }
+      context.putImageData(new ImageData(frames[index], width, height), 0, 0);
+      track.requestFrame();
+      index++;
+      // Timed from the start, so one late frame does not hold back the rest
+      setTimeout(play, Math.max(0, started + (index * 1000) / fps - performance.now()));
+    };
+    recorder.start();
+    play();
+  });
+
+/**
+ * Renders `settings.duration` seconds from `settings.time` at `settings.fps`
+ * and encodes them as `format`. Zips hold one PNG per frame; GIF frame
+ * delays are rounded to hundredths of a second without drifting. Throws
+ * `ExportError` for sequences too large to hold or when `signal` aborts.
+ */
+export const exportSequence = async (
+  source: ExportSource,
+  format: SequenceFormat,
+  settings: ExportSettings,
+  onProgress: ExportProgress,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const { width, height, fps } = settings;
+  const times = sequenceTimes(settings);
+  if (times.length * width * height * 4 > MAX_SEQUENCE_BYTES) {
+    throw new ExportError(`${times.length} frames at ${width}×${height} is too much to hold; shorten the sequence or lower the size`);
+  }
+
+  const frames: Uint8ClampedArray[] = [];
+  const pngs: Uint8Array[] = [];
+  onProgress(0, times.length);
+  await source.stream(source.code, times, width, height, async (frame, index) => {
+    const pixels = displayedPixels(frame);
+    if (format === 'zip') pngs.push(new Uint8Array(await (await pngBlob(width, height, pixels)).arrayBuffer()));
+    else frames.push(pixels);
+    onProgress(index + 1, times.length);
+    await nextFrame(signal);
+  }, source.channels);
+
+  if (format === 'zip') {
+    const digits = Math.max(4, String(pngs.length).length);
+    return createZip(pngs.map((data, i) => ({ name: `frame-${String(i).padStart(digits, '0')}.png`, data })));
+  }
+  if (format === 'gif') {
+    const delays = frames.map((_, i) => Math.round((100 * (i + 1)) / fps) - Math.round((100 * i) / fps));
+    return new Blob([encodeGif(width, height, frames, delays)], { type: 'image/gif' });
+  }
+  return recordWebm(frames, width, height, fps, signal);
+};
+
+// -- Loop Search --
+
+// Longest side of the frames the loop search compares
+const LOOP_PREVIEW_SIZE = 32;
+
+// Periods whose seam is this close to the best one's count as just as good; the shortest wins
+const LOOP_SLACK = 0.004;
+
+// Largest seam difference a loop still plays seamlessly with
+const SEAMLESS_ERROR = 0.02;
+
+export interface LoopSearch {
+  period: number; // Seconds, a whole number of frames at the export's fps
+  frames: number;
+  error: number;  // Mean channel difference across the seam, 0 to 1
+  seamless: boolean;
+}
+
+const meanDifference = (a: Uint8ClampedArray, b: Uint8ClampedArray): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 4) {
+    sum += Math.abs(a[i] - b[i]) + Math.abs(a[i + 1] - b[i + 1]) + Math.abs(a[i + 2] - b[i + 2]);
+  }
+  return sum / ((a.length / 4) * 3 * 255);
+};
+
+/**
+ * Looks for the period, between `minPeriod` and `maxPeriod` seconds and on
+ * the export's frame grid, after which the shader looks as it did at
+ * `settings.time`. A period scores how far its frame and the one after
+ * differ from the first two frames, so motion carries across the seam as
+ * well as the image. Renders small previews, one per frame of the range.
+ */
+export const findLoopPeriod = async (
+  source: ExportSource,
+  settings: ExportSettings,
+  minPeriod: number,
+  maxPeriod: number,
+  onProgress: ExportProgress,
+  signal?: AbortSignal,
+): Promise<LoopSearch> => {
+  const { fps } = settings;
+  const scale = LOOP_PREVIEW_SIZE / Math.max(settings.width, settings.height);
+  const width = Math.max(1, Math.round(settings.width * scale));
+  const height = Math.max(1, Math.round(settings.height * scale));
+  const first = Math.max(1, Math.ceil(minPeriod * fps));
+  const last = Math.max(first, Math.floor(maxPeriod * fps));
+  const times = Array.from({ length: last + 2 }, (_, i) => settings.time + i / fps);
+
+  const previews: Uint8ClampedArray[] = [];
+  onProgress(0, times.length);
+  await source.stream(source.code, times, width, height, async (frame, index) => {
+    previews.push(displayedPixels(frame));
+    onProgress(index + 1, times.length);
+    if (index % 16 === 15) await nextFrame(signal);
+  }, source.channels);
+
+  const errors: number[] = [];
+  for (let k = first; k <= last; k++) {
+    errors.push((meanDifference(previews[k], previews[0]) + meanDifference(previews[k + 1], previews[1])) / 2);
+  }
+  const best = Math.min(...errors);
+  const index = errors.findIndex(e => e <= best + LOOP_SLACK);
+  const error = errors[index];
+  return { period: (first + index) / fps, frames: first + index, error, seamless: error <= SEAMLESS_ERROR };
+};
+
+/** File name for an export, e.g. `shader-512x512-30fps-2s.gif`. */
+export const exportFileName = (settings: ExportSettings, format: SequenceFormat | 'png'): string => {
+  const size = `${settings.width}x${settings.height}`;
+  return format === 'png'
+    ? `shader-${size}-t${+settings.time.toFixed(3)}.png`
+    : `shader-${size}-${settings.fps}fps-${+settings.duration.toFixed(3)}s.${format}`;
+};
+
+/** Saves `blob` through the browser's download prompt. */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking at once can cancel the download before it starts
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
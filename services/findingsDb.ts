@@ -0,0 +1,34 @@
+import { Finding } from '../types';
+import { FINDINGS_STORE, openDatabase, promisify } from './browserDb';
+import { FindingStore, reviveFinding } from './findingsService';
+
+/**
+ * INDEXEDDB FINDING STORE
+ *
+ * Browser persistence for findings: one object store keyed by finding id,
+ * so findings survive reloads and recording a known failure is a no-op.
+ */
+
+export const createIndexedDbStore = (): FindingStore => {
+  let db: Promise<IDBDatabase> | null = null;
+  const objectStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    db ??= openDatabase();
+    return (await db).transaction(FINDINGS_STORE, mode).objectStore(FINDINGS_STORE);
+  };
+
+  return {
+    async add(finding: Finding) {
+      const store = await objectStore('readwrite');
+      if ((await promisify(store.getKey(finding.id))) !== undefined) return false;
+      await promisify(store.add(finding));
+      return true;
+    },
+    async list() {
+      const stored = await promisify((await objectStore('readonly')).getAll() as IDBRequest<Finding[]>);
+      return stored.map(reviveFinding);
+    },
+    async clear() {
+      await promisify((await objectStore('readwrite')).clear());
+    },
+  };
+};
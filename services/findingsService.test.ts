@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CompilationMessage } from '../types';
+import { createFinding, errorSignature, normalizeMessage } from './findingsService';
+
+const error = (message: string, lineNum = 1): CompilationMessage => ({ type: 'error', message, lineNum, linePos: 1, offset: 0, length: 1 });
+
+describe('normalizeMessage', () => {
+  it.each([
+    ["Line 12: Unresolved identifier 'uv_geo_17'", "Unresolved identifier '$'"],
+    ["Unresolved identifier 'p' (line 3:9)", "Unresolved identifier '$'"],
+    ['shader.wgsl:4:17 error:   expected   ;', 'shader.wgsl error: expected ;'],
+    ["Cannot assign vec3<f32> to 'col.xy'", "Cannot assign vec3<f32> to '$.$'"],
+    ["No overload of 'mix' for (f32, vec2<f32>)", "No overload of 'mix' for (f32, vec2<f32>)"],
+    ["expected 'end of input'", "expected 'end of input'"],
+  ])('normalizes %j', (message, normalized) => {
+    expect(normalizeMessage(message)).toBe(normalized);
+  });
+});
+
+describe('errorSignature', () => {
+  it('groups errors that differ only in position and identifiers', () => {
+    const a = errorSignature([error("Line 3: Unresolved identifier 'uv_geo_17'", 3), error("Invalid swizzle '.w' on vec2<f32>", 9)]);
+    const b = errorSignature([error("Invalid swizzle '.w' on vec2<f32>", 40), error("Line 8: Unresolved identifier 'p' (line 8:2)", 8), error("Unresolved identifier 'q'", 12)]);
+    expect(b).toBe(a);
+    expect(createFinding({ source: 'a', origin: 'browser', messages: [error("Unresolved identifier 'x'")] }).signature)
+      .toBe(createFinding({ source: 'b', origin: 'browser', messages: [error("Unresolved identifier 'y'", 7)] }).signature);
+  });
+
+  it('tells different errors apart', () => {
+    const signatures = [
+      [error("Unresolved identifier 'p'")],
+      [error("Unresolved function 'p'")],
+      [error("No overload of 'mix' for (f32, vec2<f32>)")],
+      [error("No overload of 'clamp' for (f32, vec2<f32>)")],
+      [error("Unresolved identifier 'p'"), error('Integer division by zero')],
+    ].map(messages => errorSignature(messages));
+    expect(new Set(signatures).size).toBe(signatures.length);
+  });
+
+  it('ignores warnings and falls back to the scope error', () => {
+    const warning: CompilationMessage = { ...error('unused variable'), type: 'warning' };
+    expect(errorSignature([warning], "Line 2: Device lost on 'main'")).toBe(errorSignature([], "Device lost on 'main'"));
+    expect(errorSignature([warning])).toBe('unknown failure');
+  });
+});
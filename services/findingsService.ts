@@ -0,0 +1,145 @@
+import { CompilationMessage, DifferentialEvidence, Finding, FindingGroup, FindingImage, FuzzConfig } from '../types';
+import { normalizeConfig } from './mutatorRegistry';
+import { BUILTINS } from './wgsl/typeSystem';
+
+/**
+ * FINDINGS
+ *
+ * Every failing shader becomes a `Finding`. Findings are grouped by an error
+ * signature that survives cosmetic differences: positions are dropped and
+ * user identifiers are replaced by `$`, so "unresolved value 'uv_geo_17'" and
+ * "unresolved value 'p'" count as the same bug. Storage is pluggable: the app
+ * uses IndexedDB, the headless runner writes files.
+ */
+
+export interface FindingStore {
+  /** Stores a finding unless one with the same id exists. Resolves true if it was new. */
+  add(finding: Finding): Promise<boolean>;
+  list(): Promise<Finding[]>;
+  clear(): Promise<void>;
+}
+
+const TYPE_NAME = /^(?:bool|f16|f32|i32|u32|vec[234][fhiu]?|mat[234]x[234][fh]?|array|ptr|atomic|sampler(?:_comparison)?|texture_\w+)$/;
+const KEYWORDS = new Set([
+  'alias', 'break', 'case', 'const', 'const_assert', 'continue', 'continuing', 'default', 'diagnostic', 'discard',
+  'else', 'enable', 'false', 'fn', 'for', 'if', 'let', 'loop', 'override', 'requires', 'return', 'struct',
+  'switch', 'true', 'var', 'while', 'function', 'private', 'workgroup', 'uniform', 'storage', 'read', 'write', 'read_write',
+]);
+
+const isKnownName = (name: string): boolean => TYPE_NAME.test(name) || KEYWORDS.has(name) || name in BUILTINS;
+
+// Quoted prose such as 'end of input' is not code
+const PHRASE = /^['`][A-Za-z]+(?: [A-Za-z]+)+['`]$/;
+
+/** Replaces user identifiers inside a quoted fragment of a message. */
+const stripIdentifiers = (quoted: string): string =>
+  PHRASE.test(quoted) ? quoted : quoted.replace(/[A-Za-z_][A-Za-z0-9_]*/g, name => (isKnownName(name) ? name : '$'));
+
+/** One message with positions removed and quoted identifiers anonymized. */
+export const normalizeMessage = (message: string): string =>
+  message
+    .replace(/^Line \d+:\s*/, '')
+    .replace(/\s*\(line \d+:\d+\)/g, '')
+    .replace(/:\d+:\d+/g, '')
+    .replace(/'[^']*'|`[^`]*`/g, stripIdentifiers)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * The grouping key for a failure: its distinct normalized error messages,
+ * sorted, or the normalized scope error when compilation itself succeeded.
+ */
+export const errorSignature = (messages: CompilationMessage[], scopeError: string | null = null): string => {
+  const errors = messages.filter(m => m.type === 'error').map(m => normalizeMessage(m.message));
+  if (errors.length === 0 && scopeError) errors.push(...scopeError.split('\n').map(normalizeMessage));
+  return [...new Set(errors.filter(Boolean))].sort().join(' | ') || 'unknown failure';
+};
+
+/** FNV-1a, as 8 hex digits. Stable ids for signatures and sources. */
+export const hashString = (text: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+export interface FindingFields {
+  source: string;
+  seed?: number | null;
+  config?: FuzzConfig | null;
+  parentSource?: string | null;
+  label?: string;
+  messages?: CompilationMessage[];
+  scopeError?: string | null;
+  origin: Finding['origin'];
+  differential?: DifferentialEvidence;
+}
+
+export const createFinding = (fields: FindingFields): Finding => {
+  const messages = fields.messages ?? [];
+  const scopeError = fields.scopeError ?? null;
+  const signature = errorSignature(messages, scopeError);
+  return {
+    id: `${hashString(signature)}-${hashString(fields.source)}`,
+    signature,
+    source: fields.source,
+    seed: fields.seed ?? null,
+    config: fields.config ?? null,
+    parentSource: fields.parentSource ?? null,
+    label: fields.label ?? '',
+    messages,
+    scopeError,
+    origin: fields.origin,
+    createdAt: Date.now(),
+    ...(fields.differential ? { differential: fields.differential } : {}),
+  };
+};
+
+// Bytes per `String.fromCharCode` call, well below engines' argument limits
+const BASE64_CHUNK = 0x8000;
+
+/** Packs RGBA8 pixels into a `FindingImage`. */
+export const encodeImage = (width: number, height: number, pixels: Uint8ClampedArray): FindingImage => {
+  let binary = '';
+  for (let i = 0; i < pixels.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...pixels.subarray(i, i + BASE64_CHUNK));
+  }
+  return { width, height, data: btoa(binary) };
+};
+
+/** The RGBA8 pixels of a `FindingImage`. */
+export const decodeImage = (image: FindingImage): Uint8ClampedArray => {
+  const binary = atob(image.data);
+  const pixels = new Uint8ClampedArray(binary.length);
+  for (let i = 0; i < binary.length; i++) pixels[i] = binary.charCodeAt(i);
+  return pixels;
+};
+
+/** Groups findings by signature, most recently seen group first. */
+export const groupFindings = (findings: Finding[]): FindingGroup[] => {
+  const groups = new Map<string, FindingGroup>();
+  for (const finding of [...findings].sort((a, b) => b.createdAt - a.createdAt)) {
+    const group = groups.get(finding.signature);
+    if (group) {
+      group.count++;
+      group.firstSeen = finding.createdAt;
+      group.findings.push(finding);
+    } else {
+      groups.set(finding.signature, {
+        signature: finding.signature,
+        count: 1,
+        firstSeen: finding.createdAt,
+        lastSeen: finding.createdAt,
+        findings: [finding],
+      });
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.lastSeen - a.lastSeen);
+};
+
+
+/** Brings a stored finding up to date; its config may predate the mutator registry. */
+export const reviveFinding = (stored: Finding): Finding =>
+  stored.config ? { ...stored, config: normalizeConfig(stored.config as unknown as Record<string, unknown>) } : stored;
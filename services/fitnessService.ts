@@ -0,0 +1,144 @@
+import { Frame } from '../types';
+import { renderFrames } from './gpuService';
+
+/**
+ * VISUAL FITNESS
+ *
+ * Scores rendered frames for visual interest, so dull mutants (solid black,
+ * solid white, pure noise, NaN soup) can be rejected automatically. Works on
+ * plain RGBA float pixels, so any renderer - GPU readback or a CPU fallback -
+ * can feed it.
+ */
+
+export interface FitnessMetrics {
+  luminanceVariance: number; // Of the first frame, in [0, 0.25]
+  edgeDensity: number;       // Fraction of pixels on a luminance edge
+  colorEntropy: number;      // Normalized entropy of a 512-bin RGB histogram, in [0, 1]
+  temporalChange: number;    // Mean absolute luminance change between frames
+  nanRatio: number;          // Fraction of pixels with a NaN/Inf component
+}
+
+export interface FitnessReport {
+  score: number; // In [0, 1]
+  metrics: FitnessMetrics;
+}
+
+/** `time` values frames are rendered at; spread out so slow animations register. */
+export const FITNESS_TIMES = [0, 0.7, 2.3];
+export const FITNESS_SIZE = 64;
+export const DEFAULT_FITNESS_THRESHOLD = 0.25;
+
+const EDGE_THRESHOLD = 0.05;
+const HISTOGRAM_BITS = 3; // Per channel
+
+const clamp01 = (v: number): number => (v < 0 ? 0 : v > 1 ? 1 : v);
+
+/** Rec. 709 luminance per pixel; non-finite pixels count as black. */
+const luminanceOf = (frame: Frame): Float32Array => {
+  const { pixels } = frame;
+  const lum = new Float32Array(frame.width * frame.height);
+  for (let i = 0; i < lum.length; i++) {
+    const r = pixels[i * 4], g = pixels[i * 4 + 1], b = pixels[i * 4 + 2];
+    const l = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    lum[i] = Number.isFinite(l) ? clamp01(l) : 0;
+  }
+  return lum;
+};
+
+const variance = (values: Float32Array): number => {
+  let sum = 0, sumSq = 0;
+  for (const v of values) {
+    sum += v;
+    sumSq += v * v;
+  }
+  const mean = sum / values.length;
+  return Math.max(0, sumSq / values.length - mean * mean);
+};
+
+/** Fraction of pixels whose horizontal or vertical luminance step exceeds the threshold. */
+const edgeDensity = (lum: Float32Array, width: number, height: number): number => {
+  let edges = 0;
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      const dx = lum[i + 1] - lum[i];
+      const dy = lum[i + width] - lum[i];
+      if (Math.sqrt(dx * dx + dy * dy) > EDGE_THRESHOLD) edges++;
+    }
+  }
+  return edges / ((width - 1) * (height - 1));
+};
+
+const colorEntropy = (frame: Frame): number => {
+  const levels = 1 << HISTOGRAM_BITS;
+  const bins = new Uint32Array(levels ** 3);
+  const count = frame.width * frame.height;
+  const quantize = (v: number) => Math.min(levels - 1, Math.floor(clamp01(Number.isFinite(v) ? v : 0) * levels));
+  for (let i = 0; i < count; i++) {
+    const p = frame.pixels;
+    bins[(quantize(p[i * 4]) * levels + quantize(p[i * 4 + 1])) * levels + quantize(p[i * 4 + 2])]++;
+  }
+  let entropy = 0;
+  for (const n of bins) {
+    if (n === 0) continue;
+    const p = n / count;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy / Math.log2(bins.length);
+};
+
+const nanRatio = (frame: Frame): number => {
+  let bad = 0;
+  const count = frame.width * frame.height;
+  for (let i = 0; i < count; i++) {
+    const p = frame.pixels;
+    if (!Number.isFinite(p[i * 4]) || !Number.isFinite(p[i * 4 + 1]) || !Number.isFinite(p[i * 4 + 2]) || !Number.isFinite(p[i * 4 + 3])) bad++;
+  }
+  return bad / count;
+};
+
+export const measureFrames = (frames: Frame[]): FitnessMetrics => {
+  const first = frames[0];
+  const lums = frames.map(luminanceOf);
+
+  let change = 0;
+  for (let f = 1; f < lums.length; f++) {
+    let diff = 0;
+    for (let i = 0; i < lums[f].length; i++) diff += Math.abs(lums[f][i] - lums[f - 1][i]);
+    change += diff / lums[f].length;
+  }
+
+  return {
+    luminanceVariance: variance(lums[0]),
+    edgeDensity: edgeDensity(lums[0], first.width, first.height),
+    colorEntropy: colorEntropy(first),
+    temporalChange: lums.length > 1 ? change / (lums.length - 1) : 0,
+    nanRatio: Math.max(...frames.map(nanRatio)),
+  };
+};
+
+/**
+ * Folds metrics into one score. Contrast, entropy and motion are "more is
+ * better" up to a saturation point; edge density peaks at moderate values,
+ * and a frame that is mostly edges is treated as noise and scored down.
+ * NaN/Inf pixels scale the score down too.
+ */
+export const scoreMetrics = (m: FitnessMetrics): number => {
+  const contrast = clamp01(Math.sqrt(m.luminanceVariance) / 0.25);
+  const edges = m.edgeDensity < 0.1 ? m.edgeDensity / 0.1 : clamp01(1 - (m.edgeDensity - 0.1) / 0.4);
+  const motion = clamp01(m.temporalChange / 0.05);
+  const noise = clamp01((m.edgeDensity - 0.4) / 0.4);
+  const score = 0.35 * contrast + 0.25 * edges + 0.25 * m.colorEntropy + 0.15 * motion;
+  return clamp01(score * (1 - noise) * (1 - m.nanRatio));
+};
+
+export const scoreFrames = (frames: Frame[]): FitnessReport => {
+  const metrics = measureFrames(frames);
+  return { score: scoreMetrics(metrics), metrics };
+};
+
+/** Renders `code` offscreen at the fitness times and scores it. Rejects if it does not render. */
+export const scoreShader = async (code: string): Promise<FitnessReport> =>
+  scoreFrames(await renderFrames(code, FITNESS_TIMES, FITNESS_SIZE));
+
+export const formatScore = (score: number): string => Math.round(score * 100).toString().padStart(2, '0');
@@ -1,72 +1,166 @@
-import { FuzzConfig } from '../types';
+import { CrossoverResult, CrossoverStrategy, FuzzConfig, FuzzResult, MutationChange } from '../types';
+import { Rng, RngFactory, mulberry32, randomSeed } from './prng';
+import { getMutators, isMutatorEnabled, registerMutator } from './mutatorRegistry';
+import { changesBetween } from './provenanceService';
+import { replacePasses, splitPasses } from './renderGraph';
+import {
+    Attribute,
+    CallExpr,
+    Expr,
+    FunctionDecl,
+    IdentExpr,
+    LiteralExpr,
+    MemberExpr,
+    Module,
+    Node,
+    Param,
+    ReturnStmt,
+    StructDecl,
+    StructMember,
+    TypeRef,
+    BinaryExpr,
+    collect,
+    detach,
+    isExpr,
+    replaceWith,
+    synth,
+    transform,
+    walk,
+} from './wgsl/ast';
+import { VERTEX_ENTRY_POINT } from './geometryService';
+import { SHADER_BINDINGS, ShaderBinding, bindingDeclaration, declaredBindings, stageBindings } from './shaderSource';
+import { parse, parseDecls, parseExpression, parseStatements } from './wgsl/parser';
+import { print } from './wgsl/printer';
+import { checkModule, resolveCall } from './wgsl/typeChecker';
+import { F32, UNKNOWN, WgslType, binaryResult, concretize, typesEqual } from './wgsl/typeSystem';
 
 /**
- * TOKENIZER-BASED WGSL FUZZER
+ * AST-BASED WGSL FUZZER
  * 
- * Ensures valid syntax by parsing the shader structure rather than doing 
- * blind string replacements. This prevents syntax errors while allowing
- * for deep "latent space" exploration of the shader.
+ * Ensures valid syntax by parsing the shader into a syntax tree and mutating
+ * expressions, statements and function bodies rather than doing blind string
+ * replacements. Untouched code is printed back verbatim, so every mutation
+ * stays a local edit while allowing for deep "latent space" exploration.
  */
 
-// -- Lexer Types --
+const OPS = ['+', '-', '*', '/'];
+// Builtins and preamble helpers eligible for swapping. A swap only happens
+// when the replacement accepts the same argument types and returns the same
+// type as the original call, so `length(v)` never becomes `sin(v)`.
+const SWAPPABLE_FUNCTIONS = [
+    'sin', 'cos', 'tan', 'abs', 'floor', 'ceil', 'fract', 'sqrt', 'exp', 'length', 'normalize',
+    'min', 'max', 'pow', 'step', 'distance', 'dot', 'mix', 'smoothstep', 'clamp',
+    'f_sin', 'f_cos', 'f_n', 'f_hash', 'f_smin'
+];
+
+// Texture reads the texture mutators rewrite, all on `texture_2d<f32>`
+const TEXTURE_FUNCTIONS = ['textureSample', 'textureSampleLevel', 'textureLoad'];
 
-type TokenType = 'ident' | 'number' | 'punct' | 'whitespace' | 'comment' | 'string' | 'unknown';
+// -- Shader Inputs --
 
-interface Token {
-    type: TokenType;
-    value: string;
-    index: number; // Original index in source
+/**
+ * The uniforms, textures and samplers a mutation may read, or the storage
+ * buffers of a compute shader. Templates refer to them as `$name` by their
+ * standard names; declared ones resolve to the name the shader uses, and
+ * missing ones get declared on first use unless the name is taken.
+ */
+interface InputScope {
+    module: Module;
+    bindings: ShaderBinding[];  // What the shader's stage provides
+    names: Map<string, string>; // Standard name -> name in the shader
+    taken: Set<string>;         // Names declared anywhere in the shader
 }
 
-const OPS = ['+', '-', '*', '/'];
-// Safe builtins that take 1 arg and return 1 arg of same type, or simple math
-const SAFE_BUILTINS = ['sin', 'cos', 'tan', 'abs', 'floor', 'ceil', 'fract', 'sqrt', 'f_sin', 'f_cos', 'f_n', 'f_hash', 'length'];
+const INPUT_REF = /\$([a-z_][a-z0-9_]*)/g;
+
+function inputScope(module: Module): InputScope {
+    const taken = new Set<string>();
+    walk(module, n => {
+        if (n.kind === 'VarDecl' || n.kind === 'Param' || n.kind === 'Function' || n.kind === 'Struct' || n.kind === 'Alias') {
+            taken.add(n.name);
+        }
+    });
+    return { module, bindings: stageBindings(module), names: declaredBindings(module), taken };
+}
+
+function canUseInput(scope: InputScope, name: string): boolean {
+    return scope.names.has(name) || (!scope.taken.has(name) && scope.bindings.some(b => b.name === name));
+}
+
+/** Templates whose `$name` references can all be satisfied. */
+function usableTemplates(scope: InputScope, templates: string[]): string[] {
+    return templates.filter(t => [...t.matchAll(INPUT_REF)].every(m => canUseInput(scope, m[1])));
+}
+
+/** Resolves a template's `$name` references, declaring inputs the shader lacks after its other bindings. */
+function bindInputs(scope: InputScope, template: string): string {
+    return template.replace(INPUT_REF, (_, name: string) => {
+        const declared = scope.names.get(name);
+        if (declared) return declared;
+        const [decl] = parseDecls(bindingDeclaration(scope.bindings.find(b => b.name === name)!));
+        const decls = scope.module.decls;
+        const lastBinding = decls.reduce((at, d, i) => (d.kind === 'VarDecl' && d.attrs.some(a => a.name === 'binding') ? i : at), -1);
+        const firstOther = decls.findIndex(d => d.kind !== 'Directive');
+        decls.splice(lastBinding >= 0 ? lastBinding + 1 : Math.max(0, firstOther), 0, decl);
+        scope.names.set(name, name);
+        scope.taken.add(name);
+        return name;
+    });
+}
 
 // -- Procedural Generation Logic --
 
-function randFloat(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+function randFloat(rng: Rng, min: number, max: number): number {
+    return min + rng.next() * (max - min);
 }
 
-function getRandomItem<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
+function getRandomItem<T>(rng: Rng, arr: T[]): T {
+  return arr[Math.floor(rng.next() * arr.length)];
 }
 
-function shuffleString(str: string): string {
-    const arr = str.split('');
-    // Fisher-Yates shuffle
-    for (let i = arr.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [arr[i], arr[j]] = [arr[j], arr[i]];
-    }
-    return arr.join('');
+/** A random swizzle of the same length and letter set, limited to the vector's components. */
+function randomSwizzle(rng: Rng, member: string, size: number): string {
+    const letters = ('xyzw'.includes(member[0]) ? 'xyzw' : 'rgba').slice(0, size);
+    return Array.from(member, () => getRandomItem(rng, [...letters])).join('');
 }
 
 /**
- * Generates a random scalar expression (f32) using the provided UV variable name.
+ * Generates a random scalar expression (f32) from the UV variable and the
+ * shader inputs in scope.
  */
-function generateScalarExpr(depth: number, uvName: string): string {
-    if (depth <= 0 || Math.random() < 0.15) {
+function generateScalarExpr(rng: Rng, depth: number, uvName: string, inputs: InputScope): string {
+    if (depth <= 0 || rng.next() < 0.15) {
         // Terminals
-        const terms = [
+        const terms = usableTemplates(inputs, [
             `${uvName}.x`, 
             `${uvName}.y`, 
             `length(${uvName} - 0.5)`, 
-            'time', 
-            randFloat(0.1, 5.0).toFixed(2),
+            '$time', 
+            randFloat(rng, 0.1, 5.0).toFixed(2),
             `f_hash(${uvName})`,
             `f_n(${uvName}.x * 10.0)`
-        ];
-        return getRandomItem(terms);
+        ]);
+        // The other inputs share one draw, so UV and time stay the staples
+        const extras = usableTemplates(inputs, [
+            `distance(${uvName}, $mouse.xy)`,
+            '$mouse.z',
+            'fract(f32($frame) / 120.0)',
+            'clamp($time_delta * 60.0, 0.0, 4.0)',
+            'fract($date.w / 60.0)',
+            `(${uvName}.x - 0.5) * $aspect`,
+            `length((${uvName} - 0.5) * $resolution / $resolution.y)`,
+        ]);
+        const pool = extras.length > 0 && rng.next() < 0.15 ? extras : terms;
+        return bindInputs(inputs, getRandomItem(rng, pool));
     }
 
-    const rnd = Math.random();
+    const rnd = rng.next();
     
     // Unary functions
     if (rnd < 0.35) {
         const funcs = ['sin', 'cos', 'fract', 'abs', 'sqrt', 'exp', 'f_sin', 'f_cos'];
-        const f = getRandomItem(funcs);
-        let inner = generateScalarExpr(depth - 1, uvName);
+        const f = getRandomItem(rng, funcs);
+        let inner = generateScalarExpr(rng, depth - 1, uvName, inputs);
         // Safety for domain-limited functions
         if (f === 'sqrt') inner = `abs(${inner})`;
         if (f === 'exp') inner = `clamp(${inner}, -10.0, 10.0)`; 
@@ -75,19 +169,19 @@ function generateScalarExpr(depth: number, uvName: string): string {
     // Binary operators
     else if (rnd < 0.7) {
         const ops = ['+', '-', '*', '*']; // Bias towards multiplication for complexity
-        const op = getRandomItem(ops);
-        return `(${generateScalarExpr(depth - 1, uvName)} ${op} ${generateScalarExpr(depth - 1, uvName)})`;
+        const op = getRandomItem(rng, ops);
+        return `(${generateScalarExpr(rng, depth - 1, uvName, inputs)} ${op} ${generateScalarExpr(rng, depth - 1, uvName, inputs)})`;
     } 
     // Complex functions
     else {
-        const type = Math.random();
+        const type = rng.next();
         if (type < 0.33) {
-            return `mix(${generateScalarExpr(depth - 1, uvName)}, ${generateScalarExpr(depth - 1, uvName)}, ${randFloat(0,1).toFixed(2)})`;
+            return `mix(${generateScalarExpr(rng, depth - 1, uvName, inputs)}, ${generateScalarExpr(rng, depth - 1, uvName, inputs)}, ${randFloat(rng, 0,1).toFixed(2)})`;
         } else if (type < 0.66) {
-             return `smoothstep(0.0, 1.0, ${generateScalarExpr(depth - 1, uvName)})`;
+             return `smoothstep(0.0, 1.0, ${generateScalarExpr(rng, depth - 1, uvName, inputs)})`;
         } else {
              // smin (organic blend)
-             return `f_smin(${generateScalarExpr(depth - 1, uvName)}, ${generateScalarExpr(depth - 1, uvName)}, 0.5)`;
+             return `f_smin(${generateScalarExpr(rng, depth - 1, uvName, inputs)}, ${generateScalarExpr(rng, depth - 1, uvName, inputs)}, 0.5)`;
         }
     }
 }
@@ -95,430 +189,1090 @@ function generateScalarExpr(depth: number, uvName: string): string {
 /**
  * Generates a procedural color vector (vec3<f32>)
  */
-function generateProceduralGene(uvName: string): string {
+function generateProceduralGene(rng: Rng, uvName: string, inputs: InputScope): string {
     // Generate 3 distinct expressions for R, G, B
     // Depth 3-6 provides good complexity without blowing up string size
-    const r = generateScalarExpr(4, uvName);
-    const g = generateScalarExpr(4, uvName);
-    const b = generateScalarExpr(4, uvName);
+    const r = generateScalarExpr(rng, 4, uvName, inputs);
+    const g = generateScalarExpr(rng, 4, uvName, inputs);
+    const b = generateScalarExpr(rng, 4, uvName, inputs);
     
     // Sometimes use cosine palette logic for better colors
-    if (Math.random() < 0.5) {
-        return `f_pal(${generateScalarExpr(3, uvName)}, vec3<f32>(0.5,0.5,0.5), vec3<f32>(0.5,0.5,0.5), vec3<f32>(1.0,1.0,1.0), vec3<f32>(0.0, 0.33, 0.67))`;
+    if (rng.next() < 0.5) {
+        return `f_pal(${generateScalarExpr(rng, 3, uvName, inputs)}, vec3<f32>(0.5,0.5,0.5), vec3<f32>(0.5,0.5,0.5), vec3<f32>(1.0,1.0,1.0), vec3<f32>(0.0, 0.33, 0.67))`;
     }
 
     return `vec3<f32>(${r}, ${g}, ${b})`;
 }
 
 
-// -- Lexer --
+// -- AST Helpers --
 
-function tokenize(code: string): Token[] {
-    const tokens: Token[] = [];
-    let i = 0;
-    
-    // Patterns ordered by priority
-    const patterns: { type: TokenType, regex: RegExp }[] = [
-        { type: 'comment', regex: /^\/\/.*/ },
-        { type: 'whitespace', regex: /^\s+/ },
-        { type: 'number', regex: /^(?:0x[0-9a-fA-F]+|\d+\.\d+(?:[eE][+-]?\d+)?|\d+\.(?![eE\d])|\.\d+(?:[eE][+-]?\d+)?|\d+u?)/ }, 
-        { type: 'ident', regex: /^[a-zA-Z_]\w*/ },
-        // CRITICAL FIX: Handle multi-char punctuation (like ->, ==) before single char
-        // This prevents '->' being split into '-' and '>' which confuses mutateOperators
-        { type: 'punct', regex: /^(?:->|==|!=|<=|>=|&&|\|\|)/ }, 
-        { type: 'punct', regex: /^[{}()\[\],;:.+*\/=\-><]/ }, 
-    ];
+/**
+ * The fragment entry point: the `@fragment` function, falling back to `main`
+ * for shaders written without stage attributes.
+ */
+function findEntryPoint(module: Module): FunctionDecl | null {
+    const fns = module.decls.filter((d): d is FunctionDecl => d.kind === 'Function');
+    return fns.find(f => f.attrs.some(a => a.name === 'fragment'))
+        ?? fns.find(f => f.name === 'main')
+        ?? null;
+}
 
-    while (i < code.length) {
-        let matched = false;
-        const sub = code.slice(i);
-
-        for (const p of patterns) {
-            const match = sub.match(p.regex);
-            if (match) {
-                tokens.push({ type: p.type, value: match[0], index: i });
-                i += match[0].length;
-                matched = true;
-                break;
-            }
-        }
+/** The interpolated UV input: the first `@location` parameter, else one named `uv`. Must be a vec2<f32>. */
+function findUVName(entry: FunctionDecl): string | null {
+    const isVec2f = (p: Param) => p.type.name === 'vec2f'
+        || (p.type.name === 'vec2' && p.type.args[0]?.kind === 'Type' && p.type.args[0].name === 'f32');
+    const located = entry.params.find(p => p.attrs.some(a => a.name === 'location'));
+    const param = located ?? entry.params.find(p => p.name === 'uv');
+    return param && isVec2f(param) ? param.name : null;
+}
 
-        if (!matched) {
-            // Fallback for unexpected char
-            tokens.push({ type: 'unknown', value: code[i], index: i });
-            i++;
-        }
-    }
-    return tokens;
+function isFloatLiteral(node: Node): node is LiteralExpr {
+    return node.kind === 'Literal' && node.text.includes('.') && !/^0[xX]/.test(node.text);
+}
+
+/** Builds an expression from a template in which `$` stands for `hole`. */
+function instantiate(template: string, hole: Expr): Expr {
+    return transform(parseExpression(template.replace('$', '__hole')), n =>
+        n.kind === 'Ident' && n.name === '__hole' ? hole : undefined
+    );
+}
+
+/**
+ * Builds an expression from a template in which each `__name` stands for
+ * `holes.__name`. A hole used twice is copied the second time.
+ */
+function instantiateWith(template: string, holes: Record<string, Expr>): Expr {
+    const used = new Set<string>();
+    return transform(parseExpression(template), n => {
+        if (n.kind !== 'Ident' || !(n.name in holes)) return;
+        if (used.has(n.name)) return detach(holes[n.name]);
+        used.add(n.name);
+        return holes[n.name];
+    });
+}
+
+function isTextureCall(node: Node): node is CallExpr {
+    return node.kind === 'Call' && node.callee.args.length === 0 && TEXTURE_FUNCTIONS.includes(node.callee.name);
+}
+
+/** Return statements of the entry point that yield a plain `vec4` colour. */
+function colorReturnsOf(module: Module, entry: FunctionDecl): ReturnStmt[] {
+    const info = checkModule(module);
+    return collect(entry.body, 'Return').filter(r => {
+        const t = r.value ? info.types.get(r.value) : undefined;
+        return t !== undefined && (t.kind === 'unknown' || (t.kind === 'vector' && t.size === 4));
+    });
 }
 
 // -- Mutators --
 
-function mutateNumbers(tokens: Token[], intensity: number): Token[] {
-    return tokens.map(t => {
-        if (t.type === 'number' && t.value.includes('.')) {
-            if (Math.random() < intensity) {
-                const val = parseFloat(t.value);
-                if (!isNaN(val)) {
-                    const newVal = Math.random() < 0.5 
-                        ? val + (Math.random() - 0.5)
-                        : val * (0.5 + Math.random());
-                    
-                    if (Math.abs(newVal) < 0.001) return { ...t, value: '0.0' };
-                    return { ...t, value: newVal.toFixed(3) };
-                }
+function mutateNumbers(module: Module, intensity: number, rng: Rng): Module {
+    return transform(module, n => {
+        if (isFloatLiteral(n) && rng.next() < intensity) {
+            const val = parseFloat(n.text);
+            if (!isNaN(val)) {
+                const newVal = rng.next() < 0.5 
+                    ? val + (rng.next() - 0.5)
+                    : val * (0.5 + rng.next());
+                
+                if (Math.abs(newVal) < 0.001) return parseExpression('0.0');
+                return parseExpression(newVal.toFixed(3));
             }
         }
-        return t;
     });
 }
 
-function mutateOperators(tokens: Token[], intensity: number): Token[] {
-    return tokens.map(t => {
-        if (t.type === 'punct' && OPS.includes(t.value)) {
-            if (Math.random() < intensity) {
-                return { ...t, value: getRandomItem(OPS) };
-            }
+function mutateOperators(module: Module, intensity: number, rng: Rng): Module {
+    const info = checkModule(module);
+    return transform(module, n => {
+        if (n.kind === 'Binary' && OPS.includes(n.op) && rng.next() < intensity) {
+            const left = info.types.get(n.left) ?? UNKNOWN;
+            const right = info.types.get(n.right) ?? UNKNOWN;
+            const result = info.types.get(n) ?? UNKNOWN;
+            // `mat * vec` is fine but `mat + vec` is not: keep only ops that
+            // produce the same type from the same operands
+            const candidates = OPS.filter(op => {
+                const t = binaryResult(op, left, right);
+                return t !== null && typesEqual(t, result);
+            });
+            const replacement = synth<BinaryExpr>({ kind: 'Binary', op: getRandomItem(rng, candidates), left: n.left, right: n.right });
+            info.types.set(replacement, result);
+            return replacement;
         }
-        return t;
     });
 }
 
-function mutateBuiltins(tokens: Token[], intensity: number): Token[] {
-    return tokens.map(t => {
-        if (t.type === 'ident' && SAFE_BUILTINS.includes(t.value)) {
-            if (Math.random() < intensity) {
-                return { ...t, value: getRandomItem(SAFE_BUILTINS) };
+function mutateBuiltins(module: Module, intensity: number, rng: Rng): Module {
+    const info = checkModule(module);
+    walk(module, n => {
+        if (n.kind === 'Call' && n.callee.args.length === 0 && SWAPPABLE_FUNCTIONS.includes(n.callee.name)) {
+            if (rng.next() < intensity) {
+                const result = info.types.get(n);
+                if (!result || result.kind === 'unknown') return;
+                const args = n.args.map(a => info.types.get(a) ?? UNKNOWN);
+                const candidates = SWAPPABLE_FUNCTIONS.filter(name => {
+                    const t = name !== n.callee.name ? resolveCall(info, name, args) : null;
+                    return t !== null && typesEqual(t, result);
+                });
+                if (candidates.length === 0) return;
+                n.callee = replaceWith(n.callee, synth<TypeRef>({ kind: 'Type', name: getRandomItem(rng, candidates), args: [] }));
             }
         }
-        return t;
     });
+    return module;
 }
 
-function findUVName(tokens: Token[], mainIdx: number): string | null {
-    let argsStart = -1;
-    for (let i = mainIdx; i < tokens.length; i++) {
-        if (tokens[i].value === '(') {
-            argsStart = i;
-            break;
-        }
-    }
-    if (argsStart === -1) return null;
-
-    let uvName = '';
-    for (let i = argsStart; i < tokens.length; i++) {
-        if (tokens[i].value === ')') break;
-        if (tokens[i].value === 'location') {
-             let j = i + 1;
-             while(j < tokens.length && tokens[j].value !== ')') j++; 
-             j++; 
-             while(j < tokens.length && tokens[j].type === 'whitespace') j++;
-             if (j < tokens.length && tokens[j].type === 'ident') {
-                 uvName = tokens[j].value;
-                 break;
-             }
-        }
-    }
+function mutateGeometry(module: Module, intensity: number, rng: Rng): Module {
+    const entry = findEntryPoint(module);
+    if (!entry) return module;
+
+    const uvName = findUVName(entry);
+    if (!uvName) return module;
+
+    // Generate Mutation Code with UNIQUE variable name
+    const uniqueId = Math.floor(rng.next() * 100000);
+    const mutVar = `${uvName}_geo_${uniqueId}`;
     
-    if (!uvName) {
-        for(let i = argsStart; i < tokens.length; i++) {
-             if (tokens[i].value === ')') break;
-             if (tokens[i].value === 'uv') {
-                 uvName = 'uv';
-                 break;
-             }
+    const inputs = inputScope(module);
+    const mutations = usableTemplates(inputs, [
+        `var ${mutVar} = f_rot(${uvName}, $time * ${randFloat(rng, -0.5, 0.5).toFixed(2)});`,
+        `var ${mutVar} = ${uvName} * ${randFloat(rng, 0.5, 2.0).toFixed(2)} + vec2<f32>(sin($time), cos($time)) * 0.1;`,
+        `var ${mutVar} = abs(${uvName} * 2.0 - 1.0);`,
+        `var ${mutVar} = fract(${uvName} * ${randFloat(rng, 2, 5).toFixed(2)});`,
+        `var ${mutVar} = ${uvName} + vec2<f32>(f_n(${uvName}.x*10.0), f_n(${uvName}.y*10.0))*0.05;`,
+        // Lens pulled towards the pointer, stronger while a button is held
+        `var ${mutVar} = mix(${uvName}, $mouse.xy, (0.2 + 0.3 * $mouse.z) * exp(-8.0 * distance(${uvName}, $mouse.xy)));`,
+        // Undo the stretch of non-square canvases
+        `var ${mutVar} = vec2<f32>((${uvName}.x - 0.5) * $aspect + 0.5, ${uvName}.y);`,
+        // Per-frame jitter, like a temporal dither
+        `var ${mutVar} = ${uvName} + (vec2<f32>(f_n(f32($frame % 64u)), f_n(f32($frame % 64u) + 7.0)) - 0.5) / $resolution;`,
+    ]);
+    const injection = parseStatements(bindInputs(inputs, getRandomItem(rng, mutations)));
+
+    // Reroute every read of the UV through the warped copy. Member names
+    // (`in.uv`) are plain strings in the AST, so only real references match.
+    entry.body = transform(entry.body, n => {
+        if (n.kind === 'Ident' && n.name === uvName) {
+            return synth<IdentExpr>({ kind: 'Ident', name: mutVar });
         }
-    }
-    return uvName;
-}
-
-function mutateGeometry(tokens: Token[], intensity: number): Token[] {
-    let mainIdx = -1;
-    for (let i = 0; i < tokens.length - 1; i++) {
-        if (tokens[i].type === 'ident' && tokens[i].value === 'fn') {
-            let j = i + 1;
-            while(j < tokens.length && tokens[j].type === 'whitespace') j++;
-            if(j < tokens.length && tokens[j].value === 'main') {
-                mainIdx = i;
-                break;
+    });
+    entry.body.stmts.unshift(...injection);
+
+    return module;
+}
+
+function mutateColor(module: Module, intensity: number, rng: Rng): Module {
+    walk(module, n => {
+        if (n.kind !== 'Call' || (n.callee.name !== 'vec3' && n.callee.name !== 'vec4')) return;
+        n.args = n.args.map(arg => transform(arg, inner => {
+            if (isFloatLiteral(inner) && rng.next() < intensity) {
+                const val = parseFloat(inner.text);
+                const offset = (rng.next() - 0.5) * intensity * 2.0;
+                const newVal = val + offset;
+                return parseExpression(newVal.toFixed(2));
+            }
+        }));
+        // Nested constructors were covered by the transform above
+        return false;
+    });
+    return module;
+}
+
+function mutateChaos(module: Module, intensity: number, rng: Rng): Module {
+    const entry = findEntryPoint(module);
+    if (!entry) return module;
+    const returns = colorReturnsOf(module, entry);
+    if (returns.length === 0) return module;
+
+    const ret = getRandomItem(rng, returns);
+    const inputs = inputScope(module);
+    const chaosOptions = usableTemplates(inputs, [
+        `( $ + vec4<f32>(0.1, 0.1, 0.1, 0.0) )`, 
+        `abs( $ - 0.5 ) * 2.0`,
+        `vec4<f32>( ($).brg, 1.0 )`,
+        `mix( $, vec4<f32>(sin($time), cos($time), 0.5, 1.0), 0.1 )`,
+        `($ * vec4<f32>(1.2, 0.9, 0.8, 1.0))`
+    ]);
+    
+    ret.value = replaceWith(ret.value!, instantiate(bindInputs(inputs, getRandomItem(rng, chaosOptions)), ret.value!));
+    return module;
+}
+
+function mutateSwizzle(module: Module, intensity: number, rng: Rng): Module {
+    const info = checkModule(module);
+    return transform(module, n => {
+        if (n.kind === 'Member' && /^(?:[xyzw]{1,4}|[rgba]{1,4})$/.test(n.member)) {
+            const object = info.types.get(n.object);
+            if (object?.kind === 'vector' && rng.next() < intensity) {
+                return synth<MemberExpr>({ kind: 'Member', object: n.object, member: randomSwizzle(rng, n.member, object.size) });
             }
         }
-    }
+    });
+}
 
-    if (mainIdx === -1) return tokens;
+/** Warps the coordinates of texture reads: float UVs for samples, integer texels for loads. */
+function mutateTexCoords(module: Module, intensity: number, rng: Rng): Module {
+    if (!collect(module, 'Call').some(isTextureCall)) return module;
+    const info = checkModule(module);
+    const inputs = inputScope(module);
+    walk(module, n => {
+        if (!isTextureCall(n) || rng.next() >= intensity) return;
+        const at = n.callee.name === 'textureLoad' ? 1 : 2;
+        const coords = n.args[at];
+        const type = coords && info.types.get(coords);
+        if (type?.kind !== 'vector' || type.size !== 2) return;
 
-    const uvName = findUVName(tokens, mainIdx);
-    if (!uvName) return tokens;
+        let templates: string[];
+        if (at === 1) {
+            if (type.scalar !== 'i32' && type.scalar !== 'u32') return;
+            const k = 2 + Math.floor(rng.next() * 6);
+            templates = [
+                `($ + vec2<${type.scalar}>(${Math.floor(rng.next() * 4)}, ${Math.floor(rng.next() * 4)}))`,
+                `($ / vec2<${type.scalar}>(${k}) * vec2<${type.scalar}>(${k}))`,
+                `($).yx`,
+            ];
+        } else {
+            if (type.scalar !== 'f32' && type.scalar !== 'abstract-float') return;
+            const k = 8 + Math.floor(rng.next() * 56);
+            templates = usableTemplates(inputs, [
+                `($ * ${randFloat(rng, 0.5, 2.0).toFixed(2)})`,
+                `($ + vec2<f32>(${randFloat(rng, -0.2, 0.2).toFixed(2)}, ${randFloat(rng, -0.2, 0.2).toFixed(2)}))`,
+                `fract($ * ${randFloat(rng, 1.5, 4.0).toFixed(2)})`,
+                `($).yx`,
+                `(floor($ * ${k}.0) / ${k}.0)`,
+                `($ + vec2<f32>(sin($time * 2.0), cos($time * 1.7)) * 0.02)`,
+            ]);
+        }
+        n.args[at] = replaceWith(coords, instantiate(bindInputs(inputs, getRandomItem(rng, templates)), coords));
+    });
+    return module;
+}
 
-    // Find body start '{'
-    let argsStart = -1;
-    for (let i = mainIdx; i < tokens.length; i++) {
-        if (tokens[i].value === '(') {
-            argsStart = i;
-            break;
+/** Functions a `@vertex` or `@compute` entry point runs, directly or through calls. */
+function nonFragmentFunctions(module: Module): Set<string> {
+    const functions = new Map(module.decls.filter((d): d is FunctionDecl => d.kind === 'Function').map(fn => [fn.name, fn]));
+    const reached = new Set<string>();
+    const visit = (fn: FunctionDecl) => {
+        if (reached.has(fn.name)) return;
+        reached.add(fn.name);
+        for (const call of collect(fn.body, 'Call')) {
+            const callee = functions.get(call.callee.name);
+            if (callee) visit(callee);
         }
+    };
+    for (const fn of functions.values()) if (fn.attrs.some(a => a.name === 'vertex' || a.name === 'compute')) visit(fn);
+    return reached;
+}
+
+/**
+ * Turns texture reads into one another: filtered samples, samples at an
+ * explicit mip level and unfiltered texel loads. Only the plain overloads
+ * (no offsets) are rewritten. `textureSample` needs derivatives, so only
+ * functions the fragment stage alone runs get one.
+ */
+function mutateSampleFunctions(module: Module, intensity: number, rng: Rng): Module {
+    if (!collect(module, 'Call').some(isTextureCall)) return module;
+    const inputs = inputScope(module);
+    const texelOf = 'vec2<i32>(fract(__uv) * vec2<f32>(textureDimensions(__t)))';
+    const nonFragment = nonFragmentFunctions(module);
+    for (const fn of module.decls) {
+        if (fn.kind === 'Function') transform(fn, n => rewriteSample(n, !nonFragment.has(fn.name)));
     }
-    let bodyStart = -1;
-    for (let i = argsStart; i < tokens.length; i++) {
-        if (tokens[i].value === '{') {
-            bodyStart = i;
-            break;
+    return module;
+
+    function rewriteSample(n: Node, derivatives: boolean): Expr | undefined {
+        if (!isTextureCall(n) || rng.next() >= intensity) return;
+        const [t, a, b] = n.args;
+        switch (`${n.callee.name}/${n.args.length}`) {
+            case 'textureSample/3':
+                return rng.next() < 0.5
+                    ? instantiateWith(`textureSampleLevel(__t, __s, __uv, ${randFloat(rng, 0, 4).toFixed(1)})`, { __t: t, __s: a, __uv: b })
+                    : instantiateWith(`textureLoad(__t, ${texelOf}, 0)`, { __t: t, __uv: b });
+            case 'textureSampleLevel/4':
+                return rng.next() < 0.5 && derivatives
+                    ? instantiateWith('textureSample(__t, __s, __uv)', { __t: t, __s: a, __uv: b })
+                    : instantiateWith(`textureLoad(__t, ${texelOf}, 0)`, { __t: t, __uv: b });
+            case 'textureLoad/3': {
+                // A load has no sampler; the linear one stands in
+                if (!canUseInput(inputs, 'linear_sampler')) return;
+                const template = bindInputs(inputs, 'textureSampleLevel(__t, $linear_sampler, (vec2<f32>(__xy) + 0.5) / vec2<f32>(textureDimensions(__t)), f32(__l))');
+                return instantiateWith(template, { __t: t, __xy: a, __l: b });
+            }
         }
     }
+}
 
-    if (bodyStart === -1) return tokens;
+/** Points texture samples at a sampler with different filtering or addressing. */
+function mutateSamplers(module: Module, intensity: number, rng: Rng): Module {
+    if (!collect(module, 'Call').some(isTextureCall)) return module;
+    const inputs = inputScope(module);
+    const standardOf = new Map([...inputs.names].map(([standard, name]) => [name, standard]));
+    const samplers = SHADER_BINDINGS.filter(b => b.resource === 'sampler').map(b => b.name);
+    walk(module, n => {
+        if (!isTextureCall(n) || n.callee.name === 'textureLoad' || rng.next() >= intensity) return;
+        const arg = n.args[1];
+        const current = arg?.kind === 'Ident' ? standardOf.get(arg.name) : undefined;
+        if (!current || !samplers.includes(current)) return;
+        const others = samplers.filter(name => name !== current && canUseInput(inputs, name));
+        if (others.length === 0) return;
+        n.args[1] = replaceWith(arg, synth<IdentExpr>({ kind: 'Ident', name: bindInputs(inputs, `$${getRandomItem(rng, others)}`) }));
+    });
+    return module;
+}
 
-    // Generate Mutation Code with UNIQUE variable name
-    const uniqueId = Math.floor(Math.random() * 100000);
-    const mutVar = `${uvName}_geo_${uniqueId}`;
-    
-    const mutations = [
-        `var ${mutVar} = f_rot(${uvName}, time * ${randFloat(-0.5, 0.5).toFixed(2)});`,
-        `var ${mutVar} = ${uvName} * ${randFloat(0.5, 2.0).toFixed(2)} + vec2<f32>(sin(time), cos(time)) * 0.1;`,
-        `var ${mutVar} = abs(${uvName} * 2.0 - 1.0);`,
-        `var ${mutVar} = fract(${uvName} * ${randFloat(2, 5).toFixed(2)});`,
-        `var ${mutVar} = ${uvName} + vec2<f32>(f_n(${uvName}.x*10.0), f_n(${uvName}.y*10.0))*0.05;`
-    ];
-    const injectionStr = getRandomItem(mutations);
-    const injectionTokens = tokenize(injectionStr);
+/**
+ * Replaces the entire color logic with a NEW PROCEDURALLY GENERATED algorithm.
+ */
+function mutateStructure(module: Module, intensity: number, rng: Rng): Module {
+    const entry = findEntryPoint(module);
+    if (!entry) return module;
 
-    const newTokens = [...tokens];
-    newTokens.splice(bodyStart + 1, 0, { type: 'whitespace', value: '\n    ', index: -1 }, ...injectionTokens, { type: 'punct', value: ';', index: -1 });
+    const uvName = findUVName(entry);
+    if (!uvName) return module;
 
-    for (let i = bodyStart + 1 + injectionTokens.length + 2; i < newTokens.length; i++) {
-        const t = newTokens[i];
-        if (t.type === 'ident' && t.value === uvName) {
-            let prev = i - 1;
-            while(prev >= 0 && newTokens[prev].type === 'whitespace') prev--;
-            if (prev >= 0 && newTokens[prev].value === '.') continue;
+    // The final return of the entry point decides the pixel colour
+    const returns = colorReturnsOf(module, entry);
+    const ret = returns[returns.length - 1];
+    if (!ret) return module;
 
-            let next = i + 1;
-            while(next < newTokens.length && newTokens[next].type === 'whitespace') next++;
-            if (next < newTokens.length && newTokens[next].value === ':') continue;
+    const geneCode = generateProceduralGene(rng, uvName, inputScope(module));
+    ret.value = replaceWith(ret.value!, parseExpression(`vec4<f32>(${geneCode}, 1.0)`));
+    return module;
+}
 
-            newTokens[i] = { ...t, value: mutVar };
-        }
-    }
+// -- Compute Mutators --
+// These leave shaders without a `@compute` entry point alone, drawing nothing from the rng
+
+const ATOMIC_RMW_FUNCTIONS = ['atomicAdd', 'atomicSub', 'atomicMax', 'atomicMin', 'atomicAnd', 'atomicOr', 'atomicXor', 'atomicExchange'];
+const BARRIER_FUNCTIONS = ['workgroupBarrier', 'storageBarrier'];
+const MAX_WORKGROUP_INVOCATIONS = 256;
 
-    return newTokens;
+function findComputeEntryPoint(module: Module): FunctionDecl | null {
+    return module.decls.find((d): d is FunctionDecl => d.kind === 'Function' && d.attrs.some(a => a.name === 'compute')) ?? null;
 }
 
-function mutateColor(tokens: Token[], intensity: number): Token[] {
-    const newTokens = [...tokens];
-    for (let i = 0; i < newTokens.length; i++) {
-        if (newTokens[i].type === 'ident' && (newTokens[i].value === 'vec3' || newTokens[i].value === 'vec4')) {
-            let ptr = i + 1;
-            while(ptr < newTokens.length && newTokens[ptr].type === 'whitespace') ptr++;
-            if (ptr < newTokens.length && newTokens[ptr].value === '<') {
-                while(ptr < newTokens.length && newTokens[ptr].value !== '>') ptr++;
-                ptr++; 
-                while(ptr < newTokens.length && newTokens[ptr].type === 'whitespace') ptr++;
-            }
-            if (ptr < newTokens.length && newTokens[ptr].value === '(') {
-                let balance = 1;
-                let j = ptr + 1;
-                while (j < newTokens.length && balance > 0) {
-                    if (newTokens[j].value === '(') balance++;
-                    if (newTokens[j].value === ')') balance--;
-                    if (balance > 0 && newTokens[j].type === 'number' && newTokens[j].value.includes('.')) {
-                         if (Math.random() < intensity) {
-                            const val = parseFloat(newTokens[j].value);
-                            const offset = (Math.random() - 0.5) * intensity * 2.0;
-                            const newVal = val + offset;
-                            newTokens[j] = { ...newTokens[j], value: newVal.toFixed(2) };
-                         }
-                    }
-                    j++;
-                }
-            }
-        }
-    }
-    return newTokens;
+/** The parameter carrying a builtin value, e.g. `global_invocation_id`. */
+function builtinParam(entry: FunctionDecl, builtin: string): Param | null {
+    return entry.params.find(p => p.attrs.some(a => a.name === 'builtin' && a.args[0]?.kind === 'Ident' && a.args[0].name === builtin)) ?? null;
 }
 
-function mutateChaos(tokens: Token[], intensity: number): Token[] {
-    let retIdx = -1;
-    for (let i = tokens.length - 1; i >= 0; i--) {
-        if (tokens[i].type === 'ident' && tokens[i].value === 'return') {
-            retIdx = i;
-            break;
-        }
-    }
-    if (retIdx === -1) return tokens;
-    let semiIdx = -1;
-    for (let i = retIdx; i < tokens.length; i++) {
-        if (tokens[i].value === ';') {
-            semiIdx = i;
-            break;
-        }
-    }
-    if (semiIdx === -1) return tokens;
-    
-    // Check if we have whitespace after return to preserve
-    let spliceStart = retIdx + 1;
-    let preservedWhitespace = false;
-    if (spliceStart < tokens.length && tokens[spliceStart].type === 'whitespace') {
-        spliceStart++;
-        preservedWhitespace = true;
+/**
+ * How many leading statements of the entry point every invocation runs:
+ * those before the first one that can return. Barriers must stay in
+ * uniform control flow, so they only go in among these.
+ */
+function uniformPrefixLength(entry: FunctionDecl): number {
+    const first = entry.body.stmts.findIndex(s => collect(s, 'Return').length > 0);
+    return first < 0 ? entry.body.stmts.length : first;
+}
+
+function isBarrierStmt(stmt: Node): boolean {
+    return stmt.kind === 'CallStmt' && BARRIER_FUNCTIONS.includes(stmt.call.callee.name);
+}
+
+/** Reshapes the workgroup, keeping it within the device's invocation limit. */
+function mutateWorkgroupSize(module: Module, intensity: number, rng: Rng): Module {
+    const entry = findComputeEntryPoint(module);
+    const attr = entry?.attrs.find(a => a.name === 'workgroup_size');
+    if (!entry || !attr || rng.next() >= intensity) return module;
+
+    const log2 = Math.floor(rng.next() * (Math.log2(MAX_WORKGROUP_INVOCATIONS) + 1));
+    const split = rng.next() < 0.6 ? log2 : Math.floor(rng.next() * (log2 + 1));
+    const dims = split === log2 ? [2 ** log2] : [2 ** split, 2 ** (log2 - split)];
+    const args = dims.map(d => synth<LiteralExpr>({ kind: 'Literal', text: `${d}` }));
+    if (args.length === attr.args.length) {
+        attr.args = args.map((arg, i) => replaceWith(attr.args[i], arg));
+    } else {
+        entry.attrs = entry.attrs.map(a => (a === attr ? replaceWith(attr, synth<Attribute>({ kind: 'Attribute', name: attr.name, args })) : a));
     }
-    
-    // Safety check if we overshot (unlikely unless empty return)
-    if (spliceStart >= semiIdx) {
-        spliceStart = retIdx + 1;
-        preservedWhitespace = false;
+    return module;
+}
+
+/** Swaps atomic read-modify-write operations and adds updates of the shared counters. */
+function mutateAtomics(module: Module, intensity: number, rng: Rng): Module {
+    const entry = findComputeEntryPoint(module);
+    if (!entry) return module;
+
+    for (const call of collect(module, 'Call')) {
+        if (!ATOMIC_RMW_FUNCTIONS.includes(call.callee.name) || rng.next() >= intensity) continue;
+        const others = ATOMIC_RMW_FUNCTIONS.filter(name => name !== call.callee.name);
+        call.callee = replaceWith(call.callee, synth<TypeRef>({ kind: 'Type', name: getRandomItem(rng, others), args: [] }));
     }
 
-    const exprTokens = tokens.slice(spliceStart, semiIdx);
-    const exprStr = exprTokens.map(t => t.value).join('');
-    
-    const chaosOptions = [
-        `( ${exprStr} + vec4<f32>(0.1, 0.1, 0.1, 0.0) )`, 
-        `abs( ${exprStr} - 0.5 ) * 2.0`,
-        `vec4<f32>( (${exprStr}).brg, 1.0 )`,
-        `mix( ${exprStr}, vec4<f32>(sin(time), cos(time), 0.5, 1.0), 0.1 )`,
-        `(${exprStr} * vec4<f32>(1.2, 0.9, 0.8, 1.0))`
-    ];
-    
-    // If we didn't preserve whitespace (i.e. we are directly after 'return'), add a space
-    let injectionStr = getRandomItem(chaosOptions);
-    if (!preservedWhitespace) {
-        injectionStr = ' ' + injectionStr;
+    const inputs = inputScope(module);
+    if (rng.next() >= intensity || !canUseInput(inputs, 'counters')) return module;
+    const gid = builtinParam(entry, 'global_invocation_id');
+    const index = gid ? `${gid.name}.x` : '0u';
+    const op = getRandomItem(rng, ATOMIC_RMW_FUNCTIONS);
+    const value = getRandomItem(rng, ['1u', index, `${Math.floor(rng.next() * 256)}u`]);
+    const update = parseStatements(bindInputs(inputs, `${op}(&$counters[${index} % arrayLength(&$counters)], ${value});`));
+    entry.body.stmts.splice(Math.floor(rng.next() * (uniformPrefixLength(entry) + 1)), 0, ...update);
+    return module;
+}
+
+/** Drops barriers from the entry point's top level, or adds one where all invocations reach it. */
+function mutateBarriers(module: Module, intensity: number, rng: Rng): Module {
+    const entry = findComputeEntryPoint(module);
+    if (!entry) return module;
+
+    // Without a barrier invocations race on shared memory; the result is still valid WGSL
+    const kept = entry.body.stmts.filter(s => !(isBarrierStmt(s) && rng.next() < intensity));
+    if (kept.length !== entry.body.stmts.length) entry.body.stmts = kept;
+
+    if (rng.next() < intensity) {
+        const barrier = parseStatements(`${getRandomItem(rng, BARRIER_FUNCTIONS)}();`);
+        entry.body.stmts.splice(Math.floor(rng.next() * (uniformPrefixLength(entry) + 1)), 0, ...barrier);
     }
+    return module;
+}
 
-    const chaosTokens = tokenize(injectionStr);
-    const newTokens = [...tokens];
-    newTokens.splice(spliceStart, semiIdx - spliceStart, ...chaosTokens);
-    return newTokens;
-}
-
-function mutateSwizzle(tokens: Token[], intensity: number): Token[] {
-    const newTokens = [...tokens];
-    for(let i=0; i<newTokens.length-1; i++) {
-        if (newTokens[i].value === '.' && newTokens[i].type === 'punct') {
-             const next = newTokens[i+1];
-             if (next.type === 'ident' && /^[xyzrgba]{2,4}$/.test(next.value)) {
-                 if (Math.random() < intensity) {
-                     newTokens[i+1] = { ...next, value: shuffleString(next.value) };
-                 }
-             }
-        }
+/**
+ * Shifts, flips and scales integer array indices, pushing accesses towards
+ * neighbours and out of bounds. Indices that are constant expressions are
+ * left alone: an out-of-range constant index does not compile.
+ */
+function mutateIndexing(module: Module, intensity: number, rng: Rng): Module {
+    if (!findComputeEntryPoint(module)) return module;
+    const info = checkModule(module);
+    const constants = new Set(collect(module, 'VarDecl').filter(d => d.keyword === 'const' || d.keyword === 'override').map(d => d.name));
+    walk(module, n => {
+        if (n.kind !== 'Index') return;
+        const type = info.types.get(n.index);
+        const suffix = type?.kind === 'scalar' ? (type.scalar === 'u32' ? 'u' : type.scalar === 'i32' ? 'i' : null) : null;
+        if (!suffix || !collect(n.index, 'Ident').some(id => !constants.has(id.name))) return;
+        if (rng.next() >= intensity) return;
+        const k = 1 + Math.floor(rng.next() * 4);
+        const template = getRandomItem(rng, [
+            `($ + ${k}${suffix})`,
+            `($ - ${k}${suffix})`,
+            `($ ^ ${k}${suffix})`,
+            `($ * 2${suffix})`,
+            `($ / 2${suffix})`,
+            `($ + 64${suffix})`,
+        ]);
+        n.index = replaceWith(n.index, instantiate(template, n.index));
+    });
+    return module;
+}
+
+// -- Vertex Mutators --
+// These leave shaders without a custom vertex stage alone, drawing nothing from the rng
+
+const INTERPOLATIONS = ['', 'flat', 'linear', 'perspective', 'linear, centroid', 'perspective, centroid', 'perspective, sample'];
+// WebGPU's default limit on inter-stage variables
+const MAX_LOCATIONS = 16;
+
+/** A stage input or output: a parameter, or a member of a struct passed between stages. */
+type StageMember = Param | StructMember;
+
+function findVertexEntryPoint(module: Module): FunctionDecl | null {
+    return module.decls.find((d): d is FunctionDecl =>
+        d.kind === 'Function' && d.name === VERTEX_ENTRY_POINT && d.attrs.some(a => a.name === 'vertex')) ?? null;
+}
+
+function findStruct(module: Module, type: TypeRef | null): StructDecl | null {
+    return module.decls.find((d): d is StructDecl => d.kind === 'Struct' && d.name === type?.name) ?? null;
+}
+
+function locationOf(member: StageMember): number | null {
+    const arg = member.attrs.find(a => a.name === 'location')?.args[0];
+    return arg && arg.kind === 'Literal' ? parseInt(arg.text, 10) : null;
+}
+
+function isBuiltin(member: StageMember, builtin: string): boolean {
+    return member.attrs.some(a => a.name === 'builtin' && a.args[0]?.kind === 'Ident' && a.args[0].name === builtin);
+}
+
+function interpolationOf(member: StageMember): string {
+    const attr = member.attrs.find(a => a.name === 'interpolate');
+    return attr ? attr.args.map(arg => print(arg)).join(', ') : '';
+}
+
+function typeText(type: TypeRef): string {
+    return print(type).replace(/\s+/g, '');
+}
+
+/** Inputs of an entry point, with the members of struct parameters in place of the parameters. */
+function stageInputs(module: Module, entry: FunctionDecl): StageMember[] {
+    return entry.params.flatMap((p): StageMember[] => findStruct(module, p.type)?.members ?? [p]);
+}
+
+/** Vertex attributes read through plain parameters, by location. */
+function vertexAttributes(vertex: FunctionDecl): Map<number, Param> {
+    const located = vertex.params.filter(p => locationOf(p) !== null);
+    return new Map(located.map(p => [locationOf(p)!, p]));
+}
+
+/** Sets or clears (for `''`) the `@interpolate` of a stage member. */
+function setInterpolate(member: StageMember, interpolate: string): void {
+    const attrs = member.attrs.filter(a => a.name !== 'interpolate');
+    if (interpolate) {
+        const args = interpolate.split(', ').map(arg => parseExpression(arg));
+        attrs.push(synth<Attribute>({ kind: 'Attribute', name: 'interpolate', args }));
     }
-    return newTokens;
+    member.attrs = attrs;
+}
+
+/** Inserts `stmts` before every return of `fn` that returns a plain variable. */
+function insertBeforeReturns(fn: FunctionDecl, stmts: (value: string) => Node[]): void {
+    walk(fn.body, n => {
+        if (n.kind !== 'Block') return;
+        const index = n.stmts.findIndex(s => s.kind === 'Return' && s.value?.kind === 'Ident');
+        if (index < 0) return;
+        const ret = n.stmts[index] as ReturnStmt;
+        n.stmts.splice(index, 0, ...(stmts((ret.value as IdentExpr).name) as typeof n.stmts));
+    });
 }
 
 /**
- * Replaces the entire color logic with a NEW PROCEDURALLY GENERATED algorithm.
+ * Moves vertices: routes every read of the position attribute through a
+ * displaced copy, like `mutateGeometry` does for the UV.
  */
-function mutateStructure(tokens: Token[], intensity: number): Token[] {
-    // 1. Find Main
-    let mainIdx = -1;
-    for (let i = 0; i < tokens.length - 1; i++) {
-        if (tokens[i].type === 'ident' && tokens[i].value === 'fn') {
-            let j = i + 1;
-            while(j < tokens.length && tokens[j].type === 'whitespace') j++;
-            if(j < tokens.length && tokens[j].value === 'main') {
-                mainIdx = i;
-                break;
-            }
+function mutateDisplacement(module: Module, intensity: number, rng: Rng): Module {
+    const vertex = findVertexEntryPoint(module);
+    const attributes = vertex ? vertexAttributes(vertex) : null;
+    const position = attributes?.get(0);
+    if (!vertex || !position || typeText(position.type) !== 'vec3<f32>' || rng.next() >= intensity) return module;
+
+    const p = position.name;
+    const normal = attributes!.get(1);
+    const n = normal && typeText(normal.type) === 'vec3<f32>' ? normal.name : null;
+    const mutVar = `${p}_disp_${Math.floor(rng.next() * 100000)}`;
+    const amp = randFloat(rng, 0.05, 0.3).toFixed(2);
+    const freq = randFloat(rng, 2, 12).toFixed(2);
+
+    const inputs = inputScope(module);
+    const displacements = usableTemplates(inputs, [
+        `var ${mutVar} = vec3<f32>(f_rot(${p}.xy, $time * ${randFloat(rng, -1, 1).toFixed(2)}), ${p}.z);`,
+        `var ${mutVar} = vec3<f32>(f_rot(${p}.xz, $time * ${randFloat(rng, -1, 1).toFixed(2)}), ${p}.y).xzy;`,
+        `var ${mutVar} = ${p} * vec3<f32>(${randFloat(rng, 0.5, 1.5).toFixed(2)}, ${randFloat(rng, 0.5, 1.5).toFixed(2)}, 1.0);`,
+        `var ${mutVar} = floor(${p} * ${freq}) / ${freq};`,
+        `var ${mutVar} = ${p} + vec3<f32>(0.0, sin(${p}.x * ${freq} + $time) * ${amp}, 0.0);`,
+        // Spherify: pull every vertex towards the sphere of radius 0.8
+        `var ${mutVar} = mix(${p}, normalize(${p} + vec3<f32>(1e-4)) * 0.8, ${amp});`,
+        // Bulge towards the pointer
+        `var ${mutVar} = ${p} + vec3<f32>($mouse.xy * 2.0 - 1.0 - ${p}.xy, 0.0) * ${amp} * exp(-4.0 * distance(${p}.xy, $mouse.xy * 2.0 - 1.0));`,
+        ...(n ? [
+            `var ${mutVar} = ${p} + ${n} * ${amp} * sin($time * 2.0 + ${p}.y * ${freq});`,
+            `var ${mutVar} = ${p} + ${n} * ${amp} * f_n(${p}.x * 7.0 + ${p}.y * 13.0 + ${p}.z * 17.0);`,
+        ] : []),
+    ]);
+    const injection = parseStatements(bindInputs(inputs, getRandomItem(rng, displacements)));
+
+    vertex.body = transform(vertex.body, node => {
+        if (node.kind === 'Ident' && node.name === p) return synth<IdentExpr>({ kind: 'Ident', name: mutVar });
+    });
+    vertex.body.stmts.unshift(...injection);
+    return module;
+}
+
+/**
+ * Toggles `@invariant` on the position output and changes the
+ * interpolation of float varyings, on both sides of each location.
+ */
+function mutateInterpolation(module: Module, intensity: number, rng: Rng): Module {
+    const vertex = findVertexEntryPoint(module);
+    const outputs = vertex ? findStruct(module, vertex.returnType) : null;
+    if (!vertex || !outputs) return module;
+    const fragment = findEntryPoint(module);
+    const inputs = fragment ? stageInputs(module, fragment) : [];
+
+    for (const member of outputs.members) {
+        if (isBuiltin(member, 'position')) {
+            if (rng.next() >= intensity) continue;
+            const invariant = member.attrs.some(a => a.name === 'invariant');
+            member.attrs = invariant
+                ? member.attrs.filter(a => a.name !== 'invariant')
+                : [...member.attrs, synth<Attribute>({ kind: 'Attribute', name: 'invariant', args: [] })];
+            continue;
         }
-    }
-    if (mainIdx === -1) return tokens;
-
-    // 2. Find UV name
-    const uvName = findUVName(tokens, mainIdx);
-    if (!uvName) return tokens;
-
-    // 3. Find Return
-    let retIdx = -1;
-    for (let i = tokens.length - 1; i >= 0; i--) {
-        if (tokens[i].type === 'ident' && tokens[i].value === 'return') {
-            retIdx = i;
-            break;
+        // Integer varyings must stay flat
+        const location = locationOf(member);
+        if (location === null || !/^(f32|vec[234]<f32>|vec[234]f)$/.test(typeText(member.type)) || rng.next() >= intensity) continue;
+        const interpolate = getRandomItem(rng, INTERPOLATIONS);
+        setInterpolate(member, interpolate);
+        for (const input of inputs) {
+            if (input !== member && locationOf(input) === location) setInterpolate(input, interpolate);
         }
     }
-    if (retIdx === -1) return tokens;
+    return module;
+}
 
-    let semiIdx = -1;
-    for (let i = retIdx; i < tokens.length; i++) {
-        if (tokens[i].value === ';') {
-            semiIdx = i;
-            break;
-        }
-    }
-    if (semiIdx === -1) return tokens;
-
-    // 4. Inject Procedural Art
-    // Check if we have whitespace after return to preserve
-    let spliceStart = retIdx + 1;
-    let preservedWhitespace = false;
-    if (spliceStart < tokens.length && tokens[spliceStart].type === 'whitespace') {
-        spliceStart++;
-        preservedWhitespace = true;
-    }
+/**
+ * Adds a varying computed from the vertex attributes and blends it into
+ * the fragment colour, or swaps the locations of two varyings of the same
+ * type so the fragment stage reads one in place of the other.
+ */
+function mutateVaryings(module: Module, intensity: number, rng: Rng): Module {
+    const vertex = findVertexEntryPoint(module);
+    const outputs = vertex ? findStruct(module, vertex.returnType) : null;
+    const fragment = findEntryPoint(module);
+    if (!vertex || !outputs || !fragment || rng.next() >= intensity) return module;
 
-    const geneCode = generateProceduralGene(uvName);
-    
-    // Prepend space for safety if we didn't preserve existing whitespace
-    let injectionStr = `vec4<f32>(${geneCode}, 1.0)`;
-    if (!preservedWhitespace) {
-        injectionStr = ' ' + injectionStr;
+    // A struct shared by both stages moves its inputs along with its outputs
+    const shared = fragment.params.find(p => p.type.name === outputs.name);
+    const located = outputs.members.filter(m => locationOf(m) !== null);
+    const signature = (m: StructMember) => `${typeText(m.type)} ${interpolationOf(m)}`;
+    const pairs = located.flatMap((a, i) => located.slice(i + 1).filter(b => signature(b) === signature(a)).map(b => [a, b]));
+    if (!shared && pairs.length > 0 && rng.next() < 0.5) {
+        const [a, b] = getRandomItem(rng, pairs);
+        const [la, lb] = [locationOf(a)!, locationOf(b)!];
+        const relocate = (m: StructMember, location: number) => {
+            const attr = m.attrs.find(x => x.name === 'location')!;
+            attr.args = [replaceWith(attr.args[0], synth<LiteralExpr>({ kind: 'Literal', text: `${location}` }))];
+        };
+        relocate(a, lb);
+        relocate(b, la);
+        return module;
     }
-    
-    const injectionTokens = tokenize(injectionStr);
 
-    const newTokens = [...tokens];
-    // Remove old return expression and insert new one
-    // Safety check for invalid splice range
-    if (semiIdx > spliceStart) {
-        newTokens.splice(spliceStart, semiIdx - spliceStart, ...injectionTokens);
+    const attributes = vertexAttributes(vertex);
+    const [p, n, uv] = [0, 1, 2].map(l => attributes.get(l)?.name ?? null);
+    const k = randFloat(rng, 2, 10).toFixed(2);
+    const varyings: [string, string][] = [
+        ...(p ? [
+            ['f32', `length(${p})`], ['f32', `${p}.z * 0.5 + 0.5`], ['f32', `sin($time + ${p}.x * ${k})`],
+            ['vec3<f32>', `${p} * 0.5 + 0.5`],
+        ] as [string, string][] : []),
+        ...(n ? [
+            ['f32', `dot(${n}, normalize(vec3<f32>(0.4, 0.8, 0.5))) * 0.5 + 0.5`],
+            ['vec3<f32>', `${n} * 0.5 + 0.5`], ['vec3<f32>', `abs(${n})`],
+        ] as [string, string][] : []),
+        ...(uv ? [['f32', `fract(${uv}.x * ${k})`], ['vec3<f32>', `vec3<f32>(${uv}, 0.5)`]] as [string, string][] : []),
+    ];
+    const inputs = inputScope(module);
+    const usable = varyings.filter(([, text]) => usableTemplates(inputs, [text]).length > 0);
+    const location = Math.max(-1, ...[...outputs.members, ...stageInputs(module, fragment)].map(m => locationOf(m) ?? -1)) + 1;
+    if (usable.length === 0 || location >= MAX_LOCATIONS) return module;
+
+    const [type, value] = getRandomItem(rng, usable);
+    const name = `vary_${Math.floor(rng.next() * 100000)}`;
+    const member = (parseDecls(`struct S { @location(${location}) ${name} : ${type}, }`)[0] as StructDecl).members[0];
+    outputs.members = [...outputs.members, member];
+    insertBeforeReturns(vertex, out => parseStatements(bindInputs(inputs, `${out}.${name} = ${value};`)));
+
+    let read = name;
+    if (shared) {
+        read = `${shared.name}.${name}`;
     } else {
-        // Fallback: just insert
-        newTokens.splice(spliceStart, 0, ...injectionTokens);
+        const param = (parseDecls(`fn f(@location(${location}) ${name} : ${type}) {}`)[0] as FunctionDecl).params[0];
+        fragment.params = [...fragment.params, param];
     }
-
-    return newTokens;
+    const blends = type === 'f32'
+        ? ['mix(__c, vec4<f32>(vec3<f32>(__v), __c.a), 0.5)', '__c * (0.5 + 0.5 * __v)', '__c + vec4<f32>(vec3<f32>(__v * 0.2), 0.0)']
+        : ['vec4<f32>(mix(__c.rgb, __v, 0.5), __c.a)', 'vec4<f32>(__c.rgb * __v, __c.a)', 'vec4<f32>(abs(__c.rgb - __v), __c.a)'];
+    const blend = getRandomItem(rng, blends);
+    for (const ret of colorReturnsOf(module, fragment)) {
+        ret.value = replaceWith(ret.value!, instantiateWith(blend, { __c: ret.value!, __v: parseExpression(read) }));
+    }
+    return module;
 }
 
+// -- Built-in Mutators --
+// Registration order is run order: whole-shader rewrites first, then atomic edits
+
+const fireWithIntensity = (intensity: number) => intensity;
+
+registerMutator({
+    id: 'structure',
+    label: 'Procedural Reconstruction',
+    description: 'Replaces the colour logic with a procedurally generated algorithm',
+    category: 'generative',
+    safety: 'safe',
+    enabledByDefault: false,
+    weight: 1,
+    probability: fireWithIntensity,
+    apply: mutateStructure,
+});
+
+registerMutator({
+    id: 'geometry',
+    label: 'Spatial Warping',
+    description: 'Warps the UV coordinates',
+    category: 'generative',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    probability: fireWithIntensity,
+    apply: mutateGeometry,
+});
+
+registerMutator({
+    id: 'color',
+    label: 'Color Shifting',
+    description: 'Nudges the constants of colour constructors',
+    category: 'generative',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    probability: fireWithIntensity,
+    apply: mutateColor,
+});
+
+registerMutator({
+    id: 'chaos',
+    label: 'Chaos Injection',
+    description: 'Wraps a returned colour in a post-processing template',
+    category: 'generative',
+    safety: 'typed',
+    enabledByDefault: false,
+    weight: 1,
+    probability: fireWithIntensity,
+    apply: mutateChaos,
+});
+
+registerMutator({
+    id: 'numbers',
+    label: 'Numbers',
+    description: 'Perturbs float literals',
+    category: 'atomic',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateNumbers,
+});
+
+registerMutator({
+    id: 'operators',
+    label: 'Ops',
+    description: 'Swaps arithmetic operators for ones with the same result type',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: false,
+    weight: 1,
+    apply: mutateOperators,
+});
+
+registerMutator({
+    id: 'builtins',
+    label: 'Builtins',
+    description: 'Swaps builtin and helper calls for ones with the same signature',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: false,
+    weight: 1,
+    apply: mutateBuiltins,
+});
+
+registerMutator({
+    id: 'swizzle',
+    label: 'Swizzle',
+    description: 'Reorders vector swizzles; stays off at low intensity',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: true,
+    weight: 1,
+    apply: (module, intensity, rng) => (intensity > 0.15 ? mutateSwizzle(module, intensity, rng) : module),
+});
+
+registerMutator({
+    id: 'texcoords',
+    label: 'Tex Coords',
+    description: 'Warps the coordinates textures are sampled or loaded at',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateTexCoords,
+});
+
+registerMutator({
+    id: 'samplefns',
+    label: 'Sample Fns',
+    description: 'Swaps textureSample, textureSampleLevel and textureLoad for one another',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: false,
+    weight: 1,
+    apply: mutateSampleFunctions,
+});
+
+registerMutator({
+    id: 'samplers',
+    label: 'Samplers',
+    description: 'Switches texture samples to a sampler with other filtering or addressing',
+    category: 'atomic',
+    safety: 'safe',
+    enabledByDefault: false,
+    weight: 1,
+    apply: mutateSamplers,
+});
+
+registerMutator({
+    id: 'workgroup',
+    label: 'Workgroup',
+    description: 'Reshapes the @workgroup_size of compute shaders',
+    category: 'atomic',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateWorkgroupSize,
+});
+
+registerMutator({
+    id: 'atomics',
+    label: 'Atomics',
+    description: 'Swaps atomic operations and adds atomic counter updates in compute shaders',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateAtomics,
+});
+
+registerMutator({
+    id: 'barriers',
+    label: 'Barriers',
+    description: 'Drops or adds workgroup and storage barriers in compute shaders',
+    category: 'atomic',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateBarriers,
+});
+
+registerMutator({
+    id: 'indexing',
+    label: 'Indexing',
+    description: 'Offsets and scales array indices in compute shaders, towards out-of-bounds accesses',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateIndexing,
+});
+
+registerMutator({
+    id: 'displace',
+    label: 'Displacement',
+    description: 'Moves vertices in custom vertex stages',
+    category: 'atomic',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateDisplacement,
+});
+
+registerMutator({
+    id: 'interpolation',
+    label: 'Interpolation',
+    description: 'Toggles @invariant and changes the @interpolate of varyings, keeping both stages consistent',
+    category: 'atomic',
+    safety: 'safe',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateInterpolation,
+});
+
+registerMutator({
+    id: 'varyings',
+    label: 'Varyings',
+    description: 'Adds VertexOutput varyings read by the fragment stage, or swaps their locations',
+    category: 'atomic',
+    safety: 'typed',
+    enabledByDefault: true,
+    weight: 1,
+    apply: mutateVaryings,
+});
+
 // -- Main Fuzz Function --
 
-export const fuzzShader = (code: string, config: FuzzConfig): string => {
-  let tokens = tokenize(code);
+/**
+ * Seed for one pass of a multi-pass shader, so each pass draws its own
+ * stream and mutating one pass alone gives the same result for it.
+ */
+function passSeed(seed: number, pass: string): number {
+    let h = seed >>> 0;
+    for (let i = 0; i < pass.length; i++) h = Math.imul(h ^ pass.charCodeAt(i), 0x9e3779b1) >>> 0;
+    return h;
+}
 
-  // 1. Structural / Latent
-  
-  if (config.mutateStructure && Math.random() < config.intensity) {
-    tokens = mutateStructure(tokens, config.intensity);
-  }
+/**
+ * Runs one mutation pass: every enabled mutator, in registry order. The same
+ * `seed`, `code` and `config` always produce byte-identical output;
+ * `createRng` lets callers swap the generator. The result logs what each
+ * mutator changed, diffed from the code as it stood before that mutator.
+ * Throws `WgslSyntaxError` if `code` does not parse.
+ */
 
-  if (config.mutateGeometry && Math.random() < config.intensity) {
-    tokens = mutateGeometry(tokens, config.intensity);
-  }
-  
-  if (config.mutateColor && Math.random() < config.intensity) {
-    tokens = mutateColor(tokens, config.intensity);
-  }
+export const fuzzShader = (
+  code: string,
+  config: FuzzConfig,
+  seed: number = randomSeed(),
+  createRng: RngFactory = mulberry32
+): FuzzResult => {
+  // Each pass is its own module, mutated with its own stream; plain shaders are one pass
+  const layout = splitPasses(code);
+  const passes = layout.passes
+    .filter(p => !config.pass || p.name === config.pass)
+    .map(p => {
+      const text = code.slice(p.start, p.end);
+      return { pass: p, text, module: parse(text), rng: createRng(layout.multiPass ? passSeed(seed, p.name) : seed) };
+    });
+  let current = code;
+  const changes: MutationChange[] = [];
 
-  if (config.mutateChaos && Math.random() < config.intensity) {
-    tokens = mutateChaos(tokens, config.intensity);
-  }
+  for (const mutator of getMutators()) {
+    if (!isMutatorEnabled(config, mutator)) continue;
+    const intensity = Math.min(1, config.intensity * mutator.weight);
+    for (const p of passes) {
+      if (mutator.probability && !(p.rng.next() < mutator.probability(intensity))) continue;
+      p.module = mutator.apply(p.module, intensity, p.rng);
+    }
 
-  // 2. Atomic
-  if (config.mutateNumbers) {
-    tokens = mutateNumbers(tokens, config.intensity);
+    const next = replacePasses(code, layout.passes, new Map(passes.map(p => [p.pass.name, print(p.module, p.text)])));
+    changes.push(...changesBetween(mutator.id, current, next));
+    current = next;
   }
 
-  if (config.mutateOperators) {
-    tokens = mutateOperators(tokens, config.intensity);
-  }
+  return { code: current, seed, changes };
+};
 
-  if (config.mutateBuiltins) {
-    tokens = mutateBuiltins(tokens, config.intensity);
-  }
-  
-  // Implicit safe swizzling at high intensity
-  if (config.intensity > 0.15) {
-      tokens = mutateSwizzle(tokens, config.intensity);
-  }
+// -- Crossover --
+
+interface Parent {
+    module: Module;
+    entry: FunctionDecl;
+    uvName: string | null;
+    types: Map<Expr, WgslType>;
+}
+
+const CROSSOVER_ATTEMPTS = 16;
+const CROSSOVER_STRATEGIES: CrossoverStrategy[] = ['channels', 'subexpression', 'statements'];
+
+function prepareParent(code: string): Parent | null {
+    const module = parse(code);
+    const entry = findEntryPoint(module);
+    if (!entry) return null;
+    return { module, entry, uvName: findUVName(entry), types: checkModule(module).types };
+}
 
-  return tokens.map(t => t.value).join('');
-};
\ No newline at end of file
+/**
+ * Copies a subtree out of the donor, reading the recipient's UV wherever the
+ * donor read its own, and the recipient's inputs (declared if need be)
+ * wherever it read the donor's.
+ */
+function transplant<T extends Node>(node: T, donor: Parent, recipient: Parent): T {
+    const from = donor.uvName, to = recipient.uvName;
+    const donorInputs = new Map([...declaredBindings(donor.module)].map(([standard, name]) => [name, standard]));
+    const inputs = inputScope(recipient.module);
+    return transform(detach(node), n => {
+        if (n.kind !== 'Ident') return;
+        if (from && to && from !== to && n.name === from) return synth<IdentExpr>({ kind: 'Ident', name: to });
+        const standard = donorInputs.get(n.name);
+        if (standard && canUseInput(inputs, standard)) {
+            const name = bindInputs(inputs, `$${standard}`);
+            if (name !== n.name) return synth<IdentExpr>({ kind: 'Ident', name });
+        }
+    });
+}
+
+/** `vec3<f32>(r, g, b)` colour genes of the entry point: three f32 channels, not all constant. */
+function colorGenesOf(parent: Parent): CallExpr[] {
+    const isF32 = (e: Expr) => {
+        const t = parent.types.get(e);
+        return t !== undefined && typesEqual(concretize(t), F32);
+    };
+    return collect(parent.entry.body, 'Call').filter(c => {
+        const t = parent.types.get(c);
+        return c.args.length === 3 && t?.kind === 'vector' && t.size === 3 && c.args.every(isF32)
+            && c.args.some(a => collect(a, 'Ident').length > 0);
+    });
+}
+
+/** Non-trivial expressions of the entry point with a known type, assignment targets excluded. */
+function typedExprsOf(parent: Parent): { expr: Expr; type: WgslType }[] {
+    const found: { expr: Expr; type: WgslType }[] = [];
+    walk(parent.entry.body, (n, up) => {
+        if ((up?.kind === 'Assign' && up.target === n) || up?.kind === 'IncDec') return false;
+        if (!isExpr(n) || n.kind === 'Literal' || n.kind === 'Ident') return;
+        const type = parent.types.get(n);
+        if (type && type.kind !== 'unknown') found.push({ expr: n, type: concretize(type) });
+    });
+    return found;
+}
+
+/** Swaps one or two colour channels of a recipient gene for the donor's. */
+function crossChannels(a: Parent, b: Parent, rng: Rng): boolean {
+    const targets = colorGenesOf(a);
+    const donors = colorGenesOf(b);
+    if (targets.length === 0 || donors.length === 0) return false;
+
+    const target = getRandomItem(rng, targets);
+    const donor = getRandomItem(rng, donors);
+    const first = Math.floor(rng.next() * 3);
+    const second = rng.next() < 0.5 ? (first + 1 + Math.floor(rng.next() * 2)) % 3 : first;
+    target.args = target.args.map((arg, i) =>
+        i === first || i === second ? replaceWith(arg, transplant(donor.args[i], b, a)) : arg
+    );
+    return true;
+}
+
+/** Replaces a recipient subexpression with a donor one of the same type. */
+function crossSubexpression(a: Parent, b: Parent, rng: Rng): boolean {
+    const donors = typedExprsOf(b);
+    const targets = typedExprsOf(a).filter(t => donors.some(d => typesEqual(d.type, t.type)));
+    if (targets.length === 0) return false;
+
+    const target = getRandomItem(rng, targets);
+    const donor = getRandomItem(rng, donors.filter(d => typesEqual(d.type, target.type)));
+    a.entry.body = transform(a.entry.body, n => {
+        if (n === target.expr) return transplant(donor.expr, b, a);
+    });
+    return true;
+}
+
+/** One-point crossover of the entry bodies: the recipient's head, then the donor's tail. */
+function crossStatements(a: Parent, b: Parent, rng: Rng): boolean {
+    const head = a.entry.body.stmts;
+    const tail = b.entry.body.stmts;
+    if (head.length < 2 || tail.length < 2) return false;
+
+    const cut = 1 + Math.floor(rng.next() * (head.length - 1));
+    const from = 1 + Math.floor(rng.next() * (tail.length - 1));
+    a.entry.body.stmts = [...head.slice(0, cut), ...tail.slice(from).map(s => transplant(s, b, a))];
+    return true;
+}
+
+const CROSSOVERS: Record<CrossoverStrategy, (a: Parent, b: Parent, rng: Rng) => boolean> = {
+    channels: crossChannels,
+    subexpression: crossSubexpression,
+    statements: crossStatements,
+};
+
+/**
+ * Breeds two shaders into one: swaps colour channels, a same-typed
+ * subexpression or a run of statements from `codeB` into `codeA`. A child
+ * the type checker likes less than `codeA` is thrown away and another swap
+ * tried; if none sticks, `codeA` comes back unchanged with a null strategy.
+ * Deterministic in `seed` like `fuzzShader`.
+ */
+export const crossoverShaders = (
+  codeA: string,
+  codeB: string,
+  seed: number = randomSeed(),
+  createRng: RngFactory = mulberry32
+): CrossoverResult => {
+  const rng = createRng(seed);
+  const baseline = checkModule(parse(codeA)).diagnostics.length;
+
+  for (let attempt = 0; attempt < CROSSOVER_ATTEMPTS; attempt++) {
+    // The swaps edit the parsed trees in place, so each attempt starts fresh
+    const a = prepareParent(codeA);
+    const b = prepareParent(codeB);
+    if (!a || !b) break;
+
+    const strategy = getRandomItem(rng, CROSSOVER_STRATEGIES);
+    if (!CROSSOVERS[strategy](a, b, rng)) continue;
+
+    const code = print(a.module, codeA);
+    if (code === codeA) continue;
+    try {
+      if (checkModule(parse(code)).diagnostics.length <= baseline) return { code, seed, strategy };
+    } catch {
+      // A swap that does not print back to valid syntax is just a failed attempt
+    }
+  }
+  return { code: codeA, seed, strategy: null };
+};
@@ -0,0 +1,165 @@
+import { mulberry32 } from './prng';
+
+/**
+ * GEOMETRY
+ *
+ * What the vertex stage draws. A shader picks a built-in mesh and the
+ * primitive topology with marker lines anywhere in its code:
+ *
+ *     //!mesh sphere
+ *     //!topology line-strip
+ *
+ * Without them it draws a full-screen quad as a triangle list. Meshes are
+ * plain vertex lists laid out for triangle lists; other topologies read
+ * the same vertices as points, line pairs or strips. There is no depth
+ * test: primitives are drawn in vertex order.
+ */
+
+export const MESH_NAMES = ['quad', 'grid', 'sphere', 'points'] as const;
+export type MeshName = typeof MESH_NAMES[number];
+
+export const TOPOLOGIES = ['triangle-list', 'triangle-strip', 'line-list', 'line-strip', 'point-list'] as const;
+export type Topology = typeof TOPOLOGIES[number];
+
+export interface Geometry {
+  mesh: MeshName;
+  topology: Topology;
+}
+
+export const DEFAULT_GEOMETRY: Geometry = { mesh: 'quad', topology: 'triangle-list' };
+
+export interface VertexAttribute {
+  name: string;
+  location: number;
+  type: string; // WGSL type of the vertex input
+  format: string; // GPUVertexFormat
+  offset: number; // In bytes
+}
+
+/** Per-vertex data of every mesh, interleaved in one buffer. */
+export const VERTEX_ATTRIBUTES: VertexAttribute[] = [
+  { name: 'position', location: 0, type: 'vec3<f32>', format: 'float32x3', offset: 0 },
+  { name: 'normal', location: 1, type: 'vec3<f32>', format: 'float32x3', offset: 12 },
+  { name: 'uv', location: 2, type: 'vec2<f32>', format: 'float32x2', offset: 24 },
+];
+export const VERTEX_FLOATS = 8;
+export const VERTEX_STRIDE = VERTEX_FLOATS * 4;
+
+/** Name of a custom vertex stage's entry point; the fragment stage keeps `main`. */
+export const VERTEX_ENTRY_POINT = 'vs_main';
+
+/** A problem with a geometry marker, at an offset into the source. */
+export interface GeometryIssue {
+  offset: number;
+  length: number;
+  message: string;
+}
+
+const MARKER = /^\/\/!(mesh|topology)[ \t]*(\S*)[^\n]*$/gm;
+
+/** The geometry `source` asks for; unknown or repeated markers are reported and ignored. */
+export const parseGeometry = (source: string): { geometry: Geometry; issues: GeometryIssue[] } => {
+  const geometry = { ...DEFAULT_GEOMETRY };
+  const issues: GeometryIssue[] = [];
+  const seen = new Set<string>();
+  for (const m of source.matchAll(MARKER)) {
+    const [line, key, value] = m;
+    const issue = (message: string) => issues.push({ offset: m.index!, length: line.length, message });
+    const options: readonly string[] = key === 'mesh' ? MESH_NAMES : TOPOLOGIES;
+    if (seen.has(key)) issue(`Only one //!${key} marker is allowed`);
+    else if (!options.includes(value)) issue(`Unknown ${key} '${value}'; expected one of ${options.join(', ')}`);
+    else if (key === 'mesh') geometry.mesh = value as MeshName;
+    else geometry.topology = value as Topology;
+    seen.add(key);
+  }
+  return { geometry, issues };
+};
+
+/**
+ * `source` with its geometry markers set to `geometry`. Markers are
+ * rewritten in place; missing ones go at the top, and defaults are dropped.
+ */
+export const withGeometry = (source: string, geometry: Geometry): string => {
+  const lines: Record<string, string | null> = {
+    mesh: geometry.mesh === DEFAULT_GEOMETRY.mesh ? null : `//!mesh ${geometry.mesh}`,
+    topology: geometry.topology === DEFAULT_GEOMETRY.topology ? null : `//!topology ${geometry.topology}`,
+  };
+  const written = new Set<string>();
+  let result = source.replace(new RegExp(`${MARKER.source}\\n?`, 'gm'), (match, key: string) => {
+    if (written.has(key) || lines[key] === null) return '';
+    written.add(key);
+    return `${lines[key]}${match.endsWith('\n') ? '\n' : ''}`;
+  });
+  for (const key of ['topology', 'mesh']) {
+    if (!written.has(key) && lines[key] !== null) result = `${lines[key]}\n${result}`;
+  }
+  return result;
+};
+
+// -- Meshes --
+
+type Vertex = [number, number, number, number, number, number, number, number]; // Position, normal, uv
+
+const GRID_CELLS = 16;
+const SPHERE_SEGMENTS = 32;
+const SPHERE_RINGS = 16;
+const SPHERE_RADIUS = 0.8;
+const POINT_COUNT = 3072; // A multiple of 6, so every topology uses all of them
+const POINT_SEED = 0x90195;
+
+const flat = (x: number, y: number): Vertex => [x, y, 0, 0, 0, 1, x * 0.5 + 0.5, y * 0.5 + 0.5];
+
+/** The two triangles of a cell, counter-clockwise: a b c, c b d. */
+const cell = (a: Vertex, b: Vertex, c: Vertex, d: Vertex): Vertex[] => [a, b, c, c, b, d];
+
+const quadMesh = (): Vertex[] => cell(flat(-1, -1), flat(1, -1), flat(-1, 1), flat(1, 1));
+
+const gridMesh = (): Vertex[] => {
+  const at = (i: number, j: number) => flat((i / GRID_CELLS) * 2 - 1, (j / GRID_CELLS) * 2 - 1);
+  const vertices: Vertex[] = [];
+  for (let j = 0; j < GRID_CELLS; j++) {
+    for (let i = 0; i < GRID_CELLS; i++) vertices.push(...cell(at(i, j), at(i + 1, j), at(i, j + 1), at(i + 1, j + 1)));
+  }
+  return vertices;
+};
+
+const sphereMesh = (): Vertex[] => {
+  const at = (i: number, j: number): Vertex => {
+    const theta = (i / SPHERE_SEGMENTS) * Math.PI * 2;
+    const phi = (j / SPHERE_RINGS) * Math.PI - Math.PI / 2;
+    const n = [Math.cos(phi) * Math.sin(theta), Math.sin(phi), Math.cos(phi) * Math.cos(theta)];
+    return [n[0] * SPHERE_RADIUS, n[1] * SPHERE_RADIUS, n[2] * SPHERE_RADIUS, n[0], n[1], n[2], i / SPHERE_SEGMENTS, j / SPHERE_RINGS];
+  };
+  const vertices: Vertex[] = [];
+  for (let j = 0; j < SPHERE_RINGS; j++) {
+    for (let i = 0; i < SPHERE_SEGMENTS; i++) vertices.push(...cell(at(i, j), at(i + 1, j), at(i, j + 1), at(i + 1, j + 1)));
+  }
+  return vertices;
+};
+
+/** A seeded cloud filling the unit disc, thicker towards the middle; normals point outwards. */
+const pointsMesh = (): Vertex[] => {
+  const rng = mulberry32(POINT_SEED);
+  return Array.from({ length: POINT_COUNT }, (): Vertex => {
+    const r = Math.sqrt(rng.next()) * rng.next();
+    const a = rng.next() * Math.PI * 2;
+    const z = rng.next() * 2 - 1;
+    const x = Math.cos(a) * r, y = Math.sin(a) * r;
+    const len = Math.hypot(x, y, z) || 1;
+    return [x, y, z * 0.5, x / len, y / len, z / len, x * 0.5 + 0.5, y * 0.5 + 0.5];
+  });
+};
+
+const MESHES: Record<MeshName, () => Vertex[]> = {
+  quad: quadMesh,
+  grid: gridMesh,
+  sphere: sphereMesh,
+  points: pointsMesh,
+};
+
+/** Interleaved vertex data of a mesh, `VERTEX_FLOATS` per vertex. */
+export const buildMesh = (name: MeshName): Float32Array => new Float32Array(MESHES[name]().flat());
+
+/** Whether `code` brings its own vertex stage, a `@vertex` function, instead of `BASE_VERTEX_SHADER`. */
+export const hasVertexStage = (code: string): boolean =>
+  /@vertex\b/.test(code.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, ''));
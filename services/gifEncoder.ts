@@ -0,0 +1,185 @@
+/**
+ * GIF ENCODER
+ *
+ * Animated GIFs from RGBA8 frames, without dependencies. All frames share
+ * one palette of up to 256 colours, cut by median cut from the colours of
+ * the whole animation, so colours do not flicker between frames. Alpha is
+ * ignored: frames should be opaque already.
+ */
+
+const MAX_COLORS = 256;
+
+// Colours are counted at 5 bits per channel: 32768 boxes, fine enough for median cut
+const KEY_BITS = 5;
+const KEYS = 1 << (KEY_BITS * 3);
+
+const colorKey = (pixels: Uint8ClampedArray, i: number): number =>
+  ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+
+interface ColorBox {
+  keys: number[];
+  count: number;
+}
+
+/**
+ * A palette for `frames` by median cut: the box of colours with the most
+ * pixels is split at the median of its widest channel until there are
+ * `MAX_COLORS` boxes, and each box becomes the average of its pixels.
+ * Returns the palette as RGB triples and each colour key's palette index.
+ */
+const buildPalette = (frames: Uint8ClampedArray[]): { palette: number[][]; indexOf: Int16Array } => {
+  const counts = new Uint32Array(KEYS);
+  const sums = new Float64Array(KEYS * 3);
+  for (const pixels of frames) {
+    for (let i = 0; i < pixels.length; i += 4) {
+      const key = colorKey(pixels, i);
+      counts[key]++;
+      sums[key * 3] += pixels[i];
+      sums[key * 3 + 1] += pixels[i + 1];
+      sums[key * 3 + 2] += pixels[i + 2];
+    }
+  }
+
+  const channel = (key: number, c: number) => (key >> (10 - 5 * c)) & 31;
+  const used: number[] = [];
+  for (let key = 0; key < KEYS; key++) if (counts[key] > 0) used.push(key);
+  const boxes: ColorBox[] = [{ keys: used, count: used.reduce((n, k) => n + counts[k], 0) }];
+
+  while (boxes.length < MAX_COLORS) {
+    const splittable = boxes.filter(b => b.keys.length > 1);
+    if (splittable.length === 0) break;
+    const box = splittable.reduce((a, b) => (b.count > a.count ? b : a));
+    const ranges = [0, 1, 2].map(c => {
+      const values = box.keys.map(k => channel(k, c));
+      return Math.max(...values) - Math.min(...values);
+    });
+    const widest = ranges.indexOf(Math.max(...ranges));
+    box.keys.sort((a, b) => channel(a, widest) - channel(b, widest));
+
+    // Split where half the pixels fall on either side, leaving a colour in each half
+    let seen = 0;
+    let at = 1;
+    for (; at < box.keys.length - 1; at++) {
+      seen += counts[box.keys[at - 1]];
+      if (seen * 2 >= box.count) break;
+    }
+    const low = box.keys.slice(0, at);
+    const high = box.keys.slice(at);
+    const lowCount = low.reduce((n, k) => n + counts[k], 0);
+    boxes.splice(boxes.indexOf(box), 1, { keys: low, count: lowCount }, { keys: high, count: box.count - lowCount });
+  }
+
+  const indexOf = new Int16Array(KEYS).fill(-1);
+  const palette = boxes.map((box, index) => {
+    const rgb = [0, 0, 0];
+    for (const key of box.keys) {
+      indexOf[key] = index;
+      for (let c = 0; c < 3; c++) rgb[c] += sums[key * 3 + c];
+    }
+    return rgb.map(x => Math.round(x / Math.max(1, box.count)));
+  });
+  return { palette: palette.length > 0 ? palette : [[0, 0, 0]], indexOf };
+};
+
+/** Palette indices of a frame's pixels. */
+const indexPixels = (pixels: Uint8ClampedArray, indexOf: Int16Array): Uint8Array => {
+  const indices = new Uint8Array(pixels.length / 4);
+  for (let i = 0; i < indices.length; i++) indices[i] = indexOf[colorKey(pixels, i * 4)];
+  return indices;
+};
+
+/**
+ * GIF's variable-width LZW: codes grow from `minCodeSize + 1` bits to 12,
+ * and the table is cleared when it fills up. Returns the packed bytes.
+ */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): number[] => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      emit(clearCode);
+      table = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      // The decoder widens its codes one entry behind, when this one would not fit
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.push(bits & 0xff);
+  return out;
+};
+
+const u16 = (x: number): number[] => [x & 0xff, (x >> 8) & 0xff];
+
+/** Appends data split into sub-blocks of at most 255 bytes, ended by an empty one. */
+const pushSubBlocks = (out: number[], data: number[]): void => {
+  for (let i = 0; i < data.length; i += 255) {
+    const end = Math.min(data.length, i + 255);
+    out.push(end - i);
+    for (let j = i; j < end; j++) out.push(data[j]);
+  }
+  out.push(0);
+};
+
+/**
+ * An animated GIF that loops forever. `frames` are RGBA8, row-major, top
+ * row first; `delays` are how long each frame shows, in hundredths of a
+ * second.
+ */
+export const encodeGif = (width: number, height: number, frames: Uint8ClampedArray[], delays: number[]): Uint8Array => {
+  const { palette, indexOf } = buildPalette(frames);
+  // The colour table holds a power of two entries, at least 4 for LZW's minimum code size of 2
+  const tableBits = Math.max(2, Math.ceil(Math.log2(palette.length)));
+  const table = Array.from({ length: 1 << tableBits }, (_, i) => palette[i] ?? [0, 0, 0]).flat();
+
+  const out: number[] = [
+    ...Array.from('GIF89a', c => c.charCodeAt(0)),
+    // Logical screen: global colour table, 8-bit colour resolution, background 0, square pixels
+    ...u16(width), ...u16(height), 0x80 | 0x70 | (tableBits - 1), 0, 0,
+    ...table,
+    // NETSCAPE2.0 application extension: loop forever
+    0x21, 0xff, 11, ...Array.from('NETSCAPE2.0', c => c.charCodeAt(0)), 3, 1, 0, 0, 0,
+  ];
+  frames.forEach((pixels, f) => {
+    out.push(
+      // Graphic control: no disposal, no transparency, the frame's delay
+      0x21, 0xf9, 4, 0, ...u16(Math.max(0, Math.round(delays[f]))), 0, 0,
+      // Image descriptor: the whole screen, global colour table
+      0x2c, ...u16(0), ...u16(0), ...u16(width), ...u16(height), 0,
+      tableBits,
+    );
+    pushSubBlocks(out, lzwEncode(indexPixels(pixels, indexOf), tableBits));
+  });
+  out.push(0x3b);
+  return Uint8Array.from(out);
+};
@@ -0,0 +1,339 @@
+/**
+ * GLSL LEXER & PREPROCESSOR
+ *
+ * The tokens of a GLSL ES fragment shader after preprocessing: comments
+ * are stripped, `#define` macros (object-like and function-like, with `##`
+ * pasting) are expanded and `#if`/`#ifdef` sections are kept or dropped.
+ * `#version`, `#extension`, `#pragma` and `#line` are ignored. Tokens
+ * remember the line they came from; tokens a macro expands to take the
+ * line the macro was used on.
+ */
+
+export type GlslTokenType = 'ident' | 'number' | 'punct' | 'eof';
+
+export interface GlslToken {
+  type: GlslTokenType;
+  value: string;
+  line: number;
+}
+
+export class GlslSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'GlslSyntaxError';
+  }
+}
+
+const NUMBER = /^(?:0[xX][0-9a-fA-F]+[uU]?|(?:\d+\.\d*|\.\d+)(?:[eE][+-]?\d+)?(?:lf|LF|[fF])?|\d+[eE][+-]?\d+(?:lf|LF|[fF])?|\d+[uU]?)/;
+const IDENT = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+
+const PUNCTUATION = [
+  '<<=', '>>=',
+  '++', '--', '<=', '>=', '==', '!=', '&&', '||', '^^', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<', '>>', '##',
+  '{', '}', '(', ')', '[', ']', ',', ';', ':', '.', '+', '-', '*', '/', '%', '=', '<', '>', '!', '&', '|', '^', '~', '?', '#',
+];
+
+// What every GLSL ES 3.0 fragment shader sees defined
+const PREDEFINED: Record<string, string> = { GL_ES: '1', __VERSION__: '300', GL_FRAGMENT_PRECISION_HIGH: '1' };
+
+/** Tokens of one line of code. */
+const lexLine = (text: string, line: number): GlslToken[] => {
+  const tokens: GlslToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+    const rest = text.slice(i, i + 64);
+    const num = rest.match(NUMBER);
+    const ident = num ? null : rest.match(IDENT);
+    const punct = num || ident ? null : PUNCTUATION.find(p => rest.startsWith(p));
+    const value = num?.[0] ?? ident?.[0] ?? punct;
+    if (!value) throw new GlslSyntaxError(`Unexpected character '${text[i]}'`, line);
+    tokens.push({ type: num ? 'number' : ident ? 'ident' : 'punct', value, line });
+    i += value.length;
+  }
+  return tokens;
+};
+
+/** `source` with comments blanked out; newlines are kept so line numbers stay put. */
+const stripComments = (source: string): string =>
+  source.replace(/\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/g, comment => comment.replace(/[^\n]/g, ' '));
+
+/** Source lines with `\` continuations joined, each with the line it starts on. */
+const logicalLines = (source: string): { text: string; line: number }[] => {
+  const lines: { text: string; line: number }[] = [];
+  let pending: { text: string; line: number } | null = null;
+  source.split('\n').forEach((raw, i) => {
+    const text = raw.replace(/\r$/, '');
+    const continued = text.endsWith('\\');
+    const part = continued ? text.slice(0, -1) : text;
+    if (pending) pending.text += part;
+    else pending = { text: part, line: i + 1 };
+    if (!continued) {
+      lines.push(pending);
+      pending = null;
+    }
+  });
+  if (pending) lines.push(pending);
+  return lines;
+};
+
+// -- Macros --
+
+interface Macro {
+  params: string[] | null; // null for object-like macros
+  body: GlslToken[];
+}
+
+/** Joins the tokens either side of each `##` into one. */
+const paste = (tokens: GlslToken[], line: number): GlslToken[] => {
+  const out: GlslToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].value === '##' && out.length > 0 && i + 1 < tokens.length) {
+      const joined = lexLine(out.pop()!.value + tokens[++i].value, line);
+      if (joined.length !== 1) throw new GlslSyntaxError(`'##' does not make a single token of '${joined.map(t => t.value).join('')}'`, line);
+      out.push(joined[0]);
+    } else {
+      out.push(tokens[i]);
+    }
+  }
+  return out;
+};
+
+/**
+ * Macro expansion with the usual rules: arguments are expanded before they
+ * are substituted, and a macro is not expanded again inside its own
+ * expansion. Returns the expanded tokens, and the tail of `tokens` from a
+ * function-like macro call whose arguments run past the end.
+ */
+const expand = (tokens: GlslToken[], macros: Map<string, Macro>, disabled: Set<string>): { out: GlslToken[]; rest: GlslToken[] } => {
+  const out: GlslToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const tok = tokens[i];
+    const macro = tok.type === 'ident' && !disabled.has(tok.value) ? macros.get(tok.value) : undefined;
+    if (!macro) {
+      out.push(tok);
+      continue;
+    }
+    const inner = new Set(disabled).add(tok.value);
+    if (macro.params === null) {
+      const body = paste(macro.body.map(t => ({ ...t, line: tok.line })), tok.line);
+      out.push(...expandAll(body, macros, inner));
+      continue;
+    }
+    // A function-like macro not followed by `(` is just a name
+    if (i + 1 === tokens.length) return { out, rest: tokens.slice(i) };
+    if (tokens[i + 1].value !== '(') {
+      out.push(tok);
+      continue;
+    }
+    const args: GlslToken[][] = [[]];
+    let depth = 0;
+    let j = i + 2;
+    for (; j < tokens.length; j++) {
+      const v = tokens[j].value;
+      if (v === '(') depth++;
+      else if (v === ')' && depth-- === 0) break;
+      else if (v === ',' && depth === 0) {
+        args.push([]);
+        continue;
+      }
+      args[args.length - 1].push(tokens[j]);
+    }
+    if (j === tokens.length) return { out, rest: tokens.slice(i) };
+    if (args.length === 1 && args[0].length === 0 && macro.params.length === 0) args.pop();
+    if (args.length !== macro.params.length) {
+      throw new GlslSyntaxError(`Macro '${tok.value}' takes ${macro.params.length} argument(s) but is given ${args.length}`, tok.line);
+    }
+    const expandedArgs = args.map(a => expandAll(a, macros, disabled));
+    const substituted = macro.body.flatMap((t, k) => {
+      const index = t.type === 'ident' ? macro.params!.indexOf(t.value) : -1;
+      if (index < 0) return [{ ...t, line: tok.line }];
+      // Operands of `##` are pasted as written, not expanded
+      const pasted = macro.body[k - 1]?.value === '##' || macro.body[k + 1]?.value === '##';
+      return (pasted ? args[index] : expandedArgs[index]).map(a => ({ ...a, line: tok.line }));
+    });
+    out.push(...expandAll(paste(substituted, tok.line), macros, inner));
+    i = j;
+  }
+  return { out, rest: [] };
+};
+
+/** Expands tokens that stand alone, such as a macro body: a call left open stays as written. */
+const expandAll = (tokens: GlslToken[], macros: Map<string, Macro>, disabled: Set<string>): GlslToken[] => {
+  const { out, rest } = expand(tokens, macros, disabled);
+  return rest.length === 0 ? out : [...out, rest[0], ...expandAll(rest.slice(1), macros, disabled)];
+};
+
+// -- Conditionals --
+
+const IF_PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 2, '|': 3, '^': 4, '&': 5, '==': 6, '!=': 6, '<': 7, '>': 7, '<=': 7, '>=': 7,
+  '<<': 8, '>>': 8, '+': 9, '-': 9, '*': 10, '/': 10, '%': 10,
+};
+
+/** Value of an `#if` expression whose macros are expanded; names left over count as 0. */
+const evaluateCondition = (tokens: GlslToken[], line: number): number => {
+  let pos = 0;
+  const fail = (): never => {
+    throw new GlslSyntaxError(`Cannot evaluate '#if ${tokens.map(t => t.value).join(' ')}'`, line);
+  };
+  const unary = (): number => {
+    const tok = tokens[pos++] ?? fail();
+    if (tok.value === '(') {
+      const value = binary(0);
+      if (tokens[pos++]?.value !== ')') fail();
+      return value;
+    }
+    if (tok.value === '!') return Number(!unary());
+    if (tok.value === '-') return -unary();
+    if (tok.value === '+') return unary();
+    if (tok.value === '~') return ~unary();
+    if (tok.type === 'number') return parseInt(tok.value, /^0[xX]/.test(tok.value) ? 16 : 10);
+    if (tok.type === 'ident') return 0;
+    return fail();
+  };
+  const binary = (min: number): number => {
+    let left = unary();
+    for (;;) {
+      const op = tokens[pos]?.value;
+      const prec = op === undefined ? undefined : IF_PRECEDENCE[op];
+      if (prec === undefined || prec <= min) return left;
+      pos++;
+      const right = binary(prec);
+      switch (op) {
+        case '||': left = Number(!!left || !!right); break;
+        case '&&': left = Number(!!left && !!right); break;
+        case '|': left |= right; break;
+        case '^': left ^= right; break;
+        case '&': left &= right; break;
+        case '==': left = Number(left === right); break;
+        case '!=': left = Number(left !== right); break;
+        case '<': left = Number(left < right); break;
+        case '>': left = Number(left > right); break;
+        case '<=': left = Number(left <= right); break;
+        case '>=': left = Number(left >= right); break;
+        case '<<': left <<= right; break;
+        case '>>': left >>= right; break;
+        case '+': left += right; break;
+        case '-': left -= right; break;
+        case '*': left *= right; break;
+        case '/': left = right === 0 ? fail() : Math.trunc(left / right); break;
+        case '%': left = right === 0 ? fail() : left % right; break;
+      }
+    }
+  };
+  const value = binary(0);
+  if (pos !== tokens.length) fail();
+  return value;
+};
+
+/** Replaces `defined X` and `defined(X)` with 1 or 0, before anything else is expanded. */
+const resolveDefined = (tokens: GlslToken[], macros: Map<string, Macro>): GlslToken[] => {
+  const out: GlslToken[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].value !== 'defined') {
+      out.push(tokens[i]);
+      continue;
+    }
+    const parens = tokens[i + 1]?.value === '(';
+    const name = tokens[i + (parens ? 2 : 1)];
+    if (!name || name.type !== 'ident' || (parens && tokens[i + 3]?.value !== ')')) {
+      throw new GlslSyntaxError("'defined' needs a macro name", tokens[i].line);
+    }
+    out.push({ type: 'number', value: macros.has(name.value) ? '1' : '0', line: name.line });
+    i += parens ? 3 : 1;
+  }
+  return out;
+};
+
+interface Conditional {
+  active: boolean;   // Whether lines in the current branch are kept
+  taken: boolean;    // Whether some branch so far was kept
+  enclosing: boolean; // Whether the enclosing section is kept
+}
+
+/**
+ * Preprocesses and tokenizes `source`. Throws `GlslSyntaxError` for
+ * characters GLSL does not have, malformed directives and `#error`.
+ */
+export const tokenizeGlsl = (source: string): GlslToken[] => {
+  const macros = new Map<string, Macro>(
+    Object.entries(PREDEFINED).map(([name, value]) => [name, { params: null, body: lexLine(value, 0) }]),
+  );
+  const conditionals: Conditional[] = [];
+  const active = () => conditionals.length === 0 || conditionals[conditionals.length - 1].active;
+  const tokens: GlslToken[] = [];
+  let pending: GlslToken[] = [];
+  let lastLine = 1;
+
+  for (const { text, line } of logicalLines(stripComments(source))) {
+    lastLine = line;
+    const directive = text.match(/^\s*#\s*(\w*)\s*(.*)$/);
+    if (!directive) {
+      if (!active()) continue;
+      const { out, rest } = expand([...pending, ...lexLine(text, line)], macros, new Set());
+      tokens.push(...out);
+      pending = rest;
+      continue;
+    }
+
+    const [, name, args] = directive;
+    const top = conditionals[conditionals.length - 1];
+    const condition = () => evaluateCondition(expandAll(resolveDefined(lexLine(args, line), macros), macros, new Set()), line) !== 0;
+    switch (name) {
+      case 'if':
+      case 'ifdef':
+      case 'ifndef': {
+        const enclosing = active();
+        const keep = enclosing && (name === 'if' ? condition() : macros.has(args.trim().split(/\s+/)[0]) === (name === 'ifdef'));
+        conditionals.push({ active: keep, taken: keep, enclosing });
+        break;
+      }
+      case 'elif':
+        if (!top) throw new GlslSyntaxError('#elif without #if', line);
+        top.active = top.enclosing && !top.taken && condition();
+        top.taken ||= top.active;
+        break;
+      case 'else':
+        if (!top) throw new GlslSyntaxError('#else without #if', line);
+        top.active = top.enclosing && !top.taken;
+        top.taken = true;
+        break;
+      case 'endif':
+        if (!conditionals.pop()) throw new GlslSyntaxError('#endif without #if', line);
+        break;
+      case 'define': {
+        if (!active()) break;
+        const m = text.match(/^\s*#\s*define\s+([a-zA-Z_]\w*)(\(([^)]*)\))?(.*)$/);
+        if (!m) throw new GlslSyntaxError('#define needs a macro name', line);
+        const params = m[2] === undefined ? null : m[3].split(',').map(p => p.trim()).filter(Boolean);
+        const body = lexLine(m[4], line);
+        if (body.some(t => t.value === '#')) throw new GlslSyntaxError(`Macro '${m[1]}' stringizes with '#', which GLSL has no use for`, line);
+        macros.set(m[1], { params, body });
+        break;
+      }
+      case 'undef':
+        if (active()) macros.delete(args.trim());
+        break;
+      case 'error':
+        if (active()) throw new GlslSyntaxError(`#error ${args.trim()}`, line);
+        break;
+      case 'version':
+      case 'extension':
+      case 'pragma':
+      case 'line':
+      case '':
+        break;
+      default:
+        if (active()) throw new GlslSyntaxError(`Unknown directive '#${name}'`, line);
+    }
+  }
+
+  if (conditionals.length > 0) throw new GlslSyntaxError('#if without #endif', lastLine);
+  tokens.push(...pending);
+  tokens.push({ type: 'eof', value: '', line: lastLine });
+  return tokens;
+};
@@ -0,0 +1,535 @@
+import { GlslSyntaxError, GlslToken, tokenizeGlsl } from './glslLexer';
+
+/**
+ * GLSL PARSER
+ *
+ * Recursive descent over the preprocessed tokens from `glslLexer.ts`,
+ * covering the GLSL ES 3.0 fragment language: functions, structs, global
+ * and local declarations, every statement and the C expression grammar.
+ * Unlike the WGSL tree, nodes keep no source ranges, only the line they
+ * start on: a GLSL tree is translated, never printed back.
+ */
+
+// -- Syntax Tree --
+
+/** A type as written: a name and any array sizes after it, e.g. `float[3]`; a null size is unsized. */
+export interface GlslTypeSpec {
+  name: string;
+  arrays: (GlslExpr | null)[];
+}
+
+interface GlslNode {
+  line: number;
+}
+
+export type GlslLiteralType = 'float' | 'int' | 'uint' | 'bool';
+
+export type GlslExpr = GlslNode & (
+  | { kind: 'Literal'; text: string; type: GlslLiteralType }
+  | { kind: 'Ident'; name: string }
+  | { kind: 'Call'; callee: GlslTypeSpec; args: GlslExpr[] } // Function, or constructor when `callee` names a type
+  | { kind: 'Length'; object: GlslExpr } // `a.length()`
+  | { kind: 'Binary'; op: string; left: GlslExpr; right: GlslExpr }
+  | { kind: 'Unary'; op: string; operand: GlslExpr } // Prefix, `++` and `--` included
+  | { kind: 'Postfix'; op: '++' | '--'; operand: GlslExpr }
+  | { kind: 'Assign'; op: string; target: GlslExpr; value: GlslExpr }
+  | { kind: 'Ternary'; cond: GlslExpr; then: GlslExpr; otherwise: GlslExpr }
+  | { kind: 'Member'; object: GlslExpr; member: string }
+  | { kind: 'Index'; object: GlslExpr; index: GlslExpr }
+  | { kind: 'Comma'; exprs: GlslExpr[] }
+);
+
+export interface GlslDeclarator extends GlslNode {
+  name: string;
+  arrays: (GlslExpr | null)[]; // Sizes after the name, as in `float a[3]`
+  init: GlslExpr | null;
+}
+
+export interface GlslDecl extends GlslNode {
+  kind: 'Decl';
+  qualifiers: string[]; // Storage and parameter qualifiers only: `const`, `uniform`, `in`, `out`
+  type: GlslTypeSpec;
+  vars: GlslDeclarator[];
+}
+
+export type GlslStmt = GlslNode & (
+  | GlslDecl
+  | { kind: 'Expr'; expr: GlslExpr }
+  | { kind: 'Block'; stmts: GlslStmt[] }
+  | { kind: 'If'; cond: GlslExpr; then: GlslStmt; otherwise: GlslStmt | null }
+  | { kind: 'For'; init: GlslStmt | null; cond: GlslExpr | null; update: GlslExpr | null; body: GlslStmt }
+  | { kind: 'While'; cond: GlslExpr; body: GlslStmt }
+  | { kind: 'DoWhile'; body: GlslStmt; cond: GlslExpr }
+  | { kind: 'Switch'; selector: GlslExpr; body: GlslStmt[] }
+  | { kind: 'Case'; value: GlslExpr | null } // A label inside a switch body; null is `default`
+  | { kind: 'Return'; value: GlslExpr | null }
+  | { kind: 'Break' | 'Continue' | 'Discard' | 'Empty' }
+);
+
+export interface GlslParam extends GlslNode {
+  qualifier: 'in' | 'out' | 'inout';
+  type: GlslTypeSpec;
+  name: string | null; // Prototypes may leave parameters unnamed
+}
+
+export interface GlslFunction extends GlslNode {
+  kind: 'Function';
+  returnType: GlslTypeSpec;
+  name: string;
+  params: GlslParam[];
+  body: GlslStmt[] | null; // null for a prototype
+}
+
+export interface GlslStruct extends GlslNode {
+  kind: 'Struct';
+  name: string;
+  members: { name: string; type: GlslTypeSpec; line: number }[];
+}
+
+export type GlslTopLevel = GlslFunction | GlslStruct | GlslDecl;
+
+// -- Parser --
+
+// Binary operator precedence, loosest first
+const PRECEDENCE: Record<string, number> = {
+  '||': 1, '^^': 2, '&&': 3, '|': 4, '^': 5, '&': 6,
+  '==': 7, '!=': 7, '<': 8, '>': 8, '<=': 8, '>=': 8,
+  '<<': 9, '>>': 9, '+': 10, '-': 10, '*': 11, '/': 11, '%': 11,
+};
+
+const ASSIGN_OPS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=']);
+
+const BUILTIN_TYPE = /^(?:void|bool|int|uint|float|[biu]?vec[234]|mat[234](?:x[234])?|[iu]?sampler(?:2D|3D|Cube|2DArray)(?:Shadow)?)$/;
+
+// Qualifiers that change nothing once translated
+const IGNORED_QUALIFIERS = new Set(['highp', 'mediump', 'lowp', 'precise', 'invariant', 'flat', 'smooth', 'centroid', 'noperspective']);
+const QUALIFIERS = new Set(['const', 'uniform', 'in', 'out', 'inout', 'attribute', 'varying', 'buffer', 'shared', ...IGNORED_QUALIFIERS]);
+
+class GlslParser {
+  private pos = 0;
+  private readonly structs = new Set<string>();
+
+  constructor(private readonly tokens: GlslToken[]) {}
+
+  // -- Token helpers --
+
+  private peek(offset = 0): GlslToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private at(value: string, offset = 0): boolean {
+    const tok = this.peek(offset);
+    return tok.type !== 'eof' && tok.value === value;
+  }
+
+  private next(): GlslToken {
+    const tok = this.peek();
+    if (tok.type !== 'eof') this.pos++;
+    return tok;
+  }
+
+  private accept(value: string): boolean {
+    if (!this.at(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(value: string): GlslToken {
+    if (!this.at(value)) throw this.error(`Expected '${value}' but found '${this.peek().value || 'end of file'}'`);
+    return this.next();
+  }
+
+  private ident(): string {
+    const tok = this.peek();
+    if (tok.type !== 'ident') throw this.error(`Expected identifier but found '${tok.value || 'end of file'}'`);
+    this.pos++;
+    return tok.value;
+  }
+
+  private error(message: string, tok: GlslToken = this.peek()) {
+    return new GlslSyntaxError(message, tok.line);
+  }
+
+  private isTypeName(offset = 0): boolean {
+    const tok = this.peek(offset);
+    return tok.type === 'ident' && (BUILTIN_TYPE.test(tok.value) || this.structs.has(tok.value) || tok.value === 'struct');
+  }
+
+  /** Skips precision, interpolation and layout qualifiers; returns the ones that matter. */
+  private qualifiers(): string[] {
+    const kept: string[] = [];
+    for (;;) {
+      if (this.accept('layout')) {
+        this.expect('(');
+        while (!this.accept(')')) {
+          if (this.peek().type === 'eof') throw this.error("Unclosed 'layout('");
+          this.next();
+        }
+      } else if (this.peek().type === 'ident' && QUALIFIERS.has(this.peek().value)) {
+        const q = this.next().value;
+        if (!IGNORED_QUALIFIERS.has(q)) kept.push(q);
+      } else {
+        return kept;
+      }
+    }
+  }
+
+  /** Whether a declaration starts here: qualifiers, or a type followed by a name. */
+  private atDeclaration(): boolean {
+    const tok = this.peek();
+    if (tok.type === 'ident' && (QUALIFIERS.has(tok.value) || tok.value === 'layout' || tok.value === 'struct')) return true;
+    if (!this.isTypeName()) return false;
+    let offset = 1;
+    while (this.at('[', offset)) {
+      let depth = 0;
+      do {
+        if (this.at('[', offset)) depth++;
+        else if (this.at(']', offset)) depth--;
+        else if (this.peek(offset).type === 'eof') return false;
+        offset++;
+      } while (depth > 0);
+    }
+    return this.peek(offset).type === 'ident';
+  }
+
+  private arraySizes(): (GlslExpr | null)[] {
+    const sizes: (GlslExpr | null)[] = [];
+    while (this.accept('[')) {
+      sizes.push(this.at(']') ? null : this.parseAssignment());
+      this.expect(']');
+    }
+    return sizes;
+  }
+
+  /** A type, defining an inline `struct` as it goes; returns the struct too when there is one. */
+  private parseType(): { type: GlslTypeSpec; struct: GlslStruct | null } {
+    let struct: GlslStruct | null = null;
+    let name: string;
+    if (this.at('struct')) {
+      struct = this.parseStruct();
+      name = struct.name;
+    } else {
+      if (!this.isTypeName()) throw this.error(`Expected a type but found '${this.peek().value || 'end of file'}'`);
+      name = this.next().value;
+    }
+    return { type: { name, arrays: this.arraySizes() }, struct };
+  }
+
+  private parseStruct(): GlslStruct {
+    const line = this.expect('struct').line;
+    if (this.peek().type !== 'ident') throw this.error('Anonymous structs are not supported; give the struct a name');
+    const name = this.ident();
+    this.structs.add(name);
+    const members: GlslStruct['members'] = [];
+    this.expect('{');
+    while (!this.accept('}')) {
+      this.qualifiers();
+      const { type } = this.parseType();
+      do {
+        const memberLine = this.peek().line;
+        const memberName = this.ident();
+        members.push({ name: memberName, type: { name: type.name, arrays: [...type.arrays, ...this.arraySizes()] }, line: memberLine });
+      } while (this.accept(','));
+      this.expect(';');
+    }
+    return { kind: 'Struct', name, members, line };
+  }
+
+  private parseDeclarators(first: string | null): GlslDeclarator[] {
+    const vars: GlslDeclarator[] = [];
+    do {
+      const line = this.peek().line;
+      const name = first ?? this.ident();
+      first = null;
+      const arrays = this.arraySizes();
+      const init = this.accept('=') ? this.parseInitializer() : null;
+      vars.push({ name, arrays, init, line });
+    } while (this.accept(','));
+    return vars;
+  }
+
+  private parseInitializer(): GlslExpr {
+    if (this.at('{')) throw this.error("Brace initializers are not supported; use a constructor such as 'float[3](...)'");
+    return this.parseAssignment();
+  }
+
+  // -- Top level --
+
+  parseTranslationUnit(): GlslTopLevel[] {
+    const items: GlslTopLevel[] = [];
+    while (this.peek().type !== 'eof') {
+      if (this.accept(';')) continue;
+      if (this.at('precision')) {
+        while (!this.accept(';')) this.next();
+        continue;
+      }
+      items.push(...this.parseExternal());
+    }
+    return items;
+  }
+
+  private parseExternal(): GlslTopLevel[] {
+    const line = this.peek().line;
+    const qualifiers = this.qualifiers();
+    if (this.peek().type === 'ident' && !this.isTypeName() && this.at('{', 1)) {
+      throw this.error(`Interface blocks ('${this.peek().value} { ... }') are not supported`);
+    }
+    const { type, struct } = this.parseType();
+    const items: GlslTopLevel[] = struct ? [struct] : [];
+    if (this.accept(';')) return items;
+
+    const nameTok = this.peek();
+    const name = this.ident();
+    if (this.at('(')) {
+      if (struct) throw this.error('A struct cannot be defined in a return type', nameTok);
+      items.push(this.parseFunction(type, name, line));
+      return items;
+    }
+    const vars = this.parseDeclarators(name);
+    this.expect(';');
+    items.push({ kind: 'Decl', qualifiers, type, vars, line });
+    return items;
+  }
+
+  private parseFunction(returnType: GlslTypeSpec, name: string, line: number): GlslFunction {
+    this.expect('(');
+    const params: GlslParam[] = [];
+    if (this.at('void') && this.at(')', 1)) this.next();
+    while (!this.at(')')) {
+      const paramLine = this.peek().line;
+      const qualifiers = this.qualifiers();
+      const { type } = this.parseType();
+      const paramName = this.peek().type === 'ident' ? this.ident() : null;
+      const arrays = this.arraySizes();
+      const qualifier = qualifiers.includes('inout') ? 'inout' : qualifiers.includes('out') ? 'out' : 'in';
+      params.push({ qualifier, type: { name: type.name, arrays: [...type.arrays, ...arrays] }, name: paramName, line: paramLine });
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+    if (this.accept(';')) return { kind: 'Function', returnType, name, params, body: null, line };
+    return { kind: 'Function', returnType, name, params, body: this.parseBlockBody(), line };
+  }
+
+  // -- Statements --
+
+  private parseBlockBody(): GlslStmt[] {
+    this.expect('{');
+    const stmts: GlslStmt[] = [];
+    while (!this.accept('}')) {
+      if (this.peek().type === 'eof') throw this.error("Expected '}' but found end of file");
+      stmts.push(this.parseStatement());
+    }
+    return stmts;
+  }
+
+  private parseStatement(): GlslStmt {
+    const line = this.peek().line;
+    const tok = this.peek();
+    if (tok.value === '{' && tok.type === 'punct') return { kind: 'Block', stmts: this.parseBlockBody(), line };
+    if (this.accept(';')) return { kind: 'Empty', line };
+
+    switch (tok.type === 'ident' ? tok.value : '') {
+      case 'if': {
+        this.next();
+        this.expect('(');
+        const cond = this.parseExpression();
+        this.expect(')');
+        const then = this.parseStatement();
+        const otherwise = this.accept('else') ? this.parseStatement() : null;
+        return { kind: 'If', cond, then, otherwise, line };
+      }
+      case 'for': {
+        this.next();
+        this.expect('(');
+        const init = this.accept(';') ? null : this.parseSimpleStatement();
+        const cond = this.at(';') ? null : this.parseExpression();
+        this.expect(';');
+        const update = this.at(')') ? null : this.parseExpression();
+        this.expect(')');
+        return { kind: 'For', init, cond, update, body: this.parseStatement(), line };
+      }
+      case 'while': {
+        this.next();
+        this.expect('(');
+        const cond = this.parseExpression();
+        this.expect(')');
+        return { kind: 'While', cond, body: this.parseStatement(), line };
+      }
+      case 'do': {
+        this.next();
+        const body = this.parseStatement();
+        this.expect('while');
+        this.expect('(');
+        const cond = this.parseExpression();
+        this.expect(')');
+        this.expect(';');
+        return { kind: 'DoWhile', body, cond, line };
+      }
+      case 'switch': {
+        this.next();
+        this.expect('(');
+        const selector = this.parseExpression();
+        this.expect(')');
+        return { kind: 'Switch', selector, body: this.parseBlockBody(), line };
+      }
+      case 'case': {
+        this.next();
+        const value = this.parseExpression();
+        this.expect(':');
+        return { kind: 'Case', value, line };
+      }
+      case 'default':
+        this.next();
+        this.expect(':');
+        return { kind: 'Case', value: null, line };
+      case 'return': {
+        this.next();
+        const value = this.at(';') ? null : this.parseExpression();
+        this.expect(';');
+        return { kind: 'Return', value, line };
+      }
+      case 'break':
+      case 'continue':
+      case 'discard':
+        this.next();
+        this.expect(';');
+        return { kind: tok.value === 'break' ? 'Break' : tok.value === 'continue' ? 'Continue' : 'Discard', line };
+    }
+    return this.parseSimpleStatement();
+  }
+
+  /** A declaration or an expression, with its `;`. */
+  private parseSimpleStatement(): GlslStmt {
+    const line = this.peek().line;
+    if (this.atDeclaration()) {
+      const qualifiers = this.qualifiers();
+      const { type, struct } = this.parseType();
+      if (struct) throw this.error('Structs must be defined at global scope', this.peek());
+      const vars = this.at(';') ? [] : this.parseDeclarators(null);
+      this.expect(';');
+      return { kind: 'Decl', qualifiers, type, vars, line };
+    }
+    const expr = this.parseExpression();
+    this.expect(';');
+    return { kind: 'Expr', expr, line };
+  }
+
+  // -- Expressions --
+
+  parseExpression(): GlslExpr {
+    const first = this.parseAssignment();
+    if (!this.at(',')) return first;
+    const exprs = [first];
+    while (this.accept(',')) exprs.push(this.parseAssignment());
+    return { kind: 'Comma', exprs, line: first.line };
+  }
+
+  private parseAssignment(): GlslExpr {
+    const target = this.parseTernary();
+    const op = this.peek().value;
+    if (this.peek().type === 'punct' && ASSIGN_OPS.has(op)) {
+      this.next();
+      return { kind: 'Assign', op, target, value: this.parseAssignment(), line: target.line };
+    }
+    return target;
+  }
+
+  private parseTernary(): GlslExpr {
+    const cond = this.parseBinary(0);
+    if (!this.accept('?')) return cond;
+    const then = this.parseExpression();
+    this.expect(':');
+    return { kind: 'Ternary', cond, then, otherwise: this.parseAssignment(), line: cond.line };
+  }
+
+  private parseBinary(min: number): GlslExpr {
+    let left = this.parseUnary();
+    for (;;) {
+      const tok = this.peek();
+      const prec = tok.type === 'punct' ? PRECEDENCE[tok.value] : undefined;
+      if (prec === undefined || prec <= min) return left;
+      this.next();
+      left = { kind: 'Binary', op: tok.value, left, right: this.parseBinary(prec), line: left.line };
+    }
+  }
+
+  private parseUnary(): GlslExpr {
+    const tok = this.peek();
+    if (tok.type === 'punct' && ['-', '+', '!', '~', '++', '--'].includes(tok.value)) {
+      this.next();
+      return { kind: 'Unary', op: tok.value, operand: this.parseUnary(), line: tok.line };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(expr: GlslExpr): GlslExpr {
+    for (;;) {
+      const line = this.peek().line;
+      if (this.accept('.')) {
+        const member = this.ident();
+        if (member === 'length' && this.at('(')) {
+          this.expect('(');
+          this.expect(')');
+          expr = { kind: 'Length', object: expr, line };
+        } else {
+          expr = { kind: 'Member', object: expr, member, line };
+        }
+      } else if (this.accept('[')) {
+        const index = this.parseExpression();
+        this.expect(']');
+        expr = { kind: 'Index', object: expr, index, line };
+      } else if (this.at('++') || this.at('--')) {
+        expr = { kind: 'Postfix', op: this.next().value as '++' | '--', operand: expr, line };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parseArgs(): GlslExpr[] {
+    this.expect('(');
+    const args: GlslExpr[] = [];
+    if (this.at('void') && this.at(')', 1)) this.next();
+    while (!this.at(')')) {
+      args.push(this.parseAssignment());
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+    return args;
+  }
+
+  private parsePrimary(): GlslExpr {
+    const tok = this.peek();
+    const line = tok.line;
+    if (tok.type === 'number') {
+      this.next();
+      const type: GlslLiteralType = /[uU]$/.test(tok.value) ? 'uint'
+        : !/^0[xX]/.test(tok.value) && /[.eE]/.test(tok.value) ? 'float' : 'int';
+      return { kind: 'Literal', text: tok.value, type, line };
+    }
+    if (tok.type === 'ident' && (tok.value === 'true' || tok.value === 'false')) {
+      this.next();
+      return { kind: 'Literal', text: tok.value, type: 'bool', line };
+    }
+    if (this.accept('(')) {
+      const expr = this.parseExpression();
+      this.expect(')');
+      return expr;
+    }
+    if (this.isTypeName()) {
+      const name = this.next().value;
+      const callee: GlslTypeSpec = { name, arrays: this.arraySizes() };
+      if (!this.at('(')) throw this.error(`Expected '(' after the type '${name}'`);
+      return { kind: 'Call', callee, args: this.parseArgs(), line };
+    }
+    if (tok.type === 'ident') {
+      this.next();
+      if (this.at('(')) return { kind: 'Call', callee: { name: tok.value, arrays: [] }, args: this.parseArgs(), line };
+      return { kind: 'Ident', name: tok.value, line };
+    }
+    throw this.error(`Unexpected '${tok.value || 'end of file'}'`);
+  }
+}
+
+/** Parses a GLSL fragment shader, preprocessing it first. Throws `GlslSyntaxError`. */
+export const parseGlsl = (source: string): GlslTopLevel[] => new GlslParser(tokenizeGlsl(source)).parseTranslationUnit();
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { validateFragment } from '../wgsl/validator';
+import { GlslImportError, importGlsl } from './glslToWgsl';
+
+const issuesOf = (source: string): string[] => {
+  try {
+    importGlsl(source);
+  } catch (e) {
+    if (e instanceof GlslImportError) return e.issues;
+    throw e;
+  }
+  return [];
+};
+
+describe('importGlsl', () => {
+  it('binds sampler2D uniforms to channels in declaration order and says so', () => {
+    const imported = importGlsl(`uniform sampler2D foo;
+uniform sampler2D bar;
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+    fragColor = texture(foo, fragCoord) + texture(bar, fragCoord);
+}`);
+    expect(validateFragment(imported.code).messages).toEqual([]);
+    expect(imported.notes).toEqual(["sampler2D 'foo' reads iChannel0 (channel0).", "sampler2D 'bar' reads iChannel1 (channel1)."]);
+  });
+
+  it('refuses a sampler2D uniform that shares its channel with an iChannel the shader reads', () => {
+    expect(issuesOf(`uniform sampler2D foo;
+void mainImage(out vec4 fragColor, in vec2 fragCoord) {
+    fragColor = texture(iChannel0, fragCoord) + texture(foo, fragCoord);
+}`)).toEqual([
+      "Line 1: sampler2D 'foo' takes iChannel0, which the shader also reads as iChannel0; use iChannel names for all channels or for none",
+    ]);
+  });
+});
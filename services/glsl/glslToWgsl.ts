@@ -0,0 +1,1741 @@
+import { PASS_NAMES } from '../renderGraph';
+import { FEEDBACK_BINDINGS, SAMPLER_BINDINGS, SHADER_BINDINGS, bindingDeclaration } from '../shaderSource';
+import { WGSL_KEYWORDS } from '../wgsl/highlight';
+import { getPreambleSignatures } from '../wgsl/typeChecker';
+import {
+  BOOL,
+  BUILTINS,
+  F32,
+  ScalarKind,
+  UNKNOWN,
+  WgslType,
+  binaryResult,
+  canConvert,
+  concretize,
+  isFloatScalar,
+  matrix,
+  scalar,
+  scalarOf,
+  swizzleResult,
+  typesEqual,
+  unify,
+  vector,
+} from '../wgsl/typeSystem';
+import { GlslSyntaxError } from './glslLexer';
+import { GlslDecl, GlslExpr, GlslFunction, GlslStmt, GlslStruct, GlslTopLevel, GlslTypeSpec, parseGlsl } from './glslParser';
+
+/**
+ * GLSL TO WGSL
+ *
+ * Translates GLSL fragment shaders, Shadertoy's `mainImage` form first
+ * among them, into fragment shaders for the app: Shadertoy's inputs
+ * become the app's bindings (`iTime` is `time`, `iResolution` is built
+ * from `resolution`, `iChannel0` samples `channel0`, ...), `fragCoord`
+ * is computed from the `uv` the base vertex shader passes, and a
+ * `@fragment fn main` calls `mainImage`. Plain GLSL ES shaders with a
+ * `void main()` writing `gl_FragColor` or an `out vec4` work the same way.
+ *
+ * A paste holding several Shadertoy tabs, each under a `// Buffer A` ...
+ * `// Image` header line as `formatShadertoy` writes them, becomes a
+ * multi-pass shader; `// Common` code is shared by every pass, and
+ * `// iChannelN: Buffer B; filter nearest, wrap clamp` lines choose what
+ * each channel reads and how.
+ *
+ * GLSL leans on implicit conversions and constructor tricks WGSL spells
+ * out, so the translation types every expression and writes the
+ * conversions, splats and swizzles explicitly. Constructs without an
+ * equivalent (samplers as parameters, assignments inside expressions,
+ * `inverse`, ...) are collected as issues and reported together in a
+ * `GlslImportError`.
+ */
+
+export interface GlslImport {
+  code: string;     // WGSL for the app; passes under `//!pass` markers when the paste held several tabs
+  passes: string[]; // Pass names, as in `renderGraph`, the image pass last
+  notes: string[];  // Differences worth knowing about that do not stop the import
+}
+
+/** GLSL that cannot be translated; `issues` lists every construct in the way. */
+export class GlslImportError extends Error {
+  constructor(readonly issues: string[]) {
+    super(issues.length === 1 ? issues[0] : `${issues.length} problems stop the GLSL import:\n${issues.join('\n')}`);
+    this.name = 'GlslImportError';
+  }
+}
+
+const INDENT = '    ';
+
+// -- Names --
+
+// WGSL's reserved words, which GLSL code is free to use as names
+const WGSL_RESERVED = [
+  'NULL', 'Self', 'abstract', 'active', 'alignas', 'alignof', 'as', 'asm', 'asm_fragment', 'async', 'attribute', 'auto',
+  'await', 'become', 'binding_array', 'cast', 'catch', 'class', 'co_await', 'co_return', 'co_yield', 'coherent',
+  'column_major', 'common', 'compile', 'compile_fragment', 'concept', 'const_cast', 'consteval', 'constexpr', 'constinit',
+  'crate', 'debugger', 'decltype', 'delete', 'demote', 'demote_to_helper', 'do', 'dynamic_cast', 'enum', 'explicit',
+  'export', 'extends', 'extern', 'external', 'fallthrough', 'filter', 'final', 'finally', 'friend', 'from', 'fxgroup',
+  'get', 'goto', 'groupshared', 'highp', 'impl', 'implements', 'import', 'inline', 'instanceof', 'interface', 'layout',
+  'lowp', 'macro', 'macro_rules', 'match', 'mediump', 'meta', 'mod', 'module', 'move', 'mut', 'mutable', 'namespace',
+  'new', 'nil', 'noexcept', 'noinline', 'nointerpolation', 'noperspective', 'null', 'nullptr', 'of', 'operator',
+  'package', 'packoffset', 'partition', 'pass', 'patch', 'pixelfragment', 'precise', 'precision', 'premerge', 'priv',
+  'protected', 'pub', 'public', 'readonly', 'ref', 'regardless', 'register', 'reinterpret_cast', 'require', 'resource',
+  'restrict', 'self', 'set', 'shared', 'sizeof', 'smooth', 'snorm', 'static', 'static_assert', 'static_cast', 'std',
+  'subroutine', 'super', 'target', 'template', 'this', 'thread_local', 'throw', 'trait', 'try', 'type', 'typedef',
+  'typeid', 'typename', 'typeof', 'union', 'unless', 'unorm', 'unsafe', 'unsized', 'use', 'using', 'varying',
+  'virtual', 'volatile', 'wgsl', 'where', 'with', 'writeonly', 'yield',
+];
+
+// WGSL types and builtins GLSL has no name for, which a GLSL name could shadow
+const WGSL_PREDECLARED = [
+  'f16', 'f32', 'i32', 'u32', 'array', 'atomic', 'ptr', 'sampler', 'sampler_comparison', 'select', 'bitcast', 'saturate',
+  'atan2', 'inverseSqrt', 'dpdx', 'dpdy', 'faceForward', 'countOneBits', 'reverseBits', 'extractBits', 'insertBits',
+  'firstLeadingBit', 'firstTrailingBit', 'countLeadingZeros', 'countTrailingZeros', 'quantizeToF16', 'arrayLength',
+  'textureSample', 'textureSampleLevel', 'textureSampleBias', 'textureSampleGrad', 'textureLoad', 'textureDimensions',
+  'pack2x16float', 'unpack2x16float', 'pack2x16unorm', 'unpack2x16unorm', 'pack2x16snorm', 'unpack2x16snorm',
+  ...['2', '3', '4'].flatMap(n => ['f', 'h', 'i', 'u'].map(s => `vec${n}${s}`)),
+  ...['2', '3', '4'].flatMap(c => ['2', '3', '4'].flatMap(r => [`mat${c}x${r}f`, `mat${c}x${r}h`])),
+];
+
+const FRAG_COORD = 'frag_coord';
+const FRAG_COLOR = 'frag_color';
+const MOUSE_HELPER = 'shadertoy_mouse';
+const MOD_HELPER = 'glsl_mod';
+
+// Names the translation declares itself
+const GENERATED = ['main', FRAG_COORD, FRAG_COLOR, MOUSE_HELPER];
+
+let reserved: Set<string> | null = null;
+
+/** Names a GLSL identifier must not keep: WGSL keywords and builtins, the app's bindings and helpers. */
+const reservedNames = (): Set<string> => {
+  if (!reserved) {
+    reserved = new Set([
+      '_', ...WGSL_KEYWORDS, ...WGSL_RESERVED, ...WGSL_PREDECLARED, ...Object.keys(BUILTINS),
+      ...SHADER_BINDINGS.map(b => b.name), ...getPreambleSignatures().keys(), ...GENERATED,
+    ]);
+  }
+  return reserved;
+};
+
+/** Hands out WGSL names: GLSL names keep theirs unless reserved, and generated names never collide. */
+class Namer {
+  private readonly renamed = new Map<string, string>();
+
+  constructor(private readonly taken: Set<string>) {}
+
+  /** The WGSL name for a GLSL identifier; the same identifier always gets the same name. */
+  name(glsl: string): string {
+    let name = this.renamed.get(glsl);
+    if (!name) {
+      name = reservedNames().has(glsl) || glsl.startsWith('__') ? this.fresh(`${glsl.replace(/^_+/, '')}_`) : glsl;
+      this.renamed.set(glsl, name);
+    }
+    return name;
+  }
+
+  /** A name neither the source nor an earlier `fresh` uses. */
+  fresh(base: string): string {
+    let name = base;
+    for (let i = 1; this.taken.has(name) || reservedNames().has(name); i++) name = `${base.replace(/_$/, '')}_${i}`;
+    this.taken.add(name);
+    return name;
+  }
+}
+
+// -- Types --
+
+/** What an `iChannelN` or `sampler2D` uniform stands for: a texture binding and the sampler reading it. */
+interface ChannelHandle {
+  kind: 'channel';
+  texture: string;
+  sampler: string;
+}
+
+type ValueType = WgslType | ChannelHandle;
+
+const isChannel = (t: ValueType): t is ChannelHandle => t.kind === 'channel';
+
+const VECTOR_SCALARS: Record<string, ScalarKind> = { '': 'f32', i: 'i32', u: 'u32', b: 'bool' };
+const SCALAR_TYPES: Record<string, ScalarKind> = { float: 'f32', int: 'i32', uint: 'u32', bool: 'bool' };
+
+/** A built-in GLSL type name as a WGSL type, or null for anything else. */
+const builtinType = (name: string): WgslType | null => {
+  if (name in SCALAR_TYPES) return scalar(SCALAR_TYPES[name]);
+  const vec = /^([biu]?)vec([234])$/.exec(name);
+  if (vec) return vector(Number(vec[2]), VECTOR_SCALARS[vec[1]]);
+  const mat = /^mat([234])(?:x([234]))?$/.exec(name);
+  if (mat) return matrix(Number(mat[1]), Number(mat[2] ?? mat[1]), 'f32');
+  return null;
+};
+
+const scalarText = (s: ScalarKind): string => (s === 'abstract-int' ? 'i32' : s === 'abstract-float' ? 'f32' : s);
+
+/** A type as WGSL writes it; struct types already carry their WGSL name. */
+const typeText = (t: WgslType): string => {
+  switch (t.kind) {
+    case 'scalar': return scalarText(t.scalar);
+    case 'vector': return `vec${t.size}<${scalarText(t.scalar)}>`;
+    case 'matrix': return `mat${t.cols}x${t.rows}<${scalarText(t.scalar)}>`;
+    case 'array': return `array<${typeText(t.element)}, ${t.length}>`;
+    case 'struct': return t.name;
+    case 'unknown': return 'f32';
+  }
+};
+
+const withScalar = (t: WgslType, s: ScalarKind): WgslType =>
+  t.kind === 'vector' ? vector(t.size, s) : t.kind === 'matrix' ? matrix(t.cols, t.rows, s) : scalar(s);
+
+const isVector = (t: ValueType): t is WgslType & { kind: 'vector' } => t.kind === 'vector';
+const isScalar = (t: ValueType): t is WgslType & { kind: 'scalar' } => t.kind === 'scalar';
+
+// -- Values --
+
+/** A translated expression, typed as GLSL types it, with how tightly its text binds. */
+interface Value {
+  text: string;
+  type: ValueType;
+  prec: number;
+  op?: string; // The binary operator at the top, when there is one
+}
+
+const ATOM = 100;
+const UNARY = 90;
+
+const PRECEDENCE: Record<string, number> = {
+  '||': 1, '&&': 3, '|': 4, '^': 5, '&': 6, '==': 7, '!=': 7, '<': 8, '>': 8, '<=': 8, '>=': 8,
+  '<<': 9, '>>': 9, '+': 10, '-': 10, '*': 11, '/': 11, '%': 11,
+};
+
+const ARITHMETIC = new Set(['+', '-', '*', '/', '%']);
+const COMPARISON = new Set(['==', '!=', '<', '>', '<=', '>=']);
+
+const atom = (text: string, type: ValueType): Value => ({ text, type, prec: ATOM });
+
+const operatorGroup = (op: string): string =>
+  ARITHMETIC.has(op) ? 'arithmetic' : op === '<<' || op === '>>' ? 'shift' : COMPARISON.has(op) ? 'comparison' : op === '&&' || op === '||' ? 'logical' : 'bitwise';
+
+/**
+ * Whether `child` needs parentheses as an operand of `op`. WGSL refuses to
+ * mix some operators without them (`a & b | c`, `a << b + c`, `a < b == c`)
+ * where C precedence would settle it.
+ */
+const needsParens = (child: Value, op: string, right: boolean): boolean => {
+  if (child.prec >= UNARY || !child.op) return child.prec < UNARY;
+  const group = operatorGroup(child.op);
+  switch (operatorGroup(op)) {
+    case 'arithmetic':
+      return group !== 'arithmetic' || child.prec < PRECEDENCE[op] || (right && child.prec === PRECEDENCE[op]);
+    case 'shift': return true;
+    case 'comparison': return group !== 'arithmetic' && group !== 'shift';
+    case 'bitwise': return child.op !== op || right;
+    default: return !(group === 'arithmetic' || group === 'shift' || group === 'comparison' || (child.op === op && !right));
+  }
+};
+
+const operand = (child: Value, op: string, right: boolean): string =>
+  needsParens(child, op, right) ? `(${child.text})` : child.text;
+
+const binary = (op: string, left: Value, right: Value, type: ValueType): Value => ({
+  text: `${operand(left, op, false)} ${op} ${operand(right, op, true)}`,
+  type,
+  prec: PRECEDENCE[op],
+  op,
+});
+
+/** `value` as the object of `.member` or `[index]`. */
+const postfixable = (value: Value): string => (value.prec >= ATOM ? value.text : `(${value.text})`);
+
+// Text that can be repeated without repeating work: names, literals and member chains
+const isSimple = (value: Value): boolean => /^[\w.]+$/.test(value.text);
+
+const floatLiteral = (text: string): string => {
+  let t = text.replace(/(?:lf|LF|[fF])$/, '');
+  if (t.startsWith('.')) t = `0${t}`;
+  t = t.replace(/\.(?=[eE]|$)/, '.0');
+  return t.includes('.') ? t : t.replace(/^(\d+)/, '$1.0');
+};
+
+const intLiteral = (text: string): string => {
+  const suffix = /[uU]$/.test(text) ? 'u' : '';
+  const digits = text.replace(/[uU]$/, '');
+  // GLSL reads a leading zero as octal, WGSL refuses it
+  return (/^0\d+$/.test(digits) ? String(parseInt(digits, 8)) : digits) + suffix;
+};
+
+// -- Shadertoy layout --
+
+const TAB_PASSES: Record<string, string> = {
+  'Buffer A': 'buffer_a',
+  'Buffer B': 'buffer_b',
+  'Buffer C': 'buffer_c',
+  'Buffer D': 'buffer_d',
+  Image: 'image',
+};
+
+const TAB_HEADER = /^\/\/[ \t]*(Common|Buffer [A-D]|Image)[ \t]*$/;
+const CHANNEL_LINE = /^\/\/[ \t]*iChannel([0-3])[ \t]*:[ \t]*([^;]*?)[ \t]*(?:;(.*))?$/;
+
+interface ChannelSetup {
+  input: string;   // Binding name
+  sampler: string; // Sampler binding name
+}
+
+interface Tab {
+  name: string; // Pass name, or 'common'
+  lines: Set<number>; // 0-based lines of the source the tab holds
+  channels: Map<number, ChannelSetup>;
+}
+
+/** The sampler binding matching a header's `filter nearest, wrap clamp`; the closest one when none matches. */
+const headerSampler = (text: string): { sampler: string; exact: boolean } => {
+  const nearest = /\bnearest\b/.test(text);
+  const clamp = /\bclamp\b/.test(text);
+  const mirror = /\bmirror\b/.test(text);
+  const match = SAMPLER_BINDINGS.find(b =>
+    b.sampler!.filter === (nearest ? 'nearest' : 'linear')
+    && b.sampler!.address === (clamp ? 'clamp-to-edge' : mirror ? 'mirror-repeat' : 'repeat'));
+  return match ? { sampler: match.name, exact: true } : { sampler: nearest ? 'nearest_sampler' : 'clamp_sampler', exact: false };
+};
+
+/** The binding a header's channel description names: a tab, a binding's doc or its name. */
+const headerInput = (text: string): string | null => {
+  if (text in TAB_PASSES) return TAB_PASSES[text];
+  const binding = [...SHADER_BINDINGS].find(b => b.resource === 'texture' && (b.doc === text || b.name === text));
+  return binding ? binding.name : null;
+};
+
+/**
+ * Splits a paste into Shadertoy tabs at their header lines. Code before the
+ * first header, like the export's notes, is shared as Common is.
+ */
+const splitTabs = (lines: string[], issues: string[], notes: Set<string>): Tab[] => {
+  const tabs: Tab[] = [{ name: 'common', lines: new Set(), channels: new Map() }];
+  let current = tabs[0];
+  lines.forEach((text, i) => {
+    const header = TAB_HEADER.exec(text.trim());
+    if (header) {
+      const name = header[1] === 'Common' ? 'common' : TAB_PASSES[header[1]];
+      const existing = tabs.find(t => t.name === name);
+      if (existing && name !== 'common') issues.push(`Line ${i + 1}: The ${header[1]} tab appears twice`);
+      current = existing ?? { name, lines: new Set(), channels: new Map() };
+      if (!existing) tabs.push(current);
+      return;
+    }
+    current.lines.add(i);
+    const channel = CHANNEL_LINE.exec(text.trim());
+    if (channel) {
+      const input = headerInput(channel[2]);
+      const { sampler, exact } = headerSampler(channel[3] ?? '');
+      // Lines describing inputs the app does not have are comments like any other
+      if (input) current.channels.set(Number(channel[1]), { input, sampler });
+      if (input && !exact) notes.add('The app has no nearest sampler that clamps; channels asking for one read with the closest sampler.');
+    }
+  });
+  const passes = tabs.filter(t => t.name !== 'common');
+  if (passes.length === 0) return [{ name: 'image', lines: new Set(lines.map((_, i) => i)), channels: tabs[0].channels }];
+  if (!passes.some(t => t.name === 'image')) issues.push('A multi-tab paste needs an Image tab');
+  return [tabs[0], ...passes];
+};
+
+// -- Translation --
+
+interface Variable {
+  wgsl: string;
+  type: ValueType;
+  storage: 'function' | 'private' | 'pointer' | 'param' | 'let' | 'const' | 'input';
+  read?: () => Value; // Inputs read as an expression over the bindings
+}
+
+interface Overload {
+  source: GlslFunction;
+  wgsl: string;
+  params: { qualifier: 'in' | 'out' | 'inout'; type: WgslType }[];
+  returns: WgslType | null; // null for void
+}
+
+/** What a GLSL assignment target resolves to. */
+interface Target {
+  text: string; // As written on the left of `=`
+  type: WgslType;
+  swizzle?: { object: string; letters: string }; // Several components of a vector, which WGSL cannot assign at once
+}
+
+interface Temporaries {
+  before: string[]; // Statements to run before the one being translated...
+  after: string[];  // ...and after it, copying out-parameters back
+}
+
+// GLSL builtins WGSL has under the same name, typed like their first argument
+const SAME_NAME = new Set([
+  'sin', 'cos', 'tan', 'asin', 'acos', 'sinh', 'cosh', 'tanh', 'asinh', 'acosh', 'atanh', 'exp', 'exp2', 'log', 'log2',
+  'sqrt', 'abs', 'sign', 'floor', 'ceil', 'fract', 'trunc', 'round', 'radians', 'degrees', 'fwidth', 'normalize', 'pow',
+  'reflect', 'refract', 'cross', 'fma',
+]);
+
+const RENAMED: Record<string, string> = {
+  inversesqrt: 'inverseSqrt',
+  dFdx: 'dpdx',
+  dFdy: 'dpdy',
+  roundEven: 'round', // WGSL's round already breaks ties to even
+  faceforward: 'faceForward',
+  bitCount: 'countOneBits',
+  bitfieldReverse: 'reverseBits',
+  packHalf2x16: 'pack2x16float',
+  unpackHalf2x16: 'unpack2x16float',
+  packUnorm2x16: 'pack2x16unorm',
+  unpackUnorm2x16: 'unpack2x16unorm',
+  packSnorm2x16: 'pack2x16snorm',
+  unpackSnorm2x16: 'unpack2x16snorm',
+};
+
+const UNPACKS = new Set(['unpackHalf2x16', 'unpackUnorm2x16', 'unpackSnorm2x16']);
+
+const VECTOR_COMPARISONS: Record<string, string> = {
+  lessThan: '<', lessThanEqual: '<=', greaterThan: '>', greaterThanEqual: '>=', equal: '==', notEqual: '!=',
+};
+
+const BITCASTS: Record<string, ScalarKind> = {
+  floatBitsToInt: 'i32', floatBitsToUint: 'u32', intBitsToFloat: 'f32', uintBitsToFloat: 'f32',
+};
+
+// Builtins without a WGSL counterpart, and what to do instead
+const MISSING: Record<string, string> = {
+  inverse: 'WGSL has no matrix inverse; write one out or precompute it',
+  isnan: 'WGSL has no isnan; NaN handling is up to the implementation',
+  isinf: 'WGSL has no isinf',
+  outerProduct: 'WGSL has no outerProduct; build the matrix from its columns',
+  matrixCompMult: 'WGSL has no matrixCompMult; multiply the columns',
+  modf: 'WGSL\'s modf returns a struct rather than writing an out parameter',
+  frexp: 'WGSL\'s frexp returns a struct rather than writing an out parameter',
+  textureProj: 'divide the coordinates and use texture()',
+  texelFetchOffset: 'add the offset to the coordinates',
+  textureGradOffset: 'add the offset to the coordinates',
+};
+
+const SHADERTOY_INPUTS = new Set([
+  'iTime', 'iTimeDelta', 'iFrame', 'iFrameRate', 'iResolution', 'iMouse', 'iDate', 'iSampleRate', 'iGlobalTime',
+  'iChannel0', 'iChannel1', 'iChannel2', 'iChannel3', 'iChannelTime', 'iChannelResolution',
+]);
+
+/** Inputs of other GLSL playgrounds, by uniform name, as the Shadertoy input they match. */
+const UNIFORM_ALIASES: Record<string, string> = {
+  time: 'iTime', u_time: 'iTime', uTime: 'iTime',
+  resolution: 'resolution', u_resolution: 'resolution', uResolution: 'resolution',
+  mouse: 'mouse', u_mouse: 'u_mouse', uMouse: 'u_mouse',
+  frame: 'iFrame', u_frame: 'iFrame', uFrame: 'iFrame',
+};
+
+class PassTranslator {
+  readonly issues: string[] = [];
+  readonly notes = new Set<string>();
+  private readonly bindings = new Set<string>();
+  private readonly helpers = new Map<string, string>();
+  private readonly structs = new Map<string, WgslType & { kind: 'struct' }>();
+  private readonly functions = new Map<string, Overload[]>();
+  private readonly globals = new Map<string, Variable>();
+  private readonly constInts = new Map<string, number>();
+  private readonly declarations: string[] = [];
+  private readonly varyings: string[] = []; // Private globals standing in for `in vec2` varyings
+  private scopes: Map<string, Variable>[] = [];
+  private outputs: string[] = [];
+  private samplerUniforms = 0;
+  private readonly namedSamplers = new Map<string, { slot: number; line: number }>(); // sampler2D uniforms the shader reads
+  private readonly channelReads = new Set<number>(); // iChannelN read by name
+  private lines: string[] = [];
+  private depth = 0;
+  private temporaries: Temporaries | null = null;
+  private returns: WgslType | null = null;
+  private usesFragCoord = false;
+
+  constructor(
+    private readonly items: GlslTopLevel[],
+    private readonly namer: Namer,
+    private readonly channels: Map<number, ChannelSetup>,
+    private readonly image: boolean,
+  ) {}
+
+  private issue(line: number, message: string): void {
+    const text = `Line ${line}: ${message}`;
+    if (!this.issues.includes(text)) this.issues.push(text);
+  }
+
+  private emit(text: string): void {
+    this.lines.push(INDENT.repeat(this.depth) + text);
+  }
+
+  private use(binding: string): string {
+    this.bindings.add(binding);
+    return binding;
+  }
+
+  private helper(name: string, text: () => string): string {
+    if (!this.helpers.has(name)) this.helpers.set(name, text());
+    return name;
+  }
+
+  // -- Types --
+
+  private resolveType(spec: GlslTypeSpec, extra: (GlslExpr | null)[], line: number, init: Value | null = null): WgslType {
+    let base: WgslType | null = builtinType(spec.name) ?? this.structs.get(spec.name) ?? null;
+    if (!base) {
+      this.issue(line, spec.name.includes('sampler') ? `'${spec.name}' only works as a uniform` : `Unknown type '${spec.name}'`);
+      base = UNKNOWN;
+    }
+    // `float[2] a[3]` is an array of three float[2]
+    const sizes = [...spec.arrays, ...extra];
+    let type = base;
+    let initType: ValueType | null = init?.type ?? null;
+    const lengths: number[] = [];
+    for (const size of sizes) {
+      let length = size ? this.constInt(size) : null;
+      if (length === null && !size && initType?.kind === 'array') length = initType.length;
+      if (length === null) {
+        this.issue(line, size ? 'Array sizes must be constant integers' : 'Unsized arrays need an initializer');
+        length = 1;
+      }
+      lengths.push(length);
+      initType = initType?.kind === 'array' ? initType.element : null;
+    }
+    for (const length of lengths.reverse()) type = { kind: 'array', element: type, length };
+    return type;
+  }
+
+  /** The value of a constant integer expression, as array sizes need. */
+  private constInt(e: GlslExpr): number | null {
+    switch (e.kind) {
+      case 'Literal': return e.type === 'int' || e.type === 'uint' ? parseInt(intLiteral(e.text), /^0x/i.test(e.text) ? 16 : 10) : null;
+      case 'Ident': return this.constInts.get(e.name) ?? null;
+      case 'Unary': {
+        const x = this.constInt(e.operand);
+        return x === null ? null : e.op === '-' ? -x : e.op === '+' ? x : null;
+      }
+      case 'Binary': {
+        const a = this.constInt(e.left);
+        const b = this.constInt(e.right);
+        if (a === null || b === null) return null;
+        switch (e.op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return b === 0 ? null : Math.trunc(a / b);
+          case '%': return b === 0 ? null : a % b;
+          case '<<': return a << b;
+          case '>>': return a >> b;
+          default: return null;
+        }
+      }
+      default: return null;
+    }
+  }
+
+  // -- Scopes --
+
+  private lookup(name: string): Variable | null {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const v = this.scopes[i].get(name);
+      if (v) return v;
+    }
+    return this.globals.get(name) ?? this.builtinVariable(name);
+  }
+
+  private declare(name: string, variable: Variable): void {
+    (this.scopes.length > 0 ? this.scopes[this.scopes.length - 1] : this.globals).set(name, variable);
+  }
+
+  /** `gl_FragCoord` and `gl_FragColor`, declared as private globals the entry point fills and reads. */
+  private builtinVariable(name: string): Variable | null {
+    if (name === 'gl_FragCoord') {
+      this.usesFragCoord = true;
+      return { wgsl: FRAG_COORD, type: vector(4, 'f32'), storage: 'let' };
+    }
+    if (name === 'gl_FragColor') {
+      const variable: Variable = { wgsl: FRAG_COLOR, type: vector(4, 'f32'), storage: 'private' };
+      this.globals.set(name, variable);
+      this.outputs.push(FRAG_COLOR);
+      this.declarations.push(`var<private> ${FRAG_COLOR} : vec4<f32>;`);
+      return variable;
+    }
+    return null;
+  }
+
+  // -- Shadertoy inputs --
+
+  private channel(slot: number, line: number): Value {
+    const setup = this.channels.get(slot) ?? (slot < 2 ? { input: `channel${slot}`, sampler: 'linear_sampler' } : null);
+    if (!setup) {
+      this.issue(line, `iChannel${slot} has no input in the app; it has two image channels and the buffers, chosen with an '// iChannel${slot}: ...' line`);
+      return atom('channel0', { kind: 'channel', texture: 'channel0', sampler: 'linear_sampler' });
+    }
+    return atom(setup.input, { kind: 'channel', texture: setup.input, sampler: setup.sampler });
+  }
+
+  /**
+   * sampler2D uniforms take the channels in the order they are declared.
+   * Says which channel each one read, and stops when one shares its
+   * channel with an `iChannelN` the shader also reads.
+   */
+  private checkNamedSamplers(): void {
+    for (const [name, { slot, line }] of this.namedSamplers) {
+      if (this.channelReads.has(slot)) {
+        this.issue(line, `sampler2D '${name}' takes iChannel${slot}, which the shader also reads as iChannel${slot}; use iChannel names for all channels or for none`);
+      } else {
+        this.notes.add(`sampler2D '${name}' reads iChannel${slot} (${this.channels.get(slot)?.input ?? `channel${slot}`}).`);
+      }
+    }
+  }
+
+  private input(name: string, line: number): Value | null {
+    switch (name) {
+      case 'iTime':
+      case 'iGlobalTime': return atom(this.use('time'), F32);
+      case 'iTimeDelta': return atom(this.use('time_delta'), F32);
+      case 'iFrame': return atom(`i32(${this.use('frame')})`, scalar('i32'));
+      case 'iFrameRate':
+        this.notes.add('iFrameRate reads as a constant 60.');
+        return atom('60.0', F32);
+      case 'iSampleRate': return atom('44100.0', F32);
+      case 'iResolution': return atom(`vec3<f32>(${this.use('resolution')}, 1.0)`, vector(3, 'f32'));
+      case 'iDate':
+        // The app counts months from 1, Shadertoy from 0
+        return { text: `${this.use('date')} - vec4<f32>(0.0, 1.0, 0.0, 0.0)`, type: vector(4, 'f32'), prec: PRECEDENCE['-'], op: '-' };
+      case 'iMouse':
+        this.notes.add('iMouse.zw follows the pointer while a button is held, where Shadertoy keeps the position of the click.');
+        this.use('mouse');
+        this.use('resolution');
+        this.helper(MOUSE_HELPER, () => [
+          '// Shadertoy\'s iMouse: the pointer in pixels, and again in zw, negated while no button is held',
+          `fn ${MOUSE_HELPER}() -> vec4<f32> {`,
+          `${INDENT}let pointer = mouse.xy * resolution;`,
+          `${INDENT}return vec4<f32>(pointer, select(-1.0, 1.0, mouse.z > 0.0) * pointer);`,
+          '}',
+        ].join('\n'));
+        return atom(`${MOUSE_HELPER}()`, vector(4, 'f32'));
+      case 'iChannel0':
+      case 'iChannel1':
+      case 'iChannel2':
+      case 'iChannel3':
+        this.channelReads.add(Number(name.slice(-1)));
+        return this.channel(Number(name.slice(-1)), line);
+      case 'iChannelTime':
+        this.issue(line, 'iChannelTime has no counterpart; the app has no video or audio channels');
+        return atom('0.0', F32);
+      case 'iChannelResolution':
+        this.issue(line, 'Index iChannelResolution with a constant');
+        return atom('vec3<f32>(1.0)', vector(3, 'f32'));
+      default: return null;
+    }
+  }
+
+  /** The Shadertoy-style input a declared uniform stands for. */
+  private uniform(decl: GlslDecl): void {
+    for (const v of decl.vars) {
+      if (SHADERTOY_INPUTS.has(v.name)) continue;
+      if (/^[iu]?sampler2D$/.test(decl.type.name) && v.arrays.length === 0 && decl.type.arrays.length === 0) {
+        const slot = this.samplerUniforms++;
+        const read = () => {
+          this.namedSamplers.set(v.name, { slot, line: decl.line });
+          return this.channel(slot, decl.line);
+        };
+        this.globals.set(v.name, { wgsl: v.name, type: UNKNOWN, storage: 'input', read });
+        continue;
+      }
+      const alias = UNIFORM_ALIASES[v.name];
+      let read: (() => Value) | null = null;
+      if (alias === 'iTime' || alias === 'iFrame') read = () => this.input(alias, decl.line)!;
+      else if (alias === 'resolution') read = () => atom(this.use('resolution'), vector(2, 'f32'));
+      else if (alias === 'mouse') read = () => atom(`${this.use('mouse')}.xy`, vector(2, 'f32'));
+      else if (alias === 'u_mouse') {
+        read = () => binary('*', atom(`${this.use('mouse')}.xy`, vector(2, 'f32')), atom(this.use('resolution'), vector(2, 'f32')), vector(2, 'f32'));
+      }
+      if (!read) {
+        this.issue(decl.line, `Uniform '${v.name}' has no counterpart in the app; replace it with a constant`);
+        continue;
+      }
+      this.globals.set(v.name, { wgsl: v.name, type: UNKNOWN, storage: 'input', read });
+    }
+  }
+
+  // -- Expressions --
+
+  /** `value` converted to `to` where GLSL converts implicitly (desktop GLSL does) or a constructor would. */
+  private coerce(value: Value, to: WgslType): Value {
+    if (isChannel(value.type) || to.kind === 'unknown' || canConvert(value.type, to)) return value;
+    const from = value.type;
+    const shapes = (from.kind === 'scalar' && to.kind === 'scalar') || (from.kind === 'vector' && to.kind === 'vector' && from.size === to.size);
+    return shapes ? atom(`${typeText(to)}(${value.text})`, to) : value;
+  }
+
+  /** A scalar repeated to match `like` when `like` is a vector; GLSL overloads take one where WGSL wants a vector. */
+  private splat(value: Value, like: ValueType): Value {
+    if (!isVector(like) || !isScalar(value.type)) return value;
+    return atom(`vec${like.size}<${scalarText(like.scalar)}>(${this.coerce(value, scalar(like.scalar)).text})`, vector(like.size, like.scalar));
+  }
+
+  private expr(e: GlslExpr): Value {
+    switch (e.kind) {
+      case 'Literal':
+        switch (e.type) {
+          case 'float': return atom(floatLiteral(e.text), scalar('abstract-float'));
+          case 'int': return atom(intLiteral(e.text), scalar('abstract-int'));
+          case 'uint': return atom(intLiteral(e.text), scalar('u32'));
+          default: return atom(e.text, BOOL);
+        }
+      case 'Ident': return this.ident(e.name, e.line);
+      case 'Call': return this.call(e.callee, e.args, e.line);
+      case 'Length': {
+        const object = this.expr(e.object);
+        const t = object.type;
+        if (t.kind === 'array' || t.kind === 'vector' || t.kind === 'matrix') {
+          return atom(String(t.kind === 'array' ? t.length : t.kind === 'vector' ? t.size : t.cols), scalar('abstract-int'));
+        }
+        this.issue(e.line, '.length() needs an array, vector or matrix');
+        return atom('0', scalar('abstract-int'));
+      }
+      case 'Binary': return this.binary(e.op, this.expr(e.left), this.expr(e.right), e.line);
+      case 'Unary': {
+        if (e.op === '++' || e.op === '--') return this.inline(e, `'${e.op}' inside an expression has no WGSL equivalent; give it a statement of its own`);
+        const value = this.expr(e.operand);
+        if (e.op === '+') return value;
+        const text = value.prec < UNARY || (e.op === '-' && value.text.startsWith('-')) ? `(${value.text})` : value.text;
+        return { text: `${e.op}${text}`, type: value.type, prec: UNARY };
+      }
+      case 'Postfix': return this.inline(e, `'${e.op}' inside an expression has no WGSL equivalent; give it a statement of its own`);
+      case 'Assign': return this.inline(e, 'Assignments inside expressions have no WGSL equivalent; give them a statement of their own');
+      case 'Comma': return this.inline(e, 'Comma expressions have no WGSL equivalent; split them into statements');
+      case 'Ternary': {
+        const cond = this.expr(e.cond);
+        const then = this.expr(e.then);
+        const otherwise = this.expr(e.otherwise);
+        const type = isChannel(then.type) || isChannel(otherwise.type) ? null : unify(then.type, otherwise.type);
+        if (!type || (type.kind !== 'scalar' && type.kind !== 'vector' && type.kind !== 'unknown')) {
+          this.issue(e.line, 'WGSL\'s select() only picks scalars and vectors; use if/else for other types');
+          return then;
+        }
+        return atom(`select(${otherwise.text}, ${then.text}, ${cond.text})`, type);
+      }
+      case 'Member': return this.member(e.object, e.member, e.line);
+      case 'Index': return this.index(e.object, e.index, e.line);
+    }
+  }
+
+  /** Side effects WGSL only allows as statements. */
+  private inline(e: GlslExpr, message: string): Value {
+    this.issue(e.line, message);
+    return atom('0', UNKNOWN);
+  }
+
+  private ident(name: string, line: number): Value {
+    const variable = this.lookup(name);
+    if (variable) {
+      if (variable.read) return variable.read();
+      if (variable.storage === 'pointer') return { text: `*${variable.wgsl}`, type: variable.type, prec: UNARY };
+      return atom(variable.wgsl, variable.type);
+    }
+    const input = this.input(name, line);
+    if (input) return input;
+    this.issue(line, `Unknown identifier '${name}'`);
+    return atom(name, UNKNOWN);
+  }
+
+  private binary(op: string, left: Value, right: Value, line: number): Value {
+    if (isChannel(left.type) || isChannel(right.type)) {
+      this.issue(line, 'Samplers only work as texture() arguments');
+      return left;
+    }
+    if (op === '^^') return binary('!=', left, right, BOOL);
+    if (op === '&&' || op === '||') return binary(op, left, right, BOOL);
+    if (op === '<<' || op === '>>') return binary(op, left, this.toUnsigned(right), left.type);
+    if (COMPARISON.has(op)) {
+      const composite = [left.type, right.type].find(t => t.kind === 'matrix' || t.kind === 'array' || t.kind === 'struct');
+      if (composite) {
+        this.issue(line, `WGSL cannot compare ${composite.kind}s with '${op}'; compare their components`);
+        return atom('false', BOOL);
+      }
+      [left, right] = this.balance(left, right);
+      if (isVector(left.type) || isVector(right.type)) {
+        // GLSL compares vectors as a whole; WGSL component-wise
+        return atom(`${op === '==' ? 'all' : 'any'}(${binary(op, left, right, UNKNOWN).text})`, BOOL);
+      }
+      return binary(op, left, right, BOOL);
+    }
+    [left, right] = this.balance(left, right);
+    return binary(op, left, right, binaryResult(op, left.type as WgslType, right.type as WgslType) ?? left.type);
+  }
+
+  /** Operands of mixed float and integer types, which desktop GLSL converts, as floats. */
+  private balance(left: Value, right: Value): [Value, Value] {
+    const l = scalarOf(left.type as WgslType);
+    const r = scalarOf(right.type as WgslType);
+    if (!l || !r || l === r || l === 'bool' || r === 'bool') return [left, right];
+    // A float literal turns a typed integer operand into a float as well
+    if (isFloatScalar(l) && (r === 'i32' || r === 'u32')) return [left, this.coerce(right, withScalar(right.type as WgslType, 'f32'))];
+    if (isFloatScalar(r) && (l === 'i32' || l === 'u32')) return [this.coerce(left, withScalar(left.type as WgslType, 'f32')), right];
+    return [left, right];
+  }
+
+  /** Shift amounts are unsigned in WGSL. */
+  private toUnsigned(value: Value): Value {
+    const s = scalarOf(value.type as WgslType);
+    return s === 'i32' ? this.coerce(value, withScalar(value.type as WgslType, 'u32')) : value;
+  }
+
+  private member(objectExpr: GlslExpr, member: string, line: number): Value {
+    // iResolution's x and y come straight from the resolution binding
+    if (objectExpr.kind === 'Ident' && objectExpr.name === 'iResolution' && !this.lookup('iResolution')) {
+      const letters = swizzleLetters(member);
+      if (/^[xy]+$/.test(letters)) {
+        return atom(`${this.use('resolution')}.${letters}`, letters.length === 1 ? F32 : vector(letters.length, 'f32'));
+      }
+      if (letters === 'z') return atom('1.0', F32);
+    }
+    const object = this.expr(objectExpr);
+    const t = object.type;
+    if (t.kind === 'struct') {
+      const field = t.members.find(m => m.name === member);
+      if (!field) this.issue(line, `'${t.name}' has no member '${member}'`);
+      return atom(`${postfixable(object)}.${this.namer.name(member)}`, field?.type ?? UNKNOWN);
+    }
+    if (t.kind === 'vector') {
+      const letters = swizzleLetters(member);
+      const type = swizzleResult(t, letters);
+      if (!type) this.issue(line, `Invalid swizzle '.${member}'`);
+      return atom(`${postfixable(object)}.${letters}`, type ?? UNKNOWN);
+    }
+    if (t.kind === 'scalar' && /^[xrs]+$/.test(member) && member.length > 1) {
+      return atom(`vec${member.length}<${scalarText(t.scalar)}>(${object.text})`, vector(member.length, t.scalar));
+    }
+    if (t.kind !== 'unknown') this.issue(line, `'.${member}' on a value without members`);
+    return atom(`${postfixable(object)}.${member}`, UNKNOWN);
+  }
+
+  private index(objectExpr: GlslExpr, indexExpr: GlslExpr, line: number): Value {
+    if (objectExpr.kind === 'Ident' && objectExpr.name === 'iChannelResolution' && !this.lookup('iChannelResolution')) {
+      const slot = this.constInt(indexExpr);
+      if (slot !== null && slot >= 0 && slot < 4) {
+        const texture = this.channel(slot, line).text;
+        return atom(`vec3<f32>(vec2<f32>(textureDimensions(${this.use(texture)})), 1.0)`, vector(3, 'f32'));
+      }
+    }
+    const object = this.expr(objectExpr);
+    const index = this.expr(indexExpr);
+    const t = object.type;
+    const type = t.kind === 'array' ? t.element
+      : t.kind === 'vector' ? scalar(t.scalar)
+      : t.kind === 'matrix' ? vector(t.rows, t.scalar)
+      : UNKNOWN;
+    if (t.kind === 'scalar' || t.kind === 'struct' || isChannel(t)) this.issue(line, 'Only arrays, vectors and matrices can be indexed');
+    return atom(`${postfixable(object)}[${index.text}]`, type);
+  }
+
+  // -- Calls --
+
+  private call(callee: GlslTypeSpec, argExprs: GlslExpr[], line: number): Value {
+    const name = callee.name;
+    if (callee.arrays.length > 0) return this.arrayConstructor(callee, argExprs.map(a => this.expr(a)), line);
+    const struct = this.structs.get(name);
+    if (struct) {
+      const args = argExprs.map((a, i) => this.coerce(this.expr(a), struct.members[i]?.type ?? UNKNOWN));
+      if (args.length !== struct.members.length) this.issue(line, `'${name}' has ${struct.members.length} members but ${args.length} values`);
+      return atom(`${struct.name}(${args.map(a => a.text).join(', ')})`, struct);
+    }
+    const type = builtinType(name);
+    if (type) return this.construct(type, argExprs.map(a => this.expr(a)), line);
+    if (this.functions.has(name)) return this.userCall(name, argExprs, line);
+    return this.builtinCall(name, argExprs, line);
+  }
+
+  private arrayConstructor(callee: GlslTypeSpec, args: Value[], line: number): Value {
+    const element = this.resolveType({ name: callee.name, arrays: callee.arrays.slice(1) }, [], line);
+    const size = callee.arrays[0] ? this.constInt(callee.arrays[0]) : args.length;
+    if (size !== args.length) this.issue(line, `The array has ${size} elements but ${args.length} values`);
+    const type: WgslType = { kind: 'array', element, length: args.length };
+    return atom(`${typeText(type)}(${args.map(a => this.coerce(a, element).text).join(', ')})`, type);
+  }
+
+  /** A constructor of a scalar, vector or matrix type. */
+  private construct(type: WgslType, args: Value[], line: number): Value {
+    const s = scalarOf(type)!;
+    if (args.some(a => isChannel(a.type))) {
+      this.issue(line, 'Samplers only work as texture() arguments');
+      return atom(`${typeText(type)}()`, type);
+    }
+    if (args.length === 0) {
+      this.issue(line, `${typeText(type)} needs at least one value`);
+      return atom(`${typeText(type)}()`, type);
+    }
+
+    if (type.kind === 'scalar') {
+      let arg = args[0];
+      const from = arg.type as WgslType;
+      if (from.kind === 'vector') arg = atom(`${postfixable(arg)}.x`, scalar(from.scalar));
+      if (from.kind === 'matrix') arg = atom(`${postfixable(arg)}[0].x`, scalar(from.scalar));
+      const argScalar = scalarOf(arg.type as WgslType);
+      if (argScalar === s) return arg;
+      if ((argScalar === 'abstract-float' && s === 'f32') || (argScalar === 'abstract-int' && s === 'i32')) return arg;
+      return atom(`${s}(${arg.text})`, type);
+    }
+
+    if (type.kind === 'vector') {
+      const wanted = type.size;
+      if (args.length === 1) {
+        const [arg] = args;
+        const from = arg.type as WgslType;
+        if (from.kind === 'scalar' || from.kind === 'unknown') return atom(`${typeText(type)}(${this.coerce(arg, scalar(s)).text})`, type);
+        if (from.kind === 'vector') {
+          const cut = from.size > wanted ? atom(`${postfixable(arg)}.${'xyzw'.slice(0, wanted)}`, vector(wanted, from.scalar)) : arg;
+          if (from.size < wanted) this.issue(line, `${typeText(type)} needs ${wanted} components but gets ${from.size}`);
+          return from.scalar === s ? { ...cut, type } : atom(`${typeText(type)}(${cut.text})`, type);
+        }
+        if (from.kind === 'matrix' && isSimple(arg)) {
+          const components = [...Array(from.cols)].flatMap((_, c) => [...'xyzw'.slice(0, from.rows)].map(l => `${arg.text}[${c}].${l}`));
+          return atom(`${typeText(type)}(${components.slice(0, wanted).join(', ')})`, type);
+        }
+      }
+      const parts: string[] = [];
+      let count = 0;
+      for (const arg of args) {
+        const from = arg.type as WgslType;
+        if (count >= wanted) {
+          this.issue(line, `${typeText(type)} gets more values than it has components`);
+          break;
+        }
+        if (from.kind === 'vector') {
+          const take = Math.min(from.size, wanted - count);
+          const cut = take < from.size ? atom(`${postfixable(arg)}.${'xyzw'.slice(0, take)}`, vector(take, from.scalar)) : arg;
+          parts.push(this.coerce(cut, vector(take, s)).text);
+          count += take;
+        } else if (from.kind === 'scalar' || from.kind === 'unknown') {
+          parts.push(this.coerce(arg, scalar(s)).text);
+          count++;
+        } else {
+          this.issue(line, `WGSL cannot build a vector from a ${from.kind}`);
+          count = wanted;
+        }
+      }
+      if (count < wanted) this.issue(line, `${typeText(type)} needs ${wanted} components but gets ${count}`);
+      return atom(`${typeText(type)}(${parts.join(', ')})`, type);
+    }
+
+    if (type.kind !== 'matrix') return atom(`${typeText(type)}()`, type);
+    const { cols, rows } = type;
+    const column = (c: number, entries: string[]) => `vec${rows}<f32>(${entries.slice(c * rows, c * rows + rows).join(', ')})`;
+    if (args.length === 1 && (args[0].type.kind === 'scalar' || args[0].type.kind === 'unknown')) {
+      // A scalar fills the diagonal
+      const identity = [...Array(cols * rows)].map((_, i) => (Math.floor(i / rows) === i % rows ? '1.0' : '0.0'));
+      const text = `${typeText(type)}(${identity.join(', ')})`;
+      const [arg] = args;
+      if (arg.text === '1.0' || arg.text === '1') return atom(text, type);
+      if (isSimple(arg)) return atom(`${typeText(type)}(${identity.map(x => (x === '1.0' ? arg.text : x)).join(', ')})`, type);
+      return binary('*', this.coerce(arg, F32), atom(text, type), type);
+    }
+    if (args.length === 1 && args[0].type.kind === 'matrix') {
+      const [arg] = args;
+      const from = args[0].type as WgslType & { kind: 'matrix' };
+      if (from.cols === cols && from.rows === rows) return arg;
+      if (!isSimple(arg)) {
+        this.issue(line, `Resizing a matrix needs it in a variable first`);
+        return arg;
+      }
+      // Resizing keeps the overlap and fills the rest from the identity
+      const columns = [...Array(cols)].map((_, c) => {
+        if (c < from.cols && rows === from.rows) return `${arg.text}[${c}]`;
+        if (c < from.cols && rows < from.rows) return `${arg.text}[${c}].${'xyzw'.slice(0, rows)}`;
+        const entries = [...Array(rows)].map((_, r) => (c < from.cols && r < from.rows ? `${arg.text}[${c}].${'xyzw'[r]}` : c === r ? '1.0' : '0.0'));
+        return `vec${rows}<f32>(${entries.join(', ')})`;
+      });
+      return atom(`${typeText(type)}(${columns.join(', ')})`, type);
+    }
+    if (args.every(a => a.type.kind === 'vector' && a.type.size === rows) && args.length === cols) {
+      return atom(`${typeText(type)}(${args.map(a => this.coerce(a, vector(rows, 'f32')).text).join(', ')})`, type);
+    }
+    // Mixed scalars and vectors: WGSL takes all columns or all scalars, so spell the vectors out
+    const entries: string[] = [];
+    for (const arg of args) {
+      const from = arg.type as WgslType;
+      if (from.kind === 'vector') {
+        if (!isSimple(arg)) {
+          this.issue(line, `Building a matrix from a mix of vectors and scalars needs the vectors in variables first`);
+          return atom(`${typeText(type)}()`, type);
+        }
+        entries.push(...[...'xyzw'.slice(0, from.size)].map(l => `${arg.text}.${l}`));
+      } else {
+        entries.push(this.coerce(arg, F32).text);
+      }
+    }
+    if (entries.length !== cols * rows) {
+      this.issue(line, `${typeText(type)} needs ${cols * rows} values but gets ${entries.length}`);
+      return atom(`${typeText(type)}()`, type);
+    }
+    return atom(`${typeText(type)}(${[...Array(cols)].map((_, c) => column(c, entries)).join(', ')})`, type);
+  }
+
+  private userCall(name: string, argExprs: GlslExpr[], line: number): Value {
+    const overloads = this.functions.get(name)!;
+    const args = argExprs.map(a => this.expr(a));
+    const candidates = overloads.filter(o => o.params.length === args.length);
+    const overload = candidates.find(o => o.params.every((p, i) => typesEqual(p.type, args[i].type as WgslType)))
+      ?? candidates.find(o => o.params.every((p, i) => canConvert(args[i].type as WgslType, p.type)))
+      ?? candidates[0];
+    if (!overload) {
+      this.issue(line, `No '${name}' takes ${args.length} argument${args.length === 1 ? '' : 's'}`);
+      return atom('0', UNKNOWN);
+    }
+    const texts = overload.params.map((p, i) =>
+      p.qualifier === 'in' ? this.coerce(args[i], p.type).text : this.outArgument(argExprs[i], p.type, name, line));
+    return atom(`${overload.wgsl}(${texts.join(', ')})`, overload.returns ?? UNKNOWN);
+  }
+
+  /**
+   * A pointer for an `out` or `inout` argument. Local variables are passed
+   * directly; anything else (globals, components, array elements) goes
+   * through a temporary copied back after the call, as WGSL only passes
+   * pointers to whole function-scope variables.
+   */
+  private outArgument(arg: GlslExpr, type: WgslType, callee: string, line: number): string {
+    if (arg.kind === 'Ident') {
+      const variable = this.lookup(arg.name);
+      if (variable?.storage === 'function') return `&${variable.wgsl}`;
+      if (variable?.storage === 'pointer') return variable.wgsl;
+    }
+    const target = this.target(arg);
+    if (!target) return '&0';
+    if (!this.temporaries) {
+      this.issue(line, `'${callee}' writes an out parameter that needs a temporary, which a loop condition cannot hold; pass a local variable`);
+      return '&0';
+    }
+    const temp = this.namer.fresh(`${callee}_${arg.kind === 'Ident' ? this.namer.name(arg.name) : 'out'}`);
+    this.temporaries.before.push(`var ${temp} : ${typeText(type)} = ${target.swizzle ? `${target.swizzle.object}.${target.swizzle.letters}` : target.text};`);
+    this.temporaries.after.push(...this.store(target, atom(temp, type)));
+    return `&${temp}`;
+  }
+
+  private builtinCall(name: string, argExprs: GlslExpr[], line: number): Value {
+    if (name in MISSING) {
+      this.issue(line, `${name}() has no WGSL equivalent: ${MISSING[name]}`);
+      return atom('0', UNKNOWN);
+    }
+    if (/^(?:texture|texelFetch)/.test(name)) return this.textureCall(name, argExprs, line);
+    const args = argExprs.map(a => this.expr(a));
+    const count = (n: number): boolean => {
+      if (args.length === n) return true;
+      this.issue(line, `${name}() takes ${n} argument${n === 1 ? '' : 's'}`);
+      return false;
+    };
+    const first = args[0]?.type ?? UNKNOWN;
+    const call = (fn: string, values: Value[], type: ValueType) => atom(`${fn}(${values.map(v => v.text).join(', ')})`, type);
+    const componentScalar = (t: ValueType): WgslType => (isVector(t) ? scalar(t.scalar) : t.kind === 'scalar' ? t : UNKNOWN);
+
+    if (SAME_NAME.has(name) || name in RENAMED) {
+      const type = UNPACKS.has(name) ? vector(2, 'f32') : name.startsWith('pack') ? scalar('u32') : first;
+      return call(RENAMED[name] ?? name, args, type);
+    }
+    switch (name) {
+      case 'atan': return args.length === 2 ? call('atan2', args, first) : call('atan', args, first);
+      case 'length': return count(1) ? call(name, args, componentScalar(first)) : args[0];
+      case 'distance':
+      case 'dot': return count(2) ? call(name, args, componentScalar(first)) : args[0];
+      case 'determinant': return call(name, args, F32);
+      case 'transpose': return call(name, args, first.kind === 'matrix' ? matrix(first.rows, first.cols, 'f32') : UNKNOWN);
+      case 'any':
+      case 'all': return call(name, args, BOOL);
+      case 'not': return { text: `!${postfixable(args[0])}`, type: first, prec: UNARY };
+      case 'min':
+      case 'max': {
+        if (!count(2)) return args[0];
+        const wide = isVector(args[1].type) ? args[1].type : first;
+        return call(name, args.map(a => this.splat(a, wide)), wide);
+      }
+      case 'clamp':
+        if (!count(3)) return args[0];
+        return call(name, [args[0], this.splat(args[1], first), this.splat(args[2], first)], first);
+      case 'mix': {
+        if (!count(3)) return args[0];
+        if (scalarOf(args[2].type as WgslType) === 'bool') return call('select', args, first);
+        return call(name, args, first);
+      }
+      case 'step': {
+        if (!count(2)) return args[0];
+        const x = args[1].type;
+        return call(name, [this.splat(args[0], x), args[1]], x);
+      }
+      case 'smoothstep': {
+        if (!count(3)) return args[0];
+        const x = args[2].type;
+        return call(name, [this.splat(args[0], x), this.splat(args[1], x), args[2]], x);
+      }
+      case 'mod': return count(2) ? this.mod(args[0], args[1]) : args[0];
+      case 'bitfieldExtract':
+        return count(3) ? call('extractBits', [args[0], this.coerce(args[1], scalar('u32')), this.coerce(args[2], scalar('u32'))], first) : args[0];
+      case 'findLSB': return call('firstTrailingBit', args, first);
+      case 'findMSB': return call('firstLeadingBit', args, first);
+    }
+    if (name in VECTOR_COMPARISONS) {
+      return count(2) ? binary(VECTOR_COMPARISONS[name], args[0], args[1], isVector(first) ? vector(first.size, 'bool') : BOOL) : args[0];
+    }
+    if (name in BITCASTS) {
+      const type = withScalar(first as WgslType, BITCASTS[name]);
+      return count(1) ? call(`bitcast<${typeText(type)}>`, args, type) : args[0];
+    }
+    this.issue(line, `Unknown function '${name}'`);
+    return atom('0', UNKNOWN);
+  }
+
+  /** GLSL's floored `mod`; WGSL's `%` truncates. Inline for names and literals, a helper otherwise. */
+  private mod(x: Value, y: Value): Value {
+    if (isSimple(x) && isSimple(y)) {
+      const quotient = atom(`floor(${x.text} / ${y.text})`, x.type);
+      return binary('-', x, binary('*', y, quotient, x.type), x.type);
+    }
+    const type = concretize(x.type as WgslType);
+    const suffix = type.kind === 'vector' ? `vec${type.size}f` : 'f32';
+    const name = this.helper(`${MOD_HELPER}_${suffix}`, () => [
+      `fn ${MOD_HELPER}_${suffix}(x: ${typeText(type)}, y: ${typeText(type)}) -> ${typeText(type)} {`,
+      `${INDENT}return x - y * floor(x / y);`,
+      '}',
+    ].join('\n'));
+    return atom(`${name}(${x.text}, ${this.splat(y, type).text})`, type);
+  }
+
+  private textureCall(name: string, argExprs: GlslExpr[], line: number): Value {
+    const args = argExprs.map(a => this.expr(a));
+    const handle = args[0]?.type;
+    const vec4f = vector(4, 'f32');
+    if (!handle || !isChannel(handle)) {
+      this.issue(line, `${name}() needs an iChannel or a sampler2D uniform; samplers cannot be passed around in WGSL`);
+      return atom('vec4<f32>()', vec4f);
+    }
+    const texture = this.use(handle.texture);
+    const rest = args.slice(1).map(a => a.text);
+    const sample = (fn: string, extra: string[]) => atom(`${fn}(${[texture, this.use(handle.sampler), ...extra].join(', ')})`, vec4f);
+    switch (name) {
+      case 'texture':
+      case 'texture2D':
+        return sample(rest.length === 2 ? 'textureSampleBias' : 'textureSample', rest);
+      case 'textureOffset':
+        return sample(rest.length === 3 ? 'textureSampleBias' : 'textureSample', rest.length === 3 ? [rest[0], rest[2], rest[1]] : rest);
+      case 'textureLod':
+      case 'texture2DLod':
+      case 'texture2DLodEXT':
+        return sample('textureSampleLevel', [rest[0], this.coerce(args[2] ?? atom('0.0', F32), F32).text]);
+      case 'textureLodOffset':
+        return sample('textureSampleLevel', rest);
+      case 'textureGrad':
+      case 'texture2DGradEXT':
+        return sample('textureSampleGrad', rest);
+      case 'texelFetch':
+        return atom(`textureLoad(${texture}, ${rest[0]}, ${rest[1] ?? '0'})`, vec4f);
+      case 'textureSize':
+        return atom(`vec2<i32>(textureDimensions(${texture}${rest.length > 0 ? `, ${rest[0]}` : ''}))`, vector(2, 'i32'));
+      default:
+        this.issue(line, `${name}() has no WGSL equivalent here`);
+        return atom('vec4<f32>()', vec4f);
+    }
+  }
+
+  // -- Assignment --
+
+  /** What an assignment target writes to, or null (after an issue) when it cannot be written. */
+  private target(e: GlslExpr): Target | null {
+    switch (e.kind) {
+      case 'Ident': {
+        const variable = this.lookup(e.name);
+        if (!variable || variable.read || variable.storage === 'let' || variable.storage === 'const' || variable.storage === 'param' || isChannel(variable.type)) {
+          this.issue(e.line, variable || SHADERTOY_INPUTS.has(e.name) ? `'${e.name}' cannot be assigned` : `Unknown identifier '${e.name}'`);
+          return null;
+        }
+        return { text: variable.storage === 'pointer' ? `*${variable.wgsl}` : variable.wgsl, type: variable.type as WgslType };
+      }
+      case 'Member': {
+        const object = this.target(e.object);
+        if (!object) return null;
+        const text = object.swizzle ? null : object.text.startsWith('*') ? `(${object.text})` : object.text;
+        if (text === null) break;
+        const t = object.type;
+        if (t.kind === 'struct') {
+          const field = t.members.find(m => m.name === e.member);
+          return { text: `${text}.${this.namer.name(e.member)}`, type: field?.type ?? UNKNOWN };
+        }
+        if (t.kind === 'vector') {
+          const letters = swizzleLetters(e.member);
+          const type = swizzleResult(t, letters);
+          if (!type || new Set(letters).size !== letters.length) {
+            this.issue(e.line, `'.${e.member}' cannot be assigned`);
+            return null;
+          }
+          return letters.length === 1 ? { text: `${text}.${letters}`, type } : { text: `${text}.${letters}`, type, swizzle: { object: text, letters } };
+        }
+        break;
+      }
+      case 'Index': {
+        const object = this.target(e.object);
+        if (!object || object.swizzle) break;
+        const text = object.text.startsWith('*') ? `(${object.text})` : object.text;
+        const t = object.type;
+        const type = t.kind === 'array' ? t.element : t.kind === 'vector' ? scalar(t.scalar) : t.kind === 'matrix' ? vector(t.rows, t.scalar) : UNKNOWN;
+        return { text: `${text}[${this.expr(e.index).text}]`, type };
+      }
+    }
+    this.issue(e.line, 'This cannot be assigned');
+    return null;
+  }
+
+  /** Statements writing `value` to `target`, one per component for a swizzle. */
+  private store(target: Target, value: Value): string[] {
+    if (!target.swizzle) return [`${target.text} = ${value.text};`];
+    const { object, letters } = target.swizzle;
+    let source = value;
+    const lines: string[] = [];
+    if (!isSimple(value)) {
+      const temp = this.namer.fresh(`${object.replace(/\W/g, '')}_${letters}`);
+      lines.push(`let ${temp} = ${value.text};`);
+      source = atom(temp, value.type);
+    }
+    return [...lines, ...[...letters].map((l, i) => `${object}.${l} = ${source.text}.${'xyzw'[i]};`)];
+  }
+
+  /** The statements of a GLSL assignment. */
+  private assignment(e: GlslExpr & { kind: 'Assign' }): string[] {
+    const chained: string[] = [];
+    let valueExpr = e.value;
+    // `a = b = c` assigns `b` first, then reads it back
+    if (valueExpr.kind === 'Assign') {
+      chained.push(...this.assignment(valueExpr));
+      valueExpr = valueExpr.target;
+    }
+    const target = this.target(e.target);
+    if (!target) return chained;
+    let value = this.expr(valueExpr);
+    if (e.op === '=') return [...chained, ...this.store(target, this.coerce(value, target.type))];
+    const op = e.op.slice(0, -1);
+    if (op === '<<' || op === '>>') value = this.toUnsigned(value);
+    else if (isScalar(value.type) || isVector(value.type)) {
+      const s = scalarOf(target.type);
+      if (s && s !== 'bool' && !scalarOf(value.type)!.startsWith('abstract') && scalarOf(value.type) !== s) value = this.coerce(value, withScalar(value.type, s));
+    }
+    if (!target.swizzle) return [...chained, `${target.text} ${e.op} ${value.text};`];
+    const current = atom(target.text, target.type);
+    return [...chained, ...this.store(target, binary(op, current, value, target.type))];
+  }
+
+  private increment(e: GlslExpr & { kind: 'Unary' | 'Postfix' }): string[] {
+    const target = this.target(e.operand);
+    if (!target) return [];
+    const op = e.op as '++' | '--';
+    const s = scalarOf(target.type);
+    if ((s === 'i32' || s === 'u32') && target.type.kind === 'scalar') return [`${target.text}${op};`];
+    const one = atom(isFloatScalar(s) ? '1.0' : '1', scalar(isFloatScalar(s) ? 'abstract-float' : 'abstract-int'));
+    if (!target.swizzle) return [`${target.text} ${op[0]}= ${one.text};`];
+    return this.store(target, binary(op[0], atom(target.text, target.type), one, target.type));
+  }
+
+  /** The statements an expression statement becomes; most expressions without effects disappear. */
+  private effects(e: GlslExpr): string[] {
+    switch (e.kind) {
+      case 'Assign': return this.assignment(e);
+      case 'Postfix': return this.increment(e);
+      case 'Unary':
+        if (e.op === '++' || e.op === '--') return this.increment(e);
+        return this.effects(e.operand);
+      case 'Comma': return e.exprs.flatMap(x => this.effects(x));
+      case 'Call': {
+        const value = this.expr(e);
+        const user = e.callee.arrays.length === 0 && this.functions.has(e.callee.name) && !this.structs.has(e.callee.name);
+        return user ? [`${value.text};`] : [];
+      }
+      default:
+        this.expr(e);
+        return [];
+    }
+  }
+
+  // -- Statements --
+
+  /** Runs `build` for one statement, emitting the temporaries it needs around what it returns. */
+  private statement(build: () => string[]): void {
+    const outer = this.temporaries;
+    this.temporaries = { before: [], after: [] };
+    const lines = build();
+    const { before, after } = this.temporaries;
+    this.temporaries = outer;
+    [...before, ...lines, ...after].forEach(l => this.emit(l));
+  }
+
+  /** An expression evaluated where no statements can go around it, as loop conditions are. */
+  private bare<T>(build: () => T): T {
+    const outer = this.temporaries;
+    this.temporaries = null;
+    const result = build();
+    this.temporaries = outer;
+    return result;
+  }
+
+  private condition(e: GlslExpr): string {
+    return this.coerce(this.expr(e), BOOL).text;
+  }
+
+  /** `s` as a braced block, its own scope. */
+  private body(s: GlslStmt): void {
+    this.depth++;
+    this.scopes.push(new Map());
+    if (s.kind === 'Block') s.stmts.forEach(x => this.stmt(x));
+    else this.stmt(s);
+    this.scopes.pop();
+    this.depth--;
+  }
+
+  private stmt(s: GlslStmt): void {
+    switch (s.kind) {
+      case 'Decl': return this.local(s);
+      case 'Expr': return this.statement(() => this.effects(s.expr));
+      case 'Block':
+        this.emit('{');
+        this.body(s);
+        this.emit('}');
+        return;
+      case 'If': return this.ifStatement(s);
+      case 'For': return this.forStatement(s);
+      case 'While': {
+        const cond = this.bare(() => this.condition(s.cond));
+        this.emit(`while (${cond}) {`);
+        this.body(s.body);
+        this.emit('}');
+        return;
+      }
+      case 'DoWhile': {
+        this.emit('loop {');
+        this.body(s.body);
+        const cond = this.bare(() => this.expr(s.cond));
+        this.depth++;
+        this.emit('continuing {');
+        this.emit(`${INDENT}break if !${cond.prec >= UNARY ? cond.text : `(${cond.text})`};`);
+        this.emit('}');
+        this.depth--;
+        this.emit('}');
+        return;
+      }
+      case 'Switch': return this.switchStatement(s);
+      case 'Case':
+        this.issue(s.line, 'case labels only belong directly inside a switch');
+        return;
+      case 'Return':
+        return this.statement(() => {
+          if (!s.value) return ['return;'];
+          const value = this.expr(s.value);
+          const text = (this.returns ? this.coerce(value, this.returns) : value).text;
+          // Copy-backs from out arguments run before the function returns
+          if (this.temporaries!.after.length === 0) return [`return ${text};`];
+          const result = this.namer.fresh('result');
+          this.temporaries!.before.push(`let ${result} = ${text};`);
+          this.temporaries!.before.push(...this.temporaries!.after.splice(0));
+          return [`return ${result};`];
+        });
+      case 'Break': return this.emit('break;');
+      case 'Continue': return this.emit('continue;');
+      case 'Discard': return this.emit('discard;');
+      case 'Empty': return;
+    }
+  }
+
+  /** An `if` condition, with the statements to run first when it needs temporaries. */
+  private ifCondition(e: GlslExpr): { setup: string[]; cond: string } {
+    const outer = this.temporaries;
+    this.temporaries = { before: [], after: [] };
+    const cond = this.condition(e);
+    const { before, after } = this.temporaries;
+    this.temporaries = outer;
+    if (before.length === 0) return { setup: [], cond };
+    const name = this.namer.fresh('condition');
+    return { setup: [...before, `let ${name} = ${cond};`, ...after], cond: name };
+  }
+
+  private ifStatement(s: GlslStmt & { kind: 'If' }): void {
+    const first = this.ifCondition(s.cond);
+    first.setup.forEach(l => this.emit(l));
+    this.emit(`if (${first.cond}) {`);
+    this.body(s.then);
+    let otherwise = s.otherwise;
+    let nested = 0;
+    while (otherwise?.kind === 'If') {
+      const next = this.ifCondition(otherwise.cond);
+      if (next.setup.length > 0) {
+        // Setup cannot sit between `else` and `if`, so the chain nests from here
+        this.emit('} else {');
+        this.depth++;
+        nested++;
+        next.setup.forEach(l => this.emit(l));
+        this.emit(`if (${next.cond}) {`);
+      } else {
+        this.emit(`} else if (${next.cond}) {`);
+      }
+      this.body(otherwise.then);
+      otherwise = otherwise.otherwise;
+    }
+    if (otherwise) {
+      this.emit('} else {');
+      this.body(otherwise);
+    }
+    this.emit('}');
+    for (; nested > 0; nested--) {
+      this.depth--;
+      this.emit('}');
+    }
+  }
+
+  /** A `for` loop as WGSL's when its update is one statement, as a `loop` with a continuing block otherwise. */
+  private forStatement(s: GlslStmt & { kind: 'For' }): void {
+    this.scopes.push(new Map());
+    const outer = this.lines;
+    const depth = this.depth;
+    this.lines = [];
+    this.depth = 0;
+    if (s.init) this.stmt(s.init);
+    const init = this.lines;
+    this.lines = [];
+    const update = s.update ? this.bare(() => this.effects(s.update!)) : [];
+    this.lines = outer;
+    this.depth = depth;
+    const cond = s.cond ? this.bare(() => this.condition(s.cond!)) : '';
+    const strip = (line: string) => line.replace(/;$/, '');
+
+    if (init.length <= 1 && update.length <= 1) {
+      this.emit(`for (${init.length ? strip(init[0]) : ''}; ${cond}; ${update.length ? strip(update[0]) : ''}) {`);
+      this.body(s.body);
+      this.emit('}');
+    } else {
+      this.emit('{');
+      this.depth++;
+      init.forEach(l => this.emit(l));
+      this.emit('loop {');
+      if (cond) this.emit(`${INDENT}if !(${cond}) { break; }`);
+      this.body(s.body);
+      if (update.length > 0) {
+        this.depth++;
+        this.emit('continuing {');
+        update.forEach(l => this.emit(INDENT + l));
+        this.emit('}');
+        this.depth--;
+      }
+      this.emit('}');
+      this.depth--;
+      this.emit('}');
+    }
+    this.scopes.pop();
+  }
+
+  private switchStatement(s: GlslStmt & { kind: 'Switch' }): void {
+    const selector = this.bare(() => this.expr(s.selector));
+    // Labels with the statements under them; labels directly above others share their statements
+    const clauses: { labels: string[]; stmts: GlslStmt[]; line: number }[] = [];
+    let pending: string[] = [];
+    for (const stmt of s.body) {
+      if (stmt.kind === 'Case') {
+        pending.push(stmt.value ? this.expr(stmt.value).text : 'default');
+        continue;
+      }
+      if (pending.length > 0) {
+        clauses.push({ labels: pending, stmts: [], line: stmt.line });
+        pending = [];
+      }
+      if (clauses.length === 0) continue;
+      clauses[clauses.length - 1].stmts.push(stmt);
+    }
+    if (pending.length > 0) clauses.push({ labels: pending, stmts: [], line: s.line });
+
+    this.emit(`switch (${selector.text}) {`);
+    this.depth++;
+    clauses.forEach((clause, i) => {
+      const last = clause.stmts[clause.stmts.length - 1];
+      const ends = last && (last.kind === 'Break' || last.kind === 'Return' || last.kind === 'Continue' || last.kind === 'Discard');
+      if (!ends && i < clauses.length - 1) this.issue(clause.line, 'WGSL switch cases cannot fall through; end the case with break');
+      const stmts = last?.kind === 'Break' ? clause.stmts.slice(0, -1) : clause.stmts;
+      const values = clause.labels.filter(l => l !== 'default');
+      const fallback = values.length < clause.labels.length;
+      this.emit(`${values.length > 0 ? `case ${values.join(', ')}${fallback ? ', default' : ''}` : 'default'}: {`);
+      this.body({ kind: 'Block', stmts, line: clause.line });
+      this.emit('}');
+    });
+    if (!clauses.some(c => c.labels.includes('default'))) this.emit('default: {}');
+    this.depth--;
+    this.emit('}');
+  }
+
+  private local(decl: GlslDecl): void {
+    const constant = decl.qualifiers.includes('const');
+    if (decl.qualifiers.some(q => q !== 'const')) this.issue(decl.line, `'${decl.qualifiers.join(' ')}' only belongs on globals and parameters`);
+    for (const v of decl.vars) {
+      this.statement(() => {
+        const init = v.init ? this.expr(v.init) : null;
+        const type = this.resolveType(decl.type, v.arrays, v.line, init);
+        const name = this.namer.name(v.name);
+        this.declare(v.name, { wgsl: name, type, storage: constant ? 'let' : 'function' });
+        if (constant && init) this.recordConstant(v.name, v.init!);
+        if (constant && !init) this.issue(v.line, `Constant '${v.name}' needs a value`);
+        const value = init ? ` = ${this.coerce(init, type).text}` : '';
+        return [`${constant ? 'let' : 'var'} ${name} : ${typeText(type)}${value};`];
+      });
+    }
+  }
+
+  private recordConstant(name: string, init: GlslExpr): void {
+    const value = this.constInt(init);
+    if (value !== null) this.constInts.set(name, value);
+  }
+
+  // -- Declarations --
+
+  private global(decl: GlslDecl): void {
+    const qualifiers = decl.qualifiers;
+    if (qualifiers.includes('uniform')) return this.uniform(decl);
+    if (qualifiers.includes('attribute') || qualifiers.includes('buffer') || qualifiers.includes('shared')) {
+      this.issue(decl.line, `'${qualifiers.join(' ')}' variables have no place in a fragment shader here`);
+      return;
+    }
+    for (const v of decl.vars) {
+      const init = v.init ? this.bare(() => this.expr(v.init!)) : null;
+      const type = this.resolveType(decl.type, v.arrays, v.line, init);
+      const name = this.namer.name(v.name);
+      if (qualifiers.includes('in') || qualifiers.includes('varying')) {
+        if (type.kind !== 'vector' || type.size !== 2 || type.scalar !== 'f32') {
+          this.issue(v.line, `Input '${v.name}' has no counterpart; the app passes only the vec2 uv`);
+          continue;
+        }
+        this.varyings.push(name);
+      } else if (qualifiers.includes('out')) {
+        if (!typesEqual(type, vector(4, 'f32'))) this.issue(v.line, `Output '${v.name}' must be a vec4`);
+        this.outputs.push(name);
+      }
+      const constant = qualifiers.includes('const');
+      this.globals.set(v.name, { wgsl: name, type, storage: constant ? 'const' : 'private' });
+      if (constant) {
+        if (!init) this.issue(v.line, `Constant '${v.name}' needs a value`);
+        else this.recordConstant(v.name, v.init!);
+        this.declarations.push(`const ${name} : ${typeText(type)} = ${init ? this.coerce(init, type).text : '0'};`);
+      } else {
+        this.declarations.push(`var<private> ${name} : ${typeText(type)}${init ? ` = ${this.coerce(init, type).text}` : ''};`);
+      }
+    }
+  }
+
+  private struct(s: GlslStruct): void {
+    const members = s.members.map(m => ({ name: m.name, type: this.resolveType(m.type, [], m.line) }));
+    const type: WgslType & { kind: 'struct' } = { kind: 'struct', name: this.namer.name(s.name), members };
+    this.structs.set(s.name, type);
+    const fields = members.map(m => `${INDENT}${this.namer.name(m.name)} : ${typeText(m.type)},`);
+    this.declarations.push([`struct ${type.name} {`, ...fields, '}'].join('\n'));
+  }
+
+  private signature(f: GlslFunction): void {
+    const params = f.params.map(p => ({ qualifier: p.qualifier, type: this.resolveType(p.type, [], p.line) }));
+    const returns = f.returnType.name === 'void' && f.returnType.arrays.length === 0 ? null : this.resolveType(f.returnType, [], f.line);
+    const overloads = this.functions.get(f.name) ?? [];
+    const existing = overloads.find(o => o.params.length === params.length && o.params.every((p, i) => typesEqual(p.type, params[i].type)));
+    if (existing) {
+      if (f.body) {
+        if (existing.source.body) this.issue(f.line, `'${f.name}' is defined twice`);
+        existing.source = f;
+      }
+      return;
+    }
+    const wgsl = overloads.length === 0 ? this.namer.name(f.name) : this.namer.fresh(this.namer.name(f.name));
+    overloads.push({ source: f, wgsl, params, returns });
+    this.functions.set(f.name, overloads);
+  }
+
+  private function(overload: Overload): string {
+    const f = overload.source;
+    const assigned = assignedNames(f.body!, (callee, i) => this.functions.get(callee)?.some(o => o.params[i]?.qualifier !== 'in') ?? false);
+    this.scopes = [new Map()];
+    this.lines = [];
+    this.depth = 1;
+    this.returns = overload.returns;
+    const params: string[] = [];
+    f.params.forEach((p, i) => {
+      const type = overload.params[i].type;
+      if (!p.name) {
+        params.push(`${this.namer.fresh('unused')}: ${typeText(type)}`);
+        return;
+      }
+      const name = this.namer.name(p.name);
+      if (p.qualifier !== 'in') {
+        params.push(`${name}: ptr<function, ${typeText(type)}>`);
+        this.declare(p.name, { wgsl: name, type, storage: 'pointer' });
+      } else if (assigned.has(p.name)) {
+        // WGSL parameters are read-only, so a parameter the body writes becomes a copy
+        const copy = this.namer.fresh(`${name}_in`);
+        params.push(`${copy}: ${typeText(type)}`);
+        this.emit(`var ${name} = ${copy};`);
+        this.declare(p.name, { wgsl: name, type, storage: 'function' });
+      } else {
+        params.push(`${name}: ${typeText(type)}`);
+        this.declare(p.name, { wgsl: name, type, storage: 'param' });
+      }
+    });
+    f.body!.forEach(s => this.stmt(s));
+    const returns = overload.returns ? ` -> ${typeText(overload.returns)}` : '';
+    return [`fn ${overload.wgsl}(${params.join(', ')})${returns} {`, ...this.lines, '}'].join('\n');
+  }
+
+  /** A name for a local of the entry point, which must not hide a module-scope name it reads. */
+  private entryLocal(name: string): string {
+    const taken = [...this.globals.values()].some(v => v.wgsl === name)
+      || [...this.functions.values()].some(o => o.some(f => f.wgsl === name))
+      || [...this.structs.values()].some(t => t.name === name);
+    return taken ? this.namer.fresh(name) : name;
+  }
+
+  /** The `@fragment` entry point running the GLSL one. */
+  private entry(): string | null {
+    const mainImage = this.functions.get('mainImage')?.find(o =>
+      o.source.body && o.params.length === 2 && o.params[0].qualifier !== 'in'
+      && typesEqual(o.params[0].type, vector(4, 'f32')) && typesEqual(o.params[1].type, vector(2, 'f32')));
+    const main = this.functions.get('main')?.find(o => o.source.body && o.params.length === 0);
+    if (!main && !mainImage) {
+      this.issues.push('Found neither mainImage(out vec4, in vec2) nor void main() to run');
+      return null;
+    }
+    const uv = this.entryLocal('uv');
+    const lines: string[] = [];
+    if (this.usesFragCoord) {
+      this.declarations.push(`var<private> ${FRAG_COORD} : vec4<f32>;`);
+      lines.push(`${FRAG_COORD} = vec4<f32>(${uv} * ${this.use('resolution')}, 0.0, 1.0);`);
+    }
+    this.varyings.forEach(v => lines.push(`${v} = ${uv};`));
+    let color: string;
+    if (main) {
+      if (this.outputs.length !== 1) {
+        this.issue(main.source.line, this.outputs.length === 0 ? 'main() writes no output; assign gl_FragColor or an out vec4' : 'Only one output is supported');
+        return null;
+      }
+      color = this.outputs[0];
+      lines.push(`${main.wgsl}();`);
+    } else {
+      color = this.entryLocal('color');
+      lines.push(`var ${color} : vec4<f32>;`);
+      lines.push(`${mainImage!.wgsl}(&${color}, ${uv} * ${this.use('resolution')});`);
+    }
+    // Shadertoy shows the Image tab opaque whatever alpha it writes; buffers keep theirs
+    lines.push(this.image ? `return vec4<f32>(${color}.rgb, 1.0);` : `return ${color};`);
+    return [
+      '@fragment',
+      `fn main(@location(0) ${uv} : vec2<f32>) -> @location(0) vec4<f32> {`,
+      ...lines.map(l => INDENT + l),
+      '}',
+    ].join('\n');
+  }
+
+  translate(): string {
+    for (const item of this.items) {
+      if (item.kind === 'Struct') this.struct(item);
+      else if (item.kind === 'Decl') this.global(item);
+      else this.signature(item);
+    }
+    const functions: string[] = [];
+    for (const item of this.items) {
+      if (item.kind !== 'Function' || !item.body) continue;
+      const overload = this.functions.get(item.name)!.find(o => o.source === item);
+      if (overload) functions.push(this.function(overload));
+    }
+    this.checkNamedSamplers();
+    const entry = this.entry();
+    const bindings = SHADER_BINDINGS.filter(b => this.bindings.has(b.name)).map(b => bindingDeclaration(b));
+    // Structs stand apart; runs of one-line declarations stay together
+    const declarations = this.declarations.map((d, i) => (i > 0 && (d.includes('\n') || this.declarations[i - 1].includes('\n')) ? `\n${d}` : d));
+    return [bindings.join('\n'), ...this.helpers.values(), declarations.join('\n'), ...functions, entry ?? '']
+      .filter(Boolean)
+      .join('\n\n') + '\n';
+  }
+}
+
+/** `stpq` swizzles, which WGSL lacks, as `xyzw`. */
+const swizzleLetters = (member: string): string =>
+  /^[stpq]+$/.test(member) ? [...member].map(c => 'xyzw'['stpq'.indexOf(c)]).join('') : member;
+
+/** Names a function body writes to: assigned, incremented or passed to an out parameter. */
+const assignedNames = (body: GlslStmt[], isOut: (callee: string, index: number) => boolean): Set<string> => {
+  const names = new Set<string>();
+  const root = (e: GlslExpr): void => {
+    if (e.kind === 'Ident') names.add(e.name);
+    else if (e.kind === 'Member' || e.kind === 'Index') root(e.object);
+  };
+  const expr = (e: GlslExpr | null): void => {
+    if (!e) return;
+    switch (e.kind) {
+      case 'Assign': root(e.target); expr(e.target); expr(e.value); return;
+      case 'Postfix': root(e.operand); expr(e.operand); return;
+      case 'Unary':
+        if (e.op === '++' || e.op === '--') root(e.operand);
+        expr(e.operand);
+        return;
+      case 'Call':
+        e.args.forEach((a, i) => {
+          if (isOut(e.callee.name, i)) root(a);
+          expr(a);
+        });
+        return;
+      case 'Binary': expr(e.left); expr(e.right); return;
+      case 'Ternary': expr(e.cond); expr(e.then); expr(e.otherwise); return;
+      case 'Member':
+      case 'Length': expr(e.object); return;
+      case 'Index': expr(e.object); expr(e.index); return;
+      case 'Comma': e.exprs.forEach(expr); return;
+    }
+  };
+  const stmt = (s: GlslStmt | null): void => {
+    if (!s) return;
+    switch (s.kind) {
+      case 'Decl': s.vars.forEach(v => expr(v.init)); return;
+      case 'Expr': expr(s.expr); return;
+      case 'Block': s.stmts.forEach(stmt); return;
+      case 'If': expr(s.cond); stmt(s.then); stmt(s.otherwise); return;
+      case 'For': stmt(s.init); expr(s.cond); expr(s.update); stmt(s.body); return;
+      case 'While':
+      case 'DoWhile': expr(s.cond); stmt(s.body); return;
+      case 'Switch': expr(s.selector); s.body.forEach(stmt); return;
+      case 'Return': expr(s.value); return;
+    }
+  };
+  body.forEach(stmt);
+  return names;
+};
+
+/**
+ * Translates a GLSL fragment shader, or a paste of Shadertoy tabs, to a
+ * WGSL fragment shader for the app. Throws `GlslImportError` listing
+ * everything that cannot be translated.
+ */
+export const importGlsl = (source: string): GlslImport => {
+  const lines = source.split('\n');
+  const issues: string[] = [];
+  const notes = new Set<string>();
+  const tabs = splitTabs(lines, issues, notes);
+  const common = tabs.find(t => t.name === 'common');
+  const passes = tabs.filter(t => t.name !== 'common').sort((a, b) => PASS_NAMES.indexOf(a.name) - PASS_NAMES.indexOf(b.name));
+  const multiPass = passes.length > 1 || passes[0].name !== 'image';
+  const codes: string[] = [];
+
+  for (const tab of passes) {
+    const prefix = multiPass ? `${tab.name}: ` : '';
+    // Each pass compiles with the Common tab and the other tabs blanked, so line numbers match the paste
+    const text = lines.map((l, i) => (tab.lines.has(i) || common?.lines.has(i) ? l : '')).join('\n');
+    let items: GlslTopLevel[];
+    try {
+      items = parseGlsl(text);
+    } catch (e) {
+      if (!(e instanceof GlslSyntaxError)) throw e;
+      issues.push(prefix + e.message);
+      continue;
+    }
+    const translator = new PassTranslator(items, new Namer(new Set(source.match(/[A-Za-z_]\w*/g) ?? [])), tab.channels, tab.name === 'image');
+    const code = translator.translate();
+    issues.push(...translator.issues.map(i => prefix + i));
+    translator.notes.forEach(n => notes.add(n));
+    codes.push(multiPass ? `//!pass ${tab.name}\n${code}` : code);
+  }
+
+  if (issues.length > 0) throw new GlslImportError([...new Set(issues)]);
+  const image = passes.find(p => p.name === 'image');
+  if (multiPass && image && [...image.channels.values()].some(c => FEEDBACK_BINDINGS.some(b => b.name === c.input))) {
+    notes.add('The app shows the Image tab the buffers from the previous frame, where Shadertoy runs them first and shows this frame\'s.');
+  }
+  return { code: codes.join('\n'), passes: passes.map(p => p.name), notes: [...notes] };
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { PRESETS } from '../../constants';
+import { renderFramesCpu } from '../cpuRenderer';
+import { compareFrames } from '../differentialService';
+import { splitPasses } from '../renderGraph';
+import { validateFragment } from '../wgsl/validator';
+import { importGlsl } from './glslToWgsl';
+import { GlslExportError, formatGlslEs, formatShadertoy, transpileToShadertoy } from './wgslToGlsl';
+
+// Presets the export refuses, with the issue it gives for each
+const REFUSED: Record<string, string> = {
+  Compute: 'Compute shaders have no Shadertoy equivalent',
+  Mesh: 'Custom vertex stages have no Shadertoy equivalent; Shadertoy draws a full-screen quad',
+};
+
+const EXPORTED = PRESETS.filter(p => !(p.name in REFUSED));
+
+// The CPU renders feedback presets frame by frame, which takes seconds
+const RENDER_TIMEOUT = 30_000;
+
+/** Whether `code` renders like `original` on the CPU, at a small size and two times. */
+const rendersLike = (code: string, original: string) => {
+  const [expected, actual] = [original, code].map(c => renderFramesCpu(c, [0.5, 1.7], 8));
+  return expected.every((frame, i) => compareFrames(frame, actual[i], 2 / 255).mismatched === 0);
+};
+
+describe('transpileToShadertoy', () => {
+  it('covers every preset, exported or refused', () => {
+    expect(EXPORTED.length + Object.keys(REFUSED).length).toBe(PRESETS.length);
+  });
+
+  it.each(EXPORTED.map(p => [p.name, p.code]))('exports %s as Shadertoy GLSL that imports back to the same image', (_, code) => {
+    const imported = importGlsl(formatShadertoy(transpileToShadertoy(code)));
+    expect(validateFragment(imported.code).messages).toEqual([]);
+    expect(rendersLike(imported.code, code)).toBe(true);
+  }, RENDER_TIMEOUT);
+
+  // A buffer's own file has no Image tab to import as, so only single-pass presets come back from GLSL ES
+  it.each(EXPORTED.filter(p => !splitPasses(p.code).multiPass).map(p => [p.name, p.code]))('exports %s as a GLSL ES shader that imports back to the same image', (_, code) => {
+    const [pass] = transpileToShadertoy(code).passes;
+    const imported = importGlsl(formatGlslEs(pass));
+    expect(validateFragment(imported.code).messages).toEqual([]);
+    expect(rendersLike(imported.code, code)).toBe(true);
+  }, RENDER_TIMEOUT);
+
+  it.each(Object.entries(REFUSED))('refuses %s', (name, issue) => {
+    const preset = PRESETS.find(p => p.name === name)!;
+    let error: unknown;
+    try {
+      transpileToShadertoy(preset.code);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(GlslExportError);
+    expect((error as GlslExportError).issues).toContain(issue);
+  });
+});
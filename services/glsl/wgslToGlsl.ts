@@ -0,0 +1,976 @@
+import { WGSL_PREAMBLE } from '../../constants';
+import { IMAGE_PASS, isolatePass, splitPasses } from '../renderGraph';
+import { hasVertexStage, parseGeometry } from '../geometryService';
+import { FEEDBACK_BINDINGS, SHADER_BINDINGS, SamplerMode, ShaderBinding, isComputeSource } from '../shaderSource';
+import { Attribute, Block, CallExpr, Decl, Expr, FunctionDecl, Module, Node, Stmt, StructDecl, TypeRef, VarDecl } from '../wgsl/ast';
+import { evaluateConstant, findFragmentEntry } from '../wgsl/interpreter';
+import { lineColumn } from '../wgsl/lexer';
+import { parse } from '../wgsl/parser';
+import { TypeInfo, checkModule } from '../wgsl/typeChecker';
+import {
+  ScalarKind,
+  UNKNOWN,
+  WgslType,
+  concretize,
+  isFloatScalar,
+  isIntScalar,
+  matrix,
+  resolveTypeName,
+  scalar,
+  scalarOf,
+  vector,
+} from '../wgsl/typeSystem';
+
+/**
+ * WGSL TO GLSL
+ *
+ * Translates a fragment shader, helper library included, to GLSL ES 3.0 in
+ * Shadertoy's form: one `mainImage(out vec4, in vec2)` per pass, the
+ * uniforms read as Shadertoy's `iTime`, `iResolution`, `iMouse`, ... and
+ * the entry point's `uv` computed from `fragCoord`. Only the declarations
+ * the entry point reaches are emitted, each after everything it uses, as
+ * GLSL wants.
+ *
+ * GLSL ES has no abstract numbers or implicit conversions, so every
+ * expression is emitted with the scalar type its context settles it to:
+ * the `1` in `x * 1` becomes `1.0` when `x` is a float and `1u` when it
+ * is a `u32`. Constructs without an equivalent (compute and vertex stages,
+ * pointers in variables, most bit builtins) are collected as issues and
+ * reported together in a `GlslExportError`.
+ */
+
+/** A texture a pass reads, bound to one of Shadertoy's iChannel inputs. */
+export interface ShadertoyChannel {
+  slot: number;                // iChannel0-3
+  input: string;               // Standard binding name: `channel0`, `buffer_a`, ...
+  sampler: SamplerMode | null; // How the pass samples it; null if it only loads texels
+}
+
+export interface ShadertoyPass {
+  name: string; // Pass name, as in `renderGraph`
+  tab: string;  // Shadertoy's name for the tab the code goes in
+  code: string; // The GLSL, ending in `mainImage`
+  channels: ShadertoyChannel[];
+}
+
+export interface ShadertoyExport {
+  passes: ShadertoyPass[]; // Buffers first, the image pass last
+  notes: string[];         // Differences worth knowing about that do not stop the export
+}
+
+/** A shader that cannot be translated; `issues` lists every construct in the way. */
+export class GlslExportError extends Error {
+  constructor(readonly issues: string[]) {
+    super(issues.length === 1 ? issues[0] : `${issues.length} problems stop the GLSL export:\n${issues.join('\n')}`);
+    this.name = 'GlslExportError';
+  }
+}
+
+// Shadertoy offers four input channels per pass
+const MAX_CHANNELS = 4;
+
+const TAB_NAMES: Record<string, string> = {
+  buffer_a: 'Buffer A',
+  buffer_b: 'Buffer B',
+  buffer_c: 'Buffer C',
+  buffer_d: 'Buffer D',
+  image: 'Image',
+};
+
+const ENTRY_NAME = 'fragment_main';
+const MOD_HELPER = 'wgsl_mod';
+const MOUSE_HELPER = 'wgsl_mouse';
+
+// -- Names --
+
+// GLSL ES 3.0 keywords and reserved words, builtins WGSL does not have, and Shadertoy's inputs
+const RESERVED = new Set([
+  'attribute', 'const', 'uniform', 'varying', 'layout', 'centroid', 'flat', 'smooth', 'noperspective', 'break', 'continue',
+  'do', 'for', 'while', 'switch', 'case', 'default', 'if', 'else', 'in', 'out', 'inout', 'float', 'int', 'uint', 'void', 'bool',
+  'true', 'false', 'invariant', 'discard', 'return', 'lowp', 'mediump', 'highp', 'precision', 'struct',
+  'mat2', 'mat3', 'mat4', 'mat2x2', 'mat2x3', 'mat2x4', 'mat3x2', 'mat3x3', 'mat3x4', 'mat4x2', 'mat4x3', 'mat4x4',
+  'vec2', 'vec3', 'vec4', 'ivec2', 'ivec3', 'ivec4', 'uvec2', 'uvec3', 'uvec4', 'bvec2', 'bvec3', 'bvec4',
+  'sampler2D', 'sampler3D', 'samplerCube', 'sampler2DShadow', 'samplerCubeShadow', 'sampler2DArray', 'sampler2DArrayShadow',
+  'isampler2D', 'isampler3D', 'isamplerCube', 'isampler2DArray', 'usampler2D', 'usampler3D', 'usamplerCube', 'usampler2DArray',
+  'coherent', 'volatile', 'restrict', 'readonly', 'writeonly', 'resource', 'atomic_uint', 'patch', 'sample', 'subroutine',
+  'common', 'partition', 'active', 'asm', 'class', 'union', 'enum', 'typedef', 'template', 'this', 'goto', 'inline', 'noinline',
+  'public', 'static', 'extern', 'external', 'interface', 'long', 'short', 'double', 'half', 'fixed', 'unsigned', 'superp',
+  'input', 'output', 'hvec2', 'hvec3', 'hvec4', 'dvec2', 'dvec3', 'dvec4', 'fvec2', 'fvec3', 'fvec4', 'filter', 'sizeof',
+  'cast', 'namespace', 'using',
+  'texture', 'textureOffset', 'textureLod', 'textureLodOffset', 'textureGrad', 'textureGradOffset', 'textureProj', 'texelFetch',
+  'textureSize', 'mod', 'inversesqrt', 'dFdx', 'dFdy', 'roundEven', 'faceforward', 'lessThan', 'lessThanEqual', 'greaterThan',
+  'greaterThanEqual', 'equal', 'notEqual', 'not', 'isnan', 'isinf', 'inverse', 'outerProduct', 'matrixCompMult',
+  'floatBitsToInt', 'floatBitsToUint', 'intBitsToFloat', 'uintBitsToFloat', 'packHalf2x16', 'unpackHalf2x16',
+  'packUnorm2x16', 'unpackUnorm2x16', 'packSnorm2x16', 'unpackSnorm2x16',
+  'main', 'mainImage', 'fragColor', 'fragCoord', 'iResolution', 'iTime', 'iTimeDelta', 'iFrame', 'iFrameRate', 'iMouse',
+  'iDate', 'iSampleRate', 'iChannel0', 'iChannel1', 'iChannel2', 'iChannel3', 'iChannelTime', 'iChannelResolution',
+  ENTRY_NAME, MOD_HELPER, MOUSE_HELPER,
+]);
+
+/** A WGSL name GLSL accepts: reserved words gain a trailing `_`, and `__` (reserved in GLSL) collapses. */
+const glslName = (name: string): string => {
+  if (RESERVED.has(name)) return `${name}_`;
+  if (name.startsWith('gl_') || name.includes('__')) return `x_${name.replace(/_{2,}/g, '_')}`;
+  return name;
+};
+
+// -- Types --
+
+const scalarName = (s: ScalarKind): string =>
+  isFloatScalar(s) ? 'float' : s === 'u32' ? 'uint' : s === 'bool' ? 'bool' : 'int';
+
+const VECTOR_PREFIX: Record<string, string> = { float: '', int: 'i', uint: 'u', bool: 'b' };
+
+/** Resolves abstract scalars to `want` where it can hold them, else to their defaults. */
+const settle = (s: ScalarKind, want: ScalarKind | null): ScalarKind => {
+  if (s === 'abstract-int') return want && want !== 'bool' ? want : 'i32';
+  if (s === 'abstract-float') return want && isFloatScalar(want) ? want : 'f32';
+  return s;
+};
+
+const settleType = (t: WgslType, want: ScalarKind | null): WgslType => {
+  if (t.kind === 'scalar') return scalar(settle(t.scalar, want));
+  if (t.kind === 'vector') return vector(t.size, settle(t.scalar, want));
+  if (t.kind === 'matrix') return matrix(t.cols, t.rows, settle(t.scalar, want));
+  if (t.kind === 'array') return { ...t, element: settleType(t.element, want) };
+  return t;
+};
+
+/** The concrete scalar of `t`, or null for abstract, composite and unknown types. */
+const concreteScalar = (t: WgslType): ScalarKind | null => {
+  const s = scalarOf(t);
+  return s && s !== 'abstract-int' && s !== 'abstract-float' ? s : null;
+};
+
+const isAbstract = (t: WgslType): boolean => {
+  const s = scalarOf(t);
+  return s === 'abstract-int' || s === 'abstract-float';
+};
+
+// -- Output --
+
+interface Out {
+  text: string;
+  prec: number; // Binding strength: operators bind looser the lower it is
+}
+
+// C precedence; atoms and postfix expressions bind tightest
+const TERNARY = 1;
+const GLSL_PRECEDENCE: Record<string, number> = {
+  '||': 2, '^^': 3, '&&': 4, '|': 5, '^': 6, '&': 7,
+  '==': 8, '!=': 8, '<': 9, '>': 9, '<=': 9, '>=': 9,
+  '<<': 10, '>>': 10, '+': 11, '-': 11, '*': 12, '/': 12, '%': 12,
+};
+const UNARY = 13;
+const ATOM = 14;
+
+const atom = (text: string): Out => ({ text, prec: ATOM });
+const wrap = (out: Out, min: number): string => (out.prec < min ? `(${out.text})` : out.text);
+const binary = (left: Out, op: string, right: Out): Out => {
+  const prec = GLSL_PRECEDENCE[op];
+  return { text: `${wrap(left, prec)} ${op} ${wrap(right, prec + 1)}`, prec };
+};
+
+const INDENT = '    ';
+
+const VECTOR_COMPARISONS: Record<string, string> = {
+  '<': 'lessThan', '<=': 'lessThanEqual', '>': 'greaterThan', '>=': 'greaterThanEqual', '==': 'equal', '!=': 'notEqual',
+};
+
+// WGSL builtins GLSL spells the same, or under another name
+const SAME_BUILTINS = new Set([
+  'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'sinh', 'cosh', 'tanh', 'asinh', 'acosh', 'atanh', 'exp', 'exp2', 'log', 'log2',
+  'sqrt', 'fract', 'floor', 'ceil', 'trunc', 'degrees', 'radians', 'fwidth', 'abs', 'sign', 'pow', 'step', 'min', 'max',
+  'clamp', 'smoothstep', 'mix', 'length', 'distance', 'dot', 'cross', 'normalize', 'reflect', 'refract', 'any', 'all',
+  'determinant', 'transpose',
+]);
+const RENAMED_BUILTINS: Record<string, string> = {
+  inverseSqrt: 'inversesqrt', atan2: 'atan', round: 'roundEven', faceForward: 'faceforward',
+  dpdx: 'dFdx', dpdxCoarse: 'dFdx', dpdxFine: 'dFdx', dpdy: 'dFdy', dpdyCoarse: 'dFdy', dpdyFine: 'dFdy',
+  fwidthCoarse: 'fwidth', fwidthFine: 'fwidth',
+  pack2x16float: 'packHalf2x16', unpack2x16float: 'unpackHalf2x16', pack2x16unorm: 'packUnorm2x16',
+  unpack2x16unorm: 'unpackUnorm2x16', pack2x16snorm: 'packSnorm2x16', unpack2x16snorm: 'unpackSnorm2x16',
+};
+// Texture builtins and what they become; the sampler argument is dropped
+const SAMPLING_BUILTINS: Record<string, [string, string]> = {
+  textureSample: ['texture', 'textureOffset'],
+  textureSampleBias: ['texture', 'textureOffset'],
+  textureSampleLevel: ['textureLod', 'textureLodOffset'],
+  textureSampleGrad: ['textureGrad', 'textureGradOffset'],
+};
+
+const intAttr = (attrs: Attribute[], name: string): number | null => {
+  const arg = attrs.find(a => a.name === name)?.args[0];
+  return arg && arg.kind === 'Literal' ? parseInt(arg.text, 10) : null;
+};
+
+const builtinAttr = (attrs: Attribute[]): string | null => {
+  const arg = attrs.find(a => a.name === 'builtin')?.args[0];
+  return arg && arg.kind === 'Ident' ? arg.name : null;
+};
+
+// -- Passes --
+
+interface FunctionContext {
+  result: WgslType | null;
+  loops: (Block | null)[]; // Continuing block of each enclosing loop, innermost last
+}
+
+/** Translates one pass. Issues accumulate instead of throwing, so one export reports them all. */
+class PassTranslator {
+  readonly issues: string[] = [];
+  readonly notes = new Set<string>();
+  readonly channels: ShadertoyChannel[] = [];
+  private readonly out: string[] = [];
+  private readonly decls = new Map<string, Decl>();
+  private readonly bindings = new Map<string, ShaderBinding>(); // By declared name
+  private readonly structs = new Map<string, StructDecl>();
+  private readonly emitted = new Set<string>();
+  private scopes: Map<string, string>[] = [];
+  private fn: FunctionContext | null = null;
+  private readonly helpers = new Set<string>();
+  private fresh = 0;
+
+  constructor(
+    private readonly module: Module,
+    private readonly info: TypeInfo,
+    private readonly pass: string,
+    private readonly source: string, // The pass's code, for line numbers
+  ) {
+    for (const decl of module.decls) {
+      if (decl.kind === 'Directive' || decl.kind === 'ConstAssert') continue;
+      this.decls.set(decl.name, decl);
+      if (decl.kind === 'Struct') this.structs.set(decl.name, decl);
+      if (decl.kind === 'VarDecl' && intAttr(decl.attrs, 'group') === 0) {
+        const binding = SHADER_BINDINGS.find(b => b.binding === intAttr(decl.attrs, 'binding'));
+        if (binding) this.bindings.set(decl.name, binding);
+      }
+    }
+  }
+
+  private issue(node: Node, message: string): void {
+    const offset = (node.range?.start ?? 0) - WGSL_PREAMBLE.length;
+    const where = offset >= 0 ? `Line ${lineColumn(this.source, offset).line}: ` : '';
+    const text = where + message;
+    if (!this.issues.includes(text)) this.issues.push(text);
+  }
+
+  private typeOf(expr: Expr): WgslType {
+    return this.info.types.get(expr) ?? UNKNOWN;
+  }
+
+  // -- Types --
+
+  private resolve(ref: TypeRef): WgslType {
+    const alias = this.decls.get(ref.name);
+    if (alias?.kind === 'Alias') return this.resolve(alias.type);
+    const struct = this.structs.get(ref.name);
+    if (struct) return { kind: 'struct', name: struct.name, members: struct.members.map(m => ({ name: m.name, type: this.resolve(m.type) })) };
+    if (ref.name === 'ptr') {
+      const stored = ref.args[1];
+      return stored?.kind === 'Type' ? this.resolve(stored) : UNKNOWN;
+    }
+    if (ref.name === 'array') {
+      const element = ref.args[0]?.kind === 'Type' ? this.resolve(ref.args[0] as TypeRef) : UNKNOWN;
+      const size = ref.args[1];
+      // A constant's name in a template parses as a type
+      const length = !size ? null : size.kind === 'Type' ? this.constantNamed(size.name) : this.constantInt(size);
+      return { kind: 'array', element, length };
+    }
+    return resolveTypeName(ref.name, ref.args.map(a => (a.kind === 'Type' ? this.resolve(a) : null))) ?? UNKNOWN;
+  }
+
+  /** Value of an array size: a literal, or a module constant that evaluates to one. */
+  private constantInt(expr: Expr): number | null {
+    if (expr.kind === 'Ident') return this.constantNamed(expr.name);
+    const value = evaluateConstant(expr);
+    return value?.kind === 'scalar' ? value.x : null;
+  }
+
+  private constantNamed(name: string): number | null {
+    const decl = this.decls.get(name);
+    return decl?.kind === 'VarDecl' && decl.init ? this.constantInt(decl.init) : null;
+  }
+
+  private glslType(t: WgslType, node: Node): string {
+    switch (t.kind) {
+      case 'scalar': return scalarName(t.scalar);
+      case 'vector': return `${VECTOR_PREFIX[scalarName(t.scalar)]}vec${t.size}`;
+      case 'matrix': return t.cols === t.rows ? `mat${t.cols}` : `mat${t.cols}x${t.rows}`;
+      case 'array':
+        if (t.element.kind === 'array') this.issue(node, 'GLSL ES 3.0 has no arrays of arrays');
+        if (t.length === null) this.issue(node, 'Runtime-sized arrays have no GLSL equivalent');
+        return `${this.glslType(t.element, node)}[${t.length ?? 1}]`;
+      case 'struct':
+        this.use(t.name);
+        return glslName(t.name);
+      case 'unknown':
+        this.issue(node, 'Cannot work out a GLSL type here');
+        return 'float';
+    }
+  }
+
+  private zeroValue(t: WgslType, node: Node): string {
+    switch (t.kind) {
+      case 'scalar': return t.scalar === 'bool' ? 'false' : this.literal('0', t.scalar);
+      case 'vector':
+      case 'matrix':
+        return `${this.glslType(t, node)}(${this.zeroValue(scalar(t.scalar), node)})`;
+      case 'array':
+        return `${this.glslType(t, node)}(${Array.from({ length: t.length ?? 1 }, () => this.zeroValue(t.element, node)).join(', ')})`;
+      case 'struct':
+        return `${this.glslType(t, node)}(${t.members.map(m => this.zeroValue(m.type, node)).join(', ')})`;
+      case 'unknown':
+        return this.glslType(t, node);
+    }
+  }
+
+  // -- Scopes --
+
+  private lookup(name: string): string | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const local = this.scopes[i].get(name);
+      if (local) return local;
+    }
+    return undefined;
+  }
+
+  /**
+   * Declares a local. GLSL puts a name in scope within its own initializer,
+   * so a local shadowing another name gets a fresh one.
+   */
+  private bind(name: string): string {
+    const shadows = this.lookup(name) !== undefined || this.decls.has(name);
+    const local = shadows ? `${glslName(name)}_${++this.fresh}` : glslName(name);
+    this.scopes[this.scopes.length - 1].set(name, local);
+    return local;
+  }
+
+  private withScope<T>(fn: () => T): T {
+    this.scopes.push(new Map());
+    try {
+      return fn();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  // -- Declarations --
+
+  /** Emits a module-scope declaration, after everything it uses. */
+  private use(name: string): void {
+    if (this.emitted.has(name)) return;
+    const decl = this.decls.get(name);
+    if (!decl) return;
+    this.emitted.add(name);
+    // Declarations are emitted from inside others; each gets a clean context
+    const [scopes, fn] = [this.scopes, this.fn];
+    this.scopes = [];
+    this.fn = null;
+    try {
+      const text = this.declaration(decl);
+      if (text) this.out.push(text);
+    } finally {
+      this.scopes = scopes;
+      this.fn = fn;
+    }
+  }
+
+  private declaration(decl: Decl): string | null {
+    switch (decl.kind) {
+      case 'Struct': {
+        const members = decl.members.map(m => `${INDENT}${this.glslType(this.resolve(m.type), m)} ${glslName(m.name)};`);
+        return `struct ${glslName(decl.name)} {\n${members.join('\n')}\n};`;
+      }
+      case 'VarDecl':
+        return this.globalVar(decl);
+      case 'Function':
+        return this.function(decl, glslName(decl.name));
+      default:
+        return null;
+    }
+  }
+
+  private globalVar(decl: VarDecl): string | null {
+    if (decl.keyword === 'var' && decl.template[0] && decl.template[0] !== 'private') {
+      this.issue(decl, `'var<${decl.template.join(', ')}> ${decl.name}' has no Shadertoy equivalent`);
+      return null;
+    }
+    if (decl.keyword === 'override' && !decl.init) {
+      this.issue(decl, `Override '${decl.name}' needs a default value to export`);
+      return null;
+    }
+    const type = decl.type ? this.resolve(decl.type) : concretize(decl.init ? this.typeOf(decl.init) : UNKNOWN);
+    const init = decl.init ? this.expr(decl.init, scalarOf(type)).text : this.zeroValue(type, decl);
+    const qualifier = decl.keyword === 'var' ? '' : 'const ';
+    return `${qualifier}${this.glslType(type, decl)} ${glslName(decl.name)} = ${init};`;
+  }
+
+  private function(fn: FunctionDecl, name: string): string {
+    if (fn.attrs.some(a => a.name === 'vertex' || a.name === 'compute')) {
+      this.issue(fn, `Only fragment stages can be exported; '${fn.name}' is a ${fn.attrs.some(a => a.name === 'vertex') ? 'vertex' : 'compute'} stage`);
+    }
+    const result = fn.returnType ? this.resolve(fn.returnType) : null;
+    this.fn = { result, loops: [] };
+    return this.withScope(() => {
+      const params = fn.params.map(p => {
+        const type = this.resolve(p.type);
+        if (/^(?:texture_\w+|sampler\w*)$/.test(p.type.name)) this.issue(p, `Texture and sampler parameters ('${p.name}') have no Shadertoy equivalent`);
+        const qualifier = p.type.name === 'ptr' ? 'inout ' : '';
+        return `${qualifier}${this.glslType(type, p)} ${this.bind(p.name)}`;
+      });
+      const returns = result ? this.glslType(result, fn) : 'void';
+      return `${returns} ${name}(${params.join(', ')}) ${this.block(fn.body, '')}`;
+    });
+  }
+
+  // -- Statements --
+
+  private block(block: Block, indent: string): string {
+    return this.withScope(() => this.braced(block.stmts, indent));
+  }
+
+  private braced(stmts: Stmt[], indent: string): string {
+    const inner = indent + INDENT;
+    const lines = stmts.map(s => this.statement(s, inner)).filter(line => line !== '');
+    return lines.length ? `{\n${lines.map(line => inner + line).join('\n')}\n${indent}}` : '{}';
+  }
+
+  /** A statement without its trailing semicolon, for `for` headers. */
+  private headerStatement(stmt: Stmt | null): string {
+    return stmt ? this.statement(stmt, '').replace(/;$/, '') : '';
+  }
+
+  private condition(expr: Expr): string {
+    const cond = expr.kind === 'Paren' ? expr.expr : expr;
+    return this.expr(cond, 'bool').text;
+  }
+
+  private statement(stmt: Stmt, indent: string): string {
+    const fn = this.fn!;
+    switch (stmt.kind) {
+      case 'Block':
+        return this.block(stmt, indent);
+      case 'VarDecl':
+        return this.localVar(stmt);
+      case 'Assign': {
+        if (stmt.target.kind === 'Ident' && stmt.target.name === '_') return `${this.expr(stmt.value, null).text};`;
+        const targetType = this.typeOf(stmt.target);
+        const want = concreteScalar(targetType);
+        const target = this.expr(stmt.target, want).text;
+        if (stmt.op === '%=' && want && isFloatScalar(want)) {
+          return `${target} = ${this.mod(stmt.target, stmt.value, targetType, targetType).text};`;
+        }
+        if ((stmt.op === '&=' || stmt.op === '|=' || stmt.op === '^=') && want === 'bool') {
+          const op = stmt.op === '&=' ? '&&' : stmt.op === '|=' ? '||' : '^^';
+          return `${target} = ${binary(atom(target), op, this.expr(stmt.value, 'bool')).text};`;
+        }
+        return `${target} ${stmt.op} ${this.expr(stmt.value, want).text};`;
+      }
+      case 'IncDec':
+        return `${this.expr(stmt.target, null).text}${stmt.op};`;
+      case 'Return':
+        return stmt.value ? `return ${this.expr(stmt.value, fn.result ? concreteScalar(fn.result) : null).text};` : 'return;';
+      case 'If': {
+        const head = `if (${this.condition(stmt.cond)}) ${this.block(stmt.then, indent)}`;
+        return stmt.otherwise ? `${head} else ${this.statement(stmt.otherwise, indent)}` : head;
+      }
+      case 'For':
+        return this.withScope(() => {
+          const init = this.headerStatement(stmt.init);
+          const cond = stmt.cond ? ` ${this.condition(stmt.cond)}` : '';
+          const update = stmt.update ? ` ${this.headerStatement(stmt.update)}` : '';
+          return `for (${init};${cond};${update}) ${this.loopBody(stmt.body, null, indent)}`;
+        });
+      case 'While':
+        return `while (${this.condition(stmt.cond)}) ${this.loopBody(stmt.body, null, indent)}`;
+      case 'Loop': {
+        const last = stmt.body.stmts[stmt.body.stmts.length - 1];
+        const continuing = last?.kind === 'Continuing' ? last.body : null;
+        return `for (;;) ${this.loopBody(stmt.body, continuing, indent)}`;
+      }
+      case 'Continuing':
+        // The end of the loop body: the continuing statements run there, in the body's scope
+        return this.continuing(stmt.body, indent);
+      case 'BreakIf':
+        return `if (${this.condition(stmt.cond)}) break;`;
+      case 'Switch': {
+        const selectorType = this.typeOf(stmt.selector);
+        const want = settle(scalarOf(selectorType) ?? 'abstract-int', null);
+        const inner = indent + INDENT;
+        const clauses = stmt.clauses.map(clause => {
+          const labels = clause.selectors.map(s => (s ? `case ${this.expr(s, want).text}:` : 'default:')).join(' ');
+          const body = this.withScope(() => this.braced([...clause.body.stmts, { kind: 'Break', range: null, slot: null, arity: 0 }], inner));
+          return `${inner}${labels} ${body}`;
+        });
+        const selector = stmt.selector.kind === 'Paren' ? stmt.selector.expr : stmt.selector;
+        return `switch (${this.expr(selector, want).text}) {\n${clauses.join('\n')}\n${indent}}`;
+      }
+      case 'Break':
+        return 'break;';
+      case 'Continue': {
+        const continuing = fn.loops[fn.loops.length - 1];
+        if (!continuing) return 'continue;';
+        // A `continue` runs the continuing block before the next iteration
+        const inner = indent + INDENT;
+        const lines = this.withScope(() => this.continuing(continuing, inner));
+        return `{\n${inner}${lines ? `${lines}\n${inner}` : ''}continue;\n${indent}}`;
+      }
+      case 'Discard':
+        return 'discard;';
+      case 'Empty':
+      case 'ConstAssert':
+        return '';
+      case 'CallStmt':
+        return `${this.call(stmt.call, null).text};`;
+    }
+  }
+
+  private loopBody(body: Block, continuing: Block | null, indent: string): string {
+    const fn = this.fn!;
+    fn.loops.push(continuing);
+    try {
+      return this.block(body, indent);
+    } finally {
+      fn.loops.pop();
+    }
+  }
+
+  /** The statements of a continuing block, one per line at `indent`. */
+  private continuing(body: Block, indent: string): string {
+    return body.stmts.map(s => this.statement(s, indent)).filter(line => line !== '').join(`\n${indent}`);
+  }
+
+  private localVar(decl: VarDecl): string {
+    if (decl.init?.kind === 'Unary' && decl.init.op === '&') {
+      this.issue(decl, `GLSL has no pointers; '${decl.name}' holds one`);
+    }
+    const type = decl.type ? this.resolve(decl.type) : concretize(decl.init ? this.typeOf(decl.init) : UNKNOWN);
+    const init = decl.init ? this.expr(decl.init, concreteScalar(type)).text : this.zeroValue(type, decl);
+    const glslType = this.glslType(type, decl);
+    const qualifier = decl.keyword === 'const' ? 'const ' : '';
+    return `${qualifier}${glslType} ${this.bind(decl.name)} = ${init};`;
+  }
+
+  // -- Expressions --
+
+  /**
+   * `expr` as GLSL. Abstract values take the scalar type `want` when they
+   * can, as WGSL would convert them in this context.
+   */
+  private expr(expr: Expr, want: ScalarKind | null): Out {
+    const type = this.typeOf(expr);
+    switch (expr.kind) {
+      case 'Literal':
+        return atom(this.literal(expr.text, settle(scalarOf(type) ?? 'abstract-int', want), expr));
+      case 'Paren':
+        return atom(`(${this.expr(expr.expr, want).text})`);
+      case 'Ident': {
+        const out = this.ident(expr);
+        // Abstract constants used where a concrete type is expected need an explicit conversion
+        if (isAbstract(type) && want && settle(scalarOf(type)!, want) !== settle(scalarOf(type)!, null)) {
+          return atom(`${this.glslType(settleType(type, want), expr)}(${out.text})`);
+        }
+        return out;
+      }
+      case 'Unary': {
+        if (expr.op === '&' || expr.op === '*') return this.expr(expr.operand, want);
+        const operand = this.expr(expr.operand, want);
+        if (expr.op === '!' && type.kind === 'vector') return atom(`not(${operand.text})`);
+        return { text: `${expr.op}${wrap(operand, ATOM)}`, prec: UNARY };
+      }
+      case 'Binary':
+        return this.binaryExpr(expr, type, want);
+      case 'Member': {
+        const objectType = this.typeOf(expr.object);
+        const object = wrap(this.expr(expr.object, want), ATOM);
+        return atom(`${object}.${objectType.kind === 'struct' ? glslName(expr.member) : expr.member}`);
+      }
+      case 'Index':
+        return atom(`${wrap(this.expr(expr.object, want), ATOM)}[${this.expr(expr.index, null).text}]`);
+      case 'Call':
+        return this.call(expr, want);
+    }
+  }
+
+  private literal(text: string, s: ScalarKind, node?: Node): string {
+    if (text === 'true' || text === 'false') return text;
+    const hex = /^0[xX]/.test(text);
+    if (hex && /[pP]/.test(text)) {
+      if (node) this.issue(node, `Hexadecimal float '${text}' has no GLSL equivalent`);
+      return '0.0';
+    }
+    const digits = hex ? text.replace(/[iu]$/, '') : text.replace(/[fhiu]$/, '');
+    const integral = hex || /^\d+$/.test(digits);
+    if (isFloatScalar(s)) return integral ? `${hex ? parseInt(digits, 16) : digits}.0` : digits;
+    return s === 'u32' ? `${digits}u` : digits;
+  }
+
+  private ident(expr: Expr & { kind: 'Ident' }): Out {
+    const local = this.lookup(expr.name);
+    if (local) return atom(local);
+    const binding = this.bindings.get(expr.name);
+    if (binding) return this.uniform(binding, expr);
+    this.use(expr.name);
+    return atom(glslName(expr.name));
+  }
+
+  /** A uniform read as Shadertoy's inputs. */
+  private uniform(binding: ShaderBinding, node: Node): Out {
+    switch (binding.name) {
+      case 'time': return atom('iTime');
+      case 'resolution': return atom('iResolution.xy');
+      case 'time_delta': return atom('iTimeDelta');
+      case 'frame': return atom('uint(iFrame)');
+      case 'aspect': return atom('(iResolution.x / iResolution.y)');
+      case 'date':
+        this.notes.add('Shadertoy counts months from 0; the export adds 1 so `date.y` still runs 1-12.');
+        return atom('(iDate + vec4(0.0, 1.0, 0.0, 0.0))');
+      case 'mouse':
+        this.notes.add('Shadertoy only tracks the pointer while a button is held, and has no time of the last press: `mouse.w` reads 0.');
+        this.helpers.add(MOUSE_HELPER);
+        return atom(`${MOUSE_HELPER}()`);
+      default:
+        this.issue(node, `'${binding.name}' can only be passed to texture builtins`);
+        return atom(binding.name);
+    }
+  }
+
+  private binaryExpr(expr: Expr & { kind: 'Binary' }, type: WgslType, want: ScalarKind | null): Out {
+    const leftType = this.typeOf(expr.left);
+    const rightType = this.typeOf(expr.right);
+    const op = expr.op;
+
+    if (op === '&&' || op === '||') return binary(this.expr(expr.left, 'bool'), op, this.expr(expr.right, 'bool'));
+
+    if (VECTOR_COMPARISONS[op]) {
+      // Both sides meet at one type, which decides what abstract literals become
+      const meet = concreteScalar(leftType) ?? concreteScalar(rightType)
+        ?? (scalarOf(leftType) === 'abstract-float' || scalarOf(rightType) === 'abstract-float' ? 'f32' : 'i32');
+      const left = this.expr(expr.left, meet);
+      const right = this.expr(expr.right, meet);
+      return type.kind === 'vector' ? atom(`${VECTOR_COMPARISONS[op]}(${left.text}, ${right.text})`) : binary(left, op, right);
+    }
+
+    const settled = settleType(type, want);
+    const s = scalarOf(settled);
+    if (op === '<<' || op === '>>') return binary(this.expr(expr.left, s), op, this.expr(expr.right, 'u32'));
+
+    if (op === '&' || op === '|' || op === '^') {
+      if (s === 'bool') {
+        if (type.kind === 'vector') this.issue(expr, `'${op}' on boolean vectors has no GLSL equivalent`);
+        return binary(this.expr(expr.left, 'bool'), op === '&' ? '&&' : op === '|' ? '||' : '^^', this.expr(expr.right, 'bool'));
+      }
+      return binary(this.expr(expr.left, s), op, this.expr(expr.right, s));
+    }
+
+    if (op === '%' && s && isFloatScalar(s)) return this.mod(expr.left, expr.right, leftType, rightType, s, settled);
+    return binary(this.expr(expr.left, s), op, this.expr(expr.right, s));
+  }
+
+  /**
+   * WGSL's float `%` truncates, unlike GLSL's `mod`, so it goes through a
+   * helper. A scalar operand next to a vector is splatted to match.
+   */
+  private mod(left: Expr, right: Expr, leftType: WgslType, rightType: WgslType, s: ScalarKind = 'f32', settled?: WgslType): Out {
+    this.helpers.add(MOD_HELPER);
+    const resultType = settled ?? settleType(leftType, s);
+    const operand = (e: Expr, t: WgslType) => {
+      const text = this.expr(e, s).text;
+      return t.kind === 'scalar' && resultType.kind === 'vector' ? `${this.glslType(resultType, e)}(${text})` : text;
+    };
+    return atom(`${MOD_HELPER}(${operand(left, leftType)}, ${operand(right, rightType)})`);
+  }
+
+  // -- Calls --
+
+  private call(call: CallExpr, want: ScalarKind | null): Out {
+    const name = call.callee.name;
+    const type = this.typeOf(call);
+
+    const fn = this.lookup(name) ? undefined : this.decls.get(name);
+    if (fn?.kind === 'Function') {
+      this.use(name);
+      const params = this.info.functions.get(name)?.params ?? [];
+      return atom(`${glslName(name)}(${call.args.map((a, i) => this.expr(a, params[i] ? concreteScalar(params[i]) : null).text).join(', ')})`);
+    }
+
+    if (this.structs.has(name) || fn?.kind === 'Alias' || resolveTypeName(name, []) !== null) return this.construct(call, type, want);
+    return this.builtin(call, type, want);
+  }
+
+  private construct(call: CallExpr, type: WgslType, want: ScalarKind | null): Out {
+    let target = settleType(type, want);
+    // `array(a, b)` leaves its element type to the arguments
+    if (target.kind === 'array' && (target.element.kind === 'unknown' || target.length === null) && call.args.length > 0) {
+      target = { kind: 'array', element: settleType(this.typeOf(call.args[0]), want), length: call.args.length };
+    }
+    if (call.args.length === 0) return atom(this.zeroValue(target, call));
+
+    const argWant = (i: number): ScalarKind | null => {
+      if (target.kind === 'struct') return concreteScalar(target.members[i]?.type ?? UNKNOWN);
+      if (target.kind === 'array') return concreteScalar(target.element);
+      return concreteScalar(target);
+    };
+    // Scalar, vector and matrix constructors convert, so an abstract constant can go in as it is
+    const converts = target.kind === 'scalar' || target.kind === 'vector' || target.kind === 'matrix';
+    const args = call.args.map((a, i) => this.expr(a, converts && a.kind === 'Ident' ? null : argWant(i)).text);
+    return atom(`${this.glslType(target, call)}(${args.join(', ')})`);
+  }
+
+  /** The texture binding an argument names, as the iChannel it is bound to. */
+  private channel(arg: Expr | undefined, sampler: Expr | null, call: CallExpr): string {
+    const binding = arg?.kind === 'Ident' && !this.lookup(arg.name) ? this.bindings.get(arg.name) : undefined;
+    if (!binding || binding.resource !== 'texture') {
+      this.issue(call, `'${call.callee.name}' must read a channel or buffer binding directly to export`);
+      return 'iChannel0';
+    }
+    if (binding.name === IMAGE_PASS) {
+      this.issue(call, "Shadertoy's Image tab cannot be read back by any pass");
+    }
+
+    let channel = this.channels.find(c => c.input === binding.name);
+    if (!channel) {
+      if (this.channels.length === MAX_CHANNELS) this.issue(call, `Shadertoy passes read at most ${MAX_CHANNELS} textures`);
+      channel = { slot: this.channels.length, input: binding.name, sampler: null };
+      this.channels.push(channel);
+    }
+
+    const samplerBinding = sampler?.kind === 'Ident' && !this.lookup(sampler.name) ? this.bindings.get(sampler.name) : undefined;
+    if (sampler && !samplerBinding?.sampler) {
+      this.issue(call, `'${call.callee.name}' must use a sampler binding directly to export`);
+    } else if (samplerBinding?.sampler) {
+      const mode = samplerBinding.sampler;
+      if (!channel.sampler) channel.sampler = mode;
+      else if (channel.sampler.filter !== mode.filter || channel.sampler.address !== mode.address) {
+        this.notes.add(`${TAB_NAMES[this.pass]} samples ${binding.name} with several samplers; Shadertoy channels have one, so iChannel${channel.slot} uses the first.`);
+      }
+    }
+    return `iChannel${channel.slot}`;
+  }
+
+  private builtin(call: CallExpr, type: WgslType, want: ScalarKind | null): Out {
+    const name = call.callee.name;
+    const argTypes = call.args.map(a => this.typeOf(a));
+    // Abstract arguments take the type of the first concrete one, as overload resolution would
+    const common = argTypes.map(concreteScalar).find(s => s !== null && s !== 'bool')
+      ?? concreteScalar(settleType(type, want));
+    const args = (wants: (ScalarKind | null)[] = []) =>
+      call.args.map((a, i) => this.expr(a, i < wants.length ? wants[i] : common).text);
+
+    if (SAME_BUILTINS.has(name)) {
+      if (name === 'dot' && isIntScalar(scalarOf(argTypes[0]))) this.issue(call, 'GLSL ES 3.0 has no integer `dot`');
+      return atom(`${name}(${args().join(', ')})`);
+    }
+    if (RENAMED_BUILTINS[name]) return atom(`${RENAMED_BUILTINS[name]}(${args().join(', ')})`);
+
+    const sampling = SAMPLING_BUILTINS[name];
+    if (sampling) {
+      const [texture, sampler, coords, ...rest] = call.args;
+      const channel = this.channel(texture, sampler ?? null, call);
+      const uv = this.expr(coords, 'f32').text;
+      // Offsets are integer vectors; biases, levels and gradients are floats
+      const extra = rest.map(e => this.expr(e, isIntScalar(scalarOf(this.typeOf(e))) && this.typeOf(e).kind === 'vector' ? 'i32' : 'f32').text);
+      const hasOffset = rest.length === ({ textureSample: 1, textureSampleBias: 2, textureSampleLevel: 2, textureSampleGrad: 3 } as Record<string, number>)[name];
+      // WGSL passes the offset last; GLSL's textureOffset wants it before the bias
+      const ordered = hasOffset && name === 'textureSampleBias' ? [extra[1], extra[0]] : extra;
+      return atom(`${hasOffset ? sampling[1] : sampling[0]}(${[channel, uv, ...ordered].join(', ')})`);
+    }
+
+    switch (name) {
+      case 'textureLoad': {
+        const [texture, coords, level] = call.args;
+        const channel = this.channel(texture, null, call);
+        const c = this.expr(coords, 'i32');
+        const ivec = concreteScalar(this.typeOf(coords)) === 'i32' ? c.text : `ivec2(${c.text})`;
+        const lvl = level ? this.expr(level, 'i32') : atom('0');
+        const lvlText = concreteScalar(level ? this.typeOf(level) : UNKNOWN) === 'u32' ? `int(${lvl.text})` : lvl.text;
+        return atom(`texelFetch(${channel}, ${ivec}, ${lvlText})`);
+      }
+      case 'textureDimensions': {
+        const [texture, level] = call.args;
+        const channel = this.channel(texture, null, call);
+        const lvl = level ? `int(${this.expr(level, 'i32').text})` : '0';
+        return atom(`uvec2(textureSize(${channel}, ${lvl}))`);
+      }
+      case 'saturate':
+        return atom(`clamp(${args()[0]}, 0.0, 1.0)`);
+      case 'fma': {
+        const [a, b, c] = call.args.map(arg => this.expr(arg, common));
+        return binary(binary(a, '*', b), '+', c);
+      }
+      case 'ldexp': {
+        const [e1, e2] = call.args;
+        const exponent = this.expr(e2, 'i32').text;
+        const floatType = this.glslType(settleType(this.typeOf(e1), 'f32'), call);
+        return binary(this.expr(e1, 'f32'), '*', atom(`exp2(${floatType}(${exponent}))`));
+      }
+      case 'select': {
+        const [f, t, cond] = call.args;
+        const ft = concreteScalar(argTypes[0]) ?? concreteScalar(argTypes[1]) ?? concreteScalar(settleType(type, want));
+        const falseValue = this.expr(f, ft);
+        const trueValue = this.expr(t, ft);
+        const c = this.expr(cond, 'bool');
+        if (argTypes[2].kind === 'vector') {
+          if (!ft || !isFloatScalar(ft)) this.issue(call, 'GLSL ES 3.0 can only select between float vectors by a boolean vector');
+          return atom(`mix(${falseValue.text}, ${trueValue.text}, ${c.text})`);
+        }
+        return { text: `${wrap(c, TERNARY + 1)} ? ${wrap(trueValue, TERNARY + 1)} : ${wrap(falseValue, TERNARY)}`, prec: TERNARY };
+      }
+      case 'bitcast': {
+        const target = call.callee.args[0]?.kind === 'Type' ? this.resolve(call.callee.args[0] as TypeRef) : UNKNOWN;
+        const to = scalarOf(target);
+        const from = concreteScalar(argTypes[0]) ?? settle(scalarOf(argTypes[0]) ?? 'abstract-int', null);
+        const value = this.expr(call.args[0], from).text;
+        if (from === to) return atom(`(${value})`);
+        const fn = isFloatScalar(from)
+          ? (to === 'u32' ? 'floatBitsToUint' : 'floatBitsToInt')
+          : isFloatScalar(to) ? (from === 'u32' ? 'uintBitsToFloat' : 'intBitsToFloat') : this.glslType(target, call);
+        return atom(`${fn}(${value})`);
+      }
+      default:
+        this.issue(call, BUILTIN_LIKE.test(name) ? `'${name}' has no GLSL ES 3.0 equivalent` : `Unknown function '${name}'`);
+        return atom(`${name}(${args().join(', ')})`);
+    }
+  }
+
+  // -- Entry point --
+
+  /** The pass's GLSL: every declaration the entry point reaches, then `mainImage`. */
+  translate(): string {
+    const entry = findFragmentEntry(this.module);
+    if (!entry) {
+      this.issue(this.module, 'No @fragment entry point');
+      return '';
+    }
+    this.emitted.add(entry.name);
+    this.out.push(this.function(entry, ENTRY_NAME));
+
+    const args = entry.params.map(p => {
+      const builtin = builtinAttr(p.attrs);
+      if (builtin === 'position') return 'vec4(fragCoord.x, iResolution.y - fragCoord.y, 0.0, 1.0)';
+      if (builtin === 'front_facing') return 'true';
+      if (builtin === 'sample_index') return '0u';
+      if (builtin === 'sample_mask') return '0xffffffffu';
+      if (intAttr(p.attrs, 'location') === 0 && !builtin) return 'fragCoord / iResolution.xy';
+      this.issue(p, `Entry point parameter '${p.name}' has no Shadertoy equivalent; only the uv at @location(0) and builtins are`);
+      return this.zeroValue(this.resolve(p.type), p);
+    });
+
+    let color = `${ENTRY_NAME}(${args.join(', ')})`;
+    let result = entry.returnType ? this.resolve(entry.returnType) : null;
+    if (result?.kind === 'struct') {
+      const struct = this.structs.get(result.name)!;
+      const member = struct.members.find(m => intAttr(m.attrs, 'location') === 0);
+      if (member) {
+        color += `.${glslName(member.name)}`;
+        result = this.resolve(member.type);
+      } else result = null;
+    }
+    if (!result || (result.kind !== 'scalar' && result.kind !== 'vector')) {
+      this.issue(entry, 'The entry point must return a colour at @location(0)');
+    } else {
+      const size = result.kind === 'vector' ? result.size : 1;
+      const padding = ['0.0', '0.0', '0.0', '1.0'].slice(size);
+      color = size === 4 && isFloatScalar(result.scalar) ? color : `vec4(${[color, ...padding].join(', ')})`;
+    }
+
+    const helpers = [...this.helpers].map(h => HELPERS[h]);
+    const main = `void mainImage(out vec4 fragColor, in vec2 fragCoord) {\n${INDENT}fragColor = ${color};\n}`;
+    return [...helpers, ...this.out, main].join('\n\n') + '\n';
+  }
+}
+
+const HELPERS: Record<string, string> = {
+  // Float `%` as WGSL defines it
+  [MOD_HELPER]: ['float', 'vec2', 'vec3', 'vec4'].map(t => `${t} ${MOD_HELPER}(${t} a, ${t} b) { return a - b * trunc(a / b); }`).join('\n'),
+  // The app's mouse uniform: pointer in UV space, 1 while a button is held
+  [MOUSE_HELPER]: `vec4 ${MOUSE_HELPER}() { return vec4(iMouse.xy / iResolution.xy, iMouse.z > 0.0 ? 1.0 : 0.0, 0.0); }`,
+};
+
+// Builtins WGSL has that GLSL ES 3.0 lacks, told apart from misspelt names
+const BUILTIN_LIKE = /^(?:texture\w*|atomic\w*|\w*Barrier|workgroupUniformLoad|arrayLength|pack\w+|unpack\w+|count\w+|first\w+Bit|extractBits|insertBits|reverseBits|frexp|modf|quantizeToF16|dot4\w+)$/;
+
+/** The comment heading a pass: its tab and the inputs to set up there. */
+const passHeader = (pass: ShadertoyPass): string => {
+  const lines = [`// ${pass.tab}`];
+  for (const channel of pass.channels) {
+    const input = TAB_NAMES[channel.input] ?? SHADER_BINDINGS.find(b => b.name === channel.input)?.doc ?? channel.input;
+    const sampler = channel.sampler
+      ? `filter ${channel.sampler.filter === 'nearest' ? 'nearest' : 'linear'}, wrap ${channel.sampler.address === 'clamp-to-edge' ? 'clamp' : 'repeat'}`
+      : 'any filter';
+    lines.push(`// iChannel${channel.slot}: ${input}; ${sampler}`);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Translates every pass of a fragment shader for Shadertoy. Throws
+ * `GlslExportError` listing everything that cannot be translated, and for
+ * compute shaders, custom vertex stages and code that does not parse.
+ */
+export const transpileToShadertoy = (fragmentCode: string): ShadertoyExport => {
+  if (isComputeSource(fragmentCode)) throw new GlslExportError(['Compute shaders have no Shadertoy equivalent']);
+  const layout = splitPasses(fragmentCode);
+  const { issues: geometryIssues } = parseGeometry(fragmentCode);
+  const issues = [...layout.issues, ...geometryIssues].map(i => `Line ${lineColumn(fragmentCode, i.offset).line}: ${i.message}`);
+  const notes = new Set<string>();
+  const passes: ShadertoyPass[] = [];
+
+  for (const pass of layout.passes) {
+    const code = isolatePass(fragmentCode, pass);
+    const prefix = layout.multiPass ? `${pass.name}: ` : '';
+    if (hasVertexStage(code)) issues.push(`${prefix}Custom vertex stages have no Shadertoy equivalent; Shadertoy draws a full-screen quad`);
+    let module: Module;
+    try {
+      module = parse(WGSL_PREAMBLE + code);
+    } catch (e: any) {
+      issues.push(prefix + e.message);
+      continue;
+    }
+    const translator = new PassTranslator(module, checkModule(module, false), pass.name, code);
+    const glsl = translator.translate();
+    issues.push(...translator.issues.map(i => prefix + i));
+    translator.notes.forEach(n => notes.add(n));
+    passes.push({ name: pass.name, tab: TAB_NAMES[pass.name], code: glsl, channels: translator.channels });
+  }
+
+  if (issues.length > 0) throw new GlslExportError(issues);
+  if (layout.multiPass && passes.some(p => p.name === IMAGE_PASS && p.channels.some(c => FEEDBACK_BINDINGS.some(b => b.name === c.input)))) {
+    notes.add('Shadertoy runs the buffers before the Image tab in the same frame, so Image sees this frame\'s buffers where the app shows it last frame\'s.');
+  }
+  if (passes.some(p => p.channels.some(c => c.sampler?.address === 'mirror-repeat'))) {
+    notes.add('Shadertoy has no mirrored wrap; channels the mirror sampler reads repeat instead.');
+  }
+  return { passes, notes: [...notes] };
+};
+
+/** All passes as one text to paste from: each pass under a header naming its tab and channels. */
+export const formatShadertoy = (exported: ShadertoyExport): string => {
+  const notes = exported.notes.map(n => `// Note: ${n}`).join('\n');
+  const passes = exported.passes.map(p => `${passHeader(p)}\n\n${p.code}`);
+  return [notes, ...passes].filter(Boolean).join('\n// ----------------------------------------------------------------\n\n');
+};
+
+// The inputs Shadertoy declares for every pass
+const SHADERTOY_UNIFORMS = `uniform vec3 iResolution;
+uniform float iTime;
+uniform float iTimeDelta;
+uniform int iFrame;
+uniform vec4 iMouse;
+uniform vec4 iDate;`;
+
+/**
+ * One pass as a complete GLSL ES 3.0 fragment shader: Shadertoy's inputs
+ * declared as uniforms, and a `main` calling `mainImage`.
+ */
+export const formatGlslEs = (pass: ShadertoyPass): string => {
+  const samplers = pass.channels.map(c => `uniform sampler2D iChannel${c.slot};`).join('\n');
+  return [
+    `#version 300 es\nprecision highp float;\nprecision highp int;\n\n${passHeader(pass)}`,
+    SHADERTOY_UNIFORMS + (samplers ? `\n${samplers}` : ''),
+    'out vec4 outColor;',
+    pass.code.trimEnd(),
+    'void main() {\n    mainImage(outColor, gl_FragCoord.xy);\n}\n',
+  ].join('\n\n');
+};
@@ -0,0 +1,570 @@
+import { BASE_VERTEX_SHADER } from '../constants';
+import { ChannelImage, CompilationMessage, Frame, FrameSink, UniformValues } from '../types';
+import { IMAGE_PASS, feedbackReads, isolatePass, splitPasses } from './renderGraph';
+import { Geometry, VERTEX_ATTRIBUTES, VERTEX_ENTRY_POINT, VERTEX_FLOATS, VERTEX_STRIDE, buildMesh, hasVertexStage, parseGeometry } from './geometryService';
+import {
+  COMPUTE_BINDINGS,
+  FEEDBACK_BINDINGS,
+  SAMPLER_BINDINGS,
+  SHADER_BINDINGS,
+  TEXTURE_BINDINGS,
+  UNIFORM_BINDINGS,
+  UNIFORM_SLOT_SIZE,
+  fixedUniforms,
+  frameSchedule,
+  packUniforms,
+  toFragmentMessages,
+  wrapFragmentSource,
+} from './shaderSource';
+import { getDefaultChannels } from './textureService';
+import { StorageData } from './wgsl/interpreter';
+import { lineColumn } from './wgsl/lexer';
+
+/**
+ * SHARED WEBGPU DEVICE
+ *
+ * One device for the whole app, so the main canvas and background jobs
+ * (reduction, scoring) compile against the same adapter. WebGPU types are
+ * `any` since they might not be available in the environment.
+ */
+
+// Helper constants to substitute missing WebGPU types
+export const SHADER_STAGE_VERTEX = 1; // GPUShaderStage.VERTEX
+export const SHADER_STAGE_FRAGMENT = 2; // GPUShaderStage.FRAGMENT
+export const SHADER_STAGE_COMPUTE = 4; // GPUShaderStage.COMPUTE
+export const BUFFER_USAGE_STORAGE = 128; // GPUBufferUsage.STORAGE
+export const BUFFER_USAGE_COPY_SRC = 4; // GPUBufferUsage.COPY_SRC
+export const BUFFER_USAGE_VERTEX = 32; // GPUBufferUsage.VERTEX
+export const BUFFER_USAGE_UNIFORM = 64; // GPUBufferUsage.UNIFORM
+export const BUFFER_USAGE_COPY_DST = 8; // GPUBufferUsage.COPY_DST
+export const BUFFER_USAGE_MAP_READ = 1; // GPUBufferUsage.MAP_READ
+export const TEXTURE_USAGE_COPY_SRC = 1; // GPUTextureUsage.COPY_SRC
+export const TEXTURE_USAGE_COPY_DST = 2; // GPUTextureUsage.COPY_DST
+export const TEXTURE_USAGE_TEXTURE_BINDING = 4; // GPUTextureUsage.TEXTURE_BINDING
+export const TEXTURE_USAGE_RENDER_ATTACHMENT = 16; // GPUTextureUsage.RENDER_ATTACHMENT
+export const MAP_MODE_READ = 1; // GPUMapMode.READ
+
+// Float target so NaN/Inf survive the readback
+const OFFSCREEN_FORMAT = 'rgba32float';
+// Ping-pong targets: filterable, and with room outside [0, 1] for simulation state
+export const FEEDBACK_FORMAT = 'rgba16float';
+
+let devicePromise: Promise<any> | null = null;
+
+/** Resolves the shared device; rejects with a readable message if WebGPU is unavailable. */
+export const getGpuDevice = (): Promise<any> => {
+  if (!devicePromise) {
+    devicePromise = (async () => {
+      const gpu = (navigator as any).gpu;
+      if (!gpu) throw new Error('WebGPU not supported in this browser.');
+      const adapter = await gpu.requestAdapter();
+      if (!adapter) throw new Error('No appropriate GPU adapter found.');
+      return adapter.requestDevice();
+    })();
+    // Allow a retry after a failed request
+    devicePromise.catch(() => { devicePromise = null; });
+  }
+  return devicePromise;
+};
+
+export const getPresentationFormat = (): string => (navigator as any).gpu.getPreferredCanvasFormat();
+
+/**
+ * Bind group layout matching `SHADER_BINDINGS`: uniforms, image channels and
+ * samplers, visible to custom vertex stages too.
+ */
+export const createInputLayout = (device: any): any =>
+  device.createBindGroupLayout({
+    entries: SHADER_BINDINGS.map(b => ({
+      binding: b.binding,
+      visibility: SHADER_STAGE_VERTEX | SHADER_STAGE_FRAGMENT,
+      ...(b.resource === 'uniform' ? { buffer: { type: 'uniform' } }
+        : b.resource === 'texture' ? { texture: { sampleType: 'float' } }
+        : { sampler: { type: 'filtering' } }),
+    })),
+  });
+
+interface InputResources {
+  buffer: any;
+  entries: any[]; // Bind group entries for everything but the feedback bindings
+  destroy: () => void;
+}
+
+/** Uploads channel pixels into a sampleable texture, bottom row first so it reads upright at `uv`. */
+const createChannelTexture = (device: any, channel: ChannelImage): any => {
+  const texture = device.createTexture({
+    size: [channel.width, channel.height],
+    format: 'rgba8unorm',
+    usage: TEXTURE_USAGE_TEXTURE_BINDING | TEXTURE_USAGE_COPY_DST,
+  });
+  const rowBytes = channel.width * 4;
+  const flipped = new Uint8ClampedArray(channel.pixels.length);
+  for (let y = 0; y < channel.height; y++) {
+    flipped.set(channel.pixels.subarray(y * rowBytes, (y + 1) * rowBytes), (channel.height - 1 - y) * rowBytes);
+  }
+  device.queue.writeTexture({ texture }, flipped, { bytesPerRow: rowBytes }, [channel.width, channel.height]);
+  return texture;
+};
+
+/**
+ * The uniform buffer, with each uniform in its own slot, one texture per
+ * channel and the samplers. Channels beyond `channels` fall back to the
+ * default noise.
+ */
+const createInputResources = (device: any, channels: ChannelImage[]): InputResources => {
+  const buffer = device.createBuffer({
+    size: UNIFORM_BINDINGS.length * UNIFORM_SLOT_SIZE,
+    usage: BUFFER_USAGE_UNIFORM | BUFFER_USAGE_COPY_DST,
+  });
+  const textures = TEXTURE_BINDINGS.map((_, i) => createChannelTexture(device, channels[i] ?? getDefaultChannels()[i]));
+  const entries = [
+    ...UNIFORM_BINDINGS.map(u => ({
+      binding: u.binding,
+      resource: { buffer, offset: u.binding * UNIFORM_SLOT_SIZE, size: 16 }, // Room for the largest type, vec4<f32>
+    })),
+    ...TEXTURE_BINDINGS.map((t, i) => ({ binding: t.binding, resource: textures[i].createView() })),
+    ...SAMPLER_BINDINGS.map(s => ({
+      binding: s.binding,
+      resource: device.createSampler({
+        magFilter: s.sampler!.filter,
+        minFilter: s.sampler!.filter,
+        addressModeU: s.sampler!.address,
+        addressModeV: s.sampler!.address,
+      }),
+    })),
+  ];
+  return {
+    buffer,
+    entries,
+    destroy: () => {
+      buffer.destroy();
+      for (const texture of textures) texture.destroy();
+    },
+  };
+};
+
+export const writeUniforms = (device: any, buffer: any, values: UniformValues): void =>
+  device.queue.writeBuffer(buffer, 0, packUniforms(values));
+
+/** Compilation messages of a shader module, copied out of the GPU objects. */
+export const getCompilationMessages = async (module: any): Promise<CompilationMessage[]> => {
+  const info = await module.getCompilationInfo();
+  return info.messages.map((msg: any) => ({
+    type: msg.type,
+    message: msg.message,
+    lineNum: msg.lineNum,
+    linePos: msg.linePos,
+    offset: msg.offset,
+    length: msg.length,
+  }));
+};
+
+/** Error messages formatted as `Line N: message`, or null if there are none. */
+export const formatCompileErrors = (messages: CompilationMessage[]): string | null =>
+  messages
+    .filter(msg => msg.type === 'error')
+    .map(msg => (msg.lineNum > 0 ? `Line ${msg.lineNum}: ${msg.message}` : msg.message))
+    .join('\n') || null;
+
+export interface CompiledPass {
+  name: string;
+  module: any;
+  vertex: boolean; // Has its own vertex stage (`VERTEX_ENTRY_POINT`)
+}
+
+export interface CompiledShader {
+  passes: CompiledPass[];
+  geometry: Geometry;
+  messages: CompilationMessage[]; // Positioned in the fragment code, as `toFragmentMessages` leaves them
+}
+
+/**
+ * Compiles every pass of a fragment shader (see `renderGraph`). Messages of
+ * a multi-pass shader name the pass they come from; problems with the pass
+ * and geometry markers themselves are reported as errors too.
+ */
+export const compilePasses = async (device: any, fragmentCode: string, label: string): Promise<CompiledShader> => {
+  const layout = splitPasses(fragmentCode);
+  const { geometry, issues } = parseGeometry(fragmentCode);
+  const messages: CompilationMessage[] = [...layout.issues, ...issues].map(issue => {
+    const { line, column } = lineColumn(fragmentCode, issue.offset);
+    return { type: 'error', message: issue.message, lineNum: line, linePos: column, offset: issue.offset, length: issue.length };
+  });
+  const passes: CompiledPass[] = [];
+  for (const pass of layout.passes) {
+    const code = isolatePass(fragmentCode, pass);
+    const module = device.createShaderModule({ label: `${label} (${pass.name})`, code: wrapFragmentSource(code) });
+    for (const msg of toFragmentMessages(await getCompilationMessages(module))) {
+      messages.push(layout.multiPass ? { ...msg, message: `${pass.name}: ${msg.message}` } : msg);
+    }
+    passes.push({ name: pass.name, module, vertex: hasVertexStage(code) });
+  }
+  return { passes, geometry, messages };
+};
+
+interface PassStage {
+  name: string;
+  screen: any | null; // Pipeline drawing to the output; image pass only
+  target: any | null; // Pipeline drawing into the pass's ping-pong target
+}
+
+export interface PassPipelines {
+  layout: any; // From `createInputLayout`
+  stages: PassStage[];
+  geometry: Geometry;
+}
+
+const VERTEX_BUFFER_LAYOUT = {
+  arrayStride: VERTEX_STRIDE,
+  attributes: VERTEX_ATTRIBUTES.map(a => ({ shaderLocation: a.location, format: a.format, offset: a.offset })),
+};
+
+/**
+ * Render pipelines for compiled passes. Buffer passes draw into their
+ * targets; the image pass draws to `format`, and into a target of its own
+ * only when some pass in `reads` (from `feedbackReads`) samples it. Passes
+ * without a vertex stage of their own use `BASE_VERTEX_SHADER`; custom
+ * vertex stages draw into targets unflipped.
+ */
+export const createPassPipelines = (
+  device: any,
+  passes: CompiledPass[],
+  reads: Set<string>,
+  format: string,
+  geometry: Geometry,
+): PassPipelines => {
+  const layout = createInputLayout(device);
+  const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [layout] });
+  const vertexModule = device.createShaderModule({ label: 'Base Vertex', code: BASE_VERTEX_SHADER });
+  const pipeline = (pass: CompiledPass, targetFormat: string, toTexture: boolean) => device.createRenderPipeline({
+    layout: pipelineLayout,
+    vertex: pass.vertex
+      ? { module: pass.module, entryPoint: VERTEX_ENTRY_POINT, buffers: [VERTEX_BUFFER_LAYOUT] }
+      : { module: vertexModule, entryPoint: 'main', constants: { flip_y: toTexture ? -1 : 1 }, buffers: [VERTEX_BUFFER_LAYOUT] },
+    fragment: { module: pass.module, entryPoint: 'main', targets: [{ format: targetFormat }] },
+    primitive: { topology: geometry.topology },
+  });
+
+  return {
+    layout,
+    stages: passes.map(p => ({
+      name: p.name,
+      screen: p.name === IMAGE_PASS ? pipeline(p, format, false) : null,
+      target: p.name !== IMAGE_PASS || reads.has(p.name) ? pipeline(p, FEEDBACK_FORMAT, true) : null,
+    })),
+    geometry,
+  };
+};
+
+export interface RenderGraph {
+  buffer: any; // Uniform buffer, for `writeUniforms`
+  /** Runs every pass once, the image pass into `view`, then swaps the ping-pong targets. */
+  draw: (encoder: any, view: any, width: number, height: number) => void;
+  destroy: () => void;
+}
+
+/**
+ * Executes the passes of `pipelines` each frame. Every pass with a target
+ * gets two textures at the output size: it draws into one while the others
+ * read the one it drew last frame. Targets start out transparent black and
+ * are recreated, cleared, whenever the output size changes.
+ */
+export const createRenderGraph = (device: any, pipelines: PassPipelines, channels: ChannelImage[] = getDefaultChannels()): RenderGraph => {
+  const inputs = createInputResources(device, channels);
+  const mesh = buildMesh(pipelines.geometry.mesh);
+  const vertices = device.createBuffer({ size: mesh.byteLength, usage: BUFFER_USAGE_VERTEX | BUFFER_USAGE_COPY_DST });
+  device.queue.writeBuffer(vertices, 0, mesh);
+  // Read in place of passes that have no target
+  const blank = device.createTexture({ size: [1, 1], format: FEEDBACK_FORMAT, usage: TEXTURE_USAGE_TEXTURE_BINDING });
+  let targets = new Map<string, any[]>();
+  let bindGroups: any[] = [];
+  let size = [0, 0];
+  let parity = 0;
+
+  const destroyTargets = () => {
+    for (const pair of targets.values()) for (const texture of pair) texture.destroy();
+  };
+
+  const resize = (width: number, height: number) => {
+    destroyTargets();
+    targets = new Map(pipelines.stages.filter(s => s.target).map(s => [s.name, [0, 1].map(() => device.createTexture({
+      size: [width, height],
+      format: FEEDBACK_FORMAT,
+      usage: TEXTURE_USAGE_RENDER_ATTACHMENT | TEXTURE_USAGE_TEXTURE_BINDING,
+    }))]));
+    // Frames of parity p write target p and read target 1 - p
+    bindGroups = [0, 1].map(p => device.createBindGroup({
+      layout: pipelines.layout,
+      entries: [
+        ...inputs.entries,
+        ...FEEDBACK_BINDINGS.map(b => ({ binding: b.binding, resource: (targets.get(b.name)?.[1 - p] ?? blank).createView() })),
+      ],
+    }));
+    size = [width, height];
+    parity = 0;
+  };
+
+  const drawPass = (encoder: any, pipeline: any, view: any, clearAlpha: number) => {
+    const pass = encoder.beginRenderPass({
+      colorAttachments: [{ view, clearValue: { r: 0, g: 0, b: 0, a: clearAlpha }, loadOp: 'clear', storeOp: 'store' }],
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroups[parity]);
+    pass.setVertexBuffer(0, vertices);
+    pass.draw(mesh.length / VERTEX_FLOATS);
+    pass.end();
+  };
+
+  return {
+    buffer: inputs.buffer,
+    draw: (encoder, view, width, height) => {
+      if (width !== size[0] || height !== size[1]) resize(width, height);
+      for (const stage of pipelines.stages) {
+        if (stage.target) drawPass(encoder, stage.target, targets.get(stage.name)![parity].createView(), 0);
+        if (stage.screen) drawPass(encoder, stage.screen, view, 1);
+      }
+      parity = 1 - parity;
+    },
+    destroy: () => {
+      inputs.destroy();
+      vertices.destroy();
+      blank.destroy();
+      destroyTargets();
+    },
+  };
+};
+
+/**
+ * Compiles a fragment shader and builds its render pipelines without drawing.
+ * Returns the error `ShaderCanvas` would report for it, or null.
+ */
+export const checkFragment = async (fragmentCode: string): Promise<string | null> => {
+  const device = await getGpuDevice();
+  device.pushErrorScope('validation');
+
+  const { passes, geometry, messages } = await compilePasses(device, fragmentCode, 'Fragment Check');
+  const compileErrors = formatCompileErrors(messages);
+  if (compileErrors) {
+    await device.popErrorScope();
+    return compileErrors;
+  }
+
+  try {
+    createPassPipelines(device, passes, feedbackReads(fragmentCode), getPresentationFormat(), geometry);
+  } catch (e: any) {
+    await device.popErrorScope();
+    return e.message;
+  }
+
+  const error = await device.popErrorScope();
+  return error ? error.message : null;
+};
+
+/**
+ * Renders a fragment shader offscreen at `width`×`height`, once per `time`
+ * value with `fixedUniforms`, and hands each frame to `onFrame` as soon as
+ * it is read back, so long sequences never sit in memory together. Shaders
+ * with feedback are stepped through every frame from 0 on, so their state
+ * evolves as it would on screen. Throws with the compile or validation
+ * error if the shader cannot be rendered, and with whatever `onFrame`
+ * throws, which stops the stream.
+ */
+export const streamFrames = async (
+  fragmentCode: string,
+  times: number[],
+  width: number,
+  height: number,
+  onFrame: FrameSink,
+  channels: ChannelImage[] = getDefaultChannels(),
+): Promise<void> => {
+  const device = await getGpuDevice();
+  device.pushErrorScope('validation');
+
+  const { passes, geometry, messages } = await compilePasses(device, fragmentCode, 'Offscreen Fragment');
+  const compileErrors = formatCompileErrors(messages);
+  if (compileErrors) {
+    await device.popErrorScope();
+    throw new Error(compileErrors);
+  }
+
+  const pipelines = createPassPipelines(device, passes, feedbackReads(fragmentCode), OFFSCREEN_FORMAT, geometry);
+  const graph = createRenderGraph(device, pipelines, channels);
+  const texture = device.createTexture({
+    size: [width, height],
+    format: OFFSCREEN_FORMAT,
+    usage: TEXTURE_USAGE_RENDER_ATTACHMENT | TEXTURE_USAGE_COPY_SRC,
+  });
+  // rgba32float is 16 bytes per pixel; rows must be 256-byte aligned
+  const bytesPerRow = Math.ceil((width * 16) / 256) * 256;
+  const readback = device.createBuffer({ size: bytesPerRow * height, usage: BUFFER_USAGE_MAP_READ | BUFFER_USAGE_COPY_DST });
+
+  try {
+    let validated = false;
+    for (const step of frameSchedule(times, pipelines.stages.some(s => s.target))) {
+      writeUniforms(device, graph.buffer, fixedUniforms(step.time, width, height));
+      const encoder = device.createCommandEncoder();
+      graph.draw(encoder, texture.createView(), width, height);
+      if (step.captures.length > 0) {
+        encoder.copyTextureToBuffer({ texture }, { buffer: readback, bytesPerRow }, [width, height]);
+      }
+      device.queue.submit([encoder.finish()]);
+
+      // Every step records the same commands, so the first one shows any validation error
+      if (!validated) {
+        validated = true;
+        const error = await device.popErrorScope();
+        if (error) throw new Error(error.message);
+      }
+      if (step.captures.length === 0) continue;
+
+      await readback.mapAsync(MAP_MODE_READ);
+      const data = new Float32Array(readback.getMappedRange());
+      const pixels = new Float32Array(width * height * 4);
+      for (let y = 0; y < height; y++) {
+        pixels.set(data.subarray((y * bytesPerRow) / 4, (y * bytesPerRow) / 4 + width * 4), y * width * 4);
+      }
+      readback.unmap();
+      for (const index of step.captures) await onFrame({ width, height, pixels }, index);
+    }
+  } finally {
+    readback.destroy();
+    texture.destroy();
+    graph.destroy();
+  }
+};
+
+/**
+ * Renders a fragment shader offscreen at `size`×`size` with the default
+ * channels, like `streamFrames`, and returns the frames in the order of
+ * `times`. Default channels, like the fixed uniforms, keep the frames
+ * repeatable.
+ */
+export const renderFrames = async (fragmentCode: string, times: number[], size: number): Promise<Frame[]> => {
+  const frames: Frame[] = new Array(times.length);
+  await streamFrames(fragmentCode, times, size, size, (frame, index) => {
+    frames[index] = frame;
+  });
+  return frames;
+};
+
+/** Compiles a compute shader, wrapped like a fragment so it can call the helper library. */
+export const compileCompute = async (device: any, computeCode: string, label: string): Promise<{ module: any; messages: CompilationMessage[] }> => {
+  const module = device.createShaderModule({ label, code: wrapFragmentSource(computeCode) });
+  return { module, messages: toFragmentMessages(await getCompilationMessages(module)) };
+};
+
+/** Bind group layout matching `COMPUTE_BINDINGS`: the storage buffers. */
+const createComputeLayout = (device: any): any =>
+  device.createBindGroupLayout({
+    entries: COMPUTE_BINDINGS.map(b => ({
+      binding: b.binding,
+      visibility: SHADER_STAGE_COMPUTE,
+      buffer: { type: b.access === 'read' ? 'read-only-storage' : 'storage' },
+    })),
+  });
+
+const createComputePipeline = (device: any, layout: any, module: any): any =>
+  device.createComputePipeline({
+    layout: device.createPipelineLayout({ bindGroupLayouts: [layout] }),
+    compute: { module, entryPoint: 'main' },
+  });
+
+/** Compiles a compute shader and builds its pipeline; the compute counterpart of `checkFragment`. */
+export const checkCompute = async (computeCode: string): Promise<string | null> => {
+  const device = await getGpuDevice();
+  device.pushErrorScope('validation');
+
+  const { module, messages } = await compileCompute(device, computeCode, 'Compute Check');
+  const compileErrors = formatCompileErrors(messages);
+  if (compileErrors) {
+    await device.popErrorScope();
+    return compileErrors;
+  }
+
+  try {
+    createComputePipeline(device, createComputeLayout(device), module);
+  } catch (e: any) {
+    await device.popErrorScope();
+    return e.message;
+  }
+
+  const error = await device.popErrorScope();
+  return error ? error.message : null;
+};
+
+/**
+ * Runs a compiled compute shader's `main` over `workgroups` and reads the
+ * storage buffers back. `buffers` holds the initial contents of each
+ * binding in `COMPUTE_BINDINGS`; the results come back as fresh arrays of
+ * the same types. Throws with the validation error if the dispatch fails.
+ */
+export const dispatchCompute = async (
+  device: any,
+  module: any,
+  buffers: Map<number, StorageData>,
+  workgroups: [number, number, number],
+): Promise<Map<number, StorageData>> => {
+  device.pushErrorScope('validation');
+
+  const layout = createComputeLayout(device);
+  const pipeline = createComputePipeline(device, layout, module);
+
+  const storage = COMPUTE_BINDINGS.map(b => {
+    const data = buffers.get(b.binding)!;
+    // Copies need 4-byte multiples; bindings need at least one element
+    const size = Math.max(4, data.byteLength);
+    const buffer = device.createBuffer({ size, usage: BUFFER_USAGE_STORAGE | BUFFER_USAGE_COPY_SRC | BUFFER_USAGE_COPY_DST });
+    device.queue.writeBuffer(buffer, 0, data);
+    const readback = device.createBuffer({ size, usage: BUFFER_USAGE_MAP_READ | BUFFER_USAGE_COPY_DST });
+    return { binding: b.binding, data, size, buffer, readback };
+  });
+
+  const encoder = device.createCommandEncoder();
+  const pass = encoder.beginComputePass();
+  pass.setPipeline(pipeline);
+  pass.setBindGroup(0, device.createBindGroup({
+    layout,
+    entries: storage.map(s => ({ binding: s.binding, resource: { buffer: s.buffer } })),
+  }));
+  pass.dispatchWorkgroups(...workgroups);
+  pass.end();
+  for (const s of storage) encoder.copyBufferToBuffer(s.buffer, 0, s.readback, 0, s.size);
+  device.queue.submit([encoder.finish()]);
+
+  const error = await device.popErrorScope();
+  if (error) {
+    for (const s of storage) {
+      s.buffer.destroy();
+      s.readback.destroy();
+    }
+    throw new Error(error.message);
+  }
+
+  const results = new Map<number, StorageData>();
+  for (const s of storage) {
+    await s.readback.mapAsync(MAP_MODE_READ);
+    const copy = s.data.slice();
+    copy.set(new (s.data.constructor as any)(s.readback.getMappedRange(), 0, s.data.length));
+    results.set(s.binding, copy);
+    s.readback.unmap();
+    s.readback.destroy();
+    s.buffer.destroy();
+  }
+  return results;
+};
+
+/**
+ * Compiles a compute shader and dispatches it once, for callers without
+ * a device of their own. Throws with the compile or validation errors.
+ */
+export const executeCompute = async (
+  computeCode: string,
+  buffers: Map<number, StorageData>,
+  workgroups: [number, number, number],
+): Promise<Map<number, StorageData>> => {
+  const device = await getGpuDevice();
+  const { module, messages } = await compileCompute(device, computeCode, 'Offscreen Compute');
+  const compileErrors = formatCompileErrors(messages);
+  if (compileErrors) throw new Error(compileErrors);
+  return dispatchCompute(device, module, buffers, workgroups);
+};
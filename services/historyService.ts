@@ -0,0 +1,114 @@
+import { CompileStatus, FuzzConfig, HistoryNode, HistoryState } from '../types';
+import { getMutators, isMutatorEnabled } from './mutatorRegistry';
+
+/**
+ * MUTATION HISTORY
+ *
+ * Every shader the user sees is a node in a lineage tree. Mutating from any
+ * node adds a child, so returning to an earlier epoch and mutating again
+ * simply starts a new branch. All operations are pure and return a new state.
+ */
+
+type NodeFields = Pick<HistoryNode, 'origin' | 'label' | 'code'> & Partial<Pick<HistoryNode, 'config' | 'seed' | 'changes' | 'fitness'>>;
+
+export const createHistory = (): HistoryState => ({
+  nodes: {},
+  rootIds: [],
+  currentId: null,
+  redoStack: [],
+  nextId: 0,
+});
+
+export const getCurrentNode = (state: HistoryState): HistoryNode | null =>
+  state.currentId ? state.nodes[state.currentId] ?? null : null;
+
+export const getChildren = (state: HistoryState, id: string): HistoryNode[] =>
+  Object.values(state.nodes)
+    .filter(n => n.parentId === id)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+/** Root-first chain of ancestors ending at `id`. */
+export const getLineage = (state: HistoryState, id: string): HistoryNode[] => {
+  const chain: HistoryNode[] = [];
+  let node: HistoryNode | undefined = state.nodes[id];
+  while (node) {
+    chain.unshift(node);
+    node = node.parentId ? state.nodes[node.parentId] : undefined;
+  }
+  return chain;
+};
+
+/**
+ * Adds a node under `parentId` (or as a new root when null) and makes it current.
+ * Committing always discards the redo stack, like any editor.
+ */
+export const commitNode = (state: HistoryState, parentId: string | null, fields: NodeFields): HistoryState => {
+  const parent = parentId ? state.nodes[parentId] : undefined;
+  const id = `e${state.nextId}`;
+  const node: HistoryNode = {
+    id,
+    parentId: parent ? parent.id : null,
+    origin: fields.origin,
+    label: fields.label,
+    code: fields.code,
+    config: fields.config ?? null,
+    seed: fields.seed ?? null,
+    changes: fields.changes ?? null,
+    epoch: parent ? parent.epoch + 1 : 0,
+    compileStatus: 'pending',
+    compileError: null,
+    fitness: fields.fitness ?? null,
+    createdAt: state.nextId,
+  };
+  return {
+    nodes: { ...state.nodes, [id]: node },
+    rootIds: parent ? state.rootIds : [...state.rootIds, id],
+    currentId: id,
+    redoStack: [],
+    nextId: state.nextId + 1,
+  };
+};
+
+/** Jumps to any node. Explicit navigation resets the redo stack. */
+export const checkout = (state: HistoryState, id: string): HistoryState => {
+  if (!state.nodes[id] || state.currentId === id) return state;
+  return { ...state, currentId: id, redoStack: [] };
+};
+
+export const canUndo = (state: HistoryState): boolean => !!getCurrentNode(state)?.parentId;
+
+export const canRedo = (state: HistoryState): boolean => state.redoStack.length > 0;
+
+export const undo = (state: HistoryState): HistoryState => {
+  const current = getCurrentNode(state);
+  if (!current || !current.parentId) return state;
+  return { ...state, currentId: current.parentId, redoStack: [...state.redoStack, current.id] };
+};
+
+export const redo = (state: HistoryState): HistoryState => {
+  if (state.redoStack.length === 0) return state;
+  const id = state.redoStack[state.redoStack.length - 1];
+  return { ...state, currentId: id, redoStack: state.redoStack.slice(0, -1) };
+};
+
+export const setCompileResult = (
+  state: HistoryState,
+  id: string,
+  status: CompileStatus,
+  error: string | null = null
+): HistoryState => {
+  const node = state.nodes[id];
+  if (!node || (node.compileStatus === status && node.compileError === error)) return state;
+  return { ...state, nodes: { ...state.nodes, [id]: { ...node, compileStatus: status, compileError: error } } };
+};
+
+export const setFitness = (state: HistoryState, id: string, fitness: number): HistoryState => {
+  const node = state.nodes[id];
+  if (!node || node.fitness === fitness) return state;
+  return { ...state, nodes: { ...state.nodes, [id]: { ...node, fitness } } };
+};
+
+export const describeConfig = (config: FuzzConfig): string => {
+  const enabled = getMutators().filter(m => isMutatorEnabled(config, m)).map(m => m.id);
+  return `${enabled.join('+') || 'none'} @ ${(config.intensity * 100).toFixed(0)}%`;
+};
@@ -0,0 +1,76 @@
+import { DEFAULT_FUZZ_CONFIG } from '../constants';
+import { FuzzConfig } from '../types';
+import { Rng } from './prng';
+import { Module } from './wgsl/ast';
+
+/**
+ * MUTATOR REGISTRY
+ *
+ * Mutators are plugins: each declares how it appears in the controls, how
+ * likely it is to fire and how far it can be trusted, and `fuzzShader` runs
+ * every enabled one in registration order. A custom mutator lives in its own
+ * module and registers itself when that module is imported:
+ *
+ *   registerMutator({
+ *     id: 'negate', label: 'Negate', category: 'atomic', safety: 'typed',
+ *     enabledByDefault: false, weight: 1,
+ *     apply: (module, intensity, rng) => module,
+ *   });
+ */
+
+export type MutatorCategory = 'generative' | 'atomic';
+
+/**
+ * How far a mutator can be trusted to keep a shader compiling: `safe` edits
+ * cannot introduce errors, `typed` edits rely on inferred types to stay
+ * valid, and `unsafe` edits may well break the shader on purpose.
+ */
+export type MutatorSafety = 'safe' | 'typed' | 'unsafe';
+
+export interface Mutator {
+  id: string;
+  label: string;
+  category: MutatorCategory;
+  safety: MutatorSafety;
+  description?: string;
+  enabledByDefault: boolean;
+  weight: number; // Scales the pass intensity this mutator sees, capped at 1
+  /**
+   * Chance the mutator fires in a pass, given its weighted intensity. Without
+   * one it runs every pass and scales its per-node edits by intensity instead.
+   */
+  probability?: (intensity: number) => number;
+  apply: (module: Module, intensity: number, rng: Rng) => Module;
+}
+
+const registry = new Map<string, Mutator>();
+
+/** Adds a mutator. Ids are stored in configs, so they must be unique and stable. */
+export const registerMutator = (mutator: Mutator): void => {
+  if (registry.has(mutator.id)) throw new Error(`Mutator '${mutator.id}' is already registered.`);
+  registry.set(mutator.id, mutator);
+};
+
+/** All mutators, in run order. */
+export const getMutators = (): Mutator[] => [...registry.values()];
+
+export const getMutator = (id: string): Mutator | undefined => registry.get(id);
+
+export const isMutatorEnabled = (config: FuzzConfig, mutator: Mutator): boolean =>
+  config.mutators[mutator.id] ?? mutator.enabledByDefault;
+
+/**
+ * Reads a stored or hand-written config. Configs saved before the registry
+ * had one `mutateX` flag per built-in mutator; those map to the `x` ids.
+ */
+export const normalizeConfig = (raw: Record<string, unknown>): FuzzConfig => {
+  const mutators: Record<string, boolean> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (/^mutate[A-Z]/.test(key) && typeof value === 'boolean') mutators[key.slice('mutate'.length).toLowerCase()] = value;
+  }
+  if (raw.mutators && typeof raw.mutators === 'object') Object.assign(mutators, raw.mutators);
+  return {
+    mutators,
+    intensity: typeof raw.intensity === 'number' ? raw.intensity : DEFAULT_FUZZ_CONFIG.intensity,
+  };
+};
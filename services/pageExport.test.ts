@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { PRESETS } from '../constants';
+import { ExportError } from './exportService';
+import { exportPage } from './pageExport';
+import { splitPasses } from './renderGraph';
+
+/** The spec a page embeds for its script to run. */
+const specOf = (page: string) => JSON.parse(page.match(/<script type="application\/json" id="spec">(.*?)<\/script>/s)![1]);
+
+describe('exportPage', () => {
+  it.each(PRESETS.filter(p => p.name !== 'Compute').map(p => [p.name, p.code]))('exports %s as a page running each of its passes', (_, code) => {
+    const spec = specOf(exportPage(code, []));
+    expect(spec.passes.map((p: { name: string }) => p.name)).toEqual(splitPasses(code).passes.map(p => p.name));
+  });
+
+  it('refuses compute shaders', () => {
+    const compute = PRESETS.find(p => p.name === 'Compute')!;
+    expect(() => exportPage(compute.code, [])).toThrow(ExportError);
+  });
+});
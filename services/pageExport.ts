@@ -0,0 +1,343 @@
+import { BASE_VERTEX_SHADER } from '../constants';
+import { ChannelImage } from '../types';
+import { ExportError } from './exportService';
+import { FEEDBACK_FORMAT } from './gpuService';
+import { IMAGE_PASS, feedbackReads, isolatePass, splitPasses } from './renderGraph';
+import { VERTEX_ATTRIBUTES, VERTEX_ENTRY_POINT, VERTEX_FLOATS, VERTEX_STRIDE, buildMesh, hasVertexStage, parseGeometry } from './geometryService';
+import {
+  FEEDBACK_BINDINGS,
+  SAMPLER_BINDINGS,
+  TEXTURE_BINDINGS,
+  UNIFORM_BINDINGS,
+  UNIFORM_SLOT_SIZE,
+  declaredBindings,
+  isComputeSource,
+  wrapFragmentSource,
+} from './shaderSource';
+import { getDefaultChannels } from './textureService';
+import { lineColumn } from './wgsl/lexer';
+import { parse } from './wgsl/parser';
+
+/**
+ * STANDALONE PAGE EXPORT
+ *
+ * A fragment shader as one HTML file that runs it without the app: the
+ * WGSL every pass compiles to, the mesh, the channel pixels and a small
+ * WebGPU bootstrap that draws them the way `ShaderCanvas` does. The page
+ * binds the same layout, drives the same uniforms from the wall clock and
+ * the pointer, and runs multi-pass shaders through ping-pong targets like
+ * `createRenderGraph`.
+ */
+
+/** Everything the page's bootstrap needs, embedded in it as JSON. */
+interface PageSpec {
+  passes: { name: string; code: string; vertex: boolean }[]; // Image pass last
+  reads: string[];   // Passes some pass reads back (see `feedbackReads`)
+  vertexShader: string;
+  vertexEntryPoint: string;
+  stride: number;
+  attributes: { shaderLocation: number; format: string; offset: number }[];
+  topology: string;
+  mesh: string;      // Interleaved Float32 vertices, base64
+  vertexCount: number;
+  uniforms: { binding: number; name: string; u32: boolean }[];
+  slotSize: number;
+  // Channel pixels, bottom row first, base64; null for channels no pass declares
+  textures: { binding: number; width: number; height: number; pixels: string | null }[];
+  samplers: { binding: number; filter: string; address: string }[];
+  feedback: { binding: number; name: string }[];
+  feedbackFormat: string;
+  imagePass: string;
+}
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(text);
+};
+
+/** Channel pixels as `createChannelTexture` uploads them: bottom row first. */
+const flippedPixels = (channel: ChannelImage): Uint8Array => {
+  const rowBytes = channel.width * 4;
+  const flipped = new Uint8Array(channel.pixels.length);
+  for (let y = 0; y < channel.height; y++) {
+    flipped.set(channel.pixels.subarray(y * rowBytes, (y + 1) * rowBytes), (channel.height - 1 - y) * rowBytes);
+  }
+  return flipped;
+};
+
+/** Channels some pass declares a binding for; passes that do not parse count as declaring them all. */
+const declaredChannels = (passCodes: string[]): Set<string> => {
+  const names = new Set<string>();
+  for (const code of passCodes) {
+    try {
+      for (const name of declaredBindings(parse(code)).keys()) names.add(name);
+    } catch {
+      return new Set(TEXTURE_BINDINGS.map(t => t.name));
+    }
+  }
+  return names;
+};
+
+// The bootstrap, plain script run by the page. It mirrors `createInputLayout`,
+// `createPassPipelines`, `createRenderGraph` and the render loop of `ShaderCanvas`.
+const BOOTSTRAP = `
+const spec = JSON.parse(document.getElementById('spec').textContent);
+const canvas = document.querySelector('canvas');
+const MAX_SIZE = 2048;
+const bytes = text => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const fail = message => {
+  const box = document.getElementById('error');
+  box.textContent = message;
+  box.hidden = false;
+};
+
+const start = async () => {
+  if (!navigator.gpu) throw new Error('WebGPU not supported in this browser.');
+  const adapter = await navigator.gpu.requestAdapter();
+  if (!adapter) throw new Error('No appropriate GPU adapter found.');
+  const device = await adapter.requestDevice();
+  device.addEventListener('uncapturederror', e => fail(e.error.message));
+  const format = navigator.gpu.getPreferredCanvasFormat();
+  const context = canvas.getContext('webgpu');
+  context.configure({ device, format, alphaMode: 'premultiplied' });
+  device.pushErrorScope('validation');
+
+  // Inputs: every uniform in its own slot, the channels and the samplers
+  const visibility = GPUShaderStage.VERTEX | GPUShaderStage.FRAGMENT;
+  const layout = device.createBindGroupLayout({
+    entries: [
+      ...spec.uniforms.map(u => ({ binding: u.binding, visibility, buffer: { type: 'uniform' } })),
+      ...[...spec.textures, ...spec.feedback].map(t => ({ binding: t.binding, visibility, texture: { sampleType: 'float' } })),
+      ...spec.samplers.map(s => ({ binding: s.binding, visibility, sampler: { type: 'filtering' } })),
+    ],
+  });
+  const uniformBuffer = device.createBuffer({
+    size: spec.uniforms.length * spec.slotSize,
+    usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+  });
+  const channelTexture = t => {
+    const [width, height] = t.pixels ? [t.width, t.height] : [1, 1];
+    const texture = device.createTexture({
+      size: [width, height],
+      format: 'rgba8unorm',
+      usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+    });
+    const pixels = t.pixels ? bytes(t.pixels) : new Uint8Array(4);
+    device.queue.writeTexture({ texture }, pixels, { bytesPerRow: width * 4 }, [width, height]);
+    return texture;
+  };
+  const inputs = [
+    ...spec.uniforms.map(u => ({ binding: u.binding, resource: { buffer: uniformBuffer, offset: u.binding * spec.slotSize, size: 16 } })),
+    ...spec.textures.map(t => ({ binding: t.binding, resource: channelTexture(t).createView() })),
+    ...spec.samplers.map(s => ({
+      binding: s.binding,
+      resource: device.createSampler({ magFilter: s.filter, minFilter: s.filter, addressModeU: s.address, addressModeV: s.address }),
+    })),
+  ];
+
+  // Pipelines: buffer passes draw into their targets, the image pass to the canvas
+  // and into a target of its own only when some pass reads it
+  const modules = await Promise.all(spec.passes.map(async pass => {
+    const module = device.createShaderModule({ label: pass.name, code: pass.code });
+    const info = await module.getCompilationInfo();
+    const errors = info.messages.filter(m => m.type === 'error');
+    if (errors.length > 0) {
+      throw new Error(errors.map(m => (spec.passes.length > 1 ? pass.name + ': ' : '') + m.message).join('\\n'));
+    }
+    return module;
+  }));
+  const pipelineLayout = device.createPipelineLayout({ bindGroupLayouts: [layout] });
+  const vertexModule = device.createShaderModule({ label: 'Base Vertex', code: spec.vertexShader });
+  const buffers = [{ arrayStride: spec.stride, attributes: spec.attributes }];
+  const pipeline = (pass, module, targetFormat, toTexture) => device.createRenderPipeline({
+    layout: pipelineLayout,
+    vertex: pass.vertex
+      ? { module, entryPoint: spec.vertexEntryPoint, buffers }
+      : { module: vertexModule, entryPoint: 'main', constants: { flip_y: toTexture ? -1 : 1 }, buffers },
+    fragment: { module, entryPoint: 'main', targets: [{ format: targetFormat }] },
+    primitive: { topology: spec.topology },
+  });
+  const stages = spec.passes.map((pass, i) => ({
+    name: pass.name,
+    screen: pass.name === spec.imagePass ? pipeline(pass, modules[i], format, false) : null,
+    target: pass.name !== spec.imagePass || spec.reads.includes(pass.name) ? pipeline(pass, modules[i], spec.feedbackFormat, true) : null,
+  }));
+
+  const mesh = new Float32Array(bytes(spec.mesh).buffer);
+  const vertices = device.createBuffer({ size: mesh.byteLength, usage: GPUBufferUsage.VERTEX | GPUBufferUsage.COPY_DST });
+  device.queue.writeBuffer(vertices, 0, mesh);
+  const scopeError = await device.popErrorScope();
+  if (scopeError) throw new Error(scopeError.message);
+
+  // Ping-pong targets at the canvas size: frames of parity p write target p and read target 1 - p
+  const blank = device.createTexture({ size: [1, 1], format: spec.feedbackFormat, usage: GPUTextureUsage.TEXTURE_BINDING });
+  let targets = new Map();
+  let bindGroups = [];
+  let size = [0, 0];
+  let parity = 0;
+  const resize = (width, height) => {
+    for (const pair of targets.values()) for (const texture of pair) texture.destroy();
+    targets = new Map(stages.filter(s => s.target).map(s => [s.name, [0, 1].map(() => device.createTexture({
+      size: [width, height],
+      format: spec.feedbackFormat,
+      usage: GPUTextureUsage.RENDER_ATTACHMENT | GPUTextureUsage.TEXTURE_BINDING,
+    }))]));
+    bindGroups = [0, 1].map(p => device.createBindGroup({
+      layout,
+      entries: [
+        ...inputs,
+        ...spec.feedback.map(b => ({ binding: b.binding, resource: (targets.get(b.name)?.[1 - p] ?? blank).createView() })),
+      ],
+    }));
+    size = [width, height];
+    parity = 0;
+  };
+  const drawPass = (encoder, pipeline, view, clearAlpha) => {
+    const pass = encoder.beginRenderPass({
+      colorAttachments: [{ view, clearValue: { r: 0, g: 0, b: 0, a: clearAlpha }, loadOp: 'clear', storeOp: 'store' }],
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(0, bindGroups[parity]);
+    pass.setVertexBuffer(0, vertices);
+    pass.draw(spec.vertexCount);
+    pass.end();
+  };
+
+  // Pointer in UV space, origin bottom-left; z is 1 while a button is held, w the time of the last press
+  const started = Date.now();
+  const now = () => (Date.now() - started) / 1000;
+  const mouse = [0.5, 0.5, 0, 0];
+  const track = e => {
+    const rect = canvas.getBoundingClientRect();
+    mouse[0] = (e.clientX - rect.left) / rect.width;
+    mouse[1] = 1 - (e.clientY - rect.top) / rect.height;
+  };
+  canvas.addEventListener('pointermove', track);
+  canvas.addEventListener('pointerdown', e => {
+    track(e);
+    mouse[2] = 1;
+    mouse[3] = now();
+  });
+  for (const type of ['pointerup', 'pointerleave']) canvas.addEventListener(type, () => { mouse[2] = 0; });
+
+  // The drawing buffer follows the element's size on screen
+  const fit = px => Math.max(1, Math.min(MAX_SIZE, Math.round(px * (window.devicePixelRatio || 1))));
+  new ResizeObserver(() => {
+    canvas.width = fit(canvas.clientWidth);
+    canvas.height = fit(canvas.clientHeight);
+  }).observe(canvas);
+
+  const uniformData = new ArrayBuffer(spec.uniforms.length * spec.slotSize);
+  const view = new DataView(uniformData);
+  let last = null;
+  let frame = 0;
+  const render = () => {
+    const time = now();
+    const d = new Date();
+    const values = {
+      time: [time],
+      resolution: [canvas.width, canvas.height],
+      mouse,
+      frame: [frame++],
+      time_delta: [last === null ? 0 : time - last],
+      date: [d.getFullYear(), d.getMonth() + 1, d.getDate(), d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds() + d.getMilliseconds() / 1000],
+      aspect: [canvas.width / canvas.height],
+    };
+    last = time;
+    for (const u of spec.uniforms) {
+      values[u.name].forEach((value, i) => {
+        const at = u.binding * spec.slotSize + i * 4;
+        if (u.u32) view.setUint32(at, value >>> 0, true);
+        else view.setFloat32(at, value, true);
+      });
+    }
+    device.queue.writeBuffer(uniformBuffer, 0, uniformData);
+
+    if (canvas.width !== size[0] || canvas.height !== size[1]) resize(canvas.width, canvas.height);
+    const encoder = device.createCommandEncoder();
+    for (const stage of stages) {
+      if (stage.target) drawPass(encoder, stage.target, targets.get(stage.name)[parity].createView(), 0);
+      if (stage.screen) drawPass(encoder, stage.screen, context.getCurrentTexture().createView(), 1);
+    }
+    parity = 1 - parity;
+    device.queue.submit([encoder.finish()]);
+    requestAnimationFrame(render);
+  };
+  requestAnimationFrame(render);
+};
+
+start().catch(e => fail(e.message));
+`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * A self-contained HTML page running `fragmentCode` full-window with WebGPU.
+ * Only the channels some pass declares are embedded; `channels` falls back
+ * to the default noise like the canvas does. Throws `ExportError` for
+ * compute shaders and for pass or geometry markers the canvas would reject;
+ * WGSL errors surface when the page compiles the shader, as they do in the
+ * app.
+ */
+export const exportPage = (fragmentCode: string, channels: ChannelImage[], title = 'Shader'): string => {
+  if (isComputeSource(fragmentCode)) throw new ExportError('Compute shaders draw nothing; only fragment shaders export as a page');
+  const layout = splitPasses(fragmentCode);
+  const { geometry, issues } = parseGeometry(fragmentCode);
+  const problems = [...layout.issues, ...issues];
+  if (problems.length > 0) {
+    throw new ExportError(problems.map(p => `Line ${lineColumn(fragmentCode, p.offset).line}: ${p.message}`).join('\n'));
+  }
+
+  const passCodes = layout.passes.map(pass => isolatePass(fragmentCode, pass));
+  const declared = declaredChannels(passCodes);
+  const mesh = buildMesh(geometry.mesh);
+  const spec: PageSpec = {
+    passes: layout.passes.map((pass, i) => ({ name: pass.name, code: wrapFragmentSource(passCodes[i]), vertex: hasVertexStage(passCodes[i]) })),
+    reads: [...feedbackReads(fragmentCode)],
+    vertexShader: BASE_VERTEX_SHADER,
+    vertexEntryPoint: VERTEX_ENTRY_POINT,
+    stride: VERTEX_STRIDE,
+    attributes: VERTEX_ATTRIBUTES.map(a => ({ shaderLocation: a.location, format: a.format, offset: a.offset })),
+    topology: geometry.topology,
+    mesh: toBase64(new Uint8Array(mesh.buffer)),
+    vertexCount: mesh.length / VERTEX_FLOATS,
+    uniforms: UNIFORM_BINDINGS.map(u => ({ binding: u.binding, name: u.name, u32: u.type === 'u32' })),
+    slotSize: UNIFORM_SLOT_SIZE,
+    textures: TEXTURE_BINDINGS.map((t, i) => {
+      const channel = channels[i] ?? getDefaultChannels()[i];
+      return declared.has(t.name)
+        ? { binding: t.binding, width: channel.width, height: channel.height, pixels: toBase64(flippedPixels(channel)) }
+        : { binding: t.binding, width: 1, height: 1, pixels: null };
+    }),
+    samplers: SAMPLER_BINDINGS.map(s => ({ binding: s.binding, filter: s.sampler!.filter, address: s.sampler!.address })),
+    feedback: FEEDBACK_BINDINGS.map(b => ({ binding: b.binding, name: b.name })),
+    feedbackFormat: FEEDBACK_FORMAT,
+    imagePass: IMAGE_PASS,
+  };
+
+  // `<` is escaped so nothing in the shader source can close the script element
+  const json = JSON.stringify(spec).replace(/</g, '\\u003c');
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  html, body { margin: 0; height: 100%; background: #000; }
+  canvas { display: block; width: 100vw; height: 100vh; }
+  #error { position: fixed; top: 8px; left: 8px; right: 8px; margin: 0; color: #ef4444; font: 12px monospace; white-space: pre-wrap; }
+</style>
+</head>
+<body>
+<canvas></canvas>
+<pre id="error" hidden></pre>
+<script type="application/json" id="spec">${json}</script>
+<script type="module">${BOOTSTRAP}</script>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,42 @@
+/**
+ * DETERMINISTIC RANDOMNESS
+ *
+ * Every mutation pass draws from a generator seeded explicitly, so a seed,
+ * the input code and the config together fully determine the output. The
+ * generator is injectable: anything implementing `Rng` can drive the fuzzer.
+ */
+
+export interface Rng {
+    /** Uniform float in [0, 1). */
+    next(): number;
+}
+
+export type RngFactory = (seed: number) => Rng;
+
+/**
+ * Mulberry32 - tiny 32-bit state generator. Not cryptographic, but fast and
+ * well distributed enough for picking mutations.
+ */
+export const mulberry32: RngFactory = (seed: number): Rng => {
+    let state = seed >>> 0;
+    return {
+        next() {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        }
+    };
+};
+
+/** Fresh 32-bit seed for passes where the user did not pin one. */
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+export const formatSeed = (seed: number): string => seed.toString(16).padStart(8, '0');
+
+/** Seeds are always written and read as hex, with or without a 0x prefix. */
+export const parseSeed = (text: string): number | null => {
+    const match = text.trim().toLowerCase().match(/^(?:0x)?([0-9a-f]{1,8})$/);
+    return match ? parseInt(match[1], 16) >>> 0 : null;
+};
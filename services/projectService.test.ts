@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FUZZ_CONFIG } from '../constants';
+import { PROJECT_FORMAT, PROJECT_VERSION, ProjectError, decodePermalink, encodePermalink, reviveProject } from './projectService';
+
+const EMPTY_HISTORY = { nodes: {}, rootIds: [], currentId: null, redoStack: [], nextId: 0 };
+
+const project = (findings: unknown, history: unknown = EMPTY_HISTORY) => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  name: 'Test',
+  savedAt: 0,
+  code: '',
+  config: {},
+  seed: null,
+  history,
+  findings,
+});
+
+const FINDING = { id: 'a1', signature: 'Unresolved identifier', source: 'fn main() {}', createdAt: 1, label: 'Test #1', origin: 'browser' };
+
+describe('reviveProject', () => {
+  it('keeps well-formed findings', () => {
+    const [finding] = reviveProject(project([FINDING])).findings;
+    expect(finding).toMatchObject({ ...FINDING, seed: null, config: null, messages: [] });
+  });
+
+  it.each(['id', 'source', 'signature', 'createdAt'])('drops findings without %s', field => {
+    const { [field as keyof typeof FINDING]: _, ...damaged } = FINDING;
+    expect(reviveProject(project([damaged, 'finding', null, FINDING])).findings.map(f => f.id)).toEqual(['a1']);
+  });
+
+  it('reads a project without findings', () => {
+    expect(reviveProject(project(undefined)).findings).toEqual([]);
+  });
+});
+
+const NODE = {
+  id: 'e0',
+  parentId: null,
+  origin: 'preset',
+  label: 'Plasma',
+  code: 'fn f() {}',
+  config: null,
+  seed: null,
+  changes: null,
+  epoch: 0,
+  compileStatus: 'ok',
+  compileError: null,
+  fitness: null,
+  createdAt: 0,
+};
+
+const node = (id: string, parentId: string | null, fields: Record<string, unknown> = {}) => ({ ...NODE, id, parentId, ...fields });
+
+const history = (...nodes: Record<string, unknown>[]) => ({
+  nodes: Object.fromEntries(nodes.map(n => [n.id, n])),
+  rootIds: nodes.filter(n => n.parentId === null).map(n => n.id),
+  currentId: nodes[nodes.length - 1].id,
+  redoStack: [],
+  nextId: nodes.length,
+});
+
+describe('reviveProject history', () => {
+  it('keeps well-formed nodes', () => {
+    const nodes = [node('e0', null), node('e1', 'e0', { origin: 'mutation', seed: 7, epoch: 1, changes: [], config: DEFAULT_FUZZ_CONFIG })];
+    expect(reviveProject(project([], history(...nodes))).history).toEqual(history(...nodes));
+  });
+
+  it('repairs fields of the wrong type', () => {
+    const damaged = node('e1', 'e0', { origin: 'alien', label: 3, seed: '7', changes: 'all', config: 'fast', epoch: 'one', fitness: NaN });
+    const { nodes } = reviveProject(project([], history(node('e0', null), damaged))).history;
+    expect(nodes.e1).toMatchObject({ origin: 'import', label: 'import', seed: null, changes: null, config: null, epoch: 1, fitness: null });
+  });
+
+  it('drops malformed changes but keeps the rest', () => {
+    const change = { mutator: 'swizzle', offset: 0, length: 1, oldText: 'x', newText: 'y' };
+    const { nodes } = reviveProject(project([], history(node('e0', null, { changes: [change, { mutator: 'swizzle' }, null] })))).history;
+    expect(nodes.e0.changes).toEqual([change]);
+  });
+
+  it('drops nodes without code and re-roots their children', () => {
+    const revived = reviveProject(project([], history(node('e0', null), node('e1', 'e0', { code: null }), node('e2', 'e1', { epoch: 2 })))).history;
+    expect(Object.keys(revived.nodes)).toEqual(['e0', 'e2']);
+    expect(revived.nodes.e2).toMatchObject({ parentId: null, epoch: 0 });
+    expect(revived.rootIds).toEqual(['e0', 'e2']);
+    expect(revived.currentId).toBe('e2');
+  });
+
+  it('breaks parent loops', () => {
+    const revived = reviveProject(project([], history(node('e0', 'e1'), node('e1', 'e0')))).history;
+    expect(revived.rootIds).toHaveLength(1);
+    expect(Object.values(revived.nodes).map(n => n.epoch).sort()).toEqual([0, 1]);
+  });
+
+  it('drops links to nodes it dropped', () => {
+    const stored = { ...history(node('e0', null), node('e1', 'e0', { id: 'e9' })), currentId: 'e1', redoStack: ['e1', 'e0'] };
+    const revived = reviveProject(project([], stored)).history;
+    expect(revived).toMatchObject({ currentId: null, redoStack: ['e0'], rootIds: ['e0'] });
+  });
+
+  it('rejects a history that is not a tree at all', () => {
+    expect(() => reviveProject(project([], { nodes: [] }))).toThrow(ProjectError);
+  });
+});
+
+describe('permalinks', () => {
+  it('keep the pinned seed apart from the seed that made the shader', async () => {
+    const shared = { code: 'fn f() {}', config: DEFAULT_FUZZ_CONFIG, seed: null, lastSeed: 0x1a2b3c4d };
+    expect(await decodePermalink(await encodePermalink(shared))).toEqual(shared);
+  });
+});
@@ -0,0 +1,233 @@
+import { DEFAULT_FUZZ_CONFIG } from '../constants';
+import { CompileStatus, Finding, FuzzConfig, HistoryNode, HistoryState, MutationChange, Project, SharedShader } from '../types';
+import { reviveFinding } from './findingsService';
+import { normalizeConfig } from './mutatorRegistry';
+
+/**
+ * PROJECTS
+ *
+ * A project is a snapshot of a session: the editor code, fuzz config,
+ * pinned seed, lineage tree and findings. Projects are saved by name in the
+ * browser and exported to or imported from single JSON files. Permalinks
+ * carry less, just the shader, config and seed, deflated into the URL
+ * fragment so a link opens the same shader without any server.
+ */
+
+export const PROJECT_FORMAT = 'aether-fuzz-project';
+export const PROJECT_VERSION = 1;
+
+const PERMALINK_KEY = 'shader';
+const PERMALINK_VERSION = 1;
+
+export interface ProjectSummary {
+  name: string;
+  savedAt: number;
+  nodes: number; // Shaders in the lineage tree
+}
+
+export interface ProjectStore {
+  /** Stores a project, replacing any saved under the same name. */
+  save(project: Project): Promise<void>;
+  load(name: string): Promise<Project | null>;
+  /** Most recently saved first. */
+  list(): Promise<ProjectSummary[]>;
+  remove(name: string): Promise<void>;
+}
+
+/** A project file or permalink that cannot be read. */
+export class ProjectError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectError';
+  }
+}
+
+export const createProject = (name: string, session: Pick<Project, 'code' | 'config' | 'seed' | 'history' | 'findings'>): Project => ({
+  format: PROJECT_FORMAT,
+  version: PROJECT_VERSION,
+  name,
+  savedAt: Date.now(),
+  ...session,
+});
+
+export const summarizeProject = (project: Project): ProjectSummary => ({
+  name: project.name,
+  savedAt: project.savedAt,
+  nodes: Object.keys(project.history.nodes).length,
+});
+
+const isRecord = (x: unknown): x is Record<string, unknown> => typeof x === 'object' && x !== null && !Array.isArray(x);
+
+/** A stored config brought up to date; unlike `normalizeConfig`, keeps the pass it was limited to. */
+const readConfig = (raw: unknown): FuzzConfig => {
+  if (!isRecord(raw)) return DEFAULT_FUZZ_CONFIG;
+  const config = normalizeConfig(raw);
+  return typeof raw.pass === 'string' ? { ...config, pass: raw.pass } : config;
+};
+
+const readSeed = (raw: unknown): number | null => (typeof raw === 'number' && Number.isFinite(raw) ? raw >>> 0 : null);
+
+const ORIGINS: HistoryNode['origin'][] = ['preset', 'edit', 'mutation', 'reduction', 'finding', 'evolution', 'breeding', 'permalink', 'import'];
+const COMPILE_STATUSES: CompileStatus[] = ['pending', 'ok', 'error'];
+
+const isChange = (raw: unknown): raw is MutationChange =>
+  isRecord(raw) &&
+  typeof raw.mutator === 'string' &&
+  typeof raw.offset === 'number' &&
+  typeof raw.length === 'number' &&
+  typeof raw.oldText === 'string' &&
+  typeof raw.newText === 'string';
+
+/** A stored node with every field of the right type; null if it has no id or code to keep. */
+const readNode = (id: string, raw: unknown): HistoryNode | null => {
+  if (!isRecord(raw) || raw.id !== id || typeof raw.code !== 'string') return null;
+  const origin = ORIGINS.find(o => o === raw.origin) ?? 'import';
+  return {
+    id,
+    parentId: typeof raw.parentId === 'string' ? raw.parentId : null,
+    origin,
+    label: typeof raw.label === 'string' ? raw.label : origin,
+    code: raw.code,
+    config: isRecord(raw.config) ? readConfig(raw.config) : null,
+    seed: readSeed(raw.seed),
+    changes: Array.isArray(raw.changes) ? raw.changes.filter(isChange) : null,
+    epoch: 0, // Derived from the tree once every node is read
+    compileStatus: COMPILE_STATUSES.find(s => s === raw.compileStatus) ?? 'pending',
+    compileError: typeof raw.compileError === 'string' ? raw.compileError : null,
+    fitness: typeof raw.fitness === 'number' && Number.isFinite(raw.fitness) ? raw.fitness : null,
+    createdAt: typeof raw.createdAt === 'number' && Number.isFinite(raw.createdAt) ? raw.createdAt : 0,
+  };
+};
+
+/**
+ * Reads a stored lineage tree. Damaged nodes are dropped, not the project:
+ * nodes left without a parent, or caught in a parent loop, become roots,
+ * and every epoch is recomputed from the tree.
+ */
+const readHistory = (raw: unknown): HistoryState => {
+  if (!isRecord(raw) || !isRecord(raw.nodes) || !Array.isArray(raw.rootIds) || typeof raw.nextId !== 'number') {
+    throw new ProjectError('The project history is damaged');
+  }
+  const nodes: Record<string, HistoryNode> = {};
+  for (const [id, value] of Object.entries(raw.nodes)) {
+    const node = readNode(id, value);
+    if (node) nodes[id] = node;
+  }
+  const exists = (id: unknown): id is string => typeof id === 'string' && id in nodes;
+
+  const settled = new Set<string>();
+  const settle = (node: HistoryNode, path: Set<string>) => {
+    if (settled.has(node.id)) return;
+    const parent = node.parentId !== null && !path.has(node.parentId) ? nodes[node.parentId] : undefined;
+    if (parent) settle(parent, path.add(node.id));
+    nodes[node.id] = { ...node, parentId: parent ? parent.id : null, epoch: parent ? nodes[parent.id].epoch + 1 : 0 };
+    settled.add(node.id);
+  };
+  for (const node of Object.values(nodes)) settle(node, new Set());
+
+  const roots = Object.values(nodes).filter(n => n.parentId === null);
+  const rootIds = raw.rootIds.filter(exists).filter(id => nodes[id].parentId === null);
+  const rerooted = roots.filter(n => !rootIds.includes(n.id)).sort((a, b) => a.createdAt - b.createdAt);
+  return {
+    nodes,
+    rootIds: [...new Set(rootIds), ...rerooted.map(n => n.id)],
+    currentId: exists(raw.currentId) ? raw.currentId : null,
+    redoStack: Array.isArray(raw.redoStack) ? raw.redoStack.filter(exists) : [],
+    nextId: raw.nextId,
+  };
+};
+
+/** Findings with the fields the store keys and groups them by; damaged records are dropped, not the project. */
+const readFindings = (raw: unknown): Finding[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(isRecord)
+    .filter(f => typeof f.id === 'string' && typeof f.source === 'string' && typeof f.signature === 'string' && typeof f.createdAt === 'number')
+    .map(f =>
+      reviveFinding({
+        ...(f as unknown as Finding),
+        seed: readSeed(f.seed),
+        config: isRecord(f.config) ? (f.config as unknown as FuzzConfig) : null,
+        messages: Array.isArray(f.messages) ? f.messages : [],
+      }),
+    );
+};
+
+/** Checks a parsed project and brings it up to date. Throws `ProjectError` if it is not one. */
+export const reviveProject = (raw: unknown): Project => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) throw new ProjectError('Not an AETHER FUZZ project');
+  if (typeof raw.version !== 'number' || raw.version > PROJECT_VERSION) {
+    throw new ProjectError(`Project version ${raw.version} is newer than this app reads`);
+  }
+  if (typeof raw.code !== 'string') throw new ProjectError('The project has no shader code');
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : 'Imported',
+    savedAt: typeof raw.savedAt === 'number' ? raw.savedAt : Date.now(),
+    code: raw.code,
+    config: readConfig(raw.config),
+    seed: readSeed(raw.seed),
+    history: readHistory(raw.history),
+    findings: readFindings(raw.findings),
+  };
+};
+
+export const serializeProject = (project: Project): string => JSON.stringify(project, null, 2);
+
+/** Reads an exported project file. Throws `ProjectError` if it is not one. */
+export const parseProject = (json: string): Project => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new ProjectError('The file is not valid JSON');
+  }
+  return reviveProject(raw);
+};
+
+/** File name for an exported project, e.g. `plasma-study.aether.json`. */
+export const projectFileName = (name: string): string =>
+  `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project'}.aether.json`;
+
+// -- Permalinks --
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+/** The URL fragment, `#shader=…`, that opens `shared`. */
+export const encodePermalink = async (shared: SharedShader): Promise<string> => {
+  const json = JSON.stringify({ v: PERMALINK_VERSION, code: shared.code, config: shared.config, seed: shared.seed, lastSeed: shared.lastSeed });
+  const deflated = await transformBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw'));
+  return `#${PERMALINK_KEY}=${toBase64Url(deflated)}`;
+};
+
+/**
+ * The shader a URL fragment shares, or null if it shares none. Throws
+ * `ProjectError` for links that were cut short or come from a newer version.
+ */
+export const decodePermalink = async (hash: string): Promise<SharedShader | null> => {
+  const match = new RegExp(`^#?${PERMALINK_KEY}=([A-Za-z0-9_-]*)$`).exec(hash);
+  if (!match) return null;
+  let raw: unknown;
+  try {
+    const inflated = await transformBytes(fromBase64Url(match[1]), new DecompressionStream('deflate-raw'));
+    raw = JSON.parse(new TextDecoder().decode(inflated));
+  } catch {
+    throw new ProjectError('The permalink is damaged; it may have been cut short');
+  }
+  if (!isRecord(raw) || typeof raw.code !== 'string') throw new ProjectError('The permalink holds no shader');
+  if (raw.v !== PERMALINK_VERSION) throw new ProjectError(`Permalink version ${raw.v} is not one this app reads`);
+  return { code: raw.code, config: readConfig(raw.config), seed: readSeed(raw.seed), lastSeed: readSeed(raw.lastSeed) };
+};
@@ -0,0 +1,59 @@
+import { Project } from '../types';
+import { PROJECTS_STORE, openDatabase, promisify } from './browserDb';
+import { ProjectStore, createProject, parseProject, reviveProject, summarizeProject } from './projectService';
+
+/**
+ * BROWSER PROJECT STORAGE
+ *
+ * Named projects live in IndexedDB, keyed by name, findings and all. The
+ * working session is kept apart in localStorage, without its findings
+ * (they have their own store), so a reload picks up where it left off.
+ */
+
+const SESSION_KEY = 'aether-fuzz:session';
+const SESSION_NAME = 'Session';
+
+export const createIndexedDbProjectStore = (): ProjectStore => {
+  let db: Promise<IDBDatabase> | null = null;
+  const objectStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    db ??= openDatabase();
+    return (await db).transaction(PROJECTS_STORE, mode).objectStore(PROJECTS_STORE);
+  };
+
+  return {
+    async save(project) {
+      await promisify((await objectStore('readwrite')).put(project));
+    },
+    async load(name) {
+      const stored = await promisify((await objectStore('readonly')).get(name));
+      return stored === undefined ? null : reviveProject(stored);
+    },
+    async list() {
+      const stored = await promisify((await objectStore('readonly')).getAll() as IDBRequest<Project[]>);
+      return stored.map(summarizeProject).sort((a, b) => b.savedAt - a.savedAt);
+    },
+    async remove(name) {
+      await promisify((await objectStore('readwrite')).delete(name));
+    },
+  };
+};
+
+/** Keeps the working session for the next visit. Returns false if storage is full or unavailable. */
+export const saveSession = (session: Pick<Project, 'code' | 'config' | 'seed' | 'history'>): boolean => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(createProject(SESSION_NAME, { ...session, findings: [] })));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** The session kept by the last visit, or null if there is none or it cannot be read. */
+export const loadSession = (): Project | null => {
+  try {
+    const json = localStorage.getItem(SESSION_KEY);
+    return json === null ? null : parseProject(json);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,166 @@
+import { DiffHunk, MutationChange } from '../types';
+
+/**
+ * MUTATION PROVENANCE
+ *
+ * Line diffs between shader versions, the per-mutator change log a fuzz
+ * pass returns, and diffs whose hunks are labelled with the mutators that
+ * produced them, found by replaying the log one mutator at a time.
+ */
+
+interface LineRange {
+  oldStart: number;
+  oldEnd: number; // Exclusive
+  newStart: number;
+  newEnd: number; // Exclusive
+}
+
+/** Lines with their terminators, so joining them gives back the text. */
+const splitLines = (text: string): string[] => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const stripEol = (line: string): string => line.replace(/\r?\n$/, '');
+
+/** Changed line ranges from `a` to `b`, via a plain LCS table; shaders are small enough. */
+const diffLineRanges = (a: string[], b: string[]): LineRange[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix && suffix < b.length - prefix
+    && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  // lcs[i][j]: longest common subsequence of the middles from i and j on
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[prefix + i] === b[prefix + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ranges: LineRange[] = [];
+  let open: LineRange | null = null;
+  let i = 0, j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[prefix + i] === b[prefix + j]) {
+      if (open) ranges.push(open);
+      open = null;
+      i++;
+      j++;
+      continue;
+    }
+    open ??= { oldStart: prefix + i, oldEnd: prefix + i, newStart: prefix + j, newEnd: prefix + j };
+    if (i < n && (j >= m || lcs[i + 1][j] >= lcs[i][j + 1])) open.oldEnd = prefix + ++i;
+    else open.newEnd = prefix + ++j;
+  }
+  if (open) ranges.push(open);
+  return ranges;
+};
+
+/** One edit covering `oldText` at `offset`, tightened to the characters that actually differ. */
+const tightChange = (mutator: string, offset: number, oldText: string, newText: string): MutationChange => {
+  let head = 0;
+  while (head < oldText.length && head < newText.length && oldText[head] === newText[head]) head++;
+  let tail = 0;
+  while (
+    tail < oldText.length - head && tail < newText.length - head
+    && oldText[oldText.length - 1 - tail] === newText[newText.length - 1 - tail]
+  ) tail++;
+  return {
+    mutator,
+    offset: offset + head,
+    length: oldText.length - head - tail,
+    oldText: oldText.slice(head, oldText.length - tail),
+    newText: newText.slice(head, newText.length - tail),
+  };
+};
+
+/**
+ * The edits that turn `before` into `after`, attributed to `mutator`: one
+ * per rewritten line, or one per run of lines where lines were added or
+ * removed.
+ */
+export const changesBetween = (mutator: string, before: string, after: string): MutationChange[] => {
+  if (before === after) return [];
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const starts = [0];
+  for (const line of a) starts.push(starts[starts.length - 1] + line.length);
+
+  return diffLineRanges(a, b).flatMap(range => {
+    const count = range.oldEnd - range.oldStart;
+    if (count !== range.newEnd - range.newStart) {
+      const oldText = a.slice(range.oldStart, range.oldEnd).join('');
+      return [tightChange(mutator, starts[range.oldStart], oldText, b.slice(range.newStart, range.newEnd).join(''))];
+    }
+    const changes: MutationChange[] = [];
+    for (let k = 0; k < count; k++) {
+      const line = range.oldStart + k;
+      changes.push(tightChange(mutator, starts[line], a[line], b[range.newStart + k]));
+    }
+    return changes;
+  });
+};
+
+/** Mutator ids that changed something, in the order they ran. */
+export const firedMutators = (changes: MutationChange[]): string[] => [...new Set(changes.map(c => c.mutator))];
+
+/** Runs of consecutive changes by the same mutator: one per mutator that fired. */
+const groupSteps = (changes: MutationChange[]): MutationChange[][] => {
+  const steps: MutationChange[][] = [];
+  for (const change of changes) {
+    const last = steps[steps.length - 1];
+    if (last && last[0].mutator === change.mutator) last.push(change);
+    else steps.push([change]);
+  }
+  return steps;
+};
+
+/** Applies one mutator's changes, whose offsets all refer to `text`. */
+const applyStep = (text: string, step: MutationChange[]): string =>
+  [...step]
+    .sort((x, y) => y.offset - x.offset)
+    .reduce((t, c) => t.slice(0, c.offset) + c.newText + t.slice(c.offset + c.length), text);
+
+/** Carries per-line mutator labels across an edit; changed lines also gain `mutator`. */
+const carryLabels = (before: string, after: string, labels: string[][], mutator: string | null): string[][] => {
+  const next: string[][] = [];
+  let i = 0;
+  for (const range of diffLineRanges(splitLines(before), splitLines(after))) {
+    while (i < range.oldStart) next.push(labels[i++]);
+    const touched = new Set(labels.slice(range.oldStart, range.oldEnd).flat());
+    if (mutator) touched.add(mutator);
+    for (let j = range.newStart; j < range.newEnd; j++) next.push([...touched]);
+    i = range.oldEnd;
+  }
+  while (i < labels.length) next.push(labels[i++]);
+  return next;
+};
+
+/**
+ * Line diff from `before` to `after`. With the change log of the pass that
+ * produced `after`, each hunk names the mutators behind it; edits the log
+ * does not explain, and pure deletions, come out unlabelled.
+ */
+export const labelledDiff = (before: string, after: string, changes: MutationChange[] = []): DiffHunk[] => {
+  let text = before;
+  let labels: string[][] = splitLines(before).map(() => []);
+  for (const step of groupSteps(changes)) {
+    const next = applyStep(text, step);
+    labels = carryLabels(text, next, labels, step[0].mutator);
+    text = next;
+  }
+  if (text !== after) labels = carryLabels(text, after, labels, null);
+
+  const a = splitLines(before);
+  const b = splitLines(after);
+  return diffLineRanges(a, b).map(range => ({
+    oldStart: range.oldStart,
+    oldLines: a.slice(range.oldStart, range.oldEnd).map(stripEol),
+    newStart: range.newStart,
+    newLines: b.slice(range.newStart, range.newEnd).map(stripEol),
+    mutators: [...new Set(labels.slice(range.newStart, range.newEnd).flat())],
+  }));
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { reduceShader, sameErrorTest } from './reducerService';
+import { validateFragment } from './wgsl/validator';
+
+const firstError = (code: string): string | null =>
+  validateFragment(code).messages.find(m => m.type === 'error')?.message ?? null;
+
+const FAILING = `fn helper(x: f32) -> f32 {
+    let y = x * 2.0;
+    return y + 1.0;
+}
+
+@fragment
+fn main(@location(0) uv: vec2<f32>) -> @location(0) vec4<f32> {
+    var col = vec3<f32>(helper(uv.x));
+    let bad = col * uv;
+    return vec4<f32>(col, 1.0);
+}
+`;
+
+describe('reduceShader', () => {
+  it('shrinks a failing shader to one that fails only with the same error', async () => {
+    const reference = firstError(FAILING)!;
+    const { code } = await reduceShader(FAILING, sameErrorTest(firstError, reference));
+    expect(code.length).toBeLessThan(FAILING.length);
+    expect(validateFragment(code).messages.filter(m => m.type === 'error').map(m => m.message)).toEqual([reference]);
+  });
+});
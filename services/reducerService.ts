@@ -0,0 +1,347 @@
+import { Block, Expr, FunctionDecl, Module, Node, ParenExpr, VarDecl, childrenOf, collect, detach, isExpr, synth, transform, walk } from './wgsl/ast';
+import { normalizeMessage } from './findingsService';
+import { parse, parseExpression } from './wgsl/parser';
+import { print } from './wgsl/printer';
+import { checkModule } from './wgsl/typeChecker';
+import { WgslType, concretize, typeToString, typesEqual } from './wgsl/typeSystem';
+
+/**
+ * TEST-CASE REDUCER
+ *
+ * Delta debugging for shaders: repeatedly tries smaller variants and keeps
+ * any that are still "interesting" (e.g. fail with the same error), until no
+ * pass makes progress. Passes, in order:
+ *
+ *   1. delete statements and module declarations, in halving chunks (ddmin)
+ *   2. inline `let`/`const` declarations into their uses
+ *   3. collapse typed subexpressions to a zero literal or a same-typed operand
+ *   4. delete source lines (ddmin), which also covers code our parser rejects
+ *
+ * Every AST candidate is built by re-parsing the current best code, so edits
+ * refer to nodes by their index in a fixed traversal order.
+ */
+
+export type InterestingTest = (code: string) => boolean | Promise<boolean>;
+
+export type ReductionPass = 'delete' | 'inline' | 'collapse' | 'lines';
+
+export interface ReduceProgress {
+  pass: ReductionPass;
+  tests: number;
+  size: number;
+}
+
+export interface ReduceOptions {
+  maxTests?: number;
+  onProgress?: (progress: ReduceProgress) => void;
+}
+
+export interface ReduceResult {
+  code: string;
+  originalSize: number;
+  tests: number;
+  exhausted: boolean; // Stopped at maxTests rather than at a fixpoint
+}
+
+const DEFAULT_MAX_TESTS = 2000;
+
+// -- Candidate enumeration --
+
+type Container = Block | Module;
+
+interface Removable {
+  container: Container;
+  item: Node;
+}
+
+const functionsOf = (module: Module): FunctionDecl[] =>
+  module.decls.filter((d): d is FunctionDecl => d.kind === 'Function');
+
+const isEntryPoint = (fn: FunctionDecl): boolean =>
+  fn.name === 'main' || fn.attrs.some(a => a.name === 'fragment' || a.name === 'vertex' || a.name === 'compute');
+
+/**
+ * Module declarations other than entry points, then every statement,
+ * pre-order. The final `return` of a function with a return type stays, as
+ * WGSL rejects a function that can end without one.
+ */
+const removables = (module: Module): Removable[] => {
+  const found: Removable[] = module.decls
+    .filter(d => !(d.kind === 'Function' && isEntryPoint(d)))
+    .map(item => ({ container: module, item }));
+  const finalReturns = new Set<Node>();
+  for (const fn of functionsOf(module)) {
+    const last = fn.body.stmts[fn.body.stmts.length - 1];
+    if (fn.returnType && last?.kind === 'Return') finalReturns.add(last);
+  }
+  walk(module, n => {
+    if (n.kind === 'Block') for (const item of n.stmts) if (!finalReturns.has(item)) found.push({ container: n, item });
+  });
+  return found;
+};
+
+const inlinables = (module: Module): VarDecl[] => {
+  const found: VarDecl[] = [];
+  for (const fn of functionsOf(module)) {
+    walk(fn.body, n => {
+      if (n.kind === 'VarDecl' && (n.keyword === 'let' || n.keyword === 'const') && n.init) found.push(n);
+    });
+  }
+  return found;
+};
+
+/** Expressions in function bodies, except assignment targets and pointer operands. */
+const collapsibles = (module: Module): Expr[] => {
+  const found: Expr[] = [];
+  for (const fn of functionsOf(module)) {
+    walk(fn.body, n => {
+      if (n.kind === 'Assign' || n.kind === 'IncDec') {
+        if (n.kind === 'Assign') walk(n.value, v => { if (isExpr(v)) found.push(v); });
+        return false;
+      }
+      if (n.kind === 'Unary' && (n.op === '&' || n.op === '*')) return false;
+      if (isExpr(n)) found.push(n);
+    });
+  }
+  return found;
+};
+
+// -- Edits --
+
+const remove = (targets: Removable[]): void => {
+  for (const { container, item } of targets) {
+    if (container.kind === 'Module') container.decls = container.decls.filter(d => d !== item);
+    else container.stmts = container.stmts.filter(s => s !== item);
+  }
+};
+
+const ATOMIC_EXPRS = new Set<Node['kind']>(['Literal', 'Ident', 'Call', 'Paren', 'Member', 'Index']);
+
+/** Replaces later uses of the declaration in its block with its initializer and drops it. */
+const inline = (module: Module, decl: VarDecl): boolean => {
+  const block = collect(module, 'Block').find(b => b.stmts.includes(decl));
+  if (!block) return false;
+  const init = decl.init!;
+  const replacement = (): Expr =>
+    ATOMIC_EXPRS.has(init.kind) ? detach(init) : synth<ParenExpr>({ kind: 'Paren', expr: detach(init) });
+
+  const index = block.stmts.indexOf(decl);
+  block.stmts = block.stmts.filter(s => s !== decl).map((stmt, i) =>
+    i < index ? stmt : transform(stmt, n => (n.kind === 'Ident' && n.name === decl.name ? replacement() : undefined))
+  );
+  return true;
+};
+
+const ZERO_SCALARS: Record<string, string> = {
+  bool: 'false',
+  i32: '0i',
+  u32: '0u',
+  f32: '0.0',
+  f16: '0.0h',
+};
+
+/** The simplest value of a type: a zero literal or a zero-value constructor. */
+const zeroValue = (type: WgslType): string | null => {
+  const t = concretize(type);
+  switch (t.kind) {
+    case 'scalar': return ZERO_SCALARS[t.scalar] ?? null;
+    case 'vector':
+    case 'matrix':
+    case 'struct':
+      return `${typeToString(t)}()`;
+    case 'array': return t.length === null ? null : `${typeToString(t)}()`;
+    case 'unknown': return null;
+  }
+};
+
+/** Smaller expressions that could stand in for `expr`, simplest first. */
+const collapseOptions = (expr: Expr, types: Map<Expr, WgslType>): Expr[] => {
+  const type = types.get(expr);
+  if (!type || type.kind === 'unknown' || expr.kind === 'Literal') return [];
+  const options: Expr[] = [];
+  const zero = zeroValue(type);
+  if (zero && !(expr.kind === 'Call' && expr.args.length === 0)) options.push(parseExpression(zero));
+  for (const child of childrenOf(expr)) {
+    if (!isExpr(child)) continue;
+    const childType = types.get(child);
+    if (childType && typesEqual(concretize(childType), concretize(type))) options.push(detach(child));
+  }
+  return options;
+};
+
+// -- Driver --
+
+const parses = (code: string): boolean => {
+  try {
+    parse(code);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+class Reducer {
+  tests = 0;
+  private readonly cache = new Map<string, boolean>();
+
+  constructor(
+    public best: string,
+    private readonly isInteresting: InterestingTest,
+    private readonly maxTests: number,
+    private readonly onProgress: ((progress: ReduceProgress) => void) | undefined,
+  ) {}
+
+  get exhausted(): boolean {
+    return this.tests >= this.maxTests;
+  }
+
+  /** Tests a candidate (once per distinct text) and adopts it if it is still interesting. */
+  private async attempt(candidate: string | null, pass: ReductionPass): Promise<boolean> {
+    if (candidate === null || candidate === this.best || this.exhausted) return false;
+    let interesting = this.cache.get(candidate);
+    if (interesting === undefined) {
+      this.tests++;
+      interesting = await this.isInteresting(candidate);
+      this.cache.set(candidate, interesting);
+    }
+    if (interesting) this.best = candidate;
+    this.onProgress?.({ pass, tests: this.tests, size: this.best.length });
+    return interesting;
+  }
+
+  /** Parses the current best, lets `edit` change it and prints the result, or null if nothing changed. */
+  private variant(edit: (module: Module) => boolean): string | null {
+    const module = parse(this.best);
+    return edit(module) ? print(module, this.best) : null;
+  }
+
+  /**
+   * ddmin over a list of `count()` items: tries removing chunks of halving
+   * size; `build` returns the variant without items [start, start + chunk).
+   */
+  private async ddmin(
+    count: () => number,
+    build: (start: number, chunk: number) => string | null,
+    pass: ReductionPass,
+  ): Promise<boolean> {
+    let progress = false;
+    let chunk = Math.ceil(count() / 2);
+    while (chunk >= 1 && !this.exhausted) {
+      let removed = false;
+      for (let start = 0; start < count() && !this.exhausted; ) {
+        if (await this.attempt(build(start, chunk), pass)) removed = progress = true;
+        else start += chunk;
+      }
+      if (!removed) chunk = Math.floor(chunk / 2);
+    }
+    return progress;
+  }
+
+  deleteStatements(): Promise<boolean> {
+    return this.ddmin(
+      () => removables(parse(this.best)).length,
+      (start, chunk) => this.variant(module => {
+        const targets = removables(module).slice(start, start + chunk);
+        remove(targets);
+        return targets.length > 0;
+      }),
+      'delete',
+    );
+  }
+
+  deleteLines(): Promise<boolean> {
+    return this.ddmin(
+      () => this.best.split('\n').length,
+      (start, chunk) => {
+        const lines = this.best.split('\n');
+        lines.splice(start, chunk);
+        return lines.join('\n');
+      },
+      'lines',
+    );
+  }
+
+  async inlineLets(): Promise<boolean> {
+    let progress = false;
+    for (let i = 0; i < inlinables(parse(this.best)).length && !this.exhausted; ) {
+      const candidate = this.variant(module => inline(module, inlinables(module)[i]));
+      if (await this.attempt(candidate, 'inline')) progress = true;
+      else i++;
+    }
+    return progress;
+  }
+
+  async collapseExpressions(): Promise<boolean> {
+    let progress = false;
+    for (let i = 0; i < collapsibles(parse(this.best)).length && !this.exhausted; i++) {
+      for (const candidate of this.collapseCandidates(i)) {
+        if (await this.attempt(candidate, 'collapse')) {
+          progress = true;
+          break;
+        }
+      }
+    }
+    return progress;
+  }
+
+  /** Printed variants of the current best with the `index`-th collapsible expression replaced. */
+  private collapseCandidates(index: number): string[] {
+    const probe = parse(this.best);
+    const count = collapseOptions(collapsibles(probe)[index], checkModule(probe).types).length;
+    return Array.from({ length: count }, (_, o) => {
+      const module = parse(this.best);
+      const target = collapsibles(module)[index];
+      const replacement = collapseOptions(target, checkModule(module).types)[o];
+      return print(transform(module, n => (n === target ? replacement : undefined)), this.best);
+    });
+  }
+}
+
+/**
+ * Shrinks `code` while `isInteresting` keeps holding. Throws if the input
+ * itself is not interesting, since nothing could then be preserved.
+ */
+export const reduceShader = async (
+  code: string,
+  isInteresting: InterestingTest,
+  { maxTests = DEFAULT_MAX_TESTS, onProgress }: ReduceOptions = {},
+): Promise<ReduceResult> => {
+  if (!(await isInteresting(code))) throw new Error('The shader does not reproduce the failure; nothing to reduce.');
+
+  const reducer = new Reducer(code, isInteresting, maxTests, onProgress);
+  let progress = true;
+  while (progress && !reducer.exhausted) {
+    progress = false;
+    if (parses(reducer.best)) {
+      if (await reducer.deleteStatements()) progress = true;
+      if (await reducer.inlineLets()) progress = true;
+      if (await reducer.collapseExpressions()) progress = true;
+    }
+    if (await reducer.deleteLines()) progress = true;
+  }
+  return { code: reducer.best, originalSize: code.length, tests: reducer.tests + 1, exhausted: reducer.exhausted };
+};
+
+// -- Predicates --
+
+/** An error's identity for reduction: the first message, normalized like finding signatures. */
+export const errorKey = (error: string): string => normalizeMessage(error.split('\n')[0]);
+
+/**
+ * A test that holds while `getError` still reports the same error as
+ * `reference`, e.g. a GPU compile or the offline validator.
+ */
+export const sameErrorTest = (
+  getError: (code: string) => string | null | Promise<string | null>,
+  reference: string,
+): InterestingTest => {
+  const key = errorKey(reference);
+  return async (code: string) => {
+    try {
+      const error = await getError(code);
+      return error !== null && errorKey(error) === key;
+    } catch {
+      return false;
+    }
+  };
+};
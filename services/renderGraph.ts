@@ -0,0 +1,111 @@
+import { FEEDBACK_BINDINGS, declaredBindings } from './shaderSource';
+import { parse } from './wgsl/parser';
+
+/**
+ * RENDER GRAPH
+ *
+ * A shader may hold several fragment passes, each under a marker line:
+ *
+ *     //!pass buffer_a
+ *     ...
+ *     //!pass image
+ *     ...
+ *
+ * Every pass draws into its own ping-pong target each frame and can read
+ * what any pass drew on the previous frame through the feedback bindings.
+ * The image pass is what ends up on screen. Code without markers is a
+ * single image pass, so plain fragment shaders are unaffected.
+ *
+ * Passes are located by offset rather than cut out, so one pass compiles
+ * as the whole source with the other passes blanked: compiler messages
+ * then point into the source as written.
+ */
+
+export const PASS_NAMES = FEEDBACK_BINDINGS.map(b => b.name);
+export const IMAGE_PASS = 'image';
+
+export interface RenderPass {
+  name: string;
+  marker: number; // Offset of the marker line; equal to `start` without one
+  start: number;  // The pass code runs from here...
+  end: number;    // ...to here (exclusive)
+}
+
+/** A problem with the pass layout itself, at an offset into the source. */
+export interface PassIssue {
+  offset: number;
+  length: number;
+  message: string;
+}
+
+export interface PassLayout {
+  passes: RenderPass[]; // Valid passes, image pass last
+  issues: PassIssue[];
+  multiPass: boolean;
+}
+
+const MARKER = /^\/\/!pass[ \t]*(\S*)[^\n]*$/gm;
+
+/** Splits `source` into passes at the marker lines. */
+export const splitPasses = (source: string): PassLayout => {
+  const markers = [...source.matchAll(MARKER)];
+  if (markers.length === 0) {
+    return { passes: [{ name: IMAGE_PASS, marker: 0, start: 0, end: source.length }], issues: [], multiPass: false };
+  }
+
+  const passes: RenderPass[] = [];
+  const issues: PassIssue[] = [];
+  const leading = source.slice(0, markers[0].index).replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\/|\s+/g, '');
+  if (leading) issues.push({ offset: 0, length: markers[0].index, message: 'Code before the first //!pass marker belongs to no pass' });
+
+  markers.forEach((m, i) => {
+    const name = m[1];
+    const start = Math.min(source.length, m.index + m[0].length + 1);
+    const end = i + 1 < markers.length ? markers[i + 1].index : source.length;
+    const issue = (message: string) => issues.push({ offset: m.index, length: m[0].length, message });
+    if (!PASS_NAMES.includes(name)) issue(`Unknown pass '${name}'; expected one of ${PASS_NAMES.join(', ')}`);
+    else if (passes.some(p => p.name === name)) issue(`Pass '${name}' is defined twice`);
+    else passes.push({ name, marker: m.index, start, end });
+  });
+
+  if (!passes.some(p => p.name === IMAGE_PASS)) {
+    issues.push({ offset: markers[0].index, length: markers[0][0].length, message: `A multi-pass shader needs an '${IMAGE_PASS}' pass` });
+  }
+  // Every read is of the previous frame, so only the image pass's position matters
+  passes.sort((a, b) => Number(a.name === IMAGE_PASS) - Number(b.name === IMAGE_PASS));
+  return { passes, issues, multiPass: true };
+};
+
+/** `source` with everything outside `pass` blanked out; offsets and line numbers are unchanged. */
+export const isolatePass = (source: string, pass: RenderPass): string =>
+  source.slice(0, pass.start).replace(/[^\n]/g, ' ')
+  + source.slice(pass.start, pass.end)
+  + source.slice(pass.end).replace(/[^\n]/g, ' ');
+
+/** The pass whose code contains `offset`, if any. */
+export const passAt = (source: string, offset: number): RenderPass | null =>
+  splitPasses(source).passes.find(p => p.marker <= offset && offset <= p.end) ?? null;
+
+/** `source` with the code of each pass in `codes` replaced. */
+export const replacePasses = (source: string, passes: RenderPass[], codes: Map<string, string>): string =>
+  [...passes]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, p) => (codes.has(p.name) ? text.slice(0, p.start) + codes.get(p.name)! + text.slice(p.end) : text), source);
+
+/**
+ * Passes whose previous output some pass declares a binding for. Passes that
+ * do not parse count as reading every pass, so nothing they need goes missing.
+ */
+export const feedbackReads = (source: string): Set<string> => {
+  const reads = new Set<string>();
+  for (const pass of splitPasses(source).passes) {
+    try {
+      for (const name of declaredBindings(parse(isolatePass(source, pass))).keys()) {
+        if (PASS_NAMES.includes(name)) reads.add(name);
+      }
+    } catch {
+      return new Set(PASS_NAMES);
+    }
+  }
+  return reads;
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { CompilationMessage } from '../types';
+import { toFragmentMessages, wrapFragmentSource } from './shaderSource';
+import { lineColumn } from './wgsl/lexer';
+import { validateFragment } from './wgsl/validator';
+
+const CODE = `@fragment
+fn main(@location(0) uv: vec2<f32>) -> @location(0) vec4<f32> {
+    let a = 1.0;
+    let b = missing * a;
+    return vec4<f32>(b);
+}
+`;
+
+
+describe('toFragmentMessages', () => {
+  it('moves a message in the wrapped module back onto the line the user wrote', () => {
+    const wrapped = wrapFragmentSource(CODE);
+    const offset = wrapped.lastIndexOf('missing');
+    const { line, column } = lineColumn(wrapped, offset);
+    const message: CompilationMessage = { type: 'error', message: 'unresolved', lineNum: line, linePos: column, offset, length: 7 };
+    expect(toFragmentMessages([message])).toEqual([{ ...message, lineNum: 4, linePos: 13, offset: CODE.indexOf('missing') }]);
+  });
+
+  it('places validator errors at the user line, first line and last line included', () => {
+    const code = `const first = missing_first;\n${CODE}const last = missing_last;`;
+    const messages = toFragmentMessages(validateFragment(code).messages).filter(m => m.type === 'error');
+    const lines = code.split('\n');
+    for (const m of messages) {
+      expect(lineColumn(code, m.offset)).toEqual({ line: m.lineNum, column: m.linePos });
+    }
+    expect(messages.map(m => m.lineNum)).toEqual(expect.arrayContaining([1, 5, lines.length]));
+  });
+
+  it('drops the position of a message inside the preamble', () => {
+    const message: CompilationMessage = { type: 'warning', message: 'in a helper', lineNum: 3, linePos: 2, offset: 40, length: 4 };
+    expect(toFragmentMessages([message])).toEqual([{ ...message, lineNum: 0, linePos: 0, offset: 0, length: 0 }]);
+  });
+});
@@ -0,0 +1,203 @@
+import { WGSL_PREAMBLE } from '../constants';
+import { CompilationMessage, UniformValues } from '../types';
+import { Attribute, Module } from './wgsl/ast';
+
+/**
+ * SHADER MODULE ASSEMBLY
+ *
+ * The exact source the renderer compiles for a fragment or compute shader.
+ * Shared by `ShaderCanvas`, `ComputePanel` and the offline validator so all
+ * see the same module.
+ */
+
+// INVARIANT: Suppress uniformity analysis errors which are common in fuzzed code
+export const DIAGNOSTIC_PREFIX = 'diagnostic(off, derivative_uniformity);\n';
+
+export type BindingResource = 'uniform' | 'texture' | 'sampler' | 'storage';
+
+export interface SamplerMode {
+  filter: 'linear' | 'nearest';
+  address: 'repeat' | 'clamp-to-edge' | 'mirror-repeat';
+}
+
+export interface ShaderBinding {
+  binding: number;
+  resource: BindingResource;
+  name: string; // Standard name; shaders may declare the binding under any name
+  type: string;
+  doc: string;
+  sampler?: SamplerMode;
+  access?: 'read' | 'read_write'; // Storage buffers only
+}
+
+/**
+ * Uniforms the pipeline layout provides in group 0. A shader declares only
+ * the ones it reads, at these bindings; the rest are bound but unused.
+ */
+export const UNIFORM_BINDINGS: ShaderBinding[] = [
+  { binding: 0, resource: 'uniform', name: 'time', type: 'f32', doc: 'Seconds since the canvas started' },
+  { binding: 1, resource: 'uniform', name: 'resolution', type: 'vec2<f32>', doc: 'Drawing buffer size in pixels' },
+  { binding: 2, resource: 'uniform', name: 'mouse', type: 'vec4<f32>', doc: 'xy: pointer in UV space; z: 1 while a button is held; w: time of the last press' },
+  { binding: 3, resource: 'uniform', name: 'frame', type: 'u32', doc: 'Frames drawn since the canvas started' },
+  { binding: 4, resource: 'uniform', name: 'time_delta', type: 'f32', doc: 'Seconds since the previous frame' },
+  { binding: 5, resource: 'uniform', name: 'date', type: 'vec4<f32>', doc: 'Year, month (1-12), day and seconds since midnight' },
+  { binding: 6, resource: 'uniform', name: 'aspect', type: 'f32', doc: 'Width over height of the drawing buffer' },
+];
+
+/** Image channels, each a loaded image or generated noise (see `textureService`). */
+export const TEXTURE_BINDINGS: ShaderBinding[] = [
+  { binding: 7, resource: 'texture', name: 'channel0', type: 'texture_2d<f32>', doc: 'Image channel 0' },
+  { binding: 8, resource: 'texture', name: 'channel1', type: 'texture_2d<f32>', doc: 'Image channel 1' },
+];
+
+/** One sampler per filter/address combination worth fuzzing; switching modes means switching samplers. */
+export const SAMPLER_BINDINGS: ShaderBinding[] = [
+  { binding: 9, resource: 'sampler', name: 'linear_sampler', type: 'sampler', doc: 'Linear filtering, repeating', sampler: { filter: 'linear', address: 'repeat' } },
+  { binding: 10, resource: 'sampler', name: 'nearest_sampler', type: 'sampler', doc: 'Nearest filtering, repeating', sampler: { filter: 'nearest', address: 'repeat' } },
+  { binding: 11, resource: 'sampler', name: 'clamp_sampler', type: 'sampler', doc: 'Linear filtering, clamped to the edge', sampler: { filter: 'linear', address: 'clamp-to-edge' } },
+  { binding: 12, resource: 'sampler', name: 'mirror_sampler', type: 'sampler', doc: 'Linear filtering, mirrored', sampler: { filter: 'linear', address: 'mirror-repeat' } },
+];
+
+/**
+ * What each pass of a multi-pass shader drew on the previous frame, named
+ * after the pass (see `renderGraph`). Passes a shader does not define read
+ * as transparent black.
+ */
+export const FEEDBACK_BINDINGS: ShaderBinding[] = [
+  { binding: 13, resource: 'texture', name: 'buffer_a', type: 'texture_2d<f32>', doc: 'Buffer A output from the previous frame' },
+  { binding: 14, resource: 'texture', name: 'buffer_b', type: 'texture_2d<f32>', doc: 'Buffer B output from the previous frame' },
+  { binding: 15, resource: 'texture', name: 'buffer_c', type: 'texture_2d<f32>', doc: 'Buffer C output from the previous frame' },
+  { binding: 16, resource: 'texture', name: 'buffer_d', type: 'texture_2d<f32>', doc: 'Buffer D output from the previous frame' },
+  { binding: 17, resource: 'texture', name: 'image', type: 'texture_2d<f32>', doc: 'Image pass output from the previous frame' },
+];
+
+/** Everything the pipeline layout provides in group 0. */
+export const SHADER_BINDINGS: ShaderBinding[] = [...UNIFORM_BINDINGS, ...TEXTURE_BINDINGS, ...SAMPLER_BINDINGS, ...FEEDBACK_BINDINGS];
+
+/**
+ * Storage buffers a compute shader works on. Compute shaders have their own
+ * pipeline layout, so these reuse the low binding numbers.
+ */
+export const COMPUTE_BINDINGS: ShaderBinding[] = [
+  { binding: 0, resource: 'storage', access: 'read', name: 'input', type: 'array<f32>', doc: 'Seeded input values, one per element' },
+  { binding: 1, resource: 'storage', access: 'read_write', name: 'output', type: 'array<f32>', doc: 'Results, one per element; starts zeroed' },
+  { binding: 2, resource: 'storage', access: 'read_write', name: 'counters', type: 'array<atomic<u32>>', doc: 'Atomic counters; start zeroed' },
+];
+
+// Each uniform gets its own slot of the uniform buffer, at the offset alignment WebGPU requires
+export const UNIFORM_SLOT_SIZE = 256;
+
+/** The declaration a shader uses to read `binding` under `name`. */
+export const bindingDeclaration = (binding: ShaderBinding, name = binding.name): string => {
+  const space = binding.resource === 'uniform' ? '<uniform>' : binding.resource === 'storage' ? `<storage, ${binding.access}>` : '';
+  return `@group(0) @binding(${binding.binding}) var${space} ${name} : ${binding.type};`;
+};
+
+/** Components of each uniform for one frame, by binding name. */
+export const uniformData = (values: UniformValues): Record<string, number[]> => ({
+  time: [values.time],
+  resolution: values.resolution,
+  mouse: values.mouse,
+  frame: [values.frame],
+  time_delta: [values.timeDelta],
+  date: values.date,
+  aspect: [values.resolution[0] / values.resolution[1]],
+});
+
+/** Contents of the uniform buffer for one frame: one slot per binding. */
+export const packUniforms = (values: UniformValues): ArrayBuffer => {
+  const data = uniformData(values);
+  const buffer = new ArrayBuffer(UNIFORM_BINDINGS.length * UNIFORM_SLOT_SIZE);
+  const view = new DataView(buffer);
+  for (const u of UNIFORM_BINDINGS) {
+    data[u.name].forEach((value, i) => {
+      const at = u.binding * UNIFORM_SLOT_SIZE + i * 4;
+      if (u.type === 'u32') view.setUint32(at, value >>> 0, true);
+      else view.setFloat32(at, value, true);
+    });
+  }
+  return buffer;
+};
+
+// Clock rate of offscreen renders, and the rate shaders with feedback are stepped at
+export const FIXED_FPS = 60;
+
+/**
+ * Repeatable inputs for offscreen renders: a steady 60 fps clock, the
+ * pointer resting at the centre and a fixed date, so the same shader and
+ * time always give the same image.
+ */
+export const fixedUniforms = (time: number, width: number, height: number): UniformValues => ({
+  time,
+  timeDelta: 1 / FIXED_FPS,
+  frame: Math.round(time * FIXED_FPS),
+  resolution: [width, height],
+  mouse: [0.5, 0.5, 0, 0],
+  date: [2000, 1, 1, time],
+});
+
+export interface FrameStep {
+  time: number;
+  captures: number[]; // Indices of the requested times this frame shows
+}
+
+/**
+ * The frames an offscreen render draws to show each of `times`. Stateless
+ * shaders draw just those times. Shaders with feedback build every frame on
+ * the one before, so they are stepped through every frame from 0 on and
+ * each time is shown by the step nearest to it.
+ */
+export const frameSchedule = (times: number[], stepped: boolean): FrameStep[] => {
+  if (!stepped) return times.map((time, i) => ({ time, captures: [i] }));
+  const frameOf = (time: number) => Math.round(time * FIXED_FPS);
+  const steps: FrameStep[] = Array.from({ length: Math.max(0, ...times.map(frameOf)) + 1 }, (_, f) => ({ time: f / FIXED_FPS, captures: [] }));
+  times.forEach((time, i) => steps[Math.max(0, frameOf(time))].captures.push(i));
+  return steps;
+};
+
+const intAttr = (attrs: Attribute[], name: string): number | null => {
+  const arg = attrs.find(a => a.name === name)?.args[0];
+  return arg && arg.kind === 'Literal' ? parseInt(arg.text, 10) : null;
+};
+
+/** Whether `module` is a compute shader: one with a `@compute` entry point. */
+export const isComputeModule = (module: Module): boolean =>
+  module.decls.some(d => d.kind === 'Function' && d.attrs.some(a => a.name === 'compute'));
+
+/** Compute shaders are routed by a textual check, so code that does not parse still picks a stage. */
+export const isComputeSource = (code: string): boolean =>
+  /@compute\b/.test(code.replace(/\/\/[^\n]*|\/\*[\s\S]*?\*\//g, ''));
+
+/** The bindings the pipeline layout for `module`'s stage provides. */
+export const stageBindings = (module: Module): ShaderBinding[] =>
+  isComputeModule(module) ? COMPUTE_BINDINGS : SHADER_BINDINGS;
+
+/** Standard name of each group 0 binding `module` declares, mapped to the name it declares it under. */
+export const declaredBindings = (module: Module): Map<string, string> => {
+  const names = new Map<string, string>();
+  const bindings = stageBindings(module);
+  for (const decl of module.decls) {
+    if (decl.kind !== 'VarDecl' || intAttr(decl.attrs, 'group') !== 0) continue;
+    const binding = bindings.find(b => b.binding === intAttr(decl.attrs, 'binding'));
+    if (binding) names.set(binding.name, decl.name);
+  }
+  return names;
+};
+
+/** Prepends the diagnostic directive and the helper library (PREAMBLE). */
+export const wrapFragmentSource = (fragmentCode: string): string =>
+  DIAGNOSTIC_PREFIX + WGSL_PREAMBLE + fragmentCode;
+
+// Where the fragment code starts inside the wrapped module
+const FRAGMENT_OFFSET = (DIAGNOSTIC_PREFIX + WGSL_PREAMBLE).length;
+const FRAGMENT_LINE = (DIAGNOSTIC_PREFIX + WGSL_PREAMBLE).split('\n').length - 1;
+
+/**
+ * Re-bases messages for the wrapped module onto the fragment code the user
+ * wrote. Messages inside the preamble keep their text but lose their
+ * position (line 0, offset 0, length 0), as there is nothing to point at.
+ */
+export const toFragmentMessages = (messages: CompilationMessage[]): CompilationMessage[] =>
+  messages.map(msg => msg.offset >= FRAGMENT_OFFSET
+    ? { ...msg, offset: msg.offset - FRAGMENT_OFFSET, lineNum: msg.lineNum - FRAGMENT_LINE }
+    : { ...msg, lineNum: 0, linePos: 0, offset: 0, length: 0 });
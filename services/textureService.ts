@@ -0,0 +1,108 @@
+import { ChannelImage } from '../types';
+import { mulberry32 } from './prng';
+
+/**
+ * IMAGE CHANNELS
+ *
+ * Pixels for the `channelN` textures: seeded, tileable noise generated on
+ * the CPU, or images the user loads. Channels are plain RGBA8 data, so any
+ * renderer can upload or sample them.
+ */
+
+export type NoiseKind = 'value' | 'fbm' | 'cells';
+
+export const NOISE_KINDS: NoiseKind[] = ['value', 'fbm', 'cells'];
+export const NOISE_SIZE = 256;
+
+// Longest side of a loaded image; larger ones are scaled down on load
+const MAX_IMAGE_SIZE = 1024;
+const LATTICE = 8; // Value noise cells per side at the base octave
+const CELL_POINTS = 8; // Feature point grid per side for cellular noise
+
+const smooth = (t: number): number => t * t * (3 - 2 * t);
+
+/** Tileable value noise on a `period`×`period` lattice, sampled at (x, y) in [0, 1). */
+const valueNoise = (lattice: Float32Array, period: number, x: number, y: number): number => {
+  const fx = x * period, fy = y * period;
+  const x0 = Math.floor(fx), y0 = Math.floor(fy);
+  const tx = smooth(fx - x0), ty = smooth(fy - y0);
+  const at = (i: number, j: number) => lattice[((j % period) * period) + (i % period)];
+  const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * tx;
+  const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * tx;
+  return top + (bottom - top) * ty;
+};
+
+/** Distance to the nearest feature point, wrapping around the edges; about [0, 1]. */
+const cellNoise = (points: Float32Array, x: number, y: number): number => {
+  const cx = Math.floor(x * CELL_POINTS), cy = Math.floor(y * CELL_POINTS);
+  let nearest = Infinity;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const i = (cx + dx + CELL_POINTS) % CELL_POINTS;
+      const j = (cy + dy + CELL_POINTS) % CELL_POINTS;
+      const px = (cx + dx + points[(j * CELL_POINTS + i) * 2]) / CELL_POINTS;
+      const py = (cy + dy + points[(j * CELL_POINTS + i) * 2 + 1]) / CELL_POINTS;
+      nearest = Math.min(nearest, Math.hypot(px - x, py - y));
+    }
+  }
+  return Math.min(1, nearest * CELL_POINTS);
+};
+
+/**
+ * A `size`×`size` noise texture that tiles seamlessly. Each colour channel
+ * is an independent field, so swizzles of a sample differ.
+ */
+export const generateNoise = (kind: NoiseKind, seed: number, size = NOISE_SIZE): ChannelImage => {
+  const rng = mulberry32(seed);
+  const pixels = new Uint8ClampedArray(size * size * 4);
+
+  const field = new Float32Array(size * size);
+  for (let c = 0; c < 3; c++) {
+    field.fill(0);
+    if (kind === 'cells') {
+      const points = Float32Array.from({ length: CELL_POINTS * CELL_POINTS * 2 }, () => rng.next());
+      for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) field[y * size + x] = cellNoise(points, x / size, y / size);
+      }
+    } else {
+      // Octave weights halve each time; normalized so the sum stays in [0, 1]
+      const octaves = kind === 'fbm' ? 5 : 1;
+      const total = 2 - 2 ** (1 - octaves);
+      for (let o = 0; o < octaves; o++) {
+        const period = LATTICE << o;
+        const lattice = Float32Array.from({ length: period * period }, () => rng.next());
+        const weight = 1 / (2 ** o * total);
+        for (let y = 0; y < size; y++) {
+          for (let x = 0; x < size; x++) field[y * size + x] += valueNoise(lattice, period, x / size, y / size) * weight;
+        }
+      }
+    }
+    for (let i = 0; i < field.length; i++) pixels[i * 4 + c] = Math.round(field[i] * 255);
+  }
+  for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+
+  return { label: `${kind} noise`, width: size, height: size, pixels };
+};
+
+let defaultChannels: ChannelImage[] | null = null;
+
+/** What every canvas samples until the user loads something else. Generated on first use. */
+export const getDefaultChannels = (): ChannelImage[] => {
+  defaultChannels ??= [generateNoise('fbm', 1), generateNoise('cells', 2)];
+  return defaultChannels;
+};
+
+/** Decodes an image file into channel pixels, scaled down to fit `MAX_IMAGE_SIZE`. */
+export const loadImageChannel = async (file: Blob, label: string): Promise<ChannelImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not decode the image.');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+  return { label, width, height, pixels: context.getImageData(0, 0, width, height).data };
+};
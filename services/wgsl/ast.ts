@@ -0,0 +1,437 @@
+/**
+ * WGSL SYNTAX TREE
+ *
+ * Nodes carry two source ranges:
+ *  - `range`: where the node's own text lives in the parsed source. Printing an
+ *    untouched node slices exactly this text, which keeps formatting and
+ *    comments byte-for-byte.
+ *  - `slot`: the region of the parent's text this node stands in. Replacing a
+ *    node hands its slot to the replacement, so the printer knows what to swap.
+ *
+ * Synthesized nodes (built by mutators or parsed from snippets) have no range
+ * and are printed canonically.
+ */
+
+export interface Span {
+  start: number;
+  end: number;
+}
+
+export interface Slot extends Span {
+  lead: number; // Start of the whitespace/comments preceding the node
+}
+
+interface NodeBase {
+  range: Span | null;
+  slot: Slot | null;
+  /** Number of child nodes at parse time; a mismatch forces canonical printing. */
+  arity: number;
+}
+
+// -- Types & Attributes --
+
+export interface TypeRef extends NodeBase {
+  kind: 'Type';
+  name: string;
+  args: TemplateArg[];
+}
+
+export type TemplateArg = TypeRef | Expr;
+
+export interface Attribute extends NodeBase {
+  kind: 'Attribute';
+  name: string;
+  args: Expr[];
+}
+
+// -- Expressions --
+
+export interface LiteralExpr extends NodeBase {
+  kind: 'Literal';
+  text: string;
+}
+
+export interface IdentExpr extends NodeBase {
+  kind: 'Ident';
+  name: string;
+}
+
+export interface CallExpr extends NodeBase {
+  kind: 'Call';
+  callee: TypeRef; // Function name or type constructor, e.g. `sin` or `vec3<f32>`
+  args: Expr[];
+}
+
+export interface BinaryExpr extends NodeBase {
+  kind: 'Binary';
+  op: string;
+  left: Expr;
+  right: Expr;
+}
+
+export interface UnaryExpr extends NodeBase {
+  kind: 'Unary';
+  op: string;
+  operand: Expr;
+}
+
+export interface MemberExpr extends NodeBase {
+  kind: 'Member';
+  object: Expr;
+  member: string;
+}
+
+export interface IndexExpr extends NodeBase {
+  kind: 'Index';
+  object: Expr;
+  index: Expr;
+}
+
+export interface ParenExpr extends NodeBase {
+  kind: 'Paren';
+  expr: Expr;
+}
+
+export type Expr = LiteralExpr | IdentExpr | CallExpr | BinaryExpr | UnaryExpr | MemberExpr | IndexExpr | ParenExpr;
+
+// -- Statements --
+
+export interface Block extends NodeBase {
+  kind: 'Block';
+  stmts: Stmt[];
+  /** Start of the trivia before the closing brace. */
+  tail: number;
+}
+
+/** `let`, `var`, `const` and `override` declarations, at module or function scope. */
+export interface VarDecl extends NodeBase {
+  kind: 'VarDecl';
+  attrs: Attribute[];
+  keyword: 'let' | 'var' | 'const' | 'override';
+  template: string[]; // Address space / access mode, e.g. `var<uniform>`
+  name: string;
+  type: TypeRef | null;
+  init: Expr | null;
+}
+
+export interface AssignStmt extends NodeBase {
+  kind: 'Assign';
+  target: Expr;
+  op: string; // `=`, `+=`, ...
+  value: Expr;
+}
+
+export interface IncDecStmt extends NodeBase {
+  kind: 'IncDec';
+  target: Expr;
+  op: '++' | '--';
+}
+
+export interface ReturnStmt extends NodeBase {
+  kind: 'Return';
+  value: Expr | null;
+}
+
+export interface IfStmt extends NodeBase {
+  kind: 'If';
+  cond: Expr;
+  then: Block;
+  otherwise: IfStmt | Block | null;
+}
+
+export interface ForStmt extends NodeBase {
+  kind: 'For';
+  init: Stmt | null;
+  cond: Expr | null;
+  update: Stmt | null;
+  body: Block;
+}
+
+export interface WhileStmt extends NodeBase {
+  kind: 'While';
+  cond: Expr;
+  body: Block;
+}
+
+export interface LoopStmt extends NodeBase {
+  kind: 'Loop';
+  body: Block; // May end with a `Continuing` statement
+}
+
+export interface ContinuingStmt extends NodeBase {
+  kind: 'Continuing';
+  body: Block; // May end with a `BreakIf` statement
+}
+
+export interface BreakIfStmt extends NodeBase {
+  kind: 'BreakIf';
+  cond: Expr;
+}
+
+export interface SwitchStmt extends NodeBase {
+  kind: 'Switch';
+  selector: Expr;
+  clauses: SwitchClause[];
+}
+
+export interface SwitchClause extends NodeBase {
+  kind: 'Case';
+  selectors: (Expr | null)[]; // null stands for `default`
+  body: Block;
+}
+
+export interface SimpleStmt extends NodeBase {
+  kind: 'Break' | 'Continue' | 'Discard' | 'Empty';
+}
+
+export interface CallStmt extends NodeBase {
+  kind: 'CallStmt';
+  call: CallExpr;
+}
+
+export interface ConstAssert extends NodeBase {
+  kind: 'ConstAssert';
+  expr: Expr;
+}
+
+export type Stmt =
+  | Block
+  | VarDecl
+  | AssignStmt
+  | IncDecStmt
+  | ReturnStmt
+  | IfStmt
+  | ForStmt
+  | WhileStmt
+  | LoopStmt
+  | ContinuingStmt
+  | BreakIfStmt
+  | SwitchStmt
+  | SimpleStmt
+  | CallStmt
+  | ConstAssert;
+
+// -- Module Scope --
+
+export interface Param extends NodeBase {
+  kind: 'Param';
+  attrs: Attribute[];
+  name: string;
+  type: TypeRef;
+}
+
+export interface FunctionDecl extends NodeBase {
+  kind: 'Function';
+  attrs: Attribute[];
+  name: string;
+  params: Param[];
+  returnAttrs: Attribute[];
+  returnType: TypeRef | null;
+  body: Block;
+}
+
+export interface StructMember extends NodeBase {
+  kind: 'StructMember';
+  attrs: Attribute[];
+  name: string;
+  type: TypeRef;
+}
+
+export interface StructDecl extends NodeBase {
+  kind: 'Struct';
+  attrs: Attribute[];
+  name: string;
+  members: StructMember[];
+}
+
+export interface AliasDecl extends NodeBase {
+  kind: 'Alias';
+  name: string;
+  type: TypeRef;
+}
+
+/** `enable`, `requires` and `diagnostic` directives, kept verbatim. */
+export interface Directive extends NodeBase {
+  kind: 'Directive';
+  text: string;
+}
+
+export type Decl = Directive | VarDecl | FunctionDecl | StructDecl | AliasDecl | ConstAssert;
+
+export interface Module extends NodeBase {
+  kind: 'Module';
+  decls: Decl[];
+  tail: number;
+}
+
+export type Node =
+  | Module
+  | Decl
+  | Stmt
+  | Expr
+  | TypeRef
+  | Attribute
+  | Param
+  | StructMember
+  | SwitchClause;
+
+export type NodeKind = Node['kind'];
+
+const EXPR_KINDS = new Set<NodeKind>(['Literal', 'Ident', 'Call', 'Binary', 'Unary', 'Member', 'Index', 'Paren']);
+
+export const isExpr = (node: Node): node is Expr => EXPR_KINDS.has(node.kind);
+
+// -- Traversal --
+
+const compact = (items: (Node | null)[]): Node[] => items.filter((n): n is Node => n !== null);
+
+/** Direct children in source order. */
+export const childrenOf = (node: Node): Node[] => {
+  switch (node.kind) {
+    case 'Module': return node.decls;
+    case 'Type': return node.args;
+    case 'Attribute': return node.args;
+    case 'Literal':
+    case 'Ident':
+    case 'Directive':
+    case 'Break':
+    case 'Continue':
+    case 'Discard':
+    case 'Empty':
+      return [];
+    case 'Call': return [node.callee, ...node.args];
+    case 'Binary': return [node.left, node.right];
+    case 'Unary': return [node.operand];
+    case 'Member': return [node.object];
+    case 'Index': return [node.object, node.index];
+    case 'Paren': return [node.expr];
+    case 'Block': return node.stmts;
+    case 'VarDecl': return compact([...node.attrs, node.type, node.init]);
+    case 'Assign': return [node.target, node.value];
+    case 'IncDec': return [node.target];
+    case 'Return': return compact([node.value]);
+    case 'If': return compact([node.cond, node.then, node.otherwise]);
+    case 'For': return compact([node.init, node.cond, node.update, node.body]);
+    case 'While': return [node.cond, node.body];
+    case 'Loop': return [node.body];
+    case 'Continuing': return [node.body];
+    case 'BreakIf': return [node.cond];
+    case 'Switch': return [node.selector, ...node.clauses];
+    case 'Case': return [...compact(node.selectors), node.body];
+    case 'CallStmt': return [node.call];
+    case 'ConstAssert': return [node.expr];
+    case 'Param': return [...node.attrs, node.type];
+    case 'Function': return compact([...node.attrs, ...node.params, ...node.returnAttrs, node.returnType, node.body]);
+    case 'StructMember': return [...node.attrs, node.type];
+    case 'Struct': return [...node.attrs, ...node.members];
+    case 'Alias': return [node.type];
+  }
+};
+
+/** Pre-order walk. Returning `false` from the visitor skips that node's children. */
+export const walk = (node: Node, visit: (node: Node, parent: Node | null) => boolean | void, parent: Node | null = null): void => {
+  if (visit(node, parent) === false) return;
+  for (const child of childrenOf(node)) walk(child, visit, node);
+};
+
+/** Every node of the given kind, in source order. */
+export const collect = <K extends NodeKind>(root: Node, kind: K): Extract<Node, { kind: K }>[] => {
+  const found: Extract<Node, { kind: K }>[] = [];
+  walk(root, n => {
+    if (n.kind === kind) found.push(n as Extract<Node, { kind: K }>);
+  });
+  return found;
+};
+
+/**
+ * Rewrites a tree bottom-up. `fn` sees each node after its children were
+ * rewritten and may return a replacement, which inherits the original's slot.
+ * Nodes are updated in place; the (possibly replaced) root is returned.
+ */
+export const transform = <T extends Node>(root: T, fn: (node: Node, parent: Node | null) => Node | void): T => {
+  const visit = (node: Node, parent: Node | null): Node => {
+    replaceChildren(node, child => visit(child, node));
+    const next = fn(node, parent);
+    return next && next !== node ? replaceWith(node, next) : node;
+  };
+  return visit(root, null) as T;
+};
+
+/** Applies `map` to every direct child field of `node`, in place. */
+export const replaceChildren = (node: Node, map: (child: Node) => Node): void => {
+  const one = <T extends Node | null>(child: T): T => (child === null ? child : map(child as Node) as T);
+  const many = <T extends Node>(list: T[]): T[] => list.map(c => map(c) as T);
+  switch (node.kind) {
+    case 'Module': node.decls = many(node.decls); break;
+    case 'Type': node.args = many(node.args); break;
+    case 'Attribute': node.args = many(node.args); break;
+    case 'Call': node.callee = one(node.callee); node.args = many(node.args); break;
+    case 'Binary': node.left = one(node.left); node.right = one(node.right); break;
+    case 'Unary': node.operand = one(node.operand); break;
+    case 'Member': node.object = one(node.object); break;
+    case 'Index': node.object = one(node.object); node.index = one(node.index); break;
+    case 'Paren': node.expr = one(node.expr); break;
+    case 'Block': node.stmts = many(node.stmts); break;
+    case 'VarDecl':
+      node.attrs = many(node.attrs);
+      node.type = one(node.type);
+      node.init = one(node.init);
+      break;
+    case 'Assign': node.target = one(node.target); node.value = one(node.value); break;
+    case 'IncDec': node.target = one(node.target); break;
+    case 'Return': node.value = one(node.value); break;
+    case 'If':
+      node.cond = one(node.cond);
+      node.then = one(node.then);
+      node.otherwise = one(node.otherwise);
+      break;
+    case 'For':
+      node.init = one(node.init);
+      node.cond = one(node.cond);
+      node.update = one(node.update);
+      node.body = one(node.body);
+      break;
+    case 'While': node.cond = one(node.cond); node.body = one(node.body); break;
+    case 'Loop': node.body = one(node.body); break;
+    case 'Continuing': node.body = one(node.body); break;
+    case 'BreakIf': node.cond = one(node.cond); break;
+    case 'Switch': node.selector = one(node.selector); node.clauses = many(node.clauses); break;
+    case 'Case':
+      node.selectors = node.selectors.map(s => one(s));
+      node.body = one(node.body);
+      break;
+    case 'CallStmt': node.call = one(node.call); break;
+    case 'ConstAssert': node.expr = one(node.expr); break;
+    case 'Param': node.attrs = many(node.attrs); node.type = one(node.type); break;
+    case 'Function':
+      node.attrs = many(node.attrs);
+      node.params = many(node.params);
+      node.returnAttrs = many(node.returnAttrs);
+      node.returnType = one(node.returnType);
+      node.body = one(node.body);
+      break;
+    case 'StructMember': node.attrs = many(node.attrs); node.type = one(node.type); break;
+    case 'Struct': node.attrs = many(node.attrs); node.members = many(node.members); break;
+    case 'Alias': node.type = one(node.type); break;
+  }
+};
+
+/**
+ * Deep copy with all source positions dropped, so the copy prints canonically.
+ * Use it to move subtrees between sources or to duplicate them.
+ */
+export const detach = <T extends Node>(node: T): T => {
+  const copy = { ...node, range: null, slot: null, arity: 0 } as T;
+  replaceChildren(copy, child => detach(child));
+  return copy;
+};
+
+/** Puts `next` in the slot `prev` occupied, for replacing a child field in place. */
+export const replaceWith = <T extends Node>(prev: Node, next: T): T => {
+  next.slot = prev.slot;
+  return next;
+};
+
+/** Helper for building synthesized nodes. */
+export const synth = <T extends Node>(fields: Omit<T, 'range' | 'slot' | 'arity'>): T =>
+  ({ ...fields, range: null, slot: null, arity: 0 } as T);
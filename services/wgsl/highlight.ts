@@ -0,0 +1,110 @@
+import { getPreambleSignatures } from './typeChecker';
+import { BUILTINS } from './typeSystem';
+
+/**
+ * WGSL SYNTAX HIGHLIGHTING
+ *
+ * A forgiving scanner for the editor: unlike the lexer it never throws, keeps
+ * comments, and classifies identifiers. Half-typed code highlights fine.
+ */
+
+export type HighlightKind =
+  | 'comment' | 'keyword' | 'type' | 'builtin' | 'helper' | 'attribute'
+  | 'number' | 'ident' | 'bracket' | 'punct' | 'space';
+
+export interface HighlightToken {
+  kind: HighlightKind;
+  start: number;
+  end: number;
+}
+
+export const WGSL_KEYWORDS = [
+  'fn', 'let', 'var', 'const', 'override', 'return', 'if', 'else', 'for', 'while', 'loop', 'break',
+  'continue', 'continuing', 'switch', 'case', 'default', 'discard', 'struct', 'alias', 'true', 'false',
+  'enable', 'requires', 'diagnostic', 'const_assert', 'uniform', 'storage', 'private', 'function',
+  'workgroup', 'read', 'write', 'read_write',
+];
+
+const KEYWORDS = new Set(WGSL_KEYWORDS);
+
+const TYPE_NAME = /^(?:bool|f16|f32|i32|u32|vec[234][fhiu]?|mat[234]x[234][fh]?|array|atomic|ptr|sampler(?:_comparison)?|texture_\w+)$/;
+const NUMBER = /(?:0[xX][0-9a-fA-F]+(?:\.[0-9a-fA-F]*)?(?:[pP][+-]?\d+)?[fhiu]?|(?:\d+\.\d*|\.\d+)(?:[eE][+-]?\d+)?[fh]?|\d+[eE][+-]?\d+[fh]?|\d+[fhiu]?)/y;
+const IDENT = /[a-zA-Z_][a-zA-Z0-9_]*/y;
+const SPACE = /\s+/y;
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+const identKind = (name: string, afterAt: boolean): HighlightKind => {
+  if (afterAt) return 'attribute';
+  if (KEYWORDS.has(name)) return 'keyword';
+  if (TYPE_NAME.test(name)) return 'type';
+  if (name in BUILTINS) return 'builtin';
+  if (getPreambleSignatures().has(name)) return 'helper';
+  return 'ident';
+};
+
+/** Tokens covering every character of `code`, in order. */
+export const highlight = (code: string): HighlightToken[] => {
+  const tokens: HighlightToken[] = [];
+  const push = (kind: HighlightKind, start: number, end: number) => tokens.push({ kind, start, end });
+  const match = (re: RegExp, i: number): number => {
+    re.lastIndex = i;
+    return re.test(code) ? re.lastIndex : i;
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const start = i;
+    if (code.startsWith('//', i)) {
+      while (i < code.length && code[i] !== '\n') i++;
+      push('comment', start, i);
+    } else if (code.startsWith('/*', i)) {
+      // Block comments nest; an unterminated one runs to the end
+      let depth = 1;
+      i += 2;
+      while (i < code.length && depth > 0) {
+        if (code.startsWith('/*', i)) { depth++; i += 2; }
+        else if (code.startsWith('*/', i)) { depth--; i += 2; }
+        else i++;
+      }
+      push('comment', start, i);
+    } else if ((i = match(SPACE, start)) > start) {
+      push('space', start, i);
+    } else if ((i = match(NUMBER, start)) > start) {
+      push('number', start, i);
+    } else if ((i = match(IDENT, start)) > start) {
+      const prev = tokens[tokens.length - 1];
+      push(identKind(code.slice(start, i), prev?.kind === 'punct' && code[prev.start] === '@' && prev.end === start), start, i);
+    } else {
+      i = start + 1;
+      push(code[start] in BRACKETS || code[start] in CLOSERS ? 'bracket' : 'punct', start, i);
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Offsets of the bracket pair at the cursor: the bracket just before
+ * `offset` wins over the one at it, like most editors. Brackets in comments
+ * do not count. Null when the cursor is not next to a matched bracket.
+ */
+export const matchBracket = (tokens: HighlightToken[], code: string, offset: number): [number, number] | null => {
+  const brackets = tokens.filter(t => t.kind === 'bracket');
+  const before = brackets.findIndex(t => t.start === offset - 1);
+  const at = before !== -1 ? before : brackets.findIndex(t => t.start === offset);
+  if (at === -1) return null;
+
+  const ch = code[brackets[at].start];
+  const forward = ch in BRACKETS;
+  const open = forward ? ch : CLOSERS[ch];
+  const close = BRACKETS[open];
+  let depth = 0;
+  for (let k = at; k >= 0 && k < brackets.length; k += forward ? 1 : -1) {
+    const c = code[brackets[k].start];
+    if (c === open) depth += forward ? 1 : -1;
+    else if (c === close) depth += forward ? -1 : 1;
+    if (depth === 0) return [brackets[at].start, brackets[k].start];
+  }
+  return null;
+};
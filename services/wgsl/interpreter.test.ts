@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parse } from './parser';
+import { runCompute } from './interpreter';
+
+const I32_MAX = 2147483647;
+const I32_MIN = -2147483648;
+
+/**
+ * Runs `body` once on the CPU, with `i`, `u` and `f` as read-write storage
+ * arrays holding `ints`, `uints` and `floats`; returns what they hold after.
+ * Operands read from storage, so nothing folds at compile time.
+ */
+const run = (body: string, ints: number[], uints: number[] = [], floats: number[] = []) => {
+  const module = parse(`
+@group(0) @binding(0) var<storage, read_write> i: array<i32>;
+@group(0) @binding(1) var<storage, read_write> u: array<u32>;
+@group(0) @binding(2) var<storage, read_write> f: array<f32>;
+
+@compute @workgroup_size(1)
+fn main() {
+    ${body}
+}
+`);
+  const data = {
+    i: new Int32Array([...ints, ...new Array(16).fill(0)]),
+    u: new Uint32Array([...uints, ...new Array(16).fill(0)]),
+    f: new Float32Array([...floats, ...new Array(16).fill(0)]),
+  };
+  runCompute(module, new Map<number, Int32Array | Uint32Array | Float32Array>([[0, data.i], [1, data.u], [2, data.f]]), { workgroups: [1, 1, 1] });
+  return data;
+};
+
+describe('interpreter integers', () => {
+  it('wraps i32 and u32 overflow', () => {
+    const { i, u } = run('i[2] = i[0] + 1; i[3] = i[1] - 1; i[4] = -i[1]; u[1] = u[0] + 1u; u[2] = u[1] - 1u;', [I32_MAX, I32_MIN], [0xffffffff]);
+    expect([...i.slice(2, 5)]).toEqual([I32_MIN, I32_MAX, I32_MIN]);
+    expect([...u.slice(1, 3)]).toEqual([0, 0xffffffff]);
+  });
+
+  it('multiplies with 32-bit wrapping like imul', () => {
+    const { i, u } = run('i[2] = i[0] * i[0]; i[3] = i[1] * 2; u[1] = u[0] * u[0];', [65537, I32_MAX], [0xffffffff]);
+    expect([...i.slice(2, 4)]).toEqual([131073, -2]);
+    expect(u[1]).toBe(1);
+  });
+
+  it('divides and takes remainders by zero and of the most negative i32 as WGSL defines', () => {
+    const { i, u } = run(
+      'i[4] = i[0] / i[1]; i[5] = i[0] % i[1]; i[6] = i[2] / i[3]; i[7] = i[2] % i[3]; u[2] = u[0] / u[1]; u[3] = u[0] % u[1];',
+      [7, 0, I32_MIN, -1],
+      [7, 0],
+    );
+    // e1 / 0 is e1, e1 % 0 is 0; MIN / -1 is MIN and MIN % -1 is 0
+    expect([...i.slice(4, 8)]).toEqual([7, 0, I32_MIN, 0]);
+    expect([...u.slice(2, 4)]).toEqual([7, 0]);
+  });
+
+  it('truncates division toward zero and keeps the sign of the dividend in remainders', () => {
+    const { i } = run('i[2] = i[0] / i[1]; i[3] = i[0] % i[1]; i[4] = -i[0] / i[1]; i[5] = -i[0] % i[1];', [-7, 2]);
+    expect([...i.slice(2, 6)]).toEqual([-3, -1, 3, 1]);
+  });
+});
+
+describe('interpreter floats', () => {
+  it('rounds every f32 operation to single precision', () => {
+    const { f } = run('f[3] = f[0] + f[1]; f[4] = f[2] + 1.0; f[5] = 1.0 / f[1]; f[6] = f[0] * f[0];', [], [], [0.1, 0.3, 16777216]);
+    const f32 = Math.fround;
+    expect(f[3]).toBe(f32(f32(0.1) + f32(0.3)));
+    expect(f[4]).toBe(16777216); // 2^24 + 1 is not an f32
+    expect(f[5]).toBe(f32(1 / f32(0.3)));
+    expect(f[6]).toBe(f32(f32(0.1) * f32(0.1)));
+  });
+
+  it('converts floats to integers by truncating and saturating', () => {
+    const { i, u } = run('i[0] = i32(f[0]); i[1] = i32(f[1]); i[2] = i32(f[2]); u[0] = u32(f[3]);', [], [], [-2.75, 3e9, -3e9, -1.5]);
+    expect([...i.slice(0, 3)]).toEqual([-2, I32_MAX - 127, I32_MIN]);
+    expect(u[0]).toBe(0);
+  });
+});
@@ -0,0 +1,1322 @@
+import { Attribute, Block, CallExpr, Expr, FunctionDecl, Module, Stmt, TypeRef, VarDecl } from './ast';
+import { literalType } from './typeChecker';
+import { ScalarKind, UNKNOWN, WgslType, isFloatScalar, resolveTypeName, scalar } from './typeSystem';
+
+/**
+ * WGSL INTERPRETER
+ *
+ * Evaluates shaders on the CPU as a reference for what the GPU should
+ * compute. Arithmetic follows WGSL: f32 results are rounded to single
+ * precision, integers wrap, and integer division by zero yields the
+ * dividend. Out-of-bounds indices are recorded, then clamped, as robust
+ * buffer access does on most GPUs. The invocations of a workgroup run
+ * interleaved and switch at barriers, so workgroup memory behaves as on
+ * the GPU for race-free shaders. Fragment shaders run once per pixel of
+ * the full-screen quad, with the same `uv` the base vertex shader passes;
+ * textures are sampled with the filtering and addressing of their sampler.
+ */
+
+export type Value =
+  | { kind: 'scalar'; type: ScalarKind; x: number } // Bools are 0 or 1
+  | { kind: 'vector'; type: ScalarKind; xs: number[] }
+  | { kind: 'matrix'; type: ScalarKind; cols: number[][] }
+  | { kind: 'array'; items: Value[] }
+  | { kind: 'struct'; name: string; fields: Record<string, Value> }
+  | { kind: 'pointer'; ref: Ref }
+  | { kind: 'texture'; texture: Texture }
+  | { kind: 'sampler'; sampler: Sampler };
+
+/** A memory location: a variable, or an element or component inside one. */
+export interface Ref {
+  load: () => Value;
+  store: (value: Value) => void;
+  length?: number; // Element count of a runtime-sized storage array
+}
+
+export type StorageData = Float32Array | Int32Array | Uint32Array;
+
+/** A 2D texture as shaders see it: RGBA floats, row 0 at v = 0, a single mip level. */
+export interface Texture {
+  width: number;
+  height: number;
+  texels: Float32Array;
+}
+
+export interface Sampler {
+  filter: 'linear' | 'nearest';
+  address: 'repeat' | 'clamp-to-edge' | 'mirror-repeat';
+}
+
+export interface OutOfBoundsAccess {
+  variable: string;
+  index: number;
+  length: number;
+}
+
+export interface ComputeRun {
+  invocations: number;
+  steps: number;
+  outOfBounds: OutOfBoundsAccess[]; // The first `MAX_RECORDED_OOB`
+  outOfBoundsCount: number;
+}
+
+/** Code the interpreter cannot run: unsupported features, runaway loops, missing bindings. */
+export class InterpreterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InterpreterError';
+  }
+}
+
+// Statements and loop iterations a run may take before it is abandoned
+export const DEFAULT_STEP_LIMIT = 20_000_000;
+const MAX_RECORDED_OOB = 256;
+
+type Completion = { type: 'return'; value: Value | null } | { type: 'break' } | { type: 'continue' } | { type: 'discard' } | null;
+
+type Binding = { value: Value } | { ref: Ref };
+
+interface Env {
+  scopes: Map<string, Binding>[]; // Module scope first
+}
+
+// -- Values --
+
+const scalarValue = (type: ScalarKind, x: number): Value => ({ kind: 'scalar', type, x });
+const boolValue = (b: boolean): Value => scalarValue('bool', b ? 1 : 0);
+
+const I32_MIN = -2147483648;
+
+/** Rounds or wraps a number to what `type` can hold. */
+const wrap = (type: ScalarKind, x: number): number => {
+  switch (type) {
+    case 'f32':
+    case 'f16': return Math.fround(x);
+    case 'i32': return x | 0;
+    case 'u32': return x >>> 0;
+    case 'bool': return x ? 1 : 0;
+    default: return x;
+  }
+};
+
+/** Value conversion between scalar types, as `T(e)` does; i32 <-> u32 keep the bits. */
+const convertScalar = (x: number, from: ScalarKind, to: ScalarKind): number => {
+  if (from === to) return x;
+  if (to === 'bool') return x !== 0 ? 1 : 0;
+  if (to === 'i32' && isFloatScalar(from)) return Number.isNaN(x) ? 0 : Math.trunc(Math.min(2147483520, Math.max(I32_MIN, x)));
+  if (to === 'u32' && isFloatScalar(from)) return Number.isNaN(x) ? 0 : Math.trunc(Math.min(4294967040, Math.max(0, x)));
+  return wrap(to, x);
+};
+
+const componentsOf = (v: Value): number[] => {
+  if (v.kind === 'scalar') return [v.x];
+  if (v.kind === 'vector') return v.xs;
+  if (v.kind === 'matrix') return v.cols.flat();
+  throw new InterpreterError(`Expected a number, found ${v.kind}`);
+};
+
+const scalarTypeOf = (v: Value): ScalarKind => {
+  if (v.kind === 'scalar' || v.kind === 'vector' || v.kind === 'matrix') return v.type;
+  throw new InterpreterError(`Expected a number, found ${v.kind}`);
+};
+
+const withComponents = (like: Value, type: ScalarKind, xs: number[]): Value => {
+  if (like.kind === 'scalar') return scalarValue(type, xs[0]);
+  if (like.kind === 'vector') return { kind: 'vector', type, xs };
+  if (like.kind === 'matrix') {
+    const rows = like.cols[0].length;
+    return { kind: 'matrix', type, cols: like.cols.map((_, c) => xs.slice(c * rows, (c + 1) * rows)) };
+  }
+  throw new InterpreterError(`Expected a number, found ${like.kind}`);
+};
+
+const convertComponents = (v: Value, to: ScalarKind): Value => {
+  const from = scalarTypeOf(v);
+  return from === to ? v : withComponents(v, to, componentsOf(v).map(x => convertScalar(x, from, to)));
+};
+
+const concreteScalar = (s: ScalarKind): ScalarKind => (s === 'abstract-int' ? 'i32' : s === 'abstract-float' ? 'f32' : s);
+
+/** Resolves abstract numbers to i32/f32, as `let` and `var` without a type do. */
+const concretizeValue = (v: Value): Value => {
+  switch (v.kind) {
+    case 'scalar':
+    case 'vector':
+    case 'matrix': return convertComponents(v, concreteScalar(v.type));
+    case 'array': return { kind: 'array', items: v.items.map(concretizeValue) };
+    default: return v;
+  }
+};
+
+/** Converts `v` to `type` where WGSL converts implicitly (abstract numbers) or a constructor would. */
+const convertTo = (v: Value, type: WgslType): Value => {
+  switch (type.kind) {
+    case 'scalar':
+    case 'vector':
+    case 'matrix':
+      return v.kind === 'scalar' || v.kind === 'vector' || v.kind === 'matrix' ? convertComponents(v, type.scalar) : v;
+    case 'array':
+      return v.kind === 'array' ? { kind: 'array', items: v.items.map(item => convertTo(item, type.element)) } : v;
+    default:
+      return v;
+  }
+};
+
+/** The type of a value with the same shape as `like`, for converting what is stored into it. */
+const typeOfValue = (v: Value): WgslType => {
+  switch (v.kind) {
+    case 'scalar': return scalar(v.type);
+    case 'vector': return { kind: 'vector', size: v.xs.length, scalar: v.type };
+    case 'matrix': return { kind: 'matrix', cols: v.cols.length, rows: v.cols[0].length, scalar: v.type };
+    case 'array': return { kind: 'array', element: v.items.length > 0 ? typeOfValue(v.items[0]) : UNKNOWN, length: v.items.length };
+    default: return UNKNOWN;
+  }
+};
+
+export const zeroValue = (type: WgslType): Value => {
+  switch (type.kind) {
+    case 'scalar': return scalarValue(type.scalar, 0);
+    case 'vector': return { kind: 'vector', type: type.scalar, xs: new Array(type.size).fill(0) };
+    case 'matrix': return { kind: 'matrix', type: type.scalar, cols: Array.from({ length: type.cols }, () => new Array(type.rows).fill(0)) };
+    case 'array':
+      if (type.length === null) throw new InterpreterError('Runtime-sized arrays only exist in storage buffers');
+      return { kind: 'array', items: Array.from({ length: type.length }, () => zeroValue(type.element)) };
+    case 'struct':
+      return { kind: 'struct', name: type.name, fields: Object.fromEntries(type.members.map(m => [m.name, zeroValue(m.type)])) };
+    case 'unknown':
+      throw new InterpreterError('Cannot create a value of an unsupported type');
+  }
+};
+
+const truthy = (v: Value): boolean => {
+  if (v.kind !== 'scalar') throw new InterpreterError('Condition must be a scalar');
+  return v.x !== 0;
+};
+
+const indexOf = (v: Value): number => {
+  if (v.kind !== 'scalar') throw new InterpreterError('Index must be a scalar');
+  return v.x;
+};
+
+// -- Operators --
+
+/** The type both operands of an arithmetic or comparison operator convert to. */
+const commonScalar = (a: ScalarKind, b: ScalarKind): ScalarKind => {
+  if (a === b) return a;
+  if (a === 'abstract-int') return b;
+  if (b === 'abstract-int') return a;
+  if (a === 'abstract-float') return b;
+  if (b === 'abstract-float') return a;
+  throw new InterpreterError(`Cannot mix ${a} and ${b}`);
+};
+
+const scalarArith = (op: string, type: ScalarKind, x: number, y: number): number => {
+  if (isFloatScalar(type)) {
+    switch (op) {
+      case '+': return wrap(type, x + y);
+      case '-': return wrap(type, x - y);
+      case '*': return wrap(type, x * y);
+      case '/': return wrap(type, x / y);
+      case '%': return wrap(type, x % y);
+    }
+    throw new InterpreterError(`Operator '${op}' does not apply to ${type}`);
+  }
+  const signed = type !== 'u32';
+  switch (op) {
+    case '+': return wrap(type, x + y);
+    case '-': return wrap(type, x - y);
+    case '*': return type === 'abstract-int' ? x * y : wrap(type, Math.imul(x, y));
+    case '/':
+      if (y === 0) return x;
+      if (type === 'i32' && x === I32_MIN && y === -1) return x;
+      return wrap(type, Math.trunc(x / y));
+    case '%':
+      if (y === 0 || (type === 'i32' && x === I32_MIN && y === -1)) return 0;
+      return wrap(type, x % y);
+    case '&': return wrap(type, x & y);
+    case '|': return wrap(type, x | y);
+    case '^': return wrap(type, x ^ y);
+    case '<<': return wrap(type, x << (y & 31));
+    case '>>': return signed ? x >> (y & 31) : x >>> (y & 31);
+  }
+  throw new InterpreterError(`Unsupported operator '${op}'`);
+};
+
+const compare = (op: string, x: number, y: number): boolean => {
+  switch (op) {
+    case '==': return x === y;
+    case '!=': return x !== y;
+    case '<': return x < y;
+    case '>': return x > y;
+    case '<=': return x <= y;
+    default: return x >= y;
+  }
+};
+
+const dotProduct = (a: number[], b: number[]): number => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+const matrixOp = (op: string, a: Value, b: Value): Value => {
+  if (a.kind === 'matrix' && b.kind === 'matrix' && (op === '+' || op === '-')) {
+    return { kind: 'matrix', type: a.type, cols: a.cols.map((col, c) => col.map((x, r) => scalarArith(op, a.type, x, b.cols[c][r]))) };
+  }
+  if (op !== '*') throw new InterpreterError(`Operator '${op}' does not apply to matrices`);
+  const type = commonScalar(scalarTypeOf(a), scalarTypeOf(b));
+  const f = (x: number) => wrap(type, x);
+  if (a.kind === 'matrix' && b.kind === 'vector') {
+    return { kind: 'vector', type, xs: a.cols[0].map((_, r) => f(a.cols.reduce((sum, col, c) => sum + col[r] * b.xs[c], 0))) };
+  }
+  if (a.kind === 'vector' && b.kind === 'matrix') {
+    return { kind: 'vector', type, xs: b.cols.map(col => f(dotProduct(a.xs, col))) };
+  }
+  if (a.kind === 'matrix' && b.kind === 'matrix') {
+    return { kind: 'matrix', type, cols: b.cols.map(col => a.cols[0].map((_, r) => f(a.cols.reduce((sum, ac, k) => sum + ac[r] * col[k], 0)))) };
+  }
+  const [m, s] = a.kind === 'matrix' ? [a, b] : [b, a];
+  if (m.kind !== 'matrix' || s.kind !== 'scalar') throw new InterpreterError('Unsupported matrix operands');
+  return { kind: 'matrix', type, cols: m.cols.map(col => col.map(x => f(x * s.x))) };
+};
+
+const binaryOp = (op: string, a: Value, b: Value): Value => {
+  if (a.kind === 'matrix' || b.kind === 'matrix') return matrixOp(op, a, b);
+
+  // Shifts keep the left operand's type; the shift amount is always unsigned
+  const shift = op === '<<' || op === '>>';
+  const type = shift ? scalarTypeOf(a) : commonScalar(scalarTypeOf(a), scalarTypeOf(b));
+  const xs = componentsOf(shift ? a : convertComponents(a, type));
+  const ys = componentsOf(shift ? b : convertComponents(b, type));
+  const size = Math.max(xs.length, ys.length);
+  const at = (vs: number[], i: number) => (vs.length === 1 ? vs[0] : vs[i]);
+  const shape = a.kind === 'vector' ? a : b;
+
+  if (op === '==' || op === '!=' || op === '<' || op === '>' || op === '<=' || op === '>=') {
+    const results = Array.from({ length: size }, (_, i) => (compare(op, at(xs, i), at(ys, i)) ? 1 : 0));
+    return shape.kind === 'vector' ? { kind: 'vector', type: 'bool', xs: results } : scalarValue('bool', results[0]);
+  }
+  if (type === 'bool') {
+    if (op !== '&' && op !== '|' && op !== '^') throw new InterpreterError(`Operator '${op}' does not apply to bool`);
+    return withComponents(shape, 'bool', Array.from({ length: size }, (_, i) => scalarArith(op, 'i32', at(xs, i), at(ys, i)) ? 1 : 0));
+  }
+  return withComponents(shape, type, Array.from({ length: size }, (_, i) => scalarArith(op, type, at(xs, i), at(ys, i))));
+};
+
+const unaryOp = (op: string, v: Value): Value => {
+  const type = scalarTypeOf(v);
+  switch (op) {
+    case '-': return withComponents(v, type, componentsOf(v).map(x => (type === 'i32' ? wrap(type, -x) : -x)));
+    case '!': return withComponents(v, 'bool', componentsOf(v).map(x => (x ? 0 : 1)));
+    case '~': return withComponents(v, type, componentsOf(v).map(x => wrap(type, ~x)));
+  }
+  throw new InterpreterError(`Unsupported operator '${op}'`);
+};
+
+// -- Builtins --
+
+type MathFn = (...xs: number[]) => number;
+
+const roundHalfEven = (x: number): number => {
+  const r = Math.round(x);
+  return Math.abs(x % 1) === 0.5 && r % 2 !== 0 ? r - 1 : r;
+};
+
+/** NaN loses against a number, as GPU min/max usually behave. */
+const minNum = (a: number, b: number) => (Number.isNaN(a) ? b : Number.isNaN(b) ? a : Math.min(a, b));
+const maxNum = (a: number, b: number) => (Number.isNaN(a) ? b : Number.isNaN(b) ? a : Math.max(a, b));
+
+const FLOAT_FUNCTIONS: Record<string, MathFn> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh, asinh: Math.asinh, acosh: Math.acosh, atanh: Math.atanh,
+  exp: Math.exp, exp2: x => 2 ** x, log: Math.log, log2: Math.log2, sqrt: Math.sqrt, inverseSqrt: x => 1 / Math.sqrt(x),
+  fract: x => x - Math.floor(x), floor: Math.floor, ceil: Math.ceil, round: roundHalfEven, trunc: Math.trunc,
+  saturate: x => minNum(maxNum(x, 0), 1), degrees: x => (x * 180) / Math.PI, radians: x => (x * Math.PI) / 180,
+  pow: Math.pow, atan2: Math.atan2, step: (edge, x) => (edge <= x ? 1 : 0), fma: (a, b, c) => a * b + c,
+  smoothstep: (low, high, x) => {
+    const t = minNum(maxNum((x - low) / (high - low), 0), 1);
+    return t * t * (3 - 2 * t);
+  },
+  mix: (a, b, t) => a * (1 - t) + b * t,
+  // Screen-space derivatives of a single invocation
+  dpdx: () => 0, dpdy: () => 0, fwidth: () => 0, dpdxCoarse: () => 0, dpdyCoarse: () => 0,
+  dpdxFine: () => 0, dpdyFine: () => 0, fwidthCoarse: () => 0, fwidthFine: () => 0,
+};
+
+const NUMERIC_FUNCTIONS: Record<string, MathFn> = {
+  min: minNum,
+  max: maxNum,
+  clamp: (e, low, high) => minNum(maxNum(e, low), high),
+};
+
+const ATOMIC_OPS: Record<string, (old: number, v: number, type: ScalarKind) => number> = {
+  atomicAdd: (old, v, type) => scalarArith('+', type, old, v),
+  atomicSub: (old, v, type) => scalarArith('-', type, old, v),
+  atomicMax: (old, v) => Math.max(old, v),
+  atomicMin: (old, v) => Math.min(old, v),
+  atomicAnd: (old, v, type) => scalarArith('&', type, old, v),
+  atomicOr: (old, v, type) => scalarArith('|', type, old, v),
+  atomicXor: (old, v, type) => scalarArith('^', type, old, v),
+  atomicExchange: (_, v) => v,
+};
+
+// -- Textures --
+
+// Arguments of each sampling function before its optional texel offset
+const SAMPLE_ARITY: Record<string, number> = { textureSample: 3, textureSampleBias: 4, textureSampleLevel: 4, textureSampleGrad: 5 };
+
+/** Where texel `i` of an axis `size` texels long ends up under `address`. */
+const addressTexel = (i: number, size: number, address: Sampler['address']): number => {
+  if (!Number.isFinite(i)) return 0;
+  switch (address) {
+    case 'repeat':
+      return ((i % size) + size) % size;
+    case 'clamp-to-edge':
+      return Math.max(0, Math.min(size - 1, i));
+    case 'mirror-repeat': {
+      const m = ((i % (2 * size)) + 2 * size) % (2 * size);
+      return m < size ? m : 2 * size - 1 - m;
+    }
+  }
+};
+
+const texelAt = (t: Texture, x: number, y: number): number[] => Array.from(t.texels.subarray((y * t.width + x) * 4, (y * t.width + x) * 4 + 4));
+
+/** Filters `t` at normalized (u, v), as a GPU sampler does at mip level 0. */
+const sampleTexture = (t: Texture, s: Sampler, u: number, v: number, offset: number[]): number[] => {
+  const fetch = (x: number, y: number) => texelAt(t, addressTexel(x + offset[0], t.width, s.address), addressTexel(y + offset[1], t.height, s.address));
+  if (s.filter === 'nearest') return fetch(Math.floor(u * t.width), Math.floor(v * t.height));
+  const fx = u * t.width - 0.5, fy = v * t.height - 0.5;
+  const x0 = Math.floor(fx), y0 = Math.floor(fy);
+  const tx = fx - x0, ty = fy - y0;
+  const [a, b, c, d] = [fetch(x0, y0), fetch(x0 + 1, y0), fetch(x0, y0 + 1), fetch(x0 + 1, y0 + 1)];
+  return a.map((_, i) => Math.fround((a[i] * (1 - tx) + b[i] * tx) * (1 - ty) + (c[i] * (1 - tx) + d[i] * tx) * ty));
+};
+
+const textureArg = (v: Value, fn: string): Texture => {
+  if (v.kind !== 'texture') throw new InterpreterError(`${fn} needs a texture`);
+  return v.texture;
+};
+
+/** The texture builtins, or null if `name` is not one. Only `texture_2d<f32>` overloads exist. */
+const callTexture = (name: string, args: Value[]): Value | null => {
+  const rgba = (xs: number[]): Value => ({ kind: 'vector', type: 'f32', xs });
+  const arity = SAMPLE_ARITY[name];
+  if (arity !== undefined) {
+    const texture = textureArg(args[0], name);
+    if (args[1]?.kind !== 'sampler') throw new InterpreterError(`${name} needs a sampler`);
+    const [u, v] = componentsOf(args[2]);
+    const offset = args.length > arity ? componentsOf(args[arity]) : [0, 0];
+    return rgba(sampleTexture(texture, args[1].sampler, u, v, offset));
+  }
+  switch (name) {
+    case 'textureLoad': {
+      // Out-of-bounds loads may return any texel or zero; zero it is
+      const texture = textureArg(args[0], name);
+      const [x, y] = componentsOf(args[1]);
+      const inside = x >= 0 && x < texture.width && y >= 0 && y < texture.height;
+      return rgba(inside ? texelAt(texture, x, y) : [0, 0, 0, 0]);
+    }
+    case 'textureDimensions': {
+      const texture = textureArg(args[0], name);
+      return { kind: 'vector', type: 'u32', xs: [texture.width, texture.height] };
+    }
+    case 'textureNumLevels':
+      textureArg(args[0], name);
+      return scalarValue('u32', 1);
+    default:
+      return null;
+  }
+};
+
+const BARRIERS = new Set(['workgroupBarrier', 'storageBarrier', 'textureBarrier']);
+
+/** Applies `fn` component by component, broadcasting scalar arguments over vector ones. */
+const componentwise = (args: Value[], fn: MathFn, float: boolean): Value => {
+  const type = args.map(scalarTypeOf).reduce(commonScalar);
+  const converted = args.map(a => convertComponents(a, type));
+  const shape = converted.find(a => a.kind !== 'scalar') ?? converted[0];
+  const size = componentsOf(shape).length;
+  const xs = Array.from({ length: size }, (_, i) => fn(...converted.map(a => {
+    const cs = componentsOf(a);
+    return cs.length === 1 ? cs[0] : cs[i];
+  })));
+  if (float && !isFloatScalar(type)) throw new InterpreterError('Expected float arguments');
+  return withComponents(shape, type, xs.map(x => wrap(type, x)));
+};
+
+const determinant = (cols: number[][]): number => {
+  const n = cols.length;
+  if (n === 2) return cols[0][0] * cols[1][1] - cols[1][0] * cols[0][1];
+  let det = 0;
+  for (let c = 0; c < n; c++) {
+    const minor = cols.filter((_, k) => k !== c).map(col => col.slice(1));
+    det += (c % 2 === 0 ? 1 : -1) * cols[c][0] * determinant(minor);
+  }
+  return det;
+};
+
+const bitcastScalar = (x: number, from: ScalarKind, to: ScalarKind): number => {
+  const view = new DataView(new ArrayBuffer(4));
+  if (isFloatScalar(from)) view.setFloat32(0, x);
+  else view.setUint32(0, x >>> 0);
+  if (to === 'f32') return view.getFloat32(0);
+  return to === 'i32' ? view.getInt32(0) : view.getUint32(0);
+};
+
+const vectorOf = (v: Value): number[] => {
+  if (v.kind !== 'vector') throw new InterpreterError('Expected a vector');
+  return v.xs;
+};
+
+/** Builtins that take plain values; atomics, barriers and `arrayLength` need the interpreter. */
+const callBuiltin = (name: string, args: Value[]): Value | null => {
+  const floatFn = FLOAT_FUNCTIONS[name];
+  if (floatFn) return componentwise(args, floatFn, true);
+  const numericFn = NUMERIC_FUNCTIONS[name];
+  if (numericFn) return componentwise(args, numericFn, false);
+
+  switch (name) {
+    case 'abs': {
+      const type = scalarTypeOf(args[0]);
+      return withComponents(args[0], type, componentsOf(args[0]).map(x => (type === 'u32' ? x : wrap(type, Math.abs(x)))));
+    }
+    case 'sign': {
+      const type = scalarTypeOf(args[0]);
+      return withComponents(args[0], type, componentsOf(args[0]).map(x => (x > 0 ? 1 : x < 0 ? -1 : 0)));
+    }
+    case 'length': {
+      const type = scalarTypeOf(args[0]);
+      return scalarValue(type, wrap(type, Math.hypot(...componentsOf(args[0]))));
+    }
+    case 'distance': {
+      const diff = binaryOp('-', args[0], args[1]);
+      return scalarValue(scalarTypeOf(diff), wrap(scalarTypeOf(diff), Math.hypot(...componentsOf(diff))));
+    }
+    case 'dot': {
+      const type = commonScalar(scalarTypeOf(args[0]), scalarTypeOf(args[1]));
+      const a = vectorOf(convertComponents(args[0], type));
+      const b = vectorOf(convertComponents(args[1], type));
+      return scalarValue(type, isFloatScalar(type) ? wrap(type, dotProduct(a, b)) : a.reduce((sum, x, i) => scalarArith('+', type, sum, scalarArith('*', type, x, b[i])), 0));
+    }
+    case 'cross': {
+      const [a, b] = [vectorOf(args[0]), vectorOf(args[1])];
+      const type = scalarTypeOf(args[0]);
+      return { kind: 'vector', type, xs: [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]].map(x => wrap(type, x)) };
+    }
+    case 'normalize': {
+      const xs = vectorOf(args[0]);
+      const len = Math.hypot(...xs);
+      return { kind: 'vector', type: scalarTypeOf(args[0]), xs: xs.map(x => wrap(scalarTypeOf(args[0]), x / len)) };
+    }
+    case 'reflect': {
+      const [e1, e2] = [vectorOf(args[0]), vectorOf(args[1])];
+      const d = dotProduct(e1, e2);
+      return { kind: 'vector', type: scalarTypeOf(args[0]), xs: e1.map((x, i) => wrap(scalarTypeOf(args[0]), x - 2 * d * e2[i])) };
+    }
+    case 'faceForward': {
+      const flip = dotProduct(vectorOf(args[1]), vectorOf(args[2])) < 0;
+      return flip ? args[0] : unaryOp('-', args[0]);
+    }
+    case 'refract': {
+      const [e1, e2] = [vectorOf(args[0]), vectorOf(args[1])];
+      const eta = componentsOf(args[2])[0];
+      const d = dotProduct(e2, e1);
+      const k = 1 - eta * eta * (1 - d * d);
+      const type = scalarTypeOf(args[0]);
+      return { kind: 'vector', type, xs: e1.map((x, i) => wrap(type, k < 0 ? 0 : eta * x - (eta * d + Math.sqrt(k)) * e2[i])) };
+    }
+    case 'select': {
+      const [f, t, cond] = args;
+      if (cond.kind === 'scalar') return cond.x ? t : f;
+      const type = commonScalar(scalarTypeOf(f), scalarTypeOf(t));
+      const [fs, ts] = [componentsOf(convertComponents(f, type)), componentsOf(convertComponents(t, type))];
+      return withComponents(f, type, vectorOf(cond).map((c, i) => (c ? ts[i] : fs[i])));
+    }
+    case 'any': return boolValue(componentsOf(args[0]).some(x => x !== 0));
+    case 'all': return boolValue(componentsOf(args[0]).every(x => x !== 0));
+    case 'determinant': {
+      const m = args[0];
+      if (m.kind !== 'matrix') throw new InterpreterError('determinant needs a matrix');
+      return scalarValue(m.type, wrap(m.type, determinant(m.cols)));
+    }
+    case 'transpose': {
+      const m = args[0];
+      if (m.kind !== 'matrix') throw new InterpreterError('transpose needs a matrix');
+      return { kind: 'matrix', type: m.type, cols: m.cols[0].map((_, r) => m.cols.map(col => col[r])) };
+    }
+    case 'countOneBits':
+      return withComponents(args[0], scalarTypeOf(args[0]), componentsOf(args[0]).map(x => {
+        let n = 0;
+        for (let v = x >>> 0; v; v &= v - 1) n++;
+        return n;
+      }));
+    case 'countLeadingZeros':
+      return withComponents(args[0], scalarTypeOf(args[0]), componentsOf(args[0]).map(x => Math.clz32(x)));
+    case 'countTrailingZeros':
+      return withComponents(args[0], scalarTypeOf(args[0]), componentsOf(args[0]).map(x => (x === 0 ? 32 : 31 - Math.clz32(x & -x))));
+    case 'reverseBits': {
+      const type = scalarTypeOf(args[0]);
+      return withComponents(args[0], type, componentsOf(args[0]).map(x => {
+        let r = 0;
+        for (let i = 0; i < 32; i++) r = (r << 1) | ((x >>> i) & 1);
+        return wrap(type, r);
+      }));
+    }
+  }
+  return null;
+};
+
+// -- Interpreter --
+
+const intAttr = (attrs: Attribute[], name: string): number | null => {
+  const arg = attrs.find(a => a.name === name)?.args[0];
+  return arg && arg.kind === 'Literal' ? parseInt(arg.text, 10) : null;
+};
+
+const parseLiteral = (text: string): Value => {
+  const type = literalType(text);
+  if (type.kind !== 'scalar') throw new InterpreterError(`Unsupported literal ${text}`);
+  if (type.scalar === 'bool') return boolValue(text === 'true');
+  const body = text.replace(/[fhiu]$/, '');
+  const x = /^0[xX]/.test(body) && !/[.pP]/.test(body) ? parseInt(body, 16) : Number(body);
+  return scalarValue(type.scalar, wrap(type.scalar, x));
+};
+
+const SWIZZLE = 'xyzw';
+const COLOR_SWIZZLE = 'rgba';
+const swizzleIndices = (member: string): number[] | null => {
+  const set = [...member].every(c => SWIZZLE.includes(c)) ? SWIZZLE : [...member].every(c => COLOR_SWIZZLE.includes(c)) ? COLOR_SWIZZLE : null;
+  return set ? [...member].map(c => set.indexOf(c)) : null;
+};
+
+class Interpreter {
+  private readonly functions = new Map<string, FunctionDecl>();
+  private readonly namedTypes = new Map<string, WgslType>();
+  readonly moduleScope = new Map<string, Binding>();
+  private readonly privateDecls: VarDecl[] = [];
+  private readonly workgroupDecls: VarDecl[] = [];
+  private steps = 0;
+  readonly outOfBounds: OutOfBoundsAccess[] = [];
+  outOfBoundsCount = 0;
+
+  constructor(private readonly module: Module, private readonly stepLimit: number) {
+    for (const decl of module.decls) {
+      if (decl.kind === 'Function') this.functions.set(decl.name, decl);
+      else if (decl.kind === 'Struct') this.namedTypes.set(decl.name, { kind: 'struct', name: decl.name, members: [] });
+    }
+    for (const decl of module.decls) {
+      if (decl.kind === 'Struct') {
+        (this.namedTypes.get(decl.name) as WgslType & { kind: 'struct' }).members = decl.members.map(m => ({ name: m.name, type: this.resolveType(m.type) }));
+      } else if (decl.kind === 'Alias') {
+        this.namedTypes.set(decl.name, this.resolveType(decl.type));
+      }
+    }
+  }
+
+  get stepCount(): number {
+    return this.steps;
+  }
+
+  /** Binds module-scope declarations; storage and uniform bindings come from `bindings`. */
+  declareGlobals(bindings: Map<number, Ref>): void {
+    const env: Env = { scopes: [this.moduleScope] };
+    for (const decl of this.module.decls) {
+      if (decl.kind !== 'VarDecl') continue;
+      const space = decl.template[0];
+      if (decl.keyword === 'const' || decl.keyword === 'override') {
+        if (!decl.init) throw new InterpreterError(`Override '${decl.name}' has no default value`);
+        this.moduleScope.set(decl.name, { value: this.declaredValue(decl, this.evaluate(decl.init, env)) });
+      } else if (space === 'storage' || space === 'uniform' || decl.attrs.some(a => a.name === 'binding')) {
+        const binding = intAttr(decl.attrs, 'binding');
+        const ref = binding === null ? undefined : bindings.get(binding);
+        if (!ref) throw new InterpreterError(`No resource bound at @binding(${binding}) for '${decl.name}'`);
+        this.moduleScope.set(decl.name, { ref });
+      } else if (space === 'workgroup') {
+        this.workgroupDecls.push(decl);
+      } else {
+        this.privateDecls.push(decl);
+      }
+    }
+  }
+
+  /** Fresh workgroup variables, shared by the invocations of one workgroup. */
+  createWorkgroupMemory(): Map<string, Binding> {
+    return new Map(this.workgroupDecls.map(d => [d.name, { ref: this.box(zeroValue(this.resolveType(d.type!))) }]));
+  }
+
+  /** Module scope for one invocation: shared bindings plus its own private variables. */
+  invocationScope(workgroup: Map<string, Binding>): Map<string, Binding> {
+    const scope = new Map([...this.moduleScope, ...workgroup]);
+    const env: Env = { scopes: [scope] };
+    for (const d of this.privateDecls) {
+      const value = d.init ? this.declaredValue(d, this.evaluate(d.init, env)) : zeroValue(this.resolveType(d.type!));
+      scope.set(d.name, { ref: this.box(value) });
+    }
+    return scope;
+  }
+
+  /** Runs `fn` with argument values; yields at every barrier it reaches. */
+  *invoke(fn: FunctionDecl, args: Value[], scope: Map<string, Binding>): Generator<void, Value | null> {
+    const params = new Map<string, Binding>(fn.params.map((p, i) => [p.name, { value: this.convertToTypeRef(args[i], p.type) }]));
+    const completion = yield* this.execStatements(fn.body.stmts, { scopes: [scope, params] });
+    if (completion?.type === 'return' && completion.value) return fn.returnType ? this.convertToTypeRef(completion.value, fn.returnType) : completion.value;
+    return null;
+  }
+
+  // -- Types --
+
+  resolveType(ref: TypeRef): WgslType {
+    const named = this.namedTypes.get(ref.name);
+    if (named) return named;
+    // Atomics are plain integers to a sequential interpreter
+    if (ref.name === 'atomic' && ref.args[0]?.kind === 'Type') return this.resolveType(ref.args[0]);
+    const args = ref.args.map(arg => {
+      if (arg.kind === 'Type') {
+        const constant = this.moduleScope.get(arg.name);
+        if (constant && 'value' in constant && constant.value.kind === 'scalar') return constant.value.x;
+        return this.resolveType(arg);
+      }
+      const v = this.evaluate(arg, { scopes: [this.moduleScope] });
+      return v.kind === 'scalar' ? v.x : null;
+    });
+    const t = resolveTypeName(ref.name, args);
+    if (!t) throw new InterpreterError(`Unknown type '${ref.name}'`);
+    return t;
+  }
+
+  private convertToTypeRef(v: Value, ref: TypeRef): Value {
+    if (ref.name === 'ptr') return v;
+    return convertTo(v, this.resolveType(ref));
+  }
+
+  private declaredValue(decl: VarDecl, value: Value): Value {
+    if (decl.type) return convertTo(value, this.resolveType(decl.type));
+    return decl.keyword === 'const' ? value : concretizeValue(value);
+  }
+
+  private box(initial: Value): Ref {
+    let value = initial;
+    return { load: () => value, store: v => { value = v; } };
+  }
+
+  private step(): void {
+    if (++this.steps > this.stepLimit) throw new InterpreterError(`Gave up after ${this.stepLimit} steps; the shader may not terminate`);
+  }
+
+  recordOutOfBounds(variable: string, index: number, length: number): void {
+    this.outOfBoundsCount++;
+    if (this.outOfBounds.length < MAX_RECORDED_OOB) this.outOfBounds.push({ variable, index, length });
+  }
+
+  /** Clamps `index` into [0, length), recording accesses that needed it. */
+  private clampIndex(variable: string, index: number, length: number): number {
+    if (index >= 0 && index < length) return index;
+    this.recordOutOfBounds(variable, index, length);
+    return Math.max(0, Math.min(length - 1, index));
+  }
+
+  // -- Statements --
+
+  private *execStatements(stmts: Stmt[], env: Env): Generator<void, Completion> {
+    for (const stmt of stmts) {
+      const completion = yield* this.exec(stmt, env);
+      if (completion) return completion;
+    }
+    return null;
+  }
+
+  private *execBlock(block: Block, env: Env): Generator<void, Completion> {
+    return yield* this.execStatements(block.stmts, { scopes: [...env.scopes, new Map()] });
+  }
+
+  private *exec(stmt: Stmt, env: Env): Generator<void, Completion> {
+    this.step();
+    switch (stmt.kind) {
+      case 'Block':
+        return yield* this.execBlock(stmt, env);
+      case 'VarDecl': {
+        const scope = env.scopes[env.scopes.length - 1];
+        if (stmt.keyword === 'var') {
+          const value = stmt.init ? this.declaredValue(stmt, this.evaluate(stmt.init, env)) : zeroValue(this.resolveType(stmt.type!));
+          scope.set(stmt.name, { ref: this.box(value) });
+        } else {
+          scope.set(stmt.name, { value: this.declaredValue(stmt, this.evaluate(stmt.init!, env)) });
+        }
+        return null;
+      }
+      case 'Assign': {
+        const value = this.evaluate(stmt.value, env);
+        if (stmt.target.kind === 'Ident' && stmt.target.name === '_') return null;
+        const ref = this.reference(stmt.target, env);
+        const current = ref.load();
+        const result = stmt.op === '=' ? value : binaryOp(stmt.op.slice(0, -1), current, value);
+        ref.store(convertTo(result, typeOfValue(current)));
+        return null;
+      }
+      case 'IncDec': {
+        const ref = this.reference(stmt.target, env);
+        const current = ref.load();
+        ref.store(binaryOp(stmt.op === '++' ? '+' : '-', current, scalarValue('abstract-int', 1)));
+        return null;
+      }
+      case 'Return':
+        return { type: 'return', value: stmt.value ? this.evaluate(stmt.value, env) : null };
+      case 'If': {
+        if (truthy(this.evaluate(stmt.cond, env))) return yield* this.execBlock(stmt.then, env);
+        return stmt.otherwise ? yield* this.exec(stmt.otherwise, env) : null;
+      }
+      case 'For': {
+        const loopEnv: Env = { scopes: [...env.scopes, new Map()] };
+        if (stmt.init) yield* this.exec(stmt.init, loopEnv);
+        while (!stmt.cond || truthy(this.evaluate(stmt.cond, loopEnv))) {
+          this.step();
+          const completion = yield* this.execBlock(stmt.body, loopEnv);
+          if (completion?.type === 'break') break;
+          if (completion && completion.type !== 'continue') return completion;
+          if (stmt.update) yield* this.exec(stmt.update, loopEnv);
+        }
+        return null;
+      }
+      case 'While': {
+        while (truthy(this.evaluate(stmt.cond, env))) {
+          this.step();
+          const completion = yield* this.execBlock(stmt.body, env);
+          if (completion?.type === 'break') break;
+          if (completion && completion.type !== 'continue') return completion;
+        }
+        return null;
+      }
+      case 'Loop': {
+        const last = stmt.body.stmts[stmt.body.stmts.length - 1];
+        const continuing = last?.kind === 'Continuing' ? last : null;
+        const body = continuing ? stmt.body.stmts.slice(0, -1) : stmt.body.stmts;
+        for (;;) {
+          this.step();
+          // `continuing` sees the body's declarations
+          const loopEnv: Env = { scopes: [...env.scopes, new Map()] };
+          const completion = yield* this.execStatements(body, loopEnv);
+          if (completion?.type === 'break') break;
+          if (completion && completion.type !== 'continue') return completion;
+          if (continuing) {
+            const after = yield* this.execStatements(continuing.body.stmts, loopEnv);
+            if (after?.type === 'break') break;
+            if (after) return after;
+          }
+        }
+        return null;
+      }
+      case 'BreakIf':
+        return truthy(this.evaluate(stmt.cond, env)) ? { type: 'break' } : null;
+      case 'Switch': {
+        const selector = this.evaluate(stmt.selector, env);
+        const matches = (s: Expr | null) => s !== null && truthy(binaryOp('==', selector, this.evaluate(s, env)));
+        const chosen = stmt.clauses.find(c => c.selectors.some(matches)) ?? stmt.clauses.find(c => c.selectors.includes(null));
+        if (!chosen) return null;
+        const completion = yield* this.execBlock(chosen.body, env);
+        return completion?.type === 'break' ? null : completion;
+      }
+      case 'CallStmt': {
+        const name = stmt.call.callee.name;
+        if (BARRIERS.has(name)) {
+          yield;
+          return null;
+        }
+        const fn = this.functions.get(name);
+        if (fn) {
+          yield* this.invoke(fn, stmt.call.args.map(a => this.evaluate(a, env)), env.scopes[0]);
+          return null;
+        }
+        this.evaluate(stmt.call, env);
+        return null;
+      }
+      case 'Break':
+        return { type: 'break' };
+      case 'Continue':
+        return { type: 'continue' };
+      case 'Discard':
+        return { type: 'discard' };
+      case 'Continuing':
+      case 'ConstAssert':
+      case 'Empty':
+        return null;
+    }
+  }
+
+  // -- Expressions --
+
+  private lookup(name: string, env: Env): Binding {
+    for (let i = env.scopes.length - 1; i >= 0; i--) {
+      const b = env.scopes[i].get(name);
+      if (b) return b;
+    }
+    throw new InterpreterError(`Unresolved identifier '${name}'`);
+  }
+
+  /** The memory location an expression designates. */
+  reference(expr: Expr, env: Env): Ref {
+    switch (expr.kind) {
+      case 'Ident': {
+        const b = this.lookup(expr.name, env);
+        if ('ref' in b) return b.ref;
+        throw new InterpreterError(`'${expr.name}' is not a variable`);
+      }
+      case 'Paren':
+        return this.reference(expr.expr, env);
+      case 'Unary': {
+        if (expr.op !== '*') break;
+        const p = this.evaluate(expr.operand, env);
+        if (p.kind !== 'pointer') throw new InterpreterError('Dereferenced a non-pointer');
+        return p.ref;
+      }
+      case 'Index': {
+        const parent = this.reference(expr.object, env);
+        const index = indexOf(this.evaluate(expr.index, env));
+        return this.elementRef(parent, index, rootName(expr));
+      }
+      case 'Member': {
+        const parent = this.reference(expr.object, env);
+        const value = parent.load();
+        if (value.kind === 'struct') {
+          return {
+            load: () => (parent.load() as Value & { kind: 'struct' }).fields[expr.member],
+            store: v => {
+              const s = parent.load() as Value & { kind: 'struct' };
+              parent.store({ ...s, fields: { ...s.fields, [expr.member]: v } });
+            },
+          };
+        }
+        const indices = swizzleIndices(expr.member);
+        if (value.kind === 'vector' && indices?.length === 1) return this.elementRef(parent, indices[0], rootName(expr));
+        break;
+      }
+    }
+    throw new InterpreterError('Expression is not assignable');
+  }
+
+  private elementRef(parent: Ref & { element?: (i: number) => Ref }, index: number, variable: string): Ref {
+    if (parent.element) return parent.element(index);
+    const lengthOf = (v: Value) => (v.kind === 'array' ? v.items.length : v.kind === 'vector' ? v.xs.length : v.kind === 'matrix' ? v.cols.length : 0);
+    const at = this.clampIndex(variable, index, lengthOf(parent.load()));
+    return {
+      load: () => indexValue(parent.load(), at),
+      store: v => parent.store(replaceIndex(parent.load(), at, v)),
+    };
+  }
+
+  evaluate(expr: Expr, env: Env): Value {
+    switch (expr.kind) {
+      case 'Literal':
+        return parseLiteral(expr.text);
+      case 'Paren':
+        return this.evaluate(expr.expr, env);
+      case 'Ident': {
+        const b = this.lookup(expr.name, env);
+        return 'value' in b ? b.value : b.ref.load();
+      }
+      case 'Unary': {
+        if (expr.op === '&') return { kind: 'pointer', ref: this.reference(expr.operand, env) };
+        if (expr.op === '*') return this.reference(expr, env).load();
+        return unaryOp(expr.op, this.evaluate(expr.operand, env));
+      }
+      case 'Binary': {
+        if (expr.op === '&&') return boolValue(truthy(this.evaluate(expr.left, env)) && truthy(this.evaluate(expr.right, env)));
+        if (expr.op === '||') return boolValue(truthy(this.evaluate(expr.left, env)) || truthy(this.evaluate(expr.right, env)));
+        return binaryOp(expr.op, this.evaluate(expr.left, env), this.evaluate(expr.right, env));
+      }
+      case 'Member': {
+        const object = this.evaluate(expr.object, env);
+        if (object.kind === 'struct') {
+          const field = object.fields[expr.member];
+          if (!field) throw new InterpreterError(`No member '${expr.member}'`);
+          return field;
+        }
+        const indices = swizzleIndices(expr.member);
+        if (object.kind !== 'vector' || !indices) throw new InterpreterError(`Cannot access '.${expr.member}'`);
+        const xs = indices.map(i => object.xs[i]);
+        return xs.length === 1 ? scalarValue(object.type, xs[0]) : { kind: 'vector', type: object.type, xs };
+      }
+      case 'Index': {
+        // Through a reference where there is one, so storage reads are bounds-checked in place
+        if (isReferenceExpr(expr.object, env)) return this.reference(expr, env).load();
+        const object = this.evaluate(expr.object, env);
+        const index = indexOf(this.evaluate(expr.index, env));
+        const length = object.kind === 'array' ? object.items.length : object.kind === 'vector' ? object.xs.length : object.kind === 'matrix' ? object.cols.length : 0;
+        return indexValue(object, this.clampIndex(rootName(expr), index, length));
+      }
+      case 'Call':
+        return this.call(expr, env);
+    }
+  }
+
+  private call(call: CallExpr, env: Env): Value {
+    const name = call.callee.name;
+    const fn = this.functions.get(name);
+    if (fn) {
+      const result = drain(this.invoke(fn, call.args.map(a => this.evaluate(a, env)), env.scopes[0]));
+      if (!result) throw new InterpreterError(`'${name}' does not return a value`);
+      return result;
+    }
+
+    if (name === 'arrayLength') {
+      const p = this.evaluate(call.args[0], env);
+      if (p.kind !== 'pointer' || p.ref.length === undefined) throw new InterpreterError('arrayLength needs a pointer to a runtime-sized array');
+      return scalarValue('u32', p.ref.length);
+    }
+    if (name in ATOMIC_OPS || name === 'atomicLoad' || name === 'atomicStore' || name === 'atomicCompareExchangeWeak') {
+      return this.atomic(name, call.args.map(a => this.evaluate(a, env)));
+    }
+    if (name === 'bitcast') {
+      const target = call.callee.args[0];
+      if (target?.kind !== 'Type') throw new InterpreterError('bitcast needs a target type');
+      const to = this.resolveType(target);
+      const v = this.evaluate(call.args[0], env);
+      const toScalar = to.kind === 'scalar' || to.kind === 'vector' ? to.scalar : null;
+      if (!toScalar) throw new InterpreterError('Unsupported bitcast');
+      const from = concreteScalar(scalarTypeOf(v));
+      return withComponents(v, toScalar, componentsOf(v).map(x => bitcastScalar(x, from, toScalar)));
+    }
+
+    const args = call.args.map(a => this.evaluate(a, env));
+    const builtin = name.startsWith('texture') ? callTexture(name, args) : callBuiltin(name, args);
+    if (builtin) return builtin;
+    return this.construct(call, args);
+  }
+
+  private atomic(name: string, args: Value[]): Value {
+    const p = args[0];
+    if (p.kind !== 'pointer') throw new InterpreterError(`${name} needs a pointer`);
+    const old = p.ref.load();
+    if (old.kind !== 'scalar') throw new InterpreterError(`${name} needs an atomic integer`);
+    if (name === 'atomicLoad') return old;
+    if (name === 'atomicStore') {
+      p.ref.store(convertComponents(args[1], old.type));
+      return old;
+    }
+    if (name === 'atomicCompareExchangeWeak') {
+      const exchanged = old.x === componentsOf(convertComponents(args[1], old.type))[0];
+      if (exchanged) p.ref.store(convertComponents(args[2], old.type));
+      return { kind: 'struct', name: `__atomic_compare_exchange_result_${old.type}`, fields: { old_value: old, exchanged: boolValue(exchanged) } };
+    }
+    const v = componentsOf(convertComponents(args[1], old.type))[0];
+    p.ref.store(scalarValue(old.type, wrap(old.type, ATOMIC_OPS[name](old.x, v, old.type))));
+    return old;
+  }
+
+  /** Type constructors and conversions: `vec3<f32>(...)`, `f32(x)`, `array(...)`, `S(...)`. */
+  private construct(call: CallExpr, args: Value[]): Value {
+    const name = call.callee.name;
+    let type: WgslType;
+    try {
+      type = this.resolveType(call.callee);
+    } catch {
+      throw new InterpreterError(`Unsupported function '${name}'`);
+    }
+    if (args.length === 0) return zeroValue(type);
+
+    switch (type.kind) {
+      case 'scalar':
+        return convertComponents(args[0], type.scalar);
+      case 'vector': {
+        // An untemplated `vec3(...)` takes its element type from the arguments
+        const inferred = call.callee.args.length === 0 && /^vec[234]$/.test(name);
+        const elem = inferred ? args.map(scalarTypeOf).reduce(commonScalar) : type.scalar;
+        const xs = args.flatMap(a => componentsOf(convertComponents(a, elem)));
+        return { kind: 'vector', type: elem, xs: xs.length === 1 ? new Array(type.size).fill(xs[0]) : xs };
+      }
+      case 'matrix': {
+        const xs = args.flatMap(a => componentsOf(convertComponents(a, type.scalar)));
+        return { kind: 'matrix', type: type.scalar, cols: Array.from({ length: type.cols }, (_, c) => xs.slice(c * type.rows, (c + 1) * type.rows)) };
+      }
+      case 'array':
+        return { kind: 'array', items: type.element.kind === 'unknown' ? args : args.map(a => convertTo(a, type.element)) };
+      case 'struct':
+        return { kind: 'struct', name: type.name, fields: Object.fromEntries(type.members.map((m, i) => [m.name, convertTo(args[i], m.type)])) };
+      default:
+        throw new InterpreterError(`Cannot construct '${name}'`);
+    }
+  }
+}
+
+const indexValue = (v: Value, i: number): Value => {
+  switch (v.kind) {
+    case 'array': return v.items[i];
+    case 'vector': return scalarValue(v.type, v.xs[i]);
+    case 'matrix': return { kind: 'vector', type: v.type, xs: v.cols[i] };
+    default: throw new InterpreterError(`Cannot index into ${v.kind}`);
+  }
+};
+
+const replaceIndex = (v: Value, i: number, item: Value): Value => {
+  switch (v.kind) {
+    case 'array': return { kind: 'array', items: v.items.map((old, k) => (k === i ? item : old)) };
+    case 'vector': return { ...v, xs: v.xs.map((old, k) => (k === i ? componentsOf(convertComponents(item, v.type))[0] : old)) };
+    case 'matrix': return { ...v, cols: v.cols.map((old, k) => (k === i ? componentsOf(convertComponents(item, v.type)) : old)) };
+    default: throw new InterpreterError(`Cannot index into ${v.kind}`);
+  }
+};
+
+/** The variable an access expression starts from, for out-of-bounds reports. */
+const rootName = (expr: Expr): string => {
+  switch (expr.kind) {
+    case 'Ident': return expr.name;
+    case 'Index':
+    case 'Member': return rootName(expr.object);
+    case 'Paren': return rootName(expr.expr);
+    case 'Unary': return rootName(expr.operand);
+    default: return '?';
+  }
+};
+
+/** Whether `expr` names memory (a variable or a path into one) rather than a value. */
+const isReferenceExpr = (expr: Expr, env: Env): boolean => {
+  switch (expr.kind) {
+    case 'Ident': {
+      for (let i = env.scopes.length - 1; i >= 0; i--) {
+        const b = env.scopes[i].get(expr.name);
+        if (b) return 'ref' in b;
+      }
+      return false;
+    }
+    case 'Index':
+    case 'Member': return isReferenceExpr(expr.object, env);
+    case 'Paren': return isReferenceExpr(expr.expr, env);
+    case 'Unary': return expr.op === '*';
+    default: return false;
+  }
+};
+
+/** Runs a generator to completion, ignoring barriers (sequential code has nothing to wait for). */
+const drain = <T>(gen: Generator<void, T>): T => {
+  for (;;) {
+    const r = gen.next();
+    if (r.done) return r.value;
+  }
+};
+
+/**
+ * A runtime-sized storage array over typed data. Elements are scalars or
+ * vectors of `width` components.
+ */
+export const storageRef = (variable: string, data: StorageData, type: ScalarKind, width: number, onOutOfBounds: (index: number, length: number) => void): Ref => {
+  const length = Math.floor(data.length / width);
+  const element = (index: number): Ref => {
+    const inBounds = index >= 0 && index < length;
+    if (!inBounds) onOutOfBounds(index, length);
+    const at = Math.max(0, Math.min(length - 1, index)) * width;
+    const load = (): Value => {
+      if (length === 0) return width === 1 ? scalarValue(type, 0) : { kind: 'vector', type, xs: new Array(width).fill(0) };
+      return width === 1 ? scalarValue(type, data[at]) : { kind: 'vector', type, xs: Array.from(data.subarray(at, at + width)) };
+    };
+    return {
+      load,
+      store: v => {
+        if (length === 0) return;
+        const xs = componentsOf(convertComponents(v, type));
+        for (let i = 0; i < width; i++) data[at + i] = xs[i];
+      },
+    };
+  };
+  return {
+    load: () => ({ kind: 'array', items: Array.from({ length }, (_, i) => element(i).load()) }),
+    store: v => {
+      if (v.kind !== 'array') throw new InterpreterError(`Cannot store ${v.kind} into '${variable}'`);
+      v.items.forEach((item, i) => element(i).store(item));
+    },
+    length,
+    element,
+  } as Ref;
+};
+
+/** The `@compute` entry point, if the module has one. */
+export const findComputeEntry = (module: Module): FunctionDecl | null =>
+  module.decls.find((d): d is FunctionDecl => d.kind === 'Function' && d.attrs.some(a => a.name === 'compute')) ?? null;
+
+/** `@workgroup_size` of a compute entry point; missing or non-literal dimensions count as 1. */
+export const workgroupSize = (entry: FunctionDecl): [number, number, number] => {
+  const args = entry.attrs.find(a => a.name === 'workgroup_size')?.args ?? [];
+  const dims = [0, 1, 2].map(i => {
+    const arg = args[i];
+    const n = arg?.kind === 'Literal' ? parseInt(arg.text, 10) : 1;
+    return Number.isFinite(n) && n > 0 ? n : 1;
+  });
+  return [dims[0], dims[1], dims[2]];
+};
+
+export interface ComputeOptions {
+  workgroups: [number, number, number];
+  stepLimit?: number;
+}
+
+/**
+ * Dispatches the module's `@compute` entry point on the CPU. `storage` holds
+ * the data of each group 0 storage binding by binding number; it is read
+ * and written in place, so pass copies. Throws `InterpreterError` for
+ * shaders the interpreter cannot run.
+ */
+export const runCompute = (module: Module, storage: Map<number, StorageData>, options: ComputeOptions): ComputeRun => {
+  const entry = findComputeEntry(module);
+  if (!entry) throw new InterpreterError('No @compute entry point');
+  const interpreter = new Interpreter(module, options.stepLimit ?? DEFAULT_STEP_LIMIT);
+
+  const bindings = new Map<number, Ref>();
+  for (const decl of module.decls) {
+    if (decl.kind !== 'VarDecl' || decl.template[0] !== 'storage') continue;
+    const binding = intAttr(decl.attrs, 'binding');
+    const data = binding === null ? undefined : storage.get(binding);
+    if (!data || !decl.type) continue;
+    const type = interpreter.resolveType(decl.type);
+    if (type.kind !== 'array' || (type.element.kind !== 'scalar' && type.element.kind !== 'vector')) {
+      throw new InterpreterError(`Storage binding '${decl.name}' must be an array of scalars or vectors`);
+    }
+    const element = type.element;
+    bindings.set(binding!, storageRef(decl.name, data, element.scalar, element.kind === 'vector' ? element.size : 1, (index, length) => {
+      interpreter.recordOutOfBounds(decl.name, index, length);
+    }));
+  }
+  interpreter.declareGlobals(bindings);
+
+  const size = workgroupSize(entry);
+  const [gx, gy, gz] = options.workgroups;
+  const u32 = (x: number): Value => scalarValue('u32', x);
+  const vec = (xs: number[]): Value => ({ kind: 'vector', type: 'u32', xs });
+  let invocations = 0;
+
+  for (let wz = 0; wz < gz; wz++) {
+    for (let wy = 0; wy < gy; wy++) {
+      for (let wx = 0; wx < gx; wx++) {
+        const workgroup = interpreter.createWorkgroupMemory();
+        const running: Generator<void, Value | null>[] = [];
+        for (let lz = 0; lz < size[2]; lz++) {
+          for (let ly = 0; ly < size[1]; ly++) {
+            for (let lx = 0; lx < size[0]; lx++) {
+              const builtins: Record<string, Value> = {
+                global_invocation_id: vec([wx * size[0] + lx, wy * size[1] + ly, wz * size[2] + lz]),
+                local_invocation_id: vec([lx, ly, lz]),
+                local_invocation_index: u32(lx + ly * size[0] + lz * size[0] * size[1]),
+                workgroup_id: vec([wx, wy, wz]),
+                num_workgroups: vec([gx, gy, gz]),
+              };
+              const args = entry.params.map(p => {
+                const builtin = p.attrs.find(a => a.name === 'builtin')?.args[0];
+                const value = builtin?.kind === 'Ident' ? builtins[builtin.name] : undefined;
+                if (!value) throw new InterpreterError(`Unsupported entry point parameter '${p.name}'`);
+                return value;
+              });
+              running.push(interpreter.invoke(entry, args, interpreter.invocationScope(workgroup)));
+              invocations++;
+            }
+          }
+        }
+        // Every invocation runs up to its next barrier before any continues past it
+        let active = running;
+        while (active.length > 0) active = active.filter(gen => !gen.next().done);
+      }
+    }
+  }
+
+  return { invocations, steps: interpreter.stepCount, outOfBounds: interpreter.outOfBounds, outOfBoundsCount: interpreter.outOfBoundsCount };
+};
+
+// -- Fragment Shaders --
+
+export interface FragmentOptions {
+  width: number;
+  height: number;
+  flipY?: boolean;    // Draw as into a texture: uv.y grows downwards, so row 0 is at v = 0
+  stepLimit?: number; // For the whole image
+}
+
+/** The fragment entry point: the `@fragment` function, else `main`. */
+export const findFragmentEntry = (module: Module): FunctionDecl | null => {
+  const fns = module.decls.filter((d): d is FunctionDecl => d.kind === 'Function');
+  return fns.find(f => f.attrs.some(a => a.name === 'fragment')) ?? fns.find(f => f.name === 'main') ?? null;
+};
+
+/**
+ * Draws the module's fragment entry point over a full-screen quad, one
+ * invocation per pixel, with the inputs `BASE_VERTEX_SHADER` gives it:
+ * `@location(0)` is the UV, y up, and `@builtin(position)` the pixel centre.
+ * `bindings` holds the value of each group 0 binding by binding number:
+ * uniforms, textures and samplers. Returns RGBA floats, top row first, as
+ * `renderFrames` reads frames back; discarded pixels stay opaque black like
+ * the cleared canvas, or transparent black when flipped into a texture.
+ * Throws `InterpreterError` for shaders the interpreter cannot run.
+ */
+export const runFragment = (module: Module, bindings: Map<number, Value>, options: FragmentOptions): Float32Array => {
+  const entry = findFragmentEntry(module);
+  if (!entry) throw new InterpreterError('No @fragment entry point');
+  const interpreter = new Interpreter(module, options.stepLimit ?? DEFAULT_STEP_LIMIT);
+  interpreter.declareGlobals(new Map([...bindings].map(([binding, value]): [number, Ref] => [binding, {
+    load: () => value,
+    store: () => { throw new InterpreterError('Cannot write to a uniform'); },
+  }])));
+
+  const structOutput = module.decls.find(d => d.kind === 'Struct' && d.name === entry.returnType?.name);
+  const colorMember = structOutput?.kind === 'Struct' ? structOutput.members.find(m => intAttr(m.attrs, 'location') === 0)?.name : undefined;
+  const colorOf = (result: Value): number[] => {
+    const color = result.kind === 'struct' && colorMember ? result.fields[colorMember] : result;
+    if (color.kind !== 'vector' && color.kind !== 'scalar') throw new InterpreterError('The entry point must return a colour at @location(0)');
+    const xs = componentsOf(color);
+    return [0, 1, 2, 3].map(i => xs[i] ?? (i === 3 ? 1 : 0));
+  };
+
+  const { width, height, flipY = false } = options;
+  const cleared = [0, 0, 0, flipY ? 0 : 1];
+  const pixels = new Float32Array(width * height * 4);
+  const workgroup = interpreter.createWorkgroupMemory();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const builtins: Record<string, Value> = {
+        position: { kind: 'vector', type: 'f32', xs: [x + 0.5, y + 0.5, 0, 1] },
+        front_facing: boolValue(true),
+        sample_index: scalarValue('u32', 0),
+        sample_mask: scalarValue('u32', 0xffffffff),
+      };
+      const uv: Value = { kind: 'vector', type: 'f32', xs: [Math.fround((x + 0.5) / width), Math.fround(flipY ? (y + 0.5) / height : 1 - (y + 0.5) / height)] };
+      const args = entry.params.map(p => {
+        const builtin = p.attrs.find(a => a.name === 'builtin')?.args[0];
+        const value = builtin?.kind === 'Ident' ? builtins[builtin.name] : intAttr(p.attrs, 'location') === 0 ? uv : undefined;
+        if (!value) throw new InterpreterError(`Unsupported entry point parameter '${p.name}'`);
+        return value;
+      });
+      const result = drain(interpreter.invoke(entry, args, interpreter.invocationScope(workgroup)));
+      pixels.set(result ? colorOf(result) : cleared, (y * width + x) * 4);
+    }
+  }
+  return pixels;
+};
+
+/**
+ * The value of a constant expression built from literals and operators
+ * alone, or null for anything else. Division by zero and non-finite
+ * results count as not constant, as they do not compile.
+ */
+export const evaluateConstant = (expr: Expr): Value | null => {
+  try {
+    const value = constantValue(expr);
+    return value && componentsOf(value).every(Number.isFinite) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const constantValue = (expr: Expr): Value | null => {
+  switch (expr.kind) {
+    case 'Literal':
+      return parseLiteral(expr.text);
+    case 'Paren':
+      return constantValue(expr.expr);
+    case 'Unary': {
+      const operand = expr.op === '&' || expr.op === '*' ? null : constantValue(expr.operand);
+      return operand && unaryOp(expr.op, operand);
+    }
+    case 'Binary': {
+      const left = constantValue(expr.left);
+      const right = left && constantValue(expr.right);
+      if (!left || !right) return null;
+      if ((expr.op === '/' || expr.op === '%') && componentsOf(right).some(x => x === 0)) return null;
+      if (expr.op === '&&') return boolValue(truthy(left) && truthy(right));
+      if (expr.op === '||') return boolValue(truthy(left) || truthy(right));
+      return binaryOp(expr.op, left, right);
+    }
+    default:
+      return null;
+  }
+};
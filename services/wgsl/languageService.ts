@@ -0,0 +1,241 @@
+import { WGSL_PREAMBLE } from '../../constants';
+import { isolatePass, passAt } from '../renderGraph';
+import { COMPUTE_BINDINGS, SHADER_BINDINGS, bindingDeclaration, declaredBindings, isComputeSource, stageBindings } from '../shaderSource';
+import { Block, ForStmt, FunctionDecl, Module, Node, Span, VarDecl, walk } from './ast';
+import { WGSL_KEYWORDS } from './highlight';
+import { parse } from './parser';
+import { TypeInfo, checkModule } from './typeChecker';
+import { BUILTINS, concretize, typeToString } from './typeSystem';
+
+/**
+ * WGSL LANGUAGE INTELLIGENCE
+ *
+ * Completions, hover info and go-to-definition for the editor. Works off the
+ * parsed module; when the code does not parse, the line being edited is
+ * blanked out and parsing retried, since that is usually where the break is.
+ */
+
+export type SymbolKind = 'local' | 'param' | 'function' | 'global' | 'uniform' | 'helper' | 'builtin' | 'type' | 'keyword';
+
+export interface CompletionItem {
+  label: string;
+  kind: SymbolKind;
+  detail: string;
+}
+
+export interface Completions {
+  from: number; // Start of the word being completed
+  items: CompletionItem[];
+}
+
+export interface HoverInfo {
+  start: number;
+  end: number;
+  kind: SymbolKind;
+  signature: string;
+  doc: string | null;
+}
+
+interface DeclaredSymbol {
+  name: string;
+  kind: SymbolKind;
+  offset: number; // Of the declared name
+  detail: string;
+  doc?: string;
+}
+
+interface HelperDoc {
+  signature: string;
+  doc: string | null;
+}
+
+const MAX_COMPLETIONS = 50;
+const WORD = /[A-Za-z0-9_]/;
+
+const TYPE_COMPLETIONS = [
+  'f32', 'i32', 'u32', 'bool', 'vec2<f32>', 'vec3<f32>', 'vec4<f32>', 'vec2f', 'vec3f', 'vec4f',
+  'mat2x2<f32>', 'mat3x3<f32>', 'mat4x4<f32>', 'array',
+];
+
+// Completion order: what the user declared first, the language last
+const KIND_RANK: Record<SymbolKind, number> = {
+  local: 0, param: 0, function: 1, global: 1, uniform: 1, helper: 2, builtin: 3, type: 4, keyword: 5,
+};
+
+let helperDocs: Map<string, HelperDoc> | null = null;
+
+/** Signatures and the `//` comment lines right above each preamble helper. */
+const getHelperDocs = (): Map<string, HelperDoc> => {
+  if (!helperDocs) {
+    helperDocs = new Map();
+    for (const decl of parse(WGSL_PREAMBLE).decls) {
+      if (decl.kind !== 'Function' || !decl.range) continue;
+      const doc: string[] = [];
+      const above = WGSL_PREAMBLE.slice(0, decl.range.start).split('\n').slice(0, -1);
+      for (let i = above.length - 1; i >= 0 && /^\s*\/\/(?!\s*---)/.test(above[i]); i--) {
+        doc.unshift(above[i].replace(/^\s*\/\/\s?/, ''));
+      }
+      helperDocs.set(decl.name, { signature: signatureOf(WGSL_PREAMBLE, decl), doc: doc.join(' ') || null });
+    }
+  }
+  return helperDocs;
+};
+
+/** Source of a declaration up to its body or terminator, on one line. */
+const signatureOf = (code: string, node: Node): string => {
+  const range = node.range!;
+  const end = node.kind === 'Function' && node.body.range ? node.body.range.start : range.end;
+  return code.slice(range.start, end).replace(/\s+/g, ' ').replace(/[;\s]+$/, '');
+};
+
+/** Offset of the declared `name` inside a declaration's text. */
+const nameOffset = (code: string, range: Span, name: string): number => {
+  const match = new RegExp(`(?<![\\w@.])${name}\\b`).exec(code.slice(range.start, range.end));
+  return range.start + (match ? match.index : 0);
+};
+
+const contains = (span: Span | null, offset: number): boolean => span !== null && span.start <= offset && offset <= span.end;
+
+/** Parses `code`, retrying with the line at `offset` blanked out. Offsets stay valid either way. */
+const parseTolerant = (code: string, offset: number): Module | null => {
+  try {
+    return parse(code);
+  } catch {
+    const start = code.lastIndexOf('\n', offset - 1) + 1;
+    const end = code.indexOf('\n', offset);
+    const blanked = code.slice(0, start) + ' '.repeat((end === -1 ? code.length : end) - start) + (end === -1 ? '' : code.slice(end));
+    try {
+      return parse(blanked);
+    } catch {
+      return null;
+    }
+  }
+};
+
+const localDetail = (code: string, decl: VarDecl, info: TypeInfo | null): string => {
+  if (decl.type?.range) return `${decl.keyword} ${decl.name}: ${code.slice(decl.type.range.start, decl.type.range.end)}`;
+  const type = decl.init && info?.types.get(decl.init);
+  return type && type.kind !== 'unknown' ? `${decl.keyword} ${decl.name}: ${typeToString(concretize(type))}` : `${decl.keyword} ${decl.name}`;
+};
+
+/**
+ * Names visible at `offset`: module-scope declarations of its pass, plus the
+ * parameters and earlier locals of the enclosing function. Later entries
+ * shadow earlier ones.
+ */
+const symbolsAt = (code: string, offset: number): DeclaredSymbol[] => {
+  const pass = passAt(code, offset);
+  const module = parseTolerant(pass ? isolatePass(code, pass) : code, offset);
+  if (!module) return regexSymbols(code, offset);
+
+  let info: TypeInfo | null = null;
+  try {
+    info = checkModule(module);
+  } catch {
+    // Types only refine the details
+  }
+
+  const symbols: DeclaredSymbol[] = [];
+  const bindings = stageBindings(module);
+  const bindingDocs = new Map([...declaredBindings(module)].map(([standard, name]) => [name, bindings.find(b => b.name === standard)!.doc]));
+  let enclosing: FunctionDecl | null = null;
+  for (const decl of module.decls) {
+    if (!decl.range) continue;
+    if (decl.kind === 'Function') {
+      symbols.push({ name: decl.name, kind: 'function', offset: nameOffset(code, decl.range, decl.name), detail: signatureOf(code, decl) });
+      if (contains(decl.range, offset)) enclosing = decl;
+    } else if (decl.kind === 'VarDecl') {
+      const kind = bindingDocs.has(decl.name) || decl.template.includes('uniform') ? 'uniform' : 'global';
+      symbols.push({ name: decl.name, kind, offset: nameOffset(code, decl.range, decl.name), detail: signatureOf(code, decl), doc: bindingDocs.get(decl.name) });
+    } else if (decl.kind === 'Struct' || decl.kind === 'Alias') {
+      symbols.push({ name: decl.name, kind: 'type', offset: nameOffset(code, decl.range, decl.name), detail: `${decl.kind === 'Struct' ? 'struct' : 'alias'} ${decl.name}` });
+    }
+  }
+
+  if (enclosing) {
+    for (const param of enclosing.params) {
+      if (!param.range) continue;
+      symbols.push({ name: param.name, kind: 'param', offset: nameOffset(code, param.range, param.name), detail: signatureOf(code, param) });
+    }
+    walk(enclosing.body, (n, parent) => {
+      if (n.kind !== 'VarDecl' || !n.range || n.range.end > offset) return;
+      // A local is visible inside the block (or for-loop header) that declares it
+      const scope = parent as Block | ForStmt | null;
+      if (scope && contains(scope.range, offset)) {
+        symbols.push({ name: n.name, kind: 'local', offset: nameOffset(code, n.range, n.name), detail: localDetail(code, n, info) });
+      }
+    });
+  }
+  return symbols;
+};
+
+/** Last resort for code that will not parse: declarations found by pattern, before `offset`. */
+const regexSymbols = (code: string, offset: number): DeclaredSymbol[] => {
+  const symbols: DeclaredSymbol[] = [];
+  const pattern = /\b(fn|let|var|const|override)\b(?:\s*<[^>]*>)?\s+([A-Za-z_]\w*)/g;
+  for (let m = pattern.exec(code); m && m.index < offset; m = pattern.exec(code)) {
+    const name = m[2];
+    symbols.push({ name, kind: m[1] === 'fn' ? 'function' : 'local', offset: m.index + m[0].length - name.length, detail: `${m[1]} ${name}` });
+  }
+  return symbols;
+};
+
+/** Last declaration of each name wins, as later ones shadow earlier ones. */
+const visibleByName = (symbols: DeclaredSymbol[]): Map<string, DeclaredSymbol> =>
+  new Map(symbols.map(s => [s.name, s]));
+
+/** The identifier at or just before `offset`. */
+export const wordAt = (code: string, offset: number): { start: number; end: number; word: string } | null => {
+  let start = offset;
+  while (start > 0 && WORD.test(code[start - 1])) start--;
+  let end = offset;
+  while (end < code.length && WORD.test(code[end])) end++;
+  if (start === end || /[0-9]/.test(code[start])) return null;
+  return { start, end, word: code.slice(start, end) };
+};
+
+/** Completions for the word ending at `offset`. Member accesses (`v.xy`) get none. */
+export const getCompletions = (code: string, offset: number): Completions | null => {
+  let from = offset;
+  while (from > 0 && WORD.test(code[from - 1])) from--;
+  if (/[0-9]/.test(code[from] ?? '') || code[from - 1] === '.') return null;
+  const prefix = code.slice(from, offset);
+
+  const items = new Map<string, CompletionItem>();
+  const add = (label: string, kind: SymbolKind, detail: string) => {
+    if (label.startsWith(prefix) && label !== prefix && !items.has(label)) items.set(label, { label, kind, detail });
+  };
+
+  for (const s of [...visibleByName(symbolsAt(code, offset)).values()]) add(s.name, s.kind, s.detail);
+  // Undeclared shader inputs too, with the declaration they need
+  for (const b of isComputeSource(code) ? COMPUTE_BINDINGS : SHADER_BINDINGS) add(b.name, 'uniform', bindingDeclaration(b));
+  for (const [name, helper] of getHelperDocs()) add(name, 'helper', helper.signature);
+  for (const name of Object.keys(BUILTINS)) add(name, 'builtin', 'builtin function');
+  for (const name of TYPE_COMPLETIONS) add(name, 'type', 'type');
+  for (const name of WGSL_KEYWORDS) add(name, 'keyword', 'keyword');
+
+  const sorted = [...items.values()].sort((a, b) => KIND_RANK[a.kind] - KIND_RANK[b.kind] || a.label.localeCompare(b.label));
+  return sorted.length > 0 ? { from, items: sorted.slice(0, MAX_COMPLETIONS) } : null;
+};
+
+/** Signature and docs for the identifier under `offset`. */
+export const getHover = (code: string, offset: number): HoverInfo | null => {
+  const word = wordAt(code, offset);
+  if (!word || code[word.start - 1] === '.') return null;
+  const base = { start: word.start, end: word.end };
+
+  const declared = visibleByName(symbolsAt(code, word.start)).get(word.word);
+  if (declared) return { ...base, kind: declared.kind, signature: declared.detail, doc: declared.doc ?? null };
+  const helper = getHelperDocs().get(word.word);
+  if (helper) return { ...base, kind: 'helper', signature: helper.signature, doc: helper.doc };
+  if (word.word in BUILTINS) return { ...base, kind: 'builtin', signature: `${word.word}(...)`, doc: 'WGSL builtin function' };
+  return null;
+};
+
+/** Where the identifier under `offset` is declared in `code`, if it is declared there at all. */
+export const findDefinition = (code: string, offset: number): { offset: number; length: number } | null => {
+  const word = wordAt(code, offset);
+  if (!word || code[word.start - 1] === '.') return null;
+  const declared = visibleByName(symbolsAt(code, word.start)).get(word.word);
+  return declared ? { offset: declared.offset, length: declared.name.length } : null;
+};
@@ -0,0 +1,116 @@
+/**
+ * WGSL LEXER
+ *
+ * Produces significant tokens only. Whitespace and comments (including nested
+ * block comments) are skipped, but every token remembers where its leading
+ * trivia began so the printer can reproduce the source exactly.
+ */
+
+export type TokenType = 'ident' | 'number' | 'punct' | 'eof';
+
+export interface Token {
+    type: TokenType;
+    value: string;
+    start: number;
+    end: number;
+    lead: number; // End of the previous token, i.e. where this token's trivia starts
+}
+
+export class WgslSyntaxError extends Error {
+    constructor(message: string, readonly offset: number, readonly line: number, readonly column: number) {
+        super(`${message} (line ${line}:${column})`);
+        this.name = 'WgslSyntaxError';
+    }
+}
+
+/** 1-based line and column of a character offset. */
+export const lineColumn = (source: string, offset: number): { line: number; column: number } => {
+    let line = 1;
+    let lineStart = 0;
+    for (let i = 0; i < offset && i < source.length; i++) {
+        if (source[i] === '\n') {
+            line++;
+            lineStart = i + 1;
+        }
+    }
+    return { line, column: offset - lineStart + 1 };
+};
+
+export const syntaxError = (source: string, offset: number, message: string): WgslSyntaxError => {
+    const { line, column } = lineColumn(source, offset);
+    return new WgslSyntaxError(message, offset, line, column);
+};
+
+const NUMBER = /^(?:0[xX][0-9a-fA-F]+(?:\.[0-9a-fA-F]*)?(?:[pP][+-]?\d+)?[fhiu]?|(?:\d+\.\d*|\.\d+)(?:[eE][+-]?\d+)?[fh]?|\d+[eE][+-]?\d+[fh]?|\d+[fhiu]?)/;
+const IDENT = /^[a-zA-Z_][a-zA-Z0-9_]*/;
+
+// `>>` is deliberately absent: it would break nested templates such as
+// `array<vec2<f32>>`. The parser joins adjacent `>` tokens for shifts.
+const PUNCTUATION = [
+    '>>=', '<<=',
+    '->', '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<',
+    '{', '}', '(', ')', '[', ']', ',', ';', ':', '.', '+', '-', '*', '/', '%', '=', '<', '>', '!', '&', '|', '^', '~', '@',
+];
+
+/** Skips whitespace and comments starting at `i`; returns the next significant offset. */
+const skipTrivia = (code: string, i: number): number => {
+    while (i < code.length) {
+        const ch = code[i];
+        if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f' || ch === '\v') {
+            i++;
+        } else if (code.startsWith('//', i)) {
+            while (i < code.length && code[i] !== '\n') i++;
+        } else if (code.startsWith('/*', i)) {
+            // WGSL block comments nest
+            let depth = 1;
+            const open = i;
+            i += 2;
+            while (i < code.length && depth > 0) {
+                if (code.startsWith('/*', i)) { depth++; i += 2; }
+                else if (code.startsWith('*/', i)) { depth--; i += 2; }
+                else i++;
+            }
+            if (depth > 0) throw syntaxError(code, open, 'Unterminated block comment');
+        } else {
+            break;
+        }
+    }
+    return i;
+};
+
+export const tokenize = (code: string): Token[] => {
+    const tokens: Token[] = [];
+    let lead = 0;
+    let i = skipTrivia(code, 0);
+
+    while (i < code.length) {
+        const rest = code.slice(i, i + 64);
+        let type: TokenType | null = null;
+        let value = '';
+
+        const num = rest.match(NUMBER);
+        const ident = rest.match(IDENT);
+        if (num) {
+            type = 'number';
+            value = num[0];
+        } else if (ident) {
+            type = 'ident';
+            value = ident[0];
+        } else {
+            const punct = PUNCTUATION.find(p => rest.startsWith(p));
+            if (punct) {
+                type = 'punct';
+                value = punct;
+            }
+        }
+
+        if (!type) throw syntaxError(code, i, `Unexpected character '${code[i]}'`);
+
+        tokens.push({ type, value, start: i, end: i + value.length, lead });
+        lead = i + value.length;
+        i = skipTrivia(code, lead);
+    }
+
+    tokens.push({ type: 'eof', value: '', start: code.length, end: code.length, lead });
+    return tokens;
+};
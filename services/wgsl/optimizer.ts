@@ -0,0 +1,144 @@
+import { Block, Expr, FunctionDecl, Module, Node, VarDecl, collect, detach, transform, walk } from './ast';
+import { Value, evaluateConstant } from './interpreter';
+import { parse, parseExpression } from './parser';
+import { print } from './printer';
+import { checkModule } from './typeChecker';
+import { WgslType, concretize, typeToString } from './typeSystem';
+
+/**
+ * SEMANTICS-PRESERVING REWRITES
+ *
+ * Rewrites that must not change what a shader draws, for differential
+ * testing: any difference between a shader and its rewrite is a bug in one
+ * of the evaluators. Folding evaluates constant arithmetic the way WGSL's
+ * constant evaluation does; inlining replaces pure `let`s by their values.
+ */
+
+export type Rewrite = 'fold' | 'inline';
+
+export const REWRITES: Rewrite[] = ['fold', 'inline'];
+
+// Calls that read neighbouring invocations' values and so must stay where they are
+const NON_LOCAL_CALL = /^(texture|dpd|fwidth|workgroupUniformLoad|atomic|subgroup|quad)/;
+
+// Inlined lets are copied to every use; ones that would grow the code by more are left alone
+const MAX_INLINED_TEXT = 400;
+
+const SUFFIX: Partial<Record<string, string>> = { 'abstract-float': '', 'abstract-int': '', f32: 'f', i32: 'i', u32: 'u' };
+
+/** A literal for a constant scalar, or null if there is no exact one. */
+const literalFor = (value: Value): Expr | null => {
+  if (value.kind !== 'scalar') return null;
+  if (value.type === 'bool') return parseExpression(value.x ? 'true' : 'false');
+  const suffix = SUFFIX[value.type];
+  if (suffix === undefined) return null;
+  const float = value.type === 'f32' || value.type === 'abstract-float';
+  // Keep integers inside i32, so an abstract int stays valid wherever it ends up
+  if (!float && (value.x < -2147483647 || value.x > 4294967295 || (value.type !== 'u32' && value.x > 2147483647))) return null;
+  let text = `${Math.abs(value.x)}`;
+  if (float && !/[.e]/.test(text)) text += '.0';
+  return parseExpression(`${value.x < 0 || Object.is(value.x, -0) ? '-' : ''}${text}${suffix}`);
+};
+
+/**
+ * Replaces operators applied to constants by their result, innermost
+ * first. Returns how many expressions were folded.
+ */
+export const foldConstants = (module: Module): number => {
+  let folded = 0;
+  transform(module, node => {
+    // A negated literal is already as folded as it gets
+    if (node.kind !== 'Binary' && !(node.kind === 'Unary' && node.operand.kind !== 'Literal')) return;
+    const value = evaluateConstant(node as Expr);
+    const literal = value && literalFor(value);
+    if (!literal) return;
+    folded++;
+    return literal;
+  });
+  return folded;
+};
+
+/** Names nothing can assign to while a function runs: everything but `var`s. */
+const mutableNames = (module: Module, fn: FunctionDecl): Set<string> => {
+  const names = new Set<string>();
+  for (const decl of module.decls) {
+    if (decl.kind === 'VarDecl' && decl.keyword === 'var' && decl.template[0] !== 'uniform' && !decl.attrs.some(a => a.name === 'binding')) {
+      names.add(decl.name);
+    }
+  }
+  for (const decl of collect(fn.body, 'VarDecl')) if (decl.keyword === 'var') names.add(decl.name);
+  for (const param of fn.params) if (param.type.name === 'ptr') names.add(param.name);
+  return names;
+};
+
+const declaredNames = (nodes: Node[]): Set<string> => {
+  const names = new Set<string>();
+  for (const node of nodes) for (const decl of collect(node, 'VarDecl')) names.add(decl.name);
+  return names;
+};
+
+/**
+ * Replaces `let`s whose value is a pure expression of immutable names by
+ * that expression, converted to the `let`'s concrete type, at every use.
+ * Returns how many were inlined.
+ */
+export const inlineLets = (module: Module): number => {
+  const info = checkModule(module);
+  const functions = new Set(module.decls.filter(d => d.kind === 'Function').map(d => d.name));
+  let inlined = 0;
+
+  for (const fn of module.decls) {
+    if (fn.kind !== 'Function') continue;
+    const mutable = mutableNames(module, fn);
+    const blocks: Block[] = [];
+    walk(fn.body, n => {
+      if (n.kind === 'Block') blocks.push(n);
+    });
+
+    for (const block of blocks) {
+      for (let i = 0; i < block.stmts.length; i++) {
+        const decl = block.stmts[i];
+        if (decl.kind !== 'VarDecl' || decl.keyword !== 'let' || !decl.init) continue;
+        const init = decl.init;
+        const names = collect(init, 'Ident').map(id => id.name);
+        const calls = collect(init, 'Call').map(c => c.callee.name);
+        if (names.some(name => mutable.has(name)) || calls.some(name => functions.has(name) || NON_LOCAL_CALL.test(name))) continue;
+        if (collect(init, 'Unary').some(u => u.op === '&' || u.op === '*')) continue;
+
+        // A later declaration could shadow the let or a name its value reads
+        const rest = block.stmts.slice(i + 1);
+        const later = declaredNames(rest);
+        if (later.has(decl.name) || names.some(name => later.has(name))) continue;
+        // Only these types have conversions to pin an abstract value with
+        const type = info.types.get(init);
+        if (!type || (type.kind !== 'scalar' && type.kind !== 'vector' && type.kind !== 'matrix')) continue;
+        const replacement = inlinedValue(decl, type);
+        const uses = rest.flatMap(s => collect(s, 'Ident')).filter(id => id.name === decl.name).length;
+        if (uses > 1 && uses * print(replacement).length > MAX_INLINED_TEXT) continue;
+        block.stmts = [...block.stmts.slice(0, i), ...rest.map(stmt => transform(stmt, n =>
+          n.kind === 'Ident' && n.name === decl.name ? detach(replacement) : undefined
+        ))];
+        i--;
+        inlined++;
+      }
+    }
+  }
+  return inlined;
+};
+
+/** The expression a let's uses become: its value, converted to the type the let had if that differs. */
+const inlinedValue = (decl: VarDecl, type: WgslType): Expr => {
+  const concrete = typeToString(concretize(type));
+  const typeName = decl.type ? print(decl.type) : concrete !== typeToString(type) ? concrete : '';
+  return parseExpression(`${typeName}(${print(decl.init!)})`);
+};
+
+/**
+ * `code` after one rewrite, and how many places it changed. Throws
+ * `WgslSyntaxError` if the code does not parse.
+ */
+export const rewriteShader = (code: string, rewrite: Rewrite): { code: string; changes: number } => {
+  const module = parse(code);
+  const changes = rewrite === 'fold' ? foldConstants(module) : inlineLets(module);
+  return { code: print(module, code), changes };
+};
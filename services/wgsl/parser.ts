@@ -0,0 +1,561 @@
+import {
+  Attribute,
+  Block,
+  CallExpr,
+  Decl,
+  Expr,
+  FunctionDecl,
+  IfStmt,
+  Module,
+  Node,
+  Param,
+  Stmt,
+  StructMember,
+  SwitchClause,
+  TemplateArg,
+  TypeRef,
+  VarDecl,
+  childrenOf,
+  detach,
+} from './ast';
+import { Token, syntaxError, tokenize } from './lexer';
+
+/**
+ * WGSL PARSER
+ *
+ * Recursive descent over the token stream from `lexer.ts`. Covers the
+ * fragment-shader subset the app works with plus the rest of the statement
+ * grammar (switch, loop/continuing, ...). Every node records its source range
+ * so `printer.ts` can round-trip untouched code exactly.
+ */
+
+// Binary operator precedence, loosest first. WGSL forbids mixing some of these
+// without parentheses; the printer takes care of that when re-emitting.
+export const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '|': 3,
+  '^': 4,
+  '&': 5,
+  '==': 6, '!=': 6, '<': 6, '>': 6, '<=': 6, '>=': 6,
+  '<<': 7, '>>': 7,
+  '+': 8, '-': 8,
+  '*': 9, '/': 9, '%': 9,
+};
+
+const ADDITIVE_PRECEDENCE = 8;
+
+const ASSIGN_OPS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '<<=', '>>=']);
+const UNARY_OPS = new Set(['-', '!', '~', '*', '&']);
+
+/** Identifiers that take a template list when followed by `<` in expressions. */
+const TEMPLATED = /^(?:vec[234]|mat[234]x[234]|array|ptr|atomic|bitcast|texture_\w+)$/;
+
+// Distributes over unions so `finish` accepts the fields of any one member
+type Fields<T extends Node> = T extends Node ? Omit<T, 'range' | 'slot' | 'arity'> : never;
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  // -- Token helpers --
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private at(value: string, offset = 0): boolean {
+    const tok = this.peek(offset);
+    return tok.type !== 'eof' && tok.value === value;
+  }
+
+  private next(): Token {
+    const tok = this.peek();
+    if (tok.type !== 'eof') this.pos++;
+    return tok;
+  }
+
+  private accept(value: string): boolean {
+    if (!this.at(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(value: string): Token {
+    if (!this.at(value)) throw this.error(`Expected '${value}' but found '${this.peek().value || 'end of file'}'`);
+    return this.next();
+  }
+
+  private ident(): string {
+    const tok = this.peek();
+    if (tok.type !== 'ident') throw this.error(`Expected identifier but found '${tok.value || 'end of file'}'`);
+    this.pos++;
+    return tok.value;
+  }
+
+  /** True when the current and next tokens are adjacent `>` characters, i.e. a `>>` shift. */
+  private atShiftRight(): boolean {
+    return this.at('>') && this.at('>', 1) && this.peek(1).start === this.peek().end;
+  }
+
+  private error(message: string, tok: Token = this.peek()) {
+    return syntaxError(this.source, tok.start, message);
+  }
+
+  /** Stamps source positions on a node spanning tokens [startIndex, pos). */
+  private finish<T extends Node>(startIndex: number, fields: Fields<T>): T {
+    const first = this.tokens[startIndex];
+    const last = this.tokens[Math.max(this.pos - 1, startIndex)];
+    const node = { ...fields, range: { start: first.start, end: last.end }, slot: null, arity: 0 } as T;
+    node.slot = { lead: first.lead, start: first.start, end: last.end };
+    node.arity = childrenOf(node).length;
+    return node;
+  }
+
+  // -- Module --
+
+  parseModule(): Module {
+    const decls: Decl[] = [];
+    while (this.peek().type !== 'eof') decls.push(this.parseGlobalDecl());
+    const eof = this.peek();
+    const module: Module = {
+      kind: 'Module',
+      decls,
+      tail: eof.lead,
+      range: { start: 0, end: this.source.length },
+      slot: { lead: 0, start: 0, end: this.source.length },
+      arity: decls.length,
+    };
+    return module;
+  }
+
+  private parseGlobalDecl(): Decl {
+    const start = this.pos;
+
+    if (this.at(';') || this.at('enable') || this.at('requires') || (this.at('diagnostic') && this.at('(', 1))) {
+      while (!this.at(';')) {
+        if (this.peek().type === 'eof') throw this.error('Unterminated directive');
+        this.next();
+      }
+      this.next();
+      const text = this.source.slice(this.tokens[start].start, this.tokens[this.pos - 1].end);
+      return this.finish(start, { kind: 'Directive', text });
+    }
+
+    const attrs = this.parseAttributes();
+    const tok = this.peek();
+    switch (tok.value) {
+      case 'var':
+      case 'let':
+      case 'const':
+      case 'override':
+        return this.parseVarDecl(start, attrs, true);
+      case 'fn':
+        return this.parseFunction(start, attrs);
+      case 'struct':
+        return this.parseStruct(start, attrs);
+      case 'alias': {
+        this.next();
+        const name = this.ident();
+        this.expect('=');
+        const type = this.parseType();
+        this.expect(';');
+        return this.finish(start, { kind: 'Alias', name, type });
+      }
+      case 'const_assert': {
+        this.next();
+        const expr = this.parseExpression();
+        this.expect(';');
+        return this.finish(start, { kind: 'ConstAssert', expr });
+      }
+      default:
+        throw this.error(`Unexpected '${tok.value || 'end of file'}' at module scope`);
+    }
+  }
+
+  private parseAttributes(): Attribute[] {
+    const attrs: Attribute[] = [];
+    while (this.at('@')) {
+      const start = this.pos;
+      this.next();
+      const name = this.next().value;
+      const args: Expr[] = [];
+      if (this.accept('(')) {
+        while (!this.at(')')) {
+          args.push(this.parseExpression());
+          if (!this.accept(',')) break;
+        }
+        this.expect(')');
+      }
+      attrs.push(this.finish(start, { kind: 'Attribute', name, args }));
+    }
+    return attrs;
+  }
+
+  private parseVarDecl(start: number, attrs: Attribute[], terminated: boolean): VarDecl {
+    const keyword = this.next().value as VarDecl['keyword'];
+    const template: string[] = [];
+    if (this.accept('<')) {
+      while (!this.at('>')) {
+        template.push(this.ident());
+        if (!this.accept(',')) break;
+      }
+      this.expect('>');
+    }
+    const name = this.ident();
+    const type = this.accept(':') ? this.parseType() : null;
+    const init = this.accept('=') ? this.parseExpression() : null;
+    if (terminated) this.expect(';');
+    return this.finish(start, { kind: 'VarDecl', attrs, keyword, template, name, type, init });
+  }
+
+  private parseFunction(start: number, attrs: Attribute[]): FunctionDecl {
+    this.expect('fn');
+    const name = this.ident();
+    this.expect('(');
+    const params: Param[] = [];
+    while (!this.at(')')) {
+      const paramStart = this.pos;
+      const paramAttrs = this.parseAttributes();
+      const paramName = this.ident();
+      this.expect(':');
+      const type = this.parseType();
+      params.push(this.finish(paramStart, { kind: 'Param', attrs: paramAttrs, name: paramName, type }));
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+
+    let returnAttrs: Attribute[] = [];
+    let returnType: TypeRef | null = null;
+    if (this.accept('->')) {
+      returnAttrs = this.parseAttributes();
+      returnType = this.parseType();
+    }
+    const body = this.parseBlock();
+    return this.finish(start, { kind: 'Function', attrs, name, params, returnAttrs, returnType, body });
+  }
+
+  private parseStruct(start: number, attrs: Attribute[]): Decl {
+    this.expect('struct');
+    const name = this.ident();
+    this.expect('{');
+    const members: StructMember[] = [];
+    while (!this.at('}')) {
+      const memberStart = this.pos;
+      const memberAttrs = this.parseAttributes();
+      const memberName = this.ident();
+      this.expect(':');
+      const type = this.parseType();
+      members.push(this.finish(memberStart, { kind: 'StructMember', attrs: memberAttrs, name: memberName, type }));
+      if (!this.accept(',')) break;
+    }
+    this.expect('}');
+    this.accept(';'); // Tolerate the C-style trailing semicolon
+    return this.finish(start, { kind: 'Struct', attrs, name, members });
+  }
+
+  // -- Types --
+
+  parseType(): TypeRef {
+    const start = this.pos;
+    const name = this.ident();
+    const args = this.at('<') ? this.parseTemplateArgs() : [];
+    return this.finish(start, { kind: 'Type', name, args });
+  }
+
+  private parseTemplateArgs(): TemplateArg[] {
+    this.expect('<');
+    const args: TemplateArg[] = [];
+    while (!this.at('>')) {
+      // A bare identifier (optionally templated) is a type; anything else is a
+      // constant expression such as an array length.
+      const tok = this.peek();
+      const follower = this.peek(1).value;
+      if (tok.type === 'ident' && (follower === ',' || follower === '>' || follower === '<')) {
+        args.push(this.parseType());
+      } else {
+        args.push(this.parseBinary(ADDITIVE_PRECEDENCE));
+      }
+      if (!this.accept(',')) break;
+    }
+    this.expect('>');
+    return args;
+  }
+
+  // -- Statements --
+
+  parseBlock(): Block {
+    const start = this.pos;
+    this.expect('{');
+    const stmts: Stmt[] = [];
+    while (!this.at('}')) {
+      if (this.peek().type === 'eof') throw this.error("Expected '}' but reached end of file");
+      stmts.push(this.parseStatement());
+    }
+    const close = this.expect('}');
+    return this.finish(start, { kind: 'Block', stmts, tail: close.lead });
+  }
+
+  parseStatement(): Stmt {
+    const start = this.pos;
+    const tok = this.peek();
+
+    switch (tok.value) {
+      case ';':
+        this.next();
+        return this.finish(start, { kind: 'Empty' });
+      case '{':
+        return this.parseBlock();
+      case 'return': {
+        this.next();
+        const value = this.at(';') ? null : this.parseExpression();
+        this.expect(';');
+        return this.finish(start, { kind: 'Return', value });
+      }
+      case 'if':
+        return this.parseIf();
+      case 'for': {
+        this.next();
+        this.expect('(');
+        const init = this.at(';') ? null : this.parseSimpleStatement(false);
+        this.expect(';');
+        const cond = this.at(';') ? null : this.parseExpression();
+        this.expect(';');
+        const update = this.at(')') ? null : this.parseSimpleStatement(false);
+        this.expect(')');
+        const body = this.parseBlock();
+        return this.finish(start, { kind: 'For', init, cond, update, body });
+      }
+      case 'while': {
+        this.next();
+        const cond = this.parseExpression();
+        const body = this.parseBlock();
+        return this.finish(start, { kind: 'While', cond, body });
+      }
+      case 'loop': {
+        this.next();
+        const body = this.parseBlock();
+        return this.finish(start, { kind: 'Loop', body });
+      }
+      case 'continuing': {
+        this.next();
+        const body = this.parseBlock();
+        return this.finish(start, { kind: 'Continuing', body });
+      }
+      case 'break': {
+        this.next();
+        if (this.accept('if')) {
+          const cond = this.parseExpression();
+          this.expect(';');
+          return this.finish(start, { kind: 'BreakIf', cond });
+        }
+        this.expect(';');
+        return this.finish(start, { kind: 'Break' });
+      }
+      case 'continue':
+      case 'discard': {
+        this.next();
+        this.expect(';');
+        return this.finish(start, { kind: tok.value === 'continue' ? 'Continue' : 'Discard' });
+      }
+      case 'switch':
+        return this.parseSwitch();
+      case 'const_assert': {
+        this.next();
+        const expr = this.parseExpression();
+        this.expect(';');
+        return this.finish(start, { kind: 'ConstAssert', expr });
+      }
+      default:
+        return this.parseSimpleStatement(true);
+    }
+  }
+
+  private parseIf(): IfStmt {
+    const start = this.pos;
+    this.expect('if');
+    const cond = this.parseExpression();
+    const then = this.parseBlock();
+    let otherwise: IfStmt | Block | null = null;
+    if (this.accept('else')) {
+      otherwise = this.at('if') ? this.parseIf() : this.parseBlock();
+    }
+    return this.finish(start, { kind: 'If', cond, then, otherwise });
+  }
+
+  private parseSwitch(): Stmt {
+    const start = this.pos;
+    this.expect('switch');
+    const selector = this.parseExpression();
+    this.expect('{');
+    const clauses: SwitchClause[] = [];
+    while (!this.at('}')) {
+      const clauseStart = this.pos;
+      const selectors: (Expr | null)[] = [];
+      if (this.accept('default')) {
+        selectors.push(null);
+      } else {
+        this.expect('case');
+        while (!this.at(':') && !this.at('{')) {
+          if (this.accept('default')) selectors.push(null);
+          else selectors.push(this.parseExpression());
+          if (!this.accept(',')) break;
+        }
+      }
+      this.accept(':');
+      const body = this.parseBlock();
+      clauses.push(this.finish(clauseStart, { kind: 'Case', selectors, body }));
+    }
+    this.expect('}');
+    return this.finish(start, { kind: 'Switch', selector, clauses });
+  }
+
+  /** Declarations, assignments, increments and call statements. */
+  private parseSimpleStatement(terminated: boolean): Stmt {
+    const start = this.pos;
+    if (this.at('let') || this.at('var') || this.at('const')) {
+      return this.parseVarDecl(start, [], terminated);
+    }
+
+    const target = this.parseExpression();
+    let stmt: Stmt;
+    if (this.at('++') || this.at('--')) {
+      const op = this.next().value as '++' | '--';
+      if (terminated) this.expect(';');
+      stmt = this.finish(start, { kind: 'IncDec', target, op });
+    } else if (ASSIGN_OPS.has(this.peek().value)) {
+      const op = this.next().value;
+      const value = this.parseExpression();
+      if (terminated) this.expect(';');
+      stmt = this.finish(start, { kind: 'Assign', target, op, value });
+    } else if (target.kind === 'Call') {
+      if (terminated) this.expect(';');
+      stmt = this.finish(start, { kind: 'CallStmt', call: target });
+    } else {
+      throw this.error('Expected a statement', this.tokens[start]);
+    }
+    return stmt;
+  }
+
+  // -- Expressions --
+
+  parseExpression(): Expr {
+    return this.parseBinary(1);
+  }
+
+  private peekBinaryOp(): string | null {
+    if (this.atShiftRight()) return '>>';
+    const tok = this.peek();
+    return tok.type === 'punct' && tok.value in BINARY_PRECEDENCE ? tok.value : null;
+  }
+
+  private parseBinary(minPrecedence: number): Expr {
+    const start = this.pos;
+    let left = this.parseUnary();
+    for (;;) {
+      const op = this.peekBinaryOp();
+      if (!op) break;
+      const precedence = BINARY_PRECEDENCE[op];
+      if (precedence < minPrecedence) break;
+      this.next();
+      if (op === '>>') this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = this.finish(start, { kind: 'Binary', op, left, right });
+    }
+    return left;
+  }
+
+  private parseUnary(): Expr {
+    const start = this.pos;
+    const tok = this.peek();
+    if (tok.type === 'punct' && UNARY_OPS.has(tok.value)) {
+      this.next();
+      const operand = this.parseUnary();
+      return this.finish(start, { kind: 'Unary', op: tok.value, operand });
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expr {
+    const start = this.pos;
+    let expr = this.parsePrimary();
+    for (;;) {
+      if (this.accept('.')) {
+        const member = this.ident();
+        expr = this.finish(start, { kind: 'Member', object: expr, member });
+      } else if (this.accept('[')) {
+        const index = this.parseExpression();
+        this.expect(']');
+        expr = this.finish(start, { kind: 'Index', object: expr, index });
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private parsePrimary(): Expr {
+    const start = this.pos;
+    const tok = this.peek();
+
+    if (tok.type === 'number' || tok.value === 'true' || tok.value === 'false') {
+      this.next();
+      return this.finish(start, { kind: 'Literal', text: tok.value });
+    }
+
+    if (this.accept('(')) {
+      const expr = this.parseExpression();
+      this.expect(')');
+      return this.finish(start, { kind: 'Paren', expr });
+    }
+
+    if (tok.type === 'ident') {
+      const templated = TEMPLATED.test(tok.value) && this.at('<', 1);
+      if (templated || this.at('(', 1)) {
+        const callee = this.parseType();
+        return this.parseCall(start, callee);
+      }
+      this.next();
+      return this.finish(start, { kind: 'Ident', name: tok.value });
+    }
+
+    throw this.error(`Unexpected '${tok.value || 'end of file'}' in expression`);
+  }
+
+  private parseCall(start: number, callee: TypeRef): CallExpr {
+    this.expect('(');
+    const args: Expr[] = [];
+    while (!this.at(')')) {
+      args.push(this.parseExpression());
+      if (!this.accept(',')) break;
+    }
+    this.expect(')');
+    return this.finish(start, { kind: 'Call', callee, args });
+  }
+
+  expectEnd(): void {
+    if (this.peek().type !== 'eof') throw this.error(`Unexpected '${this.peek().value}'`);
+  }
+}
+
+// -- Public API --
+
+/** Parses a whole WGSL module. Throws `WgslSyntaxError` on malformed input. */
+export const parse = (source: string): Module => new Parser(source, tokenize(source)).parseModule();
+
+/** Parses a standalone expression into detached nodes, ready to splice into any tree. */
+export const parseExpression = (text: string): Expr => {
+  const parser = new Parser(text, tokenize(text));
+  const expr = parser.parseExpression();
+  parser.expectEnd();
+  return detach(expr);
+};
+
+/** Parses a run of statements (without braces) into detached nodes. */
+export const parseStatements = (text: string): Stmt[] => {
+  const block = new Parser(`{${text}}`, tokenize(`{${text}}`)).parseBlock();
+  return block.stmts.map(stmt => detach(stmt));
+};
+
+/** Parses module-scope declarations into detached nodes. */
+export const parseDecls = (text: string): Decl[] => parse(text).decls.map(decl => detach(decl));
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { PRESETS, WGSL_PREAMBLE } from '../../constants';
+import { parse } from './parser';
+import { print } from './printer';
+
+const SOURCES = [...PRESETS.map(p => [p.name, p.code]), ['WGSL_PREAMBLE', WGSL_PREAMBLE]];
+
+describe('print', () => {
+  it.each(SOURCES)('round-trips %s losslessly', (_, source) => {
+    expect(print(parse(source), source)).toBe(source);
+  });
+
+  it.each(SOURCES)('prints %s canonically as code that re-parses to the same text', (_, source) => {
+    const canonical = print(parse(source));
+    expect(print(parse(canonical))).toBe(canonical);
+  });
+});
@@ -0,0 +1,232 @@
+import { Attribute, Block, Expr, Module, Node, Stmt, TemplateArg, childrenOf } from './ast';
+import { BINARY_PRECEDENCE } from './parser';
+
+/**
+ * WGSL PRINTER
+ *
+ * Given the original source, untouched subtrees are re-emitted verbatim and
+ * only nodes a mutator replaced or inserted are printed canonically, so
+ * `print(parse(src), src) === src` and a mutation's diff stays local.
+ * Without a source everything is printed canonically.
+ */
+
+const INDENT = '    ';
+
+/** Leading whitespace of the line containing `offset`. */
+const indentAt = (source: string, offset: number): string => {
+  const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+  const match = source.slice(lineStart).match(/^[ \t]*/);
+  return match ? match[0] : '';
+};
+
+/**
+ * Nodes whose text can be sliced from `source`, with their children
+ * substituted. Statement lists track insertions and deletions themselves;
+ * any other node that gained or lost a child is reprinted canonically.
+ */
+const isVerbatim = (node: Node, source: string | undefined): source is string =>
+  source !== undefined &&
+  node.range !== null &&
+  (node.kind === 'Block' || node.kind === 'Module' || childrenOf(node).length === node.arity);
+
+export const print = (node: Node, source?: string, indent = ''): string => {
+  if (isVerbatim(node, source)) {
+    if (node.kind === 'Block' || node.kind === 'Module') return printList(node, source);
+    const spliced = printSpliced(node, source);
+    if (spliced !== null) return spliced;
+  }
+  return printCanonical(node, source, indent);
+};
+
+/**
+ * Statement lists: every surviving original keeps its own leading trivia, so
+ * deleting an entry drops its comments with it and inserted entries get a
+ * fresh line at their siblings' indentation.
+ */
+const printList = (node: Block | Module, source: string): string => {
+  const items: Node[] = node.kind === 'Block' ? node.stmts : node.decls;
+  const open = node.kind === 'Block' ? node.range!.start + 1 : node.range!.start;
+  const anchor = items.find(item => item.slot);
+  const itemIndent = anchor?.slot
+    ? indentAt(source, anchor.slot.start)
+    : indentAt(source, node.range!.start) + (node.kind === 'Block' ? INDENT : '');
+  const separator = node.kind === 'Module' ? '\n\n' : '\n';
+
+  let out = source.slice(node.range!.start, open);
+  for (const item of items) {
+    if (item.slot) {
+      out += source.slice(item.slot.lead, item.slot.start) + print(item, source, itemIndent);
+    } else {
+      out += separator + itemIndent + print(item, source, itemIndent);
+    }
+  }
+  return out + source.slice(node.tail, node.range!.end);
+};
+
+/** Slices the node's source text, replacing each child's slot with its printed form. */
+const printSpliced = (node: Node, source: string): string | null => {
+  const children = childrenOf(node);
+  if (children.some(child => !child.slot)) return null;
+
+  const ordered = [...children].sort((a, b) => a.slot!.start - b.slot!.start);
+  const range = node.range!;
+  let out = '';
+  let pos = range.start;
+  for (const child of ordered) {
+    const slot = child.slot!;
+    if (slot.start < pos || slot.end > range.end) return null;
+    const header = node.kind === 'For' && (child === node.init || child === node.update);
+    const before = source.slice(pos, slot.start);
+    const text = header ? printHeaderStmt(child as Stmt, source) : print(child, source, indentAt(source, slot.start));
+    // A replaced negative literal after a verbatim `-` must not fuse into `--`
+    out += before + (before.endsWith('-') && text.startsWith('-') ? ' ' : '') + text;
+    pos = slot.end;
+  }
+  return out + source.slice(pos, range.end);
+};
+
+// -- Canonical printing --
+
+const joinAttrs = (attrs: Attribute[], source: string | undefined): string =>
+  attrs.map(a => print(a, source) + ' ').join('');
+
+const printTemplate = (args: TemplateArg[], source: string | undefined): string =>
+  args.length ? `<${args.map(a => print(a, source)).join(', ')}>` : '';
+
+const precedenceOf = (expr: Expr): number | null => (expr.kind === 'Binary' ? BINARY_PRECEDENCE[expr.op] : null);
+
+/**
+ * WGSL is stricter than C: bitwise and shift operands must be unary
+ * expressions, logical operators cannot be mixed, and relations do not chain.
+ */
+const needsParens = (parent: Expr & { kind: 'Binary' }, child: Expr, side: 'left' | 'right'): boolean => {
+  const childPrec = precedenceOf(child);
+  if (childPrec === null) return false;
+  const prec = BINARY_PRECEDENCE[parent.op];
+  const sameOpLeft = side === 'left' && child.kind === 'Binary' && child.op === parent.op;
+  if (prec <= 2) return !(childPrec >= 6 || sameOpLeft);
+  if (prec <= 5) return !sameOpLeft;
+  if (prec === 6 || prec === 7) return childPrec <= prec || prec === 7;
+  return childPrec < prec || (side === 'right' && childPrec === prec);
+};
+
+const wrapIf = (text: string, wrap: boolean): string => (wrap ? `(${text})` : text);
+
+const printExpr = (expr: Expr, source: string | undefined): string => {
+  switch (expr.kind) {
+    case 'Literal': return expr.text;
+    case 'Ident': return expr.name;
+    case 'Paren': return `(${print(expr.expr, source)})`;
+    case 'Call':
+      return `${print(expr.callee, source)}(${expr.args.map(a => print(a, source)).join(', ')})`;
+    case 'Binary':
+      return `${wrapIf(print(expr.left, source), needsParens(expr, expr.left, 'left'))} ${expr.op} ${wrapIf(print(expr.right, source), needsParens(expr, expr.right, 'right'))}`;
+    case 'Unary':
+      // Nested unaries are wrapped so `-(-x)` never collapses into a `--` token
+      return `${expr.op}${wrapIf(print(expr.operand, source), expr.operand.kind === 'Binary' || expr.operand.kind === 'Unary')}`;
+    case 'Member':
+      return `${wrapIf(print(expr.object, source), expr.object.kind === 'Binary' || expr.object.kind === 'Unary')}.${expr.member}`;
+    case 'Index':
+      return `${wrapIf(print(expr.object, source), expr.object.kind === 'Binary' || expr.object.kind === 'Unary')}[${print(expr.index, source)}]`;
+  }
+};
+
+const printBlock = (block: Block, source: string | undefined, indent: string): string => {
+  if (block.stmts.length === 0) return '{}';
+  const inner = indent + INDENT;
+  return `{\n${block.stmts.map(s => inner + print(s, source, inner)).join('\n')}\n${indent}}`;
+};
+
+/** Statements inside a `for (...)` header carry no semicolon. */
+const printHeaderStmt = (stmt: Stmt, source: string | undefined): string => {
+  const text = print(stmt, source);
+  return text.endsWith(';') ? text.slice(0, -1) : text;
+};
+
+const printCanonical = (node: Node, source: string | undefined, indent: string): string => {
+  switch (node.kind) {
+    case 'Literal':
+    case 'Ident':
+    case 'Paren':
+    case 'Call':
+    case 'Binary':
+    case 'Unary':
+    case 'Member':
+    case 'Index':
+      return printExpr(node, source);
+    case 'Type':
+      return node.name + printTemplate(node.args, source);
+    case 'Attribute':
+      return `@${node.name}${node.args.length ? `(${node.args.map(a => print(a, source)).join(', ')})` : ''}`;
+    case 'Module':
+      return node.decls.map(d => print(d, source)).join('\n\n') + '\n';
+    case 'Directive':
+      return node.text;
+    case 'Block':
+      return printBlock(node, source, indent);
+    case 'VarDecl': {
+      const template = node.template.length ? `<${node.template.join(', ')}>` : '';
+      const type = node.type ? `: ${print(node.type, source)}` : '';
+      const init = node.init ? ` = ${print(node.init, source)}` : '';
+      return `${joinAttrs(node.attrs, source)}${node.keyword}${template} ${node.name}${type}${init};`;
+    }
+    case 'Assign':
+      return `${print(node.target, source)} ${node.op} ${print(node.value, source)};`;
+    case 'IncDec':
+      return `${print(node.target, source)}${node.op};`;
+    case 'Return':
+      return node.value ? `return ${print(node.value, source)};` : 'return;';
+    case 'If': {
+      const head = `if ${print(node.cond, source)} ${print(node.then, source, indent)}`;
+      return node.otherwise ? `${head} else ${print(node.otherwise, source, indent)}` : head;
+    }
+    case 'For': {
+      const init = node.init ? printHeaderStmt(node.init, source) : '';
+      const cond = node.cond ? ` ${print(node.cond, source)}` : '';
+      const update = node.update ? ` ${printHeaderStmt(node.update, source)}` : '';
+      return `for (${init};${cond};${update}) ${print(node.body, source, indent)}`;
+    }
+    case 'While':
+      return `while ${print(node.cond, source)} ${print(node.body, source, indent)}`;
+    case 'Loop':
+      return `loop ${print(node.body, source, indent)}`;
+    case 'Continuing':
+      return `continuing ${print(node.body, source, indent)}`;
+    case 'BreakIf':
+      return `break if ${print(node.cond, source)};`;
+    case 'Switch': {
+      const inner = indent + INDENT;
+      const clauses = node.clauses.map(c => inner + print(c, source, inner)).join('\n');
+      return `switch ${print(node.selector, source)} {\n${clauses}\n${indent}}`;
+    }
+    case 'Case': {
+      const onlyDefault = node.selectors.length === 1 && node.selectors[0] === null;
+      const selectors = node.selectors.map(s => (s ? print(s, source) : 'default')).join(', ');
+      return `${onlyDefault ? 'default' : `case ${selectors}`} ${print(node.body, source, indent)}`;
+    }
+    case 'Break': return 'break;';
+    case 'Continue': return 'continue;';
+    case 'Discard': return 'discard;';
+    case 'Empty': return ';';
+    case 'CallStmt':
+      return `${print(node.call, source)};`;
+    case 'ConstAssert':
+      return `const_assert ${print(node.expr, source)};`;
+    case 'Param':
+      return `${joinAttrs(node.attrs, source)}${node.name} : ${print(node.type, source)}`;
+    case 'Function': {
+      const params = node.params.map(p => print(p, source)).join(', ');
+      const ret = node.returnType ? ` -> ${joinAttrs(node.returnAttrs, source)}${print(node.returnType, source)}` : '';
+      return `${joinAttrs(node.attrs, source)}fn ${node.name}(${params})${ret} ${print(node.body, source, indent)}`;
+    }
+    case 'StructMember':
+      return `${joinAttrs(node.attrs, source)}${node.name} : ${print(node.type, source)}`;
+    case 'Struct': {
+      const inner = indent + INDENT;
+      const members = node.members.map(m => `${inner}${print(m, source, inner)},`).join('\n');
+      return `${joinAttrs(node.attrs, source)}struct ${node.name} {\n${members}\n${indent}}`;
+    }
+    case 'Alias':
+      return `alias ${node.name} = ${print(node.type, source)};`;
+  }
+};
@@ -0,0 +1,546 @@
+import { WGSL_PREAMBLE } from '../../constants';
+import { Block, Expr, FunctionDecl, Module, Node, Stmt, TypeRef } from './ast';
+import { parse } from './parser';
+import {
+  BOOL,
+  BUILTINS,
+  UNKNOWN,
+  WgslType,
+  binaryResult,
+  canConvert,
+  concretize,
+  isNumericScalar,
+  resolveTypeName,
+  scalar,
+  scalarOf,
+  swizzleResult,
+  typeToString,
+  unaryResult,
+  unify,
+  vector,
+} from './typeSystem';
+
+/**
+ * WGSL TYPE CHECKER
+ *
+ * Infers a type for every expression in a module and reports the mismatches
+ * WGSL would reject. Mutators use the inferred types to only pick
+ * replacements that fit; the offline validator uses the diagnostics.
+ */
+
+export interface TypeDiagnostic {
+  message: string;
+  node: Node;
+}
+
+export interface FunctionSignature {
+  name: string;
+  params: WgslType[];
+  result: WgslType | null; // null for functions without a return type
+}
+
+export interface TypeInfo {
+  types: Map<Expr, WgslType>;
+  diagnostics: TypeDiagnostic[];
+  functions: Map<string, FunctionSignature>;
+  globals: Map<string, WgslType>; // Module-scope var/let/const/override types
+}
+
+// Builtins the checker knows exist but does not model; calls to them are untyped
+const UNTYPED_BUILTINS = /^(?:texture\w*|atomic\w*|storageBarrier|workgroupBarrier|textureBarrier|workgroupUniformLoad|arrayLength|bitcast|pack\w+|unpack\w+|countLeadingZeros|countOneBits|countTrailingZeros|firstLeadingBit|firstTrailingBit|extractBits|insertBits|reverseBits|frexp|modf|ldexp|quantizeToF16)$/;
+
+let preambleSignatures: Map<string, FunctionSignature> | null = null;
+
+/** Signatures of the `f_*` helpers every shader gets from `WGSL_PREAMBLE`. */
+export const getPreambleSignatures = (): Map<string, FunctionSignature> => {
+  if (!preambleSignatures) {
+    const checker = new Checker(new Map());
+    const module = parse(WGSL_PREAMBLE);
+    checker.declare(module);
+    preambleSignatures = checker.functions;
+  }
+  return preambleSignatures;
+};
+
+class Checker {
+  readonly types = new Map<Expr, WgslType>();
+  readonly diagnostics: TypeDiagnostic[] = [];
+  readonly functions: Map<string, FunctionSignature>;
+  private readonly namedTypes = new Map<string, WgslType>();
+  readonly globals = new Map<string, WgslType>();
+  private readonly scopes: Map<string, WgslType>[] = [this.globals];
+  private readonly immutable: Set<string>[] = [new Set()]; // let/const/override, parameters and uniforms, per scope
+  private currentReturn: WgslType | null = null;
+
+  constructor(inherited: Map<string, FunctionSignature>) {
+    this.functions = new Map(inherited);
+  }
+
+  private error(node: Node, message: string): void {
+    this.diagnostics.push({ node, message });
+  }
+
+  // -- Scopes --
+
+  private lookup(name: string): WgslType | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const t = this.scopes[i].get(name);
+      if (t) return t;
+    }
+    return undefined;
+  }
+
+  private bind(node: Node, name: string, type: WgslType, mutable = true): void {
+    const scope = this.scopes[this.scopes.length - 1];
+    if (scope.has(name) && name !== '_') this.error(node, `Redeclaration of '${name}'`);
+    scope.set(name, type);
+    const immutable = this.immutable[this.immutable.length - 1];
+    if (mutable) immutable.delete(name);
+    else immutable.add(name);
+  }
+
+  /** Whether the innermost declaration of `name` cannot be assigned to. */
+  private isImmutable(name: string): boolean {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      if (this.scopes[i].has(name)) return this.immutable[i].has(name);
+    }
+    return false;
+  }
+
+  private withScope(fn: () => void): void {
+    this.scopes.push(new Map());
+    this.immutable.push(new Set());
+    try {
+      fn();
+    } finally {
+      this.scopes.pop();
+      this.immutable.pop();
+    }
+  }
+
+  // -- Types --
+
+  resolveType(ref: TypeRef): WgslType {
+    const named = this.namedTypes.get(ref.name);
+    if (named) return named;
+    const args = ref.args.map(arg => {
+      if (arg.kind === 'Type') {
+        const t = this.namedTypes.get(arg.name) ?? resolveTypeName(arg.name, arg.args.map(a => (a.kind === 'Type' ? this.resolveType(a) : null)));
+        return t ?? null;
+      }
+      return arg.kind === 'Literal' ? parseInt(arg.text, 10) : null;
+    });
+    const t = resolveTypeName(ref.name, args);
+    if (!t) {
+      this.error(ref, `Unknown type '${ref.name}'`);
+      return UNKNOWN;
+    }
+    return t;
+  }
+
+  // -- Module --
+
+  /** Registers module-scope names; WGSL declarations are order independent. */
+  declare(module: Module): void {
+    const seen = new Set<string>();
+    for (const decl of module.decls) {
+      if (decl.kind === 'Struct' || decl.kind === 'Function' || decl.kind === 'Alias') {
+        if (seen.has(decl.name) || this.functions.has(decl.name)) this.error(decl, `Redeclaration of '${decl.name}'`);
+        seen.add(decl.name);
+      }
+      if (decl.kind === 'Struct') {
+        this.namedTypes.set(decl.name, { kind: 'struct', name: decl.name, members: [] });
+      }
+    }
+    for (const decl of module.decls) {
+      if (decl.kind === 'Struct') {
+        const struct = this.namedTypes.get(decl.name) as WgslType & { kind: 'struct' };
+        struct.members = decl.members.map(m => ({ name: m.name, type: this.resolveType(m.type) }));
+      } else if (decl.kind === 'Alias') {
+        this.namedTypes.set(decl.name, this.resolveType(decl.type));
+      } else if (decl.kind === 'Function') {
+        this.functions.set(decl.name, {
+          name: decl.name,
+          params: decl.params.map(p => this.resolveType(p.type)),
+          result: decl.returnType ? this.resolveType(decl.returnType) : null,
+        });
+      }
+    }
+    for (const decl of module.decls) {
+      if (decl.kind === 'VarDecl') this.checkVarDecl(decl);
+    }
+  }
+
+  checkModule(module: Module): void {
+    this.declare(module);
+    for (const decl of module.decls) {
+      if (decl.kind === 'Function') this.checkFunction(decl);
+      else if (decl.kind === 'ConstAssert') this.expectBool(decl.expr);
+    }
+  }
+
+  private checkFunction(fn: FunctionDecl): void {
+    const signature = this.functions.get(fn.name);
+    this.currentReturn = signature?.result ?? null;
+    this.withScope(() => {
+      fn.params.forEach((p, i) => this.bind(p, p.name, signature?.params[i] ?? UNKNOWN, false));
+      this.checkStatements(fn.body.stmts);
+    });
+    this.currentReturn = null;
+    if (signature?.result && !alwaysReturns(fn.body.stmts)) {
+      this.error(fn, `Function '${fn.name}' must return ${typeToString(signature.result)} on every path`);
+    }
+  }
+
+  // -- Statements --
+
+  private checkBlock(block: Block): void {
+    this.withScope(() => this.checkStatements(block.stmts));
+  }
+
+  private checkStatements(stmts: Stmt[]): void {
+    for (const stmt of stmts) this.checkStatement(stmt);
+  }
+
+  private checkVarDecl(decl: Stmt & { kind: 'VarDecl' }): void {
+    const declared = decl.type ? this.resolveType(decl.type) : null;
+    const init = decl.init ? this.infer(decl.init) : null;
+    if (declared && init && !canConvert(init, declared)) {
+      this.error(decl, `Cannot initialize '${decl.name}' of type ${typeToString(declared)} with ${typeToString(init)}`);
+    }
+    const type = declared ?? (init ? (decl.keyword === 'const' ? init : concretize(init)) : UNKNOWN);
+    this.bind(decl, decl.name, type, decl.keyword === 'var' && decl.template[0] !== 'uniform');
+  }
+
+  /** Reports an assignment or increment whose target is not a mutable variable. */
+  private expectMutable(stmt: Stmt, target: Expr): void {
+    let root = target;
+    while (root.kind === 'Member' || root.kind === 'Index' || root.kind === 'Paren') root = root.kind === 'Paren' ? root.expr : root.object;
+    if (root.kind === 'Ident' && this.isImmutable(root.name)) this.error(stmt, `Cannot assign to '${root.name}'; only a var can be assigned`);
+  }
+
+  private expectBool(expr: Expr): void {
+    const t = this.infer(expr);
+    if (t.kind !== 'unknown' && !(t.kind === 'scalar' && t.scalar === 'bool')) {
+      this.error(expr, `Condition must be bool, found ${typeToString(t)}`);
+    }
+  }
+
+  private checkStatement(stmt: Stmt): void {
+    switch (stmt.kind) {
+      case 'Block':
+        this.checkBlock(stmt);
+        break;
+      case 'VarDecl':
+        this.checkVarDecl(stmt);
+        break;
+      case 'Assign': {
+        const value = this.infer(stmt.value);
+        if (stmt.target.kind === 'Ident' && stmt.target.name === '_') break;
+        const target = this.infer(stmt.target);
+        this.expectMutable(stmt, stmt.target);
+        const result = stmt.op === '=' ? value : binaryResult(stmt.op.slice(0, -1), target, value);
+        if (!result || !canConvert(result, target)) {
+          this.error(stmt, `Cannot assign ${typeToString(value)} to ${typeToString(target)}`);
+        }
+        break;
+      }
+      case 'IncDec': {
+        const t = this.infer(stmt.target);
+        this.expectMutable(stmt, stmt.target);
+        if (t.kind !== 'unknown' && !(t.kind === 'scalar' && (t.scalar === 'i32' || t.scalar === 'u32'))) {
+          this.error(stmt, `'${stmt.op}' needs an integer, found ${typeToString(t)}`);
+        }
+        break;
+      }
+      case 'Return': {
+        const t = stmt.value ? this.infer(stmt.value) : null;
+        const expected = this.currentReturn;
+        if (expected && !t) this.error(stmt, `Missing return value of type ${typeToString(expected)}`);
+        else if (!expected && t) this.error(stmt, 'Function has no return type');
+        else if (expected && t && !canConvert(t, expected)) {
+          this.error(stmt, `Return type ${typeToString(t)} does not match ${typeToString(expected)}`);
+        }
+        break;
+      }
+      case 'If':
+        this.expectBool(stmt.cond);
+        this.checkBlock(stmt.then);
+        if (stmt.otherwise) this.checkStatement(stmt.otherwise);
+        break;
+      case 'For':
+        this.withScope(() => {
+          if (stmt.init) this.checkStatement(stmt.init);
+          if (stmt.cond) this.expectBool(stmt.cond);
+          if (stmt.update) this.checkStatement(stmt.update);
+          this.checkBlock(stmt.body);
+        });
+        break;
+      case 'While':
+        this.expectBool(stmt.cond);
+        this.checkBlock(stmt.body);
+        break;
+      case 'Loop':
+        // `continuing` sees the loop body's declarations, so share one scope
+        this.withScope(() => this.checkStatements(stmt.body.stmts));
+        break;
+      case 'Continuing':
+        this.withScope(() => this.checkStatements(stmt.body.stmts));
+        break;
+      case 'BreakIf':
+        this.expectBool(stmt.cond);
+        break;
+      case 'Switch':
+        this.infer(stmt.selector);
+        for (const clause of stmt.clauses) {
+          clause.selectors.forEach(s => s && this.infer(s));
+          this.checkBlock(clause.body);
+        }
+        break;
+      case 'CallStmt':
+        this.inferCall(stmt.call, true);
+        break;
+      case 'ConstAssert':
+        this.expectBool(stmt.expr);
+        break;
+      case 'Break':
+      case 'Continue':
+      case 'Discard':
+      case 'Empty':
+        break;
+    }
+  }
+
+  // -- Expressions --
+
+  infer(expr: Expr): WgslType {
+    const t = this.inferUncached(expr);
+    this.types.set(expr, t);
+    return t;
+  }
+
+  private inferUncached(expr: Expr): WgslType {
+    switch (expr.kind) {
+      case 'Literal': return literalType(expr.text);
+      case 'Paren': return this.infer(expr.expr);
+      case 'Ident': {
+        const t = this.lookup(expr.name);
+        if (!t) {
+          this.error(expr, `Unresolved identifier '${expr.name}'`);
+          return UNKNOWN;
+        }
+        return t;
+      }
+      case 'Unary': {
+        const operand = this.infer(expr.operand);
+        const t = unaryResult(expr.op, operand);
+        if (!t) this.error(expr, `Invalid operand for '${expr.op}': ${typeToString(operand)}`);
+        return t ?? UNKNOWN;
+      }
+      case 'Binary': {
+        const left = this.infer(expr.left);
+        const right = this.infer(expr.right);
+        const t = binaryResult(expr.op, left, right);
+        if (!t) this.error(expr, `Invalid operands for '${expr.op}': ${typeToString(left)} and ${typeToString(right)}`);
+        // WGSL rejects a constant zero integer divisor even when the dividend is only known at runtime
+        const integer = t && ['i32', 'u32', 'abstract-int'].includes(scalarOf(t) ?? '');
+        if ((expr.op === '/' || expr.op === '%') && integer && constantInt(expr.right) === 0) {
+          this.error(expr, `Integer ${expr.op === '/' ? 'division' : 'remainder'} by zero`);
+        }
+        return t ?? UNKNOWN;
+      }
+      case 'Member': {
+        const object = this.infer(expr.object);
+        if (object.kind === 'unknown') return UNKNOWN;
+        if (object.kind === 'vector') {
+          const t = swizzleResult(object, expr.member);
+          if (!t) this.error(expr, `Invalid swizzle '.${expr.member}' on ${typeToString(object)}`);
+          return t ?? UNKNOWN;
+        }
+        if (object.kind === 'struct') {
+          const member = object.members.find(m => m.name === expr.member);
+          if (!member) this.error(expr, `Struct ${object.name} has no member '${expr.member}'`);
+          return member?.type ?? UNKNOWN;
+        }
+        this.error(expr, `Cannot access '.${expr.member}' on ${typeToString(object)}`);
+        return UNKNOWN;
+      }
+      case 'Index': {
+        const object = this.infer(expr.object);
+        this.infer(expr.index);
+        const index = constantInt(expr.index);
+        const size = object.kind === 'vector' ? object.size : object.kind === 'matrix' ? object.cols : object.kind === 'array' ? object.length : null;
+        if (index !== null && size !== null && (index < 0 || index >= size)) {
+          this.error(expr, `Index ${index} is out of bounds for ${typeToString(object)}`);
+        }
+        switch (object.kind) {
+          case 'vector': return scalar(object.scalar);
+          case 'matrix': return vector(object.rows, object.scalar);
+          case 'array': return object.element;
+          case 'unknown': return UNKNOWN;
+          default:
+            this.error(expr, `Cannot index into ${typeToString(object)}`);
+            return UNKNOWN;
+        }
+      }
+      case 'Call': return this.inferCall(expr, false) ?? UNKNOWN;
+    }
+  }
+
+  private inferCall(call: Expr & { kind: 'Call' }, asStatement: boolean): WgslType | null {
+    const args = call.args.map(a => this.infer(a));
+    const name = call.callee.name;
+
+    const fn = this.functions.get(name);
+    if (fn) {
+      if (fn.params.length !== args.length) {
+        this.error(call, `'${name}' expects ${fn.params.length} arguments, got ${args.length}`);
+      } else {
+        fn.params.forEach((p, i) => {
+          if (!canConvert(args[i], p)) {
+            this.error(call.args[i], `Argument ${i + 1} of '${name}' expects ${typeToString(p)}, got ${typeToString(args[i])}`);
+          }
+        });
+      }
+      if (!fn.result && !asStatement) this.error(call, `'${name}' does not return a value`);
+      return fn.result ?? UNKNOWN;
+    }
+
+    const builtin = BUILTINS[name];
+    if (builtin) {
+      const t = builtin(args);
+      if (!t) this.error(call, `No overload of '${name}' for (${args.map(typeToString).join(', ')})`);
+      return t ?? UNKNOWN;
+    }
+
+    // The target type is spelled out, so a bitcast's result is known even though its argument is not checked
+    const target = call.callee.args[0];
+    if (name === 'bitcast' && target?.kind === 'Type') return this.resolveType(target);
+    if (UNTYPED_BUILTINS.test(name)) return UNKNOWN;
+
+    const constructed = this.namedTypes.get(name) ?? (resolveTypeName(name, []) !== null ? this.resolveType(call.callee) : null);
+    if (constructed) return this.checkConstructor(call, constructed, args);
+
+    this.error(call, `Unresolved function '${name}'`);
+    return UNKNOWN;
+  }
+
+  /** Vector constructors must receive exactly as many components as they hold (or one to splat). */
+  private checkConstructor(call: Expr & { kind: 'Call' }, type: WgslType, args: WgslType[]): WgslType {
+    // An untemplated `array(...)` holds as many elements as it is given, of their common type
+    if (type.kind === 'array' && call.callee.args.length === 0 && args.length > 0) {
+      const element = args.slice(1).reduce<WgslType | null>((t, a) => t && unify(t, a), args[0]);
+      if (!element) this.error(call, `Array elements must share a type`);
+      return { kind: 'array', element: element ?? UNKNOWN, length: args.length };
+    }
+    if (type.kind !== 'vector' || args.length === 0) return type;
+    let components = 0;
+    for (const a of args) {
+      if (a.kind === 'unknown') return type;
+      if (a.kind === 'scalar') components += 1;
+      else if (a.kind === 'vector') components += a.size;
+      else {
+        this.error(call, `Cannot build ${typeToString(type)} from ${typeToString(a)}`);
+        return type;
+      }
+    }
+    const splat = args.length === 1 && args[0].kind === 'scalar';
+    if (!splat && components !== type.size) {
+      this.error(call, `${typeToString(type)} needs ${type.size} components, got ${components}`);
+    }
+    // An untemplated `vec3(...)` takes its element type from the arguments
+    if (call.callee.args.length === 0 && /^vec[234]$/.test(call.callee.name)) {
+      const elem = args.map(scalarOf).find(s => s && s !== 'abstract-int' && s !== 'abstract-float') ?? scalarOf(args[0]);
+      if (elem && (isNumericScalar(elem) || elem === 'bool')) return vector(type.size, elem);
+    }
+    return type;
+  }
+}
+
+/** Value of an integer literal, possibly negated or parenthesized; null for anything else. */
+const constantInt = (expr: Expr): number | null => {
+  if (expr.kind === 'Paren') return constantInt(expr.expr);
+  if (expr.kind === 'Unary' && expr.op === '-') {
+    const value = constantInt(expr.operand);
+    return value === null ? null : -value;
+  }
+  if (expr.kind !== 'Literal') return null;
+  const t = literalType(expr.text);
+  if (t.kind !== 'scalar' || (t.scalar !== 'abstract-int' && t.scalar !== 'i32' && t.scalar !== 'u32')) return null;
+  return parseInt(expr.text, /^0[xX]/.test(expr.text) ? 16 : 10);
+};
+
+/** Whether a `break` in `stmts` leaves the enclosing loop; breaks in nested loops and switches leave those. */
+const breaksOut = (stmts: Stmt[]): boolean =>
+  stmts.some(stmt => {
+    switch (stmt.kind) {
+      case 'Break':
+      case 'BreakIf':
+        return true;
+      case 'Block':
+        return breaksOut(stmt.stmts);
+      case 'If':
+        return breaksOut(stmt.then.stmts) || (stmt.otherwise !== null && breaksOut([stmt.otherwise]));
+      case 'Continuing':
+        return breaksOut(stmt.body.stmts);
+      default:
+        return false;
+    }
+  });
+
+/**
+ * Whether every path through `stmts` ends in a return, as WGSL's behavior
+ * analysis sees it: conditions are not evaluated, so only `if` with an
+ * `else`, a switch whose every clause returns and a loop without a `break`
+ * count.
+ */
+const alwaysReturns = (stmts: Stmt[]): boolean =>
+  stmts.some(stmt => {
+    switch (stmt.kind) {
+      case 'Return':
+        return true;
+      case 'Block':
+        return alwaysReturns(stmt.stmts);
+      case 'If':
+        return stmt.otherwise !== null && alwaysReturns(stmt.then.stmts) && alwaysReturns([stmt.otherwise]);
+      case 'Switch':
+        return stmt.clauses.every(c => alwaysReturns(c.body.stmts));
+      case 'Loop':
+        return !breaksOut(stmt.body.stmts);
+      default:
+        return false;
+    }
+  });
+
+export const literalType = (text: string): WgslType => {
+  if (text === 'true' || text === 'false') return BOOL;
+  const suffix = text[text.length - 1];
+  const hex = /^0[xX]/.test(text);
+  if (suffix === 'f' && !hex) return scalar('f32');
+  if (suffix === 'h' && !hex) return scalar('f16');
+  if (suffix === 'i') return scalar('i32');
+  if (suffix === 'u') return scalar('u32');
+  if (hex) return /[.pP]/.test(text) ? scalar('abstract-float') : scalar('abstract-int');
+  return /[.eE]/.test(text) ? scalar('abstract-float') : scalar('abstract-int');
+};
+
+/**
+ * Type-checks a fragment module. Preamble helpers are in scope unless
+ * `withPreamble` is false (e.g. when checking the preamble itself).
+ */
+export const checkModule = (module: Module, withPreamble = true): TypeInfo => {
+  const checker = new Checker(withPreamble ? getPreambleSignatures() : new Map());
+  checker.checkModule(module);
+  return { types: checker.types, diagnostics: checker.diagnostics, functions: checker.functions, globals: checker.globals };
+};
+
+/** Result type of calling `name` with `args`, or null if no overload/signature fits. */
+export const resolveCall = (info: TypeInfo, name: string, args: WgslType[]): WgslType | null => {
+  const fn = info.functions.get(name);
+  if (fn) {
+    return fn.params.length === args.length && fn.params.every((p, i) => canConvert(args[i], p)) ? fn.result : null;
+  }
+  const builtin = BUILTINS[name];
+  return builtin ? builtin(args) : null;
+};
+
@@ -0,0 +1,335 @@
+/**
+ * WGSL TYPES & BUILTIN SIGNATURES
+ *
+ * Covers the fragment subset the fuzzer works with: scalars, vectors,
+ * matrices, arrays and structs. Everything else (textures, pointers, atomics)
+ * is `unknown`, which the checker treats as "anything goes" so exotic shaders
+ * degrade to untyped mutation instead of false errors.
+ */
+
+export type ScalarKind = 'bool' | 'i32' | 'u32' | 'f32' | 'f16' | 'abstract-int' | 'abstract-float';
+
+export type WgslType =
+  | { kind: 'scalar'; scalar: ScalarKind }
+  | { kind: 'vector'; size: number; scalar: ScalarKind }
+  | { kind: 'matrix'; cols: number; rows: number; scalar: ScalarKind }
+  | { kind: 'array'; element: WgslType; length: number | null }
+  | { kind: 'struct'; name: string; members: { name: string; type: WgslType }[] }
+  | { kind: 'unknown' };
+
+export const UNKNOWN: WgslType = { kind: 'unknown' };
+export const BOOL: WgslType = { kind: 'scalar', scalar: 'bool' };
+export const F32: WgslType = { kind: 'scalar', scalar: 'f32' };
+
+export const scalar = (s: ScalarKind): WgslType => ({ kind: 'scalar', scalar: s });
+export const vector = (size: number, s: ScalarKind): WgslType => ({ kind: 'vector', size, scalar: s });
+export const matrix = (cols: number, rows: number, s: ScalarKind): WgslType => ({ kind: 'matrix', cols, rows, scalar: s });
+
+const ABSTRACT_NAMES: Record<string, string> = { 'abstract-int': 'AbstractInt', 'abstract-float': 'AbstractFloat' };
+
+export const typeToString = (t: WgslType): string => {
+  switch (t.kind) {
+    case 'scalar': return ABSTRACT_NAMES[t.scalar] ?? t.scalar;
+    case 'vector': return `vec${t.size}<${ABSTRACT_NAMES[t.scalar] ?? t.scalar}>`;
+    case 'matrix': return `mat${t.cols}x${t.rows}<${ABSTRACT_NAMES[t.scalar] ?? t.scalar}>`;
+    case 'array': return t.length === null ? `array<${typeToString(t.element)}>` : `array<${typeToString(t.element)}, ${t.length}>`;
+    case 'struct': return t.name;
+    case 'unknown': return '?';
+  }
+};
+
+export const typesEqual = (a: WgslType, b: WgslType): boolean => {
+  if (a.kind !== b.kind) return false;
+  switch (a.kind) {
+    case 'scalar': return a.scalar === (b as typeof a).scalar;
+    case 'vector': return a.size === (b as typeof a).size && a.scalar === (b as typeof a).scalar;
+    case 'matrix': return a.cols === (b as typeof a).cols && a.rows === (b as typeof a).rows && a.scalar === (b as typeof a).scalar;
+    case 'array': return a.length === (b as typeof a).length && typesEqual(a.element, (b as typeof a).element);
+    case 'struct': return a.name === (b as typeof a).name;
+    case 'unknown': return true;
+  }
+};
+
+// -- Classification --
+
+export const scalarOf = (t: WgslType): ScalarKind | null =>
+  t.kind === 'scalar' || t.kind === 'vector' || t.kind === 'matrix' ? t.scalar : null;
+
+export const isFloatScalar = (s: ScalarKind | null): boolean => s === 'f32' || s === 'f16' || s === 'abstract-float';
+export const isIntScalar = (s: ScalarKind | null): boolean => s === 'i32' || s === 'u32' || s === 'abstract-int';
+export const isNumericScalar = (s: ScalarKind | null): boolean => isFloatScalar(s) || isIntScalar(s);
+
+/** Scalar or vector whose components satisfy `pred`. */
+const isComponentwise = (t: WgslType, pred: (s: ScalarKind | null) => boolean): boolean =>
+  (t.kind === 'scalar' || t.kind === 'vector') && pred(t.scalar);
+
+const withScalar = (t: WgslType, s: ScalarKind): WgslType => {
+  if (t.kind === 'scalar') return scalar(s);
+  if (t.kind === 'vector') return vector(t.size, s);
+  if (t.kind === 'matrix') return matrix(t.cols, t.rows, s);
+  return t;
+};
+
+// -- Conversion --
+
+const convertsScalar = (from: ScalarKind, to: ScalarKind): boolean => {
+  if (from === to) return true;
+  if (from === 'abstract-int') return to !== 'bool';
+  if (from === 'abstract-float') return to === 'f32' || to === 'f16';
+  return false;
+};
+
+/** Whether a value of type `from` may be used where `to` is expected (automatic abstract conversion). */
+export const canConvert = (from: WgslType, to: WgslType): boolean => {
+  if (from.kind === 'unknown' || to.kind === 'unknown') return true;
+  if (from.kind !== to.kind) return false;
+  switch (from.kind) {
+    case 'scalar': return convertsScalar(from.scalar, (to as typeof from).scalar);
+    case 'vector': return from.size === (to as typeof from).size && convertsScalar(from.scalar, (to as typeof from).scalar);
+    case 'matrix':
+      return from.cols === (to as typeof from).cols && from.rows === (to as typeof from).rows && convertsScalar(from.scalar, (to as typeof from).scalar);
+    default: return typesEqual(from, to);
+  }
+};
+
+/** The common type two operands convert to, or null if they cannot meet. */
+export const unify = (a: WgslType, b: WgslType): WgslType | null => {
+  if (a.kind === 'unknown') return b;
+  if (b.kind === 'unknown') return a;
+  if (canConvert(a, b)) return b;
+  if (canConvert(b, a)) return a;
+  // abstract-int meets abstract-float as abstract-float
+  const sa = scalarOf(a);
+  const sb = scalarOf(b);
+  if (sa && sb && a.kind === b.kind && isNumericScalar(sa) && isNumericScalar(sb)) {
+    if ((sa === 'abstract-int' && sb === 'abstract-float') || (sa === 'abstract-float' && sb === 'abstract-int')) {
+      const sizeMatches = a.kind !== 'vector' || (a as { size: number }).size === (b as { size: number }).size;
+      if (sizeMatches) return withScalar(a, 'abstract-float');
+    }
+  }
+  return null;
+};
+
+/** Resolves abstract scalars to their concrete defaults, as `let` declarations do. */
+export const concretize = (t: WgslType): WgslType => {
+  const s = scalarOf(t);
+  if (s === 'abstract-int') return withScalar(t, 'i32');
+  if (s === 'abstract-float') return withScalar(t, 'f32');
+  if (t.kind === 'array') return { ...t, element: concretize(t.element) };
+  return t;
+};
+
+// -- Type names --
+
+const SHORTHAND_SUFFIX: Record<string, ScalarKind> = { f: 'f32', h: 'f16', i: 'i32', u: 'u32' };
+
+/**
+ * Resolves a type name with already-resolved template arguments. Returns null
+ * for names that are not built-in types.
+ */
+export const resolveTypeName = (name: string, args: (WgslType | number | null)[]): WgslType | null => {
+  if (name === 'f32' || name === 'f16' || name === 'i32' || name === 'u32' || name === 'bool') return scalar(name);
+
+  let m = name.match(/^vec([234])([fhiu])?$/);
+  if (m) {
+    const elem = m[2] ? SHORTHAND_SUFFIX[m[2]] : (args[0] as WgslType | undefined)?.kind === 'scalar' ? (args[0] as { scalar: ScalarKind }).scalar : null;
+    return elem ? vector(Number(m[1]), elem) : vector(Number(m[1]), 'abstract-float');
+  }
+
+  m = name.match(/^mat([234])x([234])([fh])?$/);
+  if (m) {
+    const elem = m[3] ? SHORTHAND_SUFFIX[m[3]] : (args[0] as WgslType | undefined)?.kind === 'scalar' ? (args[0] as { scalar: ScalarKind }).scalar : 'f32';
+    return matrix(Number(m[1]), Number(m[2]), elem);
+  }
+
+  if (name === 'array') {
+    const element = args[0];
+    if (!element || typeof element === 'number') return { kind: 'array', element: UNKNOWN, length: null };
+    const length = typeof args[1] === 'number' ? args[1] : null;
+    return { kind: 'array', element, length };
+  }
+
+  if (/^(?:ptr|atomic|sampler|sampler_comparison|texture_\w+)$/.test(name)) return UNKNOWN;
+  return null;
+};
+
+// -- Builtin functions --
+
+/** An overload resolver: returns the result type for the argument types, or null if none applies. */
+export type Builtin = (args: WgslType[]) => WgslType | null;
+
+const arity = (n: number, fn: Builtin): Builtin => args => (args.length === n ? fn(args) : null);
+
+/** Unifies all arguments to one type, which must satisfy `pred`. */
+const sameType = (args: WgslType[], pred: (t: WgslType) => boolean): WgslType | null => {
+  let t: WgslType | null = args[0];
+  for (const a of args.slice(1)) {
+    if (!t) return null;
+    t = unify(t, a);
+  }
+  return t && (t.kind === 'unknown' || pred(t)) ? t : null;
+};
+
+const floatish = (t: WgslType) => isComponentwise(t, isFloatScalar);
+const numeric = (t: WgslType) => isComponentwise(t, isNumericScalar);
+const floatVector = (t: WgslType) => t.kind === 'vector' && isFloatScalar(t.scalar);
+
+const componentScalar = (t: WgslType): WgslType => (t.kind === 'vector' ? scalar(t.scalar) : t);
+
+const floatUnary: Builtin = arity(1, args => sameType(args, floatish));
+const numericUnary: Builtin = arity(1, args => sameType(args, numeric));
+const floatBinary: Builtin = arity(2, args => sameType(args, floatish));
+const numericBinary: Builtin = arity(2, args => sameType(args, numeric));
+const floatTernary: Builtin = arity(3, args => sameType(args, floatish));
+
+export const BUILTINS: Record<string, Builtin> = {
+  // Component-wise float functions
+  ...Object.fromEntries([
+    'sin', 'cos', 'tan', 'asin', 'acos', 'atan', 'sinh', 'cosh', 'tanh', 'asinh', 'acosh', 'atanh',
+    'exp', 'exp2', 'log', 'log2', 'sqrt', 'inverseSqrt', 'fract', 'floor', 'ceil', 'round', 'trunc',
+    'saturate', 'degrees', 'radians', 'dpdx', 'dpdy', 'fwidth', 'dpdxCoarse', 'dpdyCoarse', 'dpdxFine', 'dpdyFine',
+    'fwidthCoarse', 'fwidthFine',
+  ].map(name => [name, floatUnary])),
+  abs: numericUnary,
+  sign: numericUnary,
+  pow: floatBinary,
+  atan2: floatBinary,
+  step: floatBinary,
+  min: numericBinary,
+  max: numericBinary,
+  clamp: arity(3, args => sameType(args, numeric)),
+  smoothstep: floatTernary,
+  fma: floatTernary,
+  mix: arity(3, ([a, b, t]) => {
+    const ab = sameType([a, b], floatish);
+    if (!ab) return null;
+    if (canConvert(t, ab)) return ab;
+    return ab.kind === 'vector' && t.kind === 'scalar' && isFloatScalar(t.scalar) ? ab : null;
+  }),
+  // Geometric
+  length: arity(1, ([x]) => (floatish(x) ? componentScalar(x) : x.kind === 'unknown' ? UNKNOWN : null)),
+  distance: arity(2, args => {
+    const t = sameType(args, floatish);
+    return t ? componentScalar(t) : null;
+  }),
+  dot: arity(2, args => {
+    const t = sameType(args, v => v.kind === 'vector' && isNumericScalar(v.scalar));
+    return t ? componentScalar(t) : null;
+  }),
+  cross: arity(2, args => sameType(args, v => floatVector(v) && (v as { size: number }).size === 3)),
+  normalize: arity(1, args => sameType(args, floatVector)),
+  reflect: arity(2, args => sameType(args, floatVector)),
+  faceForward: arity(3, args => sameType(args, floatVector)),
+  refract: arity(3, ([e, n, eta]) => {
+    const t = sameType([e, n], floatVector);
+    return t && (eta.kind === 'unknown' || canConvert(eta, componentScalar(t))) ? t : null;
+  }),
+  // Logical
+  select: arity(3, ([f, t, cond]) => {
+    const ft = unify(f, t);
+    const condOk = cond.kind === 'unknown' || scalarOf(cond) === 'bool';
+    return ft && condOk ? ft : null;
+  }),
+  any: arity(1, ([x]) => (scalarOf(x) === 'bool' || x.kind === 'unknown' ? BOOL : null)),
+  all: arity(1, ([x]) => (scalarOf(x) === 'bool' || x.kind === 'unknown' ? BOOL : null)),
+  // Matrices
+  determinant: arity(1, ([m]) => (m.kind === 'matrix' && m.cols === m.rows ? scalar(m.scalar) : m.kind === 'unknown' ? UNKNOWN : null)),
+  transpose: arity(1, ([m]) => (m.kind === 'matrix' ? matrix(m.rows, m.cols, m.scalar) : m.kind === 'unknown' ? UNKNOWN : null)),
+  // Textures: handles are untyped, so only the argument counts of the texture_2d<f32> overloads are checked
+  textureSample: args => (args.length === 3 || args.length === 4 ? vector(4, 'f32') : null),
+  textureSampleLevel: args => (args.length === 4 || args.length === 5 ? vector(4, 'f32') : null),
+  textureSampleBias: args => (args.length === 4 || args.length === 5 ? vector(4, 'f32') : null),
+  textureLoad: arity(3, () => vector(4, 'f32')),
+  textureDimensions: args => (args.length === 1 || args.length === 2 ? vector(2, 'u32') : null),
+};
+
+// -- Operators --
+
+const ARITHMETIC = new Set(['+', '-', '*', '/', '%']);
+const COMPARISON = new Set(['==', '!=', '<', '>', '<=', '>=']);
+const BITWISE = new Set(['&', '|', '^']);
+
+/** Result type of `left op right`, or null when WGSL rejects the combination. */
+export const binaryResult = (op: string, left: WgslType, right: WgslType): WgslType | null => {
+  if (left.kind === 'unknown' || right.kind === 'unknown') return UNKNOWN;
+
+  if (op === '&&' || op === '||') {
+    return scalarOf(left) === 'bool' && left.kind === 'scalar' && unify(left, right) ? BOOL : null;
+  }
+
+  if (COMPARISON.has(op)) {
+    const t = unify(left, right);
+    if (!t || (t.kind !== 'scalar' && t.kind !== 'vector')) return null;
+    if ((op !== '==' && op !== '!=') && !isNumericScalar(t.scalar)) return null;
+    return t.kind === 'vector' ? vector(t.size, 'bool') : BOOL;
+  }
+
+  if (BITWISE.has(op)) {
+    const t = unify(left, right);
+    if (!t || (t.kind !== 'scalar' && t.kind !== 'vector')) return null;
+    return isIntScalar(t.scalar) || t.scalar === 'bool' ? t : null;
+  }
+
+  if (op === '<<' || op === '>>') {
+    return isComponentwise(left, isIntScalar) && isComponentwise(right, s => s === 'u32' || s === 'abstract-int') ? left : null;
+  }
+
+  if (!ARITHMETIC.has(op)) return null;
+
+  // Matrix algebra
+  if (left.kind === 'matrix' || right.kind === 'matrix') {
+    if (op === '+' || op === '-') {
+      const t = unify(left, right);
+      return t && t.kind === 'matrix' ? t : null;
+    }
+    if (op !== '*') return null;
+    if (left.kind === 'matrix' && right.kind === 'matrix') {
+      return left.cols === right.rows ? matrix(right.cols, left.rows, left.scalar) : null;
+    }
+    if (left.kind === 'matrix' && right.kind === 'vector') {
+      return left.cols === right.size ? vector(left.rows, left.scalar) : null;
+    }
+    if (left.kind === 'vector' && right.kind === 'matrix') {
+      return left.size === right.rows ? vector(right.cols, right.scalar) : null;
+    }
+    const [m, s] = left.kind === 'matrix' ? [left, right] : [right, left];
+    return s.kind === 'scalar' && isFloatScalar(s.scalar) ? m : null;
+  }
+
+  if ((left.kind !== 'scalar' && left.kind !== 'vector') || (right.kind !== 'scalar' && right.kind !== 'vector')) return null;
+  if (!isNumericScalar(left.scalar) || !isNumericScalar(right.scalar)) return null;
+
+  // Vector op scalar broadcasts the scalar
+  if (left.kind === 'vector' && right.kind === 'scalar') {
+    const s = unify(scalar(left.scalar), right);
+    return s && s.kind === 'scalar' ? vector(left.size, s.scalar) : null;
+  }
+  if (left.kind === 'scalar' && right.kind === 'vector') {
+    const s = unify(left, scalar(right.scalar));
+    return s && s.kind === 'scalar' ? vector(right.size, s.scalar) : null;
+  }
+  return unify(left, right);
+};
+
+export const unaryResult = (op: string, operand: WgslType): WgslType | null => {
+  if (operand.kind === 'unknown') return UNKNOWN;
+  switch (op) {
+    case '-': {
+      const s = scalarOf(operand);
+      return s && s !== 'bool' && s !== 'u32' ? operand : null;
+    }
+    case '!': return isComponentwise(operand, s => s === 'bool') ? operand : null;
+    case '~': return isComponentwise(operand, isIntScalar) ? operand : null;
+    default: return UNKNOWN; // `&` and `*` involve pointers, which are out of scope
+  }
+};
+
+const SWIZZLE_SETS = ['xyzw', 'rgba'];
+
+/** Result of `.member` on a vector, or null for an invalid swizzle. */
+export const swizzleResult = (vec: WgslType & { kind: 'vector' }, member: string): WgslType | null => {
+  if (member.length < 1 || member.length > 4) return null;
+  const set = SWIZZLE_SETS.find(letters => [...member].every(c => letters.includes(c)));
+  if (!set || [...member].some(c => set.indexOf(c) >= vec.size)) return null;
+  return member.length === 1 ? scalar(vec.scalar) : vector(member.length, vec.scalar);
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { PRESETS } from '../../constants';
+import { validateFragment } from './validator';
+
+/** A fragment shader whose entry point runs `body`, after the declarations in `decls`. */
+const fragment = (body: string, decls = '') =>
+  `${decls}\n@fragment\nfn main(@location(0) uv: vec2<f32>) -> @location(0) vec4<f32> {\n    ${body}\n}\n`;
+
+const errorsOf = (code: string) => validateFragment(code).messages.filter(m => m.type === 'error').map(m => m.message);
+
+describe('validateFragment', () => {
+  it.each(PRESETS.map(p => [p.name, p.code]))('accepts %s', (_, code) => {
+    expect(errorsOf(code)).toEqual([]);
+  });
+
+  it.each([
+    ['assignment to a let', fragment('let a = 1.0; a = 2.0; return vec4<f32>(a);'), "Cannot assign to 'a'; only a var can be assigned"],
+    ['assignment to a parameter', fragment('uv = vec2<f32>(); return vec4<f32>(uv, 0.0, 1.0);'), "Cannot assign to 'uv'; only a var can be assigned"],
+    ['increment of a const', fragment('const n = 1; n++; return vec4<f32>(f32(n));'), "Cannot assign to 'n'; only a var can be assigned"],
+    ['a missing return', fragment('return vec4<f32>(f(uv.x));', 'fn f(x: f32) -> f32 { if (x > 0.0) { return x; } }'), "Function 'f' must return f32 on every path"],
+    ['a loop that breaks before returning', fragment('loop { if (uv.x > 0.5) { break; } return vec4<f32>(1.0); }'), "Function 'main' must return vec4<f32> on every path"],
+    ['a constant index past a vector', fragment('return vec4<f32>(uv[5]);'), 'Index 5 is out of bounds for vec2<f32>'],
+    ['a constant index past an array', fragment('var a: array<f32, 4>; return vec4<f32>(a[7]);'), 'Index 7 is out of bounds for array<f32, 4>'],
+    ['a negative constant index', fragment('return vec4<f32>(uv[-1]);'), 'Index -1 is out of bounds for vec2<f32>'],
+    ['constant integer division by zero', fragment('let n = 1 / 0; return vec4<f32>(f32(n));'), 'Integer division by zero'],
+    ['a runtime integer divided by a constant zero', fragment('let n = i32(uv.x) / 0; return vec4<f32>(f32(n));'), 'Integer division by zero'],
+    ['a runtime integer vector divided by a constant zero', fragment('let n = vec2<i32>(uv) % (-0); return vec4<f32>(vec2<f32>(n), 0.0, 1.0);'), 'Integer remainder by zero'],
+    ['constant integer remainder by zero', fragment('let n = 7i % (0); return vec4<f32>(f32(n));'), 'Integer remainder by zero'],
+  ])('rejects %s', (_, code, message) => {
+    expect(errorsOf(code)).toContain(message);
+  });
+
+  it.each([
+    ['assignment through a var, a pointer and an index', fragment('var v = vec4<f32>(0.0); v[3] = 1.0; set(&v.x); return v;', 'fn set(p: ptr<function, f32>) { *p = 1.0; }')],
+    ['a var shadowing a let', fragment('let a = 1.0; { var a = 2.0; a = 3.0; } return vec4<f32>(a);')],
+    ['returns on both branches', fragment('if (uv.x > 0.5) { return vec4<f32>(1.0); } else { return vec4<f32>(0.0); }')],
+    ['a loop that only leaves by returning', fragment('loop { if (uv.x > 0.5) { return vec4<f32>(1.0); } }')],
+    ['a float division by a constant zero', fragment('return vec4<f32>(uv.x / 0.0);')],
+  ])('accepts %s', (_, code) => {
+    expect(errorsOf(code)).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+import { CompilationMessage } from '../../types';
+import { VERTEX_ATTRIBUTES, VERTEX_ENTRY_POINT, parseGeometry } from '../geometryService';
+import { isolatePass, splitPasses } from '../renderGraph';
+import { isComputeModule, stageBindings, wrapFragmentSource } from '../shaderSource';
+import { Attribute, FunctionDecl, Module, Node, TypeRef } from './ast';
+import { WgslSyntaxError, lineColumn } from './lexer';
+import { parse } from './parser';
+import { print } from './printer';
+import { TypeInfo, checkModule } from './typeChecker';
+import { UNKNOWN, typeToString } from './typeSystem';
+
+/**
+ * OFFLINE WGSL VALIDATOR
+ *
+ * Approximates what `createShaderModule` + `getCompilationInfo` would report,
+ * without a GPU: the fragment is wrapped exactly like `ShaderCanvas` does,
+ * then parsed, type-checked and matched against the pipeline layout.
+ * Messages are positioned in the wrapped module, as the browser does.
+ * Multi-pass shaders are validated pass by pass (see `renderGraph`);
+ * compute shaders against the compute pipeline's storage buffers. Custom
+ * vertex stages are checked against the mesh attributes and the fragment
+ * inputs they feed (see `geometryService`).
+ */
+
+export interface ValidationResult {
+  ok: boolean;
+  source: string; // The wrapped module that was validated; the image pass's for multi-pass shaders
+  messages: CompilationMessage[];
+}
+
+const ENTRY_POINT = 'main';
+
+// WebGPU's default limits on workgroup dimensions and invocations per workgroup
+const MAX_WORKGROUP_SIZE = [256, 256, 64];
+const MAX_WORKGROUP_INVOCATIONS = 256;
+
+const messageAt = (source: string, offset: number, length: number, message: string): CompilationMessage => {
+  const { line, column } = lineColumn(source, offset);
+  return { type: 'error', message, lineNum: line, linePos: column, offset, length };
+};
+
+const messageFor = (source: string, node: Node, message: string): CompilationMessage => {
+  const range = node.range ?? { start: 0, end: 0 };
+  return messageAt(source, range.start, range.end - range.start, message);
+};
+
+const intAttr = (attrs: Attribute[], name: string): number | null => {
+  const attr = attrs.find(a => a.name === name);
+  const arg = attr?.args[0];
+  return arg && arg.kind === 'Literal' ? parseInt(arg.text, 10) : null;
+};
+
+/** A compute entry point needs a `@workgroup_size` within the device limits. */
+const checkWorkgroupSize = (entry: FunctionDecl, source: string, messages: CompilationMessage[]): void => {
+  const attr = entry.attrs.find(a => a.name === 'workgroup_size');
+  if (!attr) {
+    messages.push(messageFor(source, entry, `@compute entry point '${ENTRY_POINT}' needs a @workgroup_size`));
+    return;
+  }
+  const dims = attr.args.map(arg => (arg.kind === 'Literal' ? parseInt(arg.text, 10) : null));
+  // Sizes given by constants are left to the GPU compiler
+  if (dims.some(d => d === null)) return;
+  const sizes = dims as number[];
+  if (sizes.some((d, i) => d < 1 || d > MAX_WORKGROUP_SIZE[i])) {
+    messages.push(messageFor(source, attr, `Workgroup dimensions must be between 1 and ${MAX_WORKGROUP_SIZE.join(', ')}`));
+  } else if (sizes.reduce((a, b) => a * b, 1) > MAX_WORKGROUP_INVOCATIONS) {
+    messages.push(messageFor(source, attr, `A workgroup may have at most ${MAX_WORKGROUP_INVOCATIONS} invocations`));
+  }
+};
+
+// What `BASE_VERTEX_SHADER` passes on to the fragment stage
+const BASE_VERTEX_OUTPUTS = new Map([[0, 'vec2<f32>']]);
+
+interface StageSlot {
+  node: Node;
+  location: number | null;
+  builtin: string | null;
+  type: string;
+  interpolate: string; // Printed @interpolate arguments; empty for the default
+}
+
+const typeText = (type: TypeRef): string => print(type).replace(/\s+/g, '');
+
+/** The inputs or outputs one parameter or return value stands for: a struct's members, or itself. */
+const stageSlots = (module: Module, node: Node, attrs: Attribute[], type: TypeRef): StageSlot[] => {
+  const struct = module.decls.find(d => d.kind === 'Struct' && d.name === type.name);
+  if (struct && struct.kind === 'Struct') return struct.members.flatMap(m => stageSlots(module, m, m.attrs, m.type));
+  const builtin = attrs.find(a => a.name === 'builtin')?.args[0];
+  const interpolate = attrs.find(a => a.name === 'interpolate');
+  return [{
+    node,
+    location: intAttr(attrs, 'location'),
+    builtin: builtin ? print(builtin) : null,
+    type: typeText(type),
+    interpolate: interpolate ? interpolate.args.map(a => print(a)).join(',') : '',
+  }];
+};
+
+const inputSlots = (module: Module, fn: FunctionDecl): StageSlot[] =>
+  fn.params.flatMap(p => stageSlots(module, p, p.attrs, p.type));
+
+const outputSlots = (module: Module, fn: FunctionDecl): StageSlot[] =>
+  fn.returnType ? stageSlots(module, fn.returnType, fn.returnAttrs, fn.returnType) : [];
+
+/**
+ * A custom vertex stage reads the mesh attributes and must produce a
+ * position plus every `@location` the fragment entry point reads, with the
+ * same type and interpolation. Without one, the fragment entry point may
+ * only read what `BASE_VERTEX_SHADER` produces.
+ */
+const checkVertexStage = (module: Module, fragment: FunctionDecl | undefined, source: string, messages: CompilationMessage[]): void => {
+  const stages = module.decls.filter((d): d is FunctionDecl => d.kind === 'Function' && d.attrs.some(a => a.name === 'vertex'));
+  for (const fn of stages) {
+    if (fn.name !== VERTEX_ENTRY_POINT) messages.push(messageFor(source, fn, `@vertex entry point must be named '${VERTEX_ENTRY_POINT}'`));
+  }
+  const vertex = stages.find(fn => fn.name === VERTEX_ENTRY_POINT);
+
+  let outputs: Map<number, StageSlot | string> = BASE_VERTEX_OUTPUTS;
+  if (vertex) {
+    for (const slot of inputSlots(module, vertex)) {
+      if (slot.location === null) continue;
+      const attribute = VERTEX_ATTRIBUTES.find(a => a.location === slot.location);
+      if (!attribute) {
+        const available = VERTEX_ATTRIBUTES.map(a => `${a.location} (${a.name})`).join(', ');
+        messages.push(messageFor(source, slot.node, `Meshes have no vertex attribute at @location(${slot.location}); available: ${available}`));
+      } else if (slot.type !== attribute.type) {
+        messages.push(messageFor(source, slot.node, `Vertex attribute @location(${slot.location}) (${attribute.name}) is ${attribute.type}, found ${slot.type}`));
+      }
+    }
+    const produced = outputSlots(module, vertex);
+    if (!produced.some(o => o.builtin === 'position')) {
+      messages.push(messageFor(source, vertex, `@vertex entry point '${VERTEX_ENTRY_POINT}' must output @builtin(position)`));
+    }
+    outputs = new Map(produced.filter(o => o.location !== null).map(o => [o.location!, o]));
+  }
+  if (!fragment) return;
+
+  for (const input of inputSlots(module, fragment)) {
+    if (input.location === null) continue;
+    const output = outputs.get(input.location);
+    const where = `Fragment input @location(${input.location})`;
+    if (!output) {
+      messages.push(messageFor(source, input.node, `${where} is not produced by the vertex stage`));
+      continue;
+    }
+    const [type, interpolate] = typeof output === 'string' ? [output, ''] : [output.type, output.interpolate];
+    if (input.type !== type) {
+      messages.push(messageFor(source, input.node, `${where} is ${input.type}, but the vertex stage outputs ${type}`));
+    } else if (input.interpolate !== interpolate) {
+      messages.push(messageFor(source, input.node, `${where} must use the same @interpolate as the vertex stage output`));
+    }
+  }
+};
+
+/** Checks the module against the entry point and bind group layout the renderer uses. */
+const checkInterface = (module: Module, info: TypeInfo, source: string, messages: CompilationMessage[]): void => {
+  const entry = module.decls.find((d): d is FunctionDecl => d.kind === 'Function' && d.name === ENTRY_POINT);
+  const compute = isComputeModule(module);
+  const stage = compute ? 'compute' : 'fragment';
+  if (!entry || !entry.attrs.some(a => a.name === stage)) {
+    messages.push(messageAt(source, 0, 0, `Missing @${stage} entry point '${ENTRY_POINT}'`));
+  } else if (compute) {
+    checkWorkgroupSize(entry, source, messages);
+  }
+  if (!compute) checkVertexStage(module, entry, source, messages);
+
+  for (const decl of module.decls) {
+    if (decl.kind !== 'VarDecl') continue;
+    const binding = intAttr(decl.attrs, 'binding');
+    if (binding === null) continue;
+
+    const group = intAttr(decl.attrs, 'group');
+    const expected = stageBindings(module).find(b => b.binding === binding);
+    if (group !== 0 || !expected) {
+      messages.push(messageFor(source, decl, `Binding @group(${group}) @binding(${binding}) is not provided by the pipeline layout`));
+      continue;
+    }
+    if (expected.resource === 'uniform') {
+      const declared = typeToString(info.globals.get(decl.name) ?? UNKNOWN);
+      if (decl.template[0] !== 'uniform' || declared !== expected.type) {
+        messages.push(messageFor(source, decl, `@binding(${binding}) must be var<uniform> of type ${expected.type}, found ${declared}`));
+      }
+    } else if (expected.resource === 'storage') {
+      // Atomics are opaque to the checker, so compare the written type
+      const declared = decl.type ? print(decl.type).replace(/\s+/g, '') : 'nothing';
+      const access = decl.template[1] ?? 'read';
+      if (decl.template[0] !== 'storage' || access !== expected.access || declared !== expected.type) {
+        messages.push(messageFor(source, decl, `@binding(${binding}) must be var<storage, ${expected.access}> of type ${expected.type}, found ${declared}`));
+      }
+    } else {
+      // Textures and samplers are handles the checker does not model, so compare the written type
+      const declared = decl.type ? print(decl.type).replace(/\s+/g, '') : 'nothing';
+      if (decl.template.length > 0 || declared !== expected.type) {
+        messages.push(messageFor(source, decl, `@binding(${binding}) must be a var of type ${expected.type}, found ${declared}`));
+      }
+    }
+  }
+};
+
+/** Parses, type-checks and interface-checks one wrapped module. */
+const validateModule = (source: string): CompilationMessage[] => {
+  const messages: CompilationMessage[] = [];
+
+  let module: Module;
+  try {
+    module = parse(source);
+  } catch (e) {
+    if (e instanceof WgslSyntaxError) {
+      messages.push(messageAt(source, e.offset, 1, e.message));
+      return messages;
+    }
+    throw e;
+  }
+
+  const info = checkModule(module, false);
+  for (const d of info.diagnostics) messages.push(messageFor(source, d.node, d.message));
+  checkInterface(module, info, source, messages);
+  return messages;
+};
+
+export const validateFragment = (fragmentCode: string): ValidationResult => {
+  const layout = splitPasses(fragmentCode);
+  // Blanked passes keep their offsets, so the whole wrapped source positions marker issues too
+  const wrapped = wrapFragmentSource(fragmentCode);
+  const fragmentOffset = wrapped.length - fragmentCode.length;
+  const markerIssues = [...layout.issues, ...parseGeometry(fragmentCode).issues]
+    .map(issue => messageAt(wrapped, fragmentOffset + issue.offset, issue.length, issue.message));
+  if (!layout.multiPass) {
+    const messages = [...markerIssues, ...validateModule(wrapped)].sort((a, b) => a.offset - b.offset);
+    return { ok: messages.every(m => m.type !== 'error'), source: wrapped, messages };
+  }
+
+  const messages = markerIssues;
+  let source = wrapped;
+  for (const pass of layout.passes) {
+    source = wrapFragmentSource(isolatePass(fragmentCode, pass));
+    for (const m of validateModule(source)) messages.push({ ...m, message: `${pass.name}: ${m.message}` });
+  }
+
+  messages.sort((a, b) => a.offset - b.offset);
+  return { ok: messages.every(m => m.type !== 'error'), source, messages };
+};
@@ -0,0 +1,69 @@
+/**
+ * ZIP WRITER
+ *
+ * Just enough ZIP to bundle exported files in the browser: entries are
+ * stored uncompressed, since PNGs are compressed already, and dated
+ * 1980-01-01 so the same files always make the same archive.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let c = 0xffffffff;
+  for (const byte of bytes) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const DOS_DATE = (0 << 9) | (1 << 5) | 1; // 1980-01-01
+const DOS_TIME = 0;
+
+/** Little-endian fields, written in order: [value, byte length]. */
+const fields = (...values: [number, 2 | 4][]): Uint8Array => {
+  const bytes = new Uint8Array(values.reduce((n, [, size]) => n + size, 0));
+  const view = new DataView(bytes.buffer);
+  let at = 0;
+  for (const [value, size] of values) {
+    if (size === 2) view.setUint16(at, value, true);
+    else view.setUint32(at, value, true);
+    at += size;
+  }
+  return bytes;
+};
+
+/** A ZIP archive of `entries`, in order. Names are stored as UTF-8. */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = new TextEncoder().encode(entry.name);
+    const crc = crc32(entry.data);
+    // Version 2.0, UTF-8 names, stored, time, date, crc, sizes, name length, no extra field
+    const common: [number, 2 | 4][] = [
+      [20, 2], [0x0800, 2], [0, 2], [DOS_TIME, 2], [DOS_DATE, 2],
+      [crc, 4], [entry.data.length, 4], [entry.data.length, 4], [name.length, 2], [0, 2],
+    ];
+    const local = fields([0x04034b50, 4], ...common);
+    parts.push(local, name, entry.data);
+    // Made by 2.0, then the local fields, no comment, disk 0, no attributes, where the entry starts
+    directory.push(fields([0x02014b50, 4], [20, 2], ...common, [0, 2], [0, 2], [0, 2], [0, 4], [offset, 4]), name);
+    offset += local.length + name.length + entry.data.length;
+  }
+
+  const directorySize = directory.reduce((n, part) => n + part.length, 0);
+  const end = fields(
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+    [directorySize, 4], [offset, 4], [0, 2],
+  );
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
@@ -7,19 +7,198 @@ export interface LogEntry {
 }
 
 export interface FuzzConfig {
-  mutateNumbers: boolean;
-  mutateOperators: boolean;
-  mutateBuiltins: boolean;
-  mutateGeometry: boolean; // Coordinate space warping (UVs)
-  mutateColor: boolean;    // Color palette and post-processing
-  mutateChaos: boolean;    // Random code injection and structural changes
-  mutateStructure: boolean; // NEW: Ability to completely replace the visual algorithm
-  intensity: number;       // 0 to 1
+  mutators: Record<string, boolean>; // Enabled state by mutator id; ids not listed use the mutator's default
+  intensity: number;                 // 0 to 1
+  pass?: string;                     // Only mutate this pass of a multi-pass shader; all passes when unset
 }
 
-export type PresetName = 'Triangle' | 'Gradient' | 'Plasma' | 'Grid';
+export type PresetName = 'Triangle' | 'Gradient' | 'Plasma' | 'Grid' | 'Pointer' | 'Textured' | 'Reaction' | 'Compute' | 'Mesh';
 
 export interface ShaderPreset {
   name: PresetName;
   code: string;
 }
+
+/**
+ * One edit made by a mutator. `offset` and `length` locate `oldText` in the
+ * code as it stood just before that mutator ran; applying a pass's changes
+ * in order turns the input into the output.
+ */
+export interface MutationChange {
+  mutator: string; // Registry id
+  offset: number;
+  length: number;
+  oldText: string;
+  newText: string;
+}
+
+export interface FuzzResult {
+  code: string;
+  seed: number; // Seed the pass ran with; replaying it reproduces `code` exactly
+  changes: MutationChange[];
+}
+
+/** A run of changed lines between two versions of a shader; line numbers are 0-based. */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: string[];
+  newStart: number;
+  newLines: string[];
+  mutators: string[]; // Ids of the mutators that produced it; empty when unknown
+}
+
+export type CrossoverStrategy = 'channels' | 'subexpression' | 'statements';
+
+export interface CrossoverResult {
+  code: string;
+  seed: number;
+  strategy: CrossoverStrategy | null; // null when no viable swap was found and `code` is the first parent
+}
+
+export type CompileStatus = 'pending' | 'ok' | 'error';
+
+export interface HistoryNode {
+  id: string;
+  parentId: string | null;
+  origin: 'preset' | 'edit' | 'mutation' | 'reduction' | 'finding' | 'evolution' | 'breeding' | 'permalink' | 'import';
+  label: string;
+  code: string;
+  config: FuzzConfig | null; // Config of the pass that produced this node (mutations only)
+  seed: number | null;
+  changes: MutationChange[] | null; // What the pass changed, mutator by mutator (mutations only)
+  epoch: number;             // Depth in the lineage; roots are epoch 0
+  compileStatus: CompileStatus;
+  compileError: string | null;
+  fitness: number | null;    // Visual fitness score in [0, 1], once rendered offscreen
+  createdAt: number;
+}
+
+export interface HistoryState {
+  nodes: Record<string, HistoryNode>;
+  rootIds: string[];
+  currentId: string | null;
+  redoStack: string[]; // Nodes stepped back from via undo, most recent last
+  nextId: number;
+}
+
+/** Mirrors `GPUCompilationMessage`, so local and GPU diagnostics share one shape. */
+export interface CompilationMessage {
+  type: 'error' | 'warning' | 'info';
+  message: string;
+  lineNum: number;  // 1-based, relative to the full module handed to the compiler until `toFragmentMessages`
+  linePos: number;  // 1-based
+  offset: number;
+  length: number;
+}
+
+export interface FitnessSettings {
+  autoReject: boolean; // Re-roll mutants scoring below the threshold
+  threshold: number;   // 0 to 1
+}
+
+/** What a differential test compares: the GPU against the CPU, or a shader against one of its rewrites. */
+export type DifferentialMode = 'backends' | 'fold' | 'inline';
+export type DifferentialBackend = 'gpu' | 'cpu';
+
+export interface DifferentialSettings {
+  enabled: boolean;            // Test every shader that compiles, once
+  mode: DifferentialMode;
+  backend: DifferentialBackend; // Evaluates both sides of a rewrite test
+}
+
+/** Per-frame inputs behind the uniforms in `UNIFORM_BINDINGS`; `aspect` is derived from `resolution`. */
+export interface UniformValues {
+  time: number;                               // Seconds
+  timeDelta: number;                          // Seconds since the previous frame
+  frame: number;
+  resolution: [number, number];               // Pixels
+  mouse: [number, number, number, number];    // UV position, button held (0/1), time of the last press
+  date: [number, number, number, number];     // Year, month (1-12), day, seconds since midnight
+}
+
+/** Pixels behind one of the `channelN` textures: a loaded image or generated noise. */
+export interface ChannelImage {
+  label: string;
+  width: number;
+  height: number;
+  pixels: Uint8ClampedArray; // RGBA8, row-major, top row first
+}
+
+/** A rendered image read back from the GPU (or any other renderer). */
+export interface Frame {
+  width: number;
+  height: number;
+  pixels: Float32Array; // RGBA, row-major
+}
+
+/** Receives rendered frames in order; a renderer waits for a returned promise before drawing on. */
+export type FrameSink = (frame: Frame, index: number) => void | Promise<void>;
+
+/** An image stored with a finding: RGBA8, row-major, top row first, base64-encoded. */
+export interface FindingImage {
+  width: number;
+  height: number;
+  data: string;
+}
+
+/** Why a shader that compiles was recorded: two evaluators disagreed about it. */
+export interface DifferentialEvidence {
+  mode: DifferentialMode;
+  expected: string;               // Label of the side taken as correct, e.g. `cpu` or `gpu original`
+  actual: string;
+  summary: string;                // One line, e.g. `12.5% of pixels differ at t=1.5`
+  rewrittenSource: string | null; // The rewrite compared against `source`, for rewrite modes
+  time: number | null;            // Frame the images come from; null for compute shaders
+  images: { expected: FindingImage; actual: FindingImage; heatmap: FindingImage } | null;
+}
+
+/** Raw diagnostics of a failed compile or pipeline build. */
+export interface CompileFailure {
+  messages: CompilationMessage[]; // From `getCompilationInfo`
+  scopeError: string | null;      // `popErrorScope` error or exception text, if any
+}
+
+/** A failing shader, as stored in the findings database. */
+export interface Finding extends CompileFailure {
+  id: string;                // Signature hash + source hash; recording the same failure twice is a no-op
+  signature: string;         // Normalized error signature the finding is grouped by
+  source: string;            // Fragment code as written by the user/fuzzer, without the preamble
+  seed: number | null;
+  config: FuzzConfig | null;
+  parentSource: string | null; // Code the failing mutation was applied to
+  label: string;
+  messages: CompilationMessage[];
+  scopeError: string | null;
+  origin: 'browser' | 'campaign';
+  createdAt: number;
+  differential?: DifferentialEvidence; // Set for mismatches found by differential testing
+}
+
+/** Everything needed to pick a session back up, as saved by name or exported to a file. */
+export interface Project {
+  format: 'aether-fuzz-project';
+  version: number;
+  name: string;
+  savedAt: number;
+  code: string;        // Editor contents, which may be ahead of the current node
+  config: FuzzConfig;
+  seed: number | null; // Pinned seed, if any
+  history: HistoryState;
+  findings: Finding[];
+}
+
+/** What a permalink carries: just enough to show the same shader. */
+export interface SharedShader {
+  code: string;
+  config: FuzzConfig;
+  seed: number | null;     // Pinned seed, if any
+  lastSeed: number | null; // Seed of the mutation that made the shader, kept on its lineage node
+}
+
+export interface FindingGroup {
+  signature: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  findings: Finding[]; // Most recent first
+}